@@ -4,30 +4,78 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { HelmetProvider } from "react-helmet-async";
+import { PatientRepositoryProvider } from "@/contexts/PatientRepositoryContext";
+import { AuthProvider } from "@/contexts/AuthContext";
+import { ClinicProvider } from "@/contexts/ClinicContext";
+import { ReminderDispatcher } from "@/components/reminders/ReminderDispatcher";
+import { RequireAuth } from "@/components/auth/RequireAuth";
+import { AppLayout } from "@/components/layout/AppLayout";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import LoginPage from "./pages/auth/LoginPage";
+import ForgotPasswordPage from "./pages/auth/ForgotPasswordPage";
+import ResetPasswordPage from "./pages/auth/ResetPasswordPage";
 import PatientListPage from "./pages/patients/PatientListPage";
 import PatientFormPage from "./pages/patients/PatientFormPage";
+import PatientMergePage from "./pages/patients/PatientMergePage";
+import PatientTrashPage from "./pages/patients/PatientTrashPage";
+import PatientImportPage from "./pages/patients/PatientImportPage";
+import AppointmentListPage from "./pages/appointments/AppointmentListPage";
+import AppointmentFormPage from "./pages/appointments/AppointmentFormPage";
+import AppointmentDetailPage from "./pages/appointments/AppointmentDetailPage";
+import AgendaPage from "./pages/agenda/AgendaPage";
+import ReminderListPage from "./pages/reminders/ReminderListPage";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <HelmetProvider>
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/patients" element={<PatientListPage />} />
-            <Route path="/patients/new" element={<PatientFormPage />} />
-            <Route path="/patients/:id/edit" element={<PatientFormPage />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <AuthProvider>
+        <ClinicProvider>
+          <PatientRepositoryProvider>
+            <TooltipProvider>
+              <Toaster />
+              <Sonner />
+              <ReminderDispatcher />
+              <BrowserRouter>
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/login" element={<LoginPage />} />
+                  <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+                  <Route path="/reset-password" element={<ResetPasswordPage />} />
+                  {/* Rotas com dados de pacientes exigem login */}
+                  <Route element={<RequireAuth />}>
+                    <Route element={<AppLayout />}>
+                      <Route path="/patients" element={<PatientListPage />} />
+                      <Route element={<RequireAuth permission={["create", "patient"]} />}>
+                        <Route path="/patients/new" element={<PatientFormPage />} />
+                        <Route path="/patients/import" element={<PatientImportPage />} />
+                      </Route>
+                      <Route element={<RequireAuth permission={["update", "patient"]} />}>
+                        <Route path="/patients/:id/edit" element={<PatientFormPage />} />
+                      </Route>
+                      <Route element={<RequireAuth permission={["merge", "patient"]} />}>
+                        <Route path="/patients/merge" element={<PatientMergePage />} />
+                      </Route>
+                      <Route element={<RequireAuth permission={["restore", "patient"]} />}>
+                        <Route path="/patients/trash" element={<PatientTrashPage />} />
+                      </Route>
+                      <Route path="/appointments" element={<AppointmentListPage />} />
+                      <Route path="/appointments/new" element={<AppointmentFormPage />} />
+                      <Route path="/appointments/:id" element={<AppointmentDetailPage />} />
+                      <Route path="/agenda" element={<AgendaPage />} />
+                      <Route path="/reminders" element={<ReminderListPage />} />
+                    </Route>
+                  </Route>
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </TooltipProvider>
+          </PatientRepositoryProvider>
+        </ClinicProvider>
+      </AuthProvider>
     </QueryClientProvider>
   </HelmetProvider>
 );
@@ -0,0 +1,72 @@
+import type { CSSProperties } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ACTIVE_APPOINTMENT_STATUSES, APPOINTMENT_STATUS_LABELS, type Appointment } from "@/types/appointment";
+
+export const AGENDA_DRAG_TYPE = "application/x-mediconnect-appointment";
+
+const STATUS_CLASSES: Record<Appointment["status"], string> = {
+  scheduled: "bg-secondary text-secondary-foreground border-secondary-foreground/20",
+  confirmed: "bg-primary text-primary-foreground border-primary",
+  completed: "bg-emerald-100 text-emerald-900 border-emerald-300",
+  cancelled: "bg-muted text-muted-foreground line-through",
+  no_show: "bg-destructive/10 text-destructive border-destructive/40",
+};
+
+interface AgendaEventProps {
+  appointment: Appointment;
+  patientName?: string;
+  conflict: boolean;
+  compact?: boolean;
+  className?: string;
+  style?: CSSProperties;
+  onClick: () => void;
+}
+
+// Bloco de agendamento na agenda; ativos podem ser arrastados para reagendar
+export function AgendaEvent({ appointment, patientName, conflict, compact, className, style, onClick }: AgendaEventProps) {
+  const draggable = ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status);
+  const start = parseISO(appointment.start_at);
+  const title = [
+    `${format(start, "HH:mm")} - ${format(parseISO(appointment.end_at), "HH:mm")}`,
+    patientName ?? "Paciente",
+    appointment.professional_name,
+    APPOINTMENT_STATUS_LABELS[appointment.status],
+    conflict ? "Conflito: outro agendamento do mesmo profissional neste horário" : null,
+  ]
+    .filter(Boolean)
+    .join(" • ");
+
+  return (
+    <button
+      type="button"
+      title={title}
+      draggable={draggable}
+      onDragStart={(e) => {
+        e.dataTransfer.setData(AGENDA_DRAG_TYPE, appointment.id!);
+        e.dataTransfer.effectAllowed = "move";
+      }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      className={cn(
+        "w-full overflow-hidden rounded-md border px-2 py-1 text-left text-xs",
+        draggable ? "cursor-grab active:cursor-grabbing" : "cursor-pointer",
+        STATUS_CLASSES[appointment.status],
+        conflict && "ring-2 ring-destructive ring-offset-1",
+        className
+      )}
+      style={style}
+    >
+      <span className="flex items-center gap-1 font-medium">
+        {conflict && <AlertTriangle className="h-3 w-3 shrink-0 text-destructive" aria-label="Conflito de horário" />}
+        <span className="truncate">
+          {format(start, "HH:mm")} {patientName ?? "Paciente"}
+        </span>
+      </span>
+      {!compact && <span className="block truncate opacity-80">{appointment.professional_name}</span>}
+    </button>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import {
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import type { Appointment } from "@/types/appointment";
+import type { Patient } from "@/types/patient";
+import { AGENDA_DRAG_TYPE, AgendaEvent } from "./AgendaEvent";
+
+const MAX_EVENTS_PER_DAY = 3;
+
+interface AgendaMonthGridProps {
+  month: Date;
+  appointments: Appointment[];
+  patients?: Record<string, Patient>;
+  conflicts: Set<string>;
+  onDayClick: (day: Date) => void;
+  onEventClick: (appointment: Appointment) => void;
+  // Arrastar para outro dia mantém o horário original
+  onEventDrop: (appointmentId: string, day: Date) => void;
+}
+
+export function AgendaMonthGrid({
+  month,
+  appointments,
+  patients,
+  conflicts,
+  onDayClick,
+  onEventClick,
+  onEventDrop,
+}: AgendaMonthGridProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+  });
+
+  return (
+    <div className="rounded-md border">
+      <div className="grid grid-cols-7">
+        {days.slice(0, 7).map((d) => (
+          <div key={d.toISOString()} className="border-b px-2 py-2 text-center text-sm font-medium capitalize">
+            {format(d, "EEE", { locale: ptBR })}
+          </div>
+        ))}
+        {days.map((day) => {
+          const key = day.toISOString();
+          const items = appointments.filter((a) => isSameDay(parseISO(a.start_at), day));
+          const hidden = items.length - MAX_EVENTS_PER_DAY;
+          return (
+            <div
+              key={key}
+              role="button"
+              tabIndex={0}
+              aria-label={`Ver agenda de ${format(day, "dd/MM/yyyy")}`}
+              className={cn(
+                "min-h-[110px] space-y-1 border-b border-l p-1 text-left hover:bg-accent/40 focus:outline-none focus:ring-2 focus:ring-ring",
+                !isSameMonth(day, month) && "bg-muted/40 text-muted-foreground",
+                dropTarget === key && "bg-accent"
+              )}
+              onClick={() => onDayClick(day)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" || e.key === " ") {
+                  e.preventDefault();
+                  onDayClick(day);
+                }
+              }}
+              onDragOver={(e) => {
+                if (!e.dataTransfer.types.includes(AGENDA_DRAG_TYPE)) return;
+                e.preventDefault();
+                setDropTarget(key);
+              }}
+              onDragLeave={() => setDropTarget((t) => (t === key ? null : t))}
+              onDrop={(e) => {
+                e.preventDefault();
+                setDropTarget(null);
+                const id = e.dataTransfer.getData(AGENDA_DRAG_TYPE);
+                if (id) onEventDrop(id, day);
+              }}
+            >
+              <div className={cn("text-xs font-medium", isToday(day) && "text-primary")}>{format(day, "d")}</div>
+              {items.slice(0, MAX_EVENTS_PER_DAY).map((a) => (
+                <AgendaEvent
+                  key={a.id}
+                  appointment={a}
+                  patientName={patients?.[a.patient_id]?.full_name}
+                  conflict={conflicts.has(a.id!)}
+                  compact
+                  onClick={() => onEventClick(a)}
+                />
+              ))}
+              {hidden > 0 && <div className="px-1 text-xs text-muted-foreground">+{hidden} agendamento(s)</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
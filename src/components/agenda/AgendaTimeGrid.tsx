@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { addMinutes, differenceInMinutes, format, isSameDay, isToday, parseISO, set } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { cn } from "@/lib/utils";
+import type { Appointment } from "@/types/appointment";
+import type { Patient } from "@/types/patient";
+import { AGENDA_DRAG_TYPE, AgendaEvent } from "./AgendaEvent";
+
+// Expediente exibido por padrão; a grade se estende quando há agendamentos fora dele
+export const DAY_START_HOUR = 7;
+export const DAY_END_HOUR = 20;
+export const SLOT_MINUTES = 30;
+const SLOT_HEIGHT = 40; // px
+
+interface AgendaTimeGridProps {
+  days: Date[];
+  appointments: Appointment[];
+  patients?: Record<string, Patient>;
+  conflicts: Set<string>;
+  onSlotClick: (start: Date) => void;
+  onEventClick: (appointment: Appointment) => void;
+  onEventDrop: (appointmentId: string, start: Date) => void;
+}
+
+// Distribui agendamentos simultâneos em colunas lado a lado
+function assignLanes(items: Appointment[]) {
+  const lanes: number[] = []; // término (ms) do último item de cada coluna
+  const laneOf = new Map<string, number>();
+  const sorted = [...items].sort((a, b) => parseISO(a.start_at).getTime() - parseISO(b.start_at).getTime());
+  for (const a of sorted) {
+    const start = parseISO(a.start_at).getTime();
+    let lane = lanes.findIndex((end) => end <= start);
+    if (lane < 0) lane = lanes.push(0) - 1;
+    lanes[lane] = parseISO(a.end_at).getTime();
+    laneOf.set(a.id!, lane);
+  }
+  return { laneOf, laneCount: Math.max(1, lanes.length) };
+}
+
+// Horas exibidas: o expediente, ampliado para incluir os agendamentos dos dias visíveis
+// (um agendamento que passa da meia-noite vai até o fim da grade)
+function visibleHours(days: Date[], appointments: Appointment[]) {
+  let startHour = DAY_START_HOUR;
+  let endHour = DAY_END_HOUR;
+  for (const a of appointments) {
+    const start = parseISO(a.start_at);
+    if (!days.some((day) => isSameDay(start, day))) continue;
+    const end = parseISO(a.end_at);
+    const endMinutes = isSameDay(end, start) ? end.getHours() * 60 + end.getMinutes() : 24 * 60;
+    startHour = Math.min(startHour, start.getHours());
+    endHour = Math.max(endHour, Math.ceil(endMinutes / 60));
+  }
+  return { startHour, endHour };
+}
+
+// Visão de dia/semana: colunas por dia e linhas por intervalo de SLOT_MINUTES
+export function AgendaTimeGrid({
+  days,
+  appointments,
+  patients,
+  conflicts,
+  onSlotClick,
+  onEventClick,
+  onEventDrop,
+}: AgendaTimeGridProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const { startHour, endHour } = visibleHours(days, appointments);
+  const slotsPerDay = ((endHour - startHour) * 60) / SLOT_MINUTES;
+  const columnHeight = slotsPerDay * SLOT_HEIGHT;
+  const slots = Array.from({ length: slotsPerDay }, (_, i) => i * SLOT_MINUTES);
+
+  return (
+    <div className="overflow-x-auto rounded-md border">
+      <div className="grid min-w-[640px]" style={{ gridTemplateColumns: `4rem repeat(${days.length}, minmax(0, 1fr))` }}>
+        {/* Cabeçalho */}
+        <div className="border-b" />
+        {days.map((day) => (
+          <div
+            key={day.toISOString()}
+            className={cn("border-b border-l px-2 py-2 text-center text-sm font-medium capitalize", isToday(day) && "text-primary")}
+          >
+            {format(day, "EEE dd/MM", { locale: ptBR })}
+          </div>
+        ))}
+
+        {/* Coluna de horários */}
+        <div>
+          {slots.map((minutes) => (
+            <div key={minutes} className="pr-2 text-right text-xs text-muted-foreground" style={{ height: SLOT_HEIGHT }}>
+              {minutes % 60 === 0 ? `${String(startHour + minutes / 60).padStart(2, "0")}:00` : ""}
+            </div>
+          ))}
+        </div>
+
+        {days.map((day) => {
+          const dayStart = set(day, { hours: startHour, minutes: 0, seconds: 0, milliseconds: 0 });
+          const items = appointments.filter((a) => isSameDay(parseISO(a.start_at), day));
+          const { laneOf, laneCount } = assignLanes(items);
+          return (
+            <div key={day.toISOString()} className="relative border-l" style={{ height: columnHeight }}>
+              {slots.map((minutes) => {
+                const slotStart = addMinutes(dayStart, minutes);
+                const key = slotStart.toISOString();
+                return (
+                  <button
+                    key={key}
+                    type="button"
+                    aria-label={`Agendar em ${format(slotStart, "dd/MM/yyyy HH:mm")}`}
+                    className={cn(
+                      "block w-full border-b border-dashed hover:bg-accent/60",
+                      minutes % 60 === 0 && "border-solid",
+                      dropTarget === key && "bg-accent"
+                    )}
+                    style={{ height: SLOT_HEIGHT }}
+                    onClick={() => onSlotClick(slotStart)}
+                    onDragOver={(e) => {
+                      if (!e.dataTransfer.types.includes(AGENDA_DRAG_TYPE)) return;
+                      e.preventDefault();
+                      setDropTarget(key);
+                    }}
+                    onDragLeave={() => setDropTarget((t) => (t === key ? null : t))}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      setDropTarget(null);
+                      const id = e.dataTransfer.getData(AGENDA_DRAG_TYPE);
+                      if (id) onEventDrop(id, slotStart);
+                    }}
+                  />
+                );
+              })}
+
+              {items.map((a) => {
+                const start = parseISO(a.start_at);
+                const top = (differenceInMinutes(start, dayStart) / SLOT_MINUTES) * SLOT_HEIGHT;
+                const height = Math.min(
+                  columnHeight - top,
+                  Math.max(SLOT_HEIGHT / 2, (differenceInMinutes(parseISO(a.end_at), start) / SLOT_MINUTES) * SLOT_HEIGHT)
+                );
+                const lane = laneOf.get(a.id!) ?? 0;
+                return (
+                  <AgendaEvent
+                    key={a.id}
+                    appointment={a}
+                    patientName={patients?.[a.patient_id]?.full_name}
+                    conflict={conflicts.has(a.id!)}
+                    compact={height < SLOT_HEIGHT}
+                    className="absolute"
+                    style={{
+                      top,
+                      height,
+                      left: `calc(${(lane / laneCount) * 100}% + 2px)`,
+                      width: `calc(${100 / laneCount}% - 4px)`,
+                    }}
+                    onClick={() => onEventClick(a)}
+                  />
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
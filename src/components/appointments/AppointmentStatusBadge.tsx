@@ -0,0 +1,19 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { APPOINTMENT_STATUS_LABELS, type AppointmentStatus } from "@/types/appointment";
+
+const STATUS_CLASSES: Record<AppointmentStatus, string> = {
+  scheduled: "bg-secondary text-secondary-foreground",
+  confirmed: "bg-primary text-primary-foreground",
+  completed: "bg-emerald-600 text-white",
+  cancelled: "bg-muted text-muted-foreground line-through",
+  no_show: "bg-destructive text-destructive-foreground",
+};
+
+export function AppointmentStatusBadge({ status, className }: { status: AppointmentStatus; className?: string }) {
+  return (
+    <Badge className={cn("border-transparent hover:opacity-90", STATUS_CLASSES[status], className)}>
+      {APPOINTMENT_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
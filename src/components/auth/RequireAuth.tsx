@@ -0,0 +1,37 @@
+import type { ReactNode } from "react";
+import { Link, Navigate, Outlet, useLocation } from "react-router-dom";
+import { useSession } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import type { PermissionAction, PermissionResource } from "@/lib/permissions";
+
+interface RequireAuthProps {
+  // Permissão exigida além do login (ex.: ["merge", "patient"])
+  permission?: [PermissionAction, PermissionResource];
+  children?: ReactNode;
+}
+
+// Protege as rotas filhas: sem sessão, redireciona para o login e volta à página pedida depois
+export function RequireAuth({ permission, children }: RequireAuthProps) {
+  const { session, loading } = useSession();
+  const { can } = usePermissions();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center text-sm text-muted-foreground">
+        Verificando sessão...
+      </div>
+    );
+  }
+  if (!session) return <Navigate to="/login" replace state={{ from: location }} />;
+  if (permission && !can(...permission)) {
+    return (
+      <div className="container mx-auto py-16 text-center space-y-2">
+        <h1 className="text-2xl font-semibold">Acesso não permitido</h1>
+        <p className="text-muted-foreground">Seu perfil de acesso não permite abrir esta página.</p>
+        <Link to="/patients" className="text-sm underline">Voltar para Pacientes</Link>
+      </div>
+    );
+  }
+  return <>{children ?? <Outlet />}</>;
+}
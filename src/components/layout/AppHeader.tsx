@@ -0,0 +1,104 @@
+import { Link, NavLink, useLocation, useNavigate } from "react-router-dom";
+import { Building2, LogOut, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useActiveClinic } from "@/hooks/use-active-clinic";
+import { cn } from "@/lib/utils";
+import { ROLE_LABELS } from "@/lib/permissions";
+
+const NAV_ITEMS = [
+  { to: "/patients", label: "Pacientes" },
+  { to: "/agenda", label: "Agenda" },
+  { to: "/appointments", label: "Agendamentos" },
+  { to: "/reminders", label: "Lembretes" },
+];
+
+// Atalho exibido no botão da paleta de comandos
+const PALETTE_SHORTCUT = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform) ? "⌘K" : "Ctrl+K";
+
+export function AppHeader({ onOpenCommandPalette }: { onOpenCommandPalette?: () => void }) {
+  const { session, signOut } = useAuth();
+  const { clinics, activeClinic, setActiveClinic } = useActiveClinic();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  // Páginas de um registro específico não existem na outra clínica: volta para a listagem da seção
+  const handleClinicChange = (clinicId: string) => {
+    if (clinicId === activeClinic?.id) return;
+    setActiveClinic(clinicId);
+    const section = NAV_ITEMS.find((item) => location.pathname.startsWith(item.to));
+    if (section && location.pathname !== section.to) navigate(section.to);
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      navigate("/login", { replace: true });
+    } catch (e) {
+      toast({ title: "Erro ao sair", description: (e as Error)?.message ?? "" });
+    }
+  };
+
+  return (
+    <header className="border-b bg-background">
+      <div className="container mx-auto flex h-14 items-center justify-between gap-4">
+        <div className="flex items-center gap-6">
+          <Link to="/" className="font-semibold">MediConnect</Link>
+          <nav className="flex items-center gap-4 text-sm">
+            {NAV_ITEMS.map((item) => (
+              <NavLink
+                key={item.to}
+                to={item.to}
+                className={({ isActive }) =>
+                  cn("text-muted-foreground transition-colors hover:text-foreground", isActive && "text-foreground font-medium")
+                }
+              >
+                {item.label}
+              </NavLink>
+            ))}
+          </nav>
+        </div>
+        <div className="flex items-center gap-3">
+          {onOpenCommandPalette && (
+            <Button variant="outline" size="sm" className="h-8 text-muted-foreground" onClick={onOpenCommandPalette}>
+              <Search className="mr-2 h-4 w-4" />
+              Buscar
+              <kbd className="ml-3 rounded border bg-muted px-1.5 font-mono text-[10px]">{PALETTE_SHORTCUT}</kbd>
+            </Button>
+          )}
+          {clinics.length > 1 ? (
+            <Select value={activeClinic?.id} onValueChange={handleClinicChange}>
+              <SelectTrigger className="h-8 w-[220px]" aria-label="Clínica ativa">
+                <Building2 className="mr-2 h-4 w-4 shrink-0" />
+                <SelectValue placeholder="Selecione a clínica" />
+              </SelectTrigger>
+              <SelectContent>
+                {clinics.map((c) => (
+                  <SelectItem key={c.id} value={c.id}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            activeClinic && (
+              <span className="flex items-center text-sm text-muted-foreground">
+                <Building2 className="mr-2 h-4 w-4" /> {activeClinic.name}
+              </span>
+            )
+          )}
+          <span className="text-sm text-muted-foreground">
+            {session?.user.name ?? session?.user.email}
+            {session?.user.role && ` · ${ROLE_LABELS[session.user.role]}`}
+          </span>
+          <Button variant="ghost" size="sm" onClick={handleSignOut}>
+            <LogOut className="mr-2 h-4 w-4" /> Sair
+          </Button>
+        </div>
+      </div>
+    </header>
+  );
+}
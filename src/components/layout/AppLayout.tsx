@@ -0,0 +1,37 @@
+import { useState } from "react";
+import { Outlet } from "react-router-dom";
+import { useActiveClinic } from "@/hooks/use-active-clinic";
+import { usePatientTrashRetention } from "@/hooks/use-trash-retention";
+import { AppHeader } from "./AppHeader";
+import { CommandPalette } from "./CommandPalette";
+
+// Estrutura das páginas autenticadas: cabeçalho com navegação e usuário, conteúdo da rota abaixo.
+// As páginas só são exibidas com uma clínica ativa, já que todos os dados são da clínica.
+// A paleta de comandos (Ctrl/Cmd+K) fica disponível em todas elas.
+export function AppLayout() {
+  const { activeClinic, loading, error } = useActiveClinic();
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  usePatientTrashRetention(activeClinic?.id);
+
+  let content = <Outlet />;
+  if (loading) {
+    content = <div className="py-16 text-center text-sm text-muted-foreground">Carregando clínicas...</div>;
+  } else if (!activeClinic) {
+    content = (
+      <div className="container mx-auto py-16 text-center space-y-2">
+        <h1 className="text-2xl font-semibold">Nenhuma clínica disponível</h1>
+        <p className="text-muted-foreground">
+          {error ? `Não foi possível carregar suas clínicas: ${error.message}` : "Seu usuário não está vinculado a nenhuma clínica."}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader onOpenCommandPalette={activeClinic ? () => setPaletteOpen(true) : undefined} />
+      <main key={activeClinic?.id}>{content}</main>
+      {activeClinic && <CommandPalette key={activeClinic.id} open={paletteOpen} onOpenChange={setPaletteOpen} />}
+    </div>
+  );
+}
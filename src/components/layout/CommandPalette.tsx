@@ -0,0 +1,351 @@
+import { useEffect, useMemo, useState, type KeyboardEvent as ReactKeyboardEvent } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ArrowLeft,
+  Bell,
+  CalendarDays,
+  CalendarPlus,
+  Eye,
+  GitMerge,
+  ListChecks,
+  Pencil,
+  Trash2,
+  Upload,
+  User,
+  UserPlus,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
+import { PatientSearchHint, SearchHighlight } from "@/components/patients/SearchHighlight";
+import { useToast } from "@/hooks/use-toast";
+import { useSession } from "@/hooks/use-auth";
+import { useActiveClinic, useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { usePatientsById } from "@/hooks/use-patients-by-id";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { usePermissions } from "@/hooks/use-permissions";
+import { maskCPF } from "@/lib/brDocuments";
+import { normalizeText } from "@/lib/utils";
+import type { PermissionAction, PermissionResource } from "@/lib/permissions";
+import { forgetCommand, listRecentCommands, rememberCommand, type RecentCommand } from "@/lib/recentCommands";
+import type { Patient } from "@/types/patient";
+
+interface PaletteRoute {
+  path: string;
+  label: string;
+  // Outros termos que encontram a rota ("consulta" -> Agendamentos)
+  keywords: string[];
+  icon: LucideIcon;
+  permission?: [PermissionAction, PermissionResource];
+}
+
+const ROUTES: PaletteRoute[] = [
+  { path: "/patients", label: "Pacientes", keywords: ["lista", "cadastros"], icon: Users },
+  { path: "/patients/new", label: "Novo paciente", keywords: ["cadastrar", "criar"], icon: UserPlus, permission: ["create", "patient"] },
+  { path: "/patients/import", label: "Importar pacientes", keywords: ["planilha", "csv", "xlsx"], icon: Upload, permission: ["create", "patient"] },
+  { path: "/agenda", label: "Agenda", keywords: ["calendário", "dia", "semana"], icon: CalendarDays },
+  { path: "/appointments", label: "Agendamentos", keywords: ["consultas", "atendimentos"], icon: ListChecks },
+  { path: "/appointments/new", label: "Novo agendamento", keywords: ["marcar", "consulta"], icon: CalendarPlus },
+  { path: "/reminders", label: "Lembretes", keywords: ["whatsapp", "sms", "e-mail"], icon: Bell },
+  { path: "/patients/merge", label: "Mesclar cadastros", keywords: ["duplicados", "unificar"], icon: GitMerge, permission: ["merge", "patient"] },
+  { path: "/patients/trash", label: "Lixeira de pacientes", keywords: ["excluídos", "restaurar"], icon: Trash2, permission: ["restore", "patient"] },
+];
+
+// Mínimo de caracteres para buscar pacientes
+const MIN_SEARCH_LENGTH = 2;
+const PATIENT_RESULTS = 8;
+
+// Tela atual da paleta: busca geral, ações do paciente escolhido ou confirmação da exclusão
+type PalettePage = { kind: "root" } | { kind: "patient"; patient: Patient } | { kind: "confirm-delete"; patient: Patient };
+
+const ROOT: PalettePage = { kind: "root" };
+
+type RecentItem = { key: string; patient: Patient } | { key: string; route: PaletteRoute };
+
+const matchesRoute = (route: PaletteRoute, term: string) =>
+  !term || normalizeText([route.label, ...route.keywords].join(" ")).includes(normalizeText(term));
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Paleta de comandos (Ctrl/Cmd+K): busca de pacientes, atalhos para as telas e ações sobre o paciente escolhido.
+// Toda a operação funciona pelo teclado: setas, Enter, Backspace (campo vazio) volta e Esc fecha.
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  const { user } = useSession();
+  const { activeClinic } = useActiveClinic();
+  const { listPatients, deletePatient, restorePatient } = usePatientsService();
+  const { can } = usePermissions();
+  const clinicKey = useClinicQueryKey();
+
+  const [page, setPage] = useState<PalettePage>(ROOT);
+  const [search, setSearch] = useState("");
+  const term = useDebouncedValue(search, 250).trim();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [open, onOpenChange]);
+
+  // Sempre reabre na busca geral
+  useEffect(() => {
+    if (!open) {
+      setPage(ROOT);
+      setSearch("");
+    }
+  }, [open]);
+
+  const canSearchPatients = can("read", "patient");
+  const { data: found, isFetching } = useQuery({
+    queryKey: clinicKey("patients", "palette", term),
+    queryFn: () =>
+      listPatients({ search: term, pageSize: PATIENT_RESULTS, sortBy: "relevance", sortDirection: "desc" }),
+    enabled: open && canSearchPatients && page.kind === "root" && term.length >= MIN_SEARCH_LENGTH,
+    staleTime: 10_000,
+  });
+
+  const recent = useMemo(
+    () => (open && user && activeClinic ? listRecentCommands(user.id, activeClinic.id) : []),
+    [open, user, activeClinic]
+  );
+  const { data: recentPatients } = usePatientsById(
+    canSearchPatients ? recent.filter((r) => r.kind === "patient").map((r) => r.ref) : []
+  );
+
+  const remember = (command: RecentCommand) => {
+    if (user && activeClinic) rememberCommand(user.id, activeClinic.id, command);
+  };
+
+  const go = (path: string) => {
+    onOpenChange(false);
+    navigate(path);
+  };
+
+  const openRoute = (route: PaletteRoute) => {
+    remember({ kind: "route", ref: route.path });
+    go(route.path);
+  };
+
+  const selectPatient = (patient: Patient) => {
+    remember({ kind: "patient", ref: patient.id! });
+    setSearch("");
+    setPage({ kind: "patient", patient });
+  };
+
+  const back = () => {
+    setSearch("");
+    setPage(page.kind === "confirm-delete" ? { kind: "patient", patient: page.patient } : ROOT);
+  };
+
+  const restoreMut = useMutation({
+    mutationFn: async (id: string) => restorePatient(id),
+    onSuccess: async () => {
+      toast({ title: "Paciente restaurado" });
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao restaurar paciente", description: err?.message ?? "" });
+    },
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: async (id: string) => deletePatient(id),
+    onSuccess: async (_, id) => {
+      if (user && activeClinic) forgetCommand(user.id, activeClinic.id, { kind: "patient", ref: id });
+      onOpenChange(false);
+      toast({
+        title: "Paciente movido para a lixeira",
+        action: (
+          <ToastAction altText="Desfazer exclusão" onClick={() => restoreMut.mutate(id)}>
+            Desfazer
+          </ToastAction>
+        ),
+      });
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao excluir paciente", description: err?.message ?? "" });
+    },
+  });
+
+  const handleInputKeyDown = (e: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Backspace" && !search && page.kind !== "root") {
+      e.preventDefault();
+      back();
+    }
+  };
+
+  const allowedRoutes = ROUTES.filter((r) => !r.permission || can(...r.permission));
+  const visibleRoutes = allowedRoutes.filter((r) => matchesRoute(r, search.trim()));
+  const recentItems = recent.flatMap((r): RecentItem[] => {
+    if (r.kind === "patient") {
+      const patient = recentPatients?.[r.ref];
+      return patient ? [{ key: `recent-patient:${r.ref}`, patient }] : [];
+    }
+    const route = allowedRoutes.find((item) => item.path === r.ref);
+    return route ? [{ key: `recent-route:${r.ref}`, route }] : [];
+  });
+  const patients = term.length >= MIN_SEARCH_LENGTH ? (found?.data ?? []) : [];
+
+  const placeholder =
+    page.kind === "root"
+      ? canSearchPatients
+        ? "Buscar paciente (nome, CPF, telefone...) ou ir para uma tela"
+        : "Ir para uma tela"
+      : "Filtrar ações";
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} commandProps={{ shouldFilter: page.kind !== "root", loop: true }}>
+      <DialogTitle className="sr-only">Paleta de comandos</DialogTitle>
+      <DialogDescription className="sr-only">
+        Busque pacientes, abra telas e execute ações usando apenas o teclado
+      </DialogDescription>
+      <CommandInput placeholder={placeholder} value={search} onValueChange={setSearch} onKeyDown={handleInputKeyDown} />
+      <CommandList>
+        <CommandEmpty>
+          {page.kind === "root" && isFetching ? "Buscando pacientes..." : "Nenhum resultado encontrado."}
+        </CommandEmpty>
+
+        {page.kind === "root" && (
+          <>
+            {!search.trim() && recentItems.length > 0 && (
+              <CommandGroup heading="Recentes">
+                {recentItems.map((item) =>
+                  "patient" in item ? (
+                    <CommandItem key={item.key} value={item.key} onSelect={() => selectPatient(item.patient)}>
+                      <User className="mr-2 h-4 w-4" />
+                      {item.patient.full_name}
+                      <CommandShortcut>{maskCPF(item.patient.cpf)}</CommandShortcut>
+                    </CommandItem>
+                  ) : (
+                    <CommandItem key={item.key} value={item.key} onSelect={() => openRoute(item.route)}>
+                      <item.route.icon className="mr-2 h-4 w-4" />
+                      {item.route.label}
+                    </CommandItem>
+                  )
+                )}
+              </CommandGroup>
+            )}
+
+            {patients.length > 0 && (
+              <CommandGroup heading="Pacientes">
+                {patients.map((p) => (
+                  <CommandItem key={p.id} value={`patient:${p.id}`} onSelect={() => selectPatient(p)}>
+                    <User className="mr-2 h-4 w-4 shrink-0" />
+                    <div className="min-w-0">
+                      <div className="truncate">
+                        <SearchHighlight text={p.full_name} search={term} />
+                      </div>
+                      <PatientSearchHint patient={p} search={term} />
+                    </div>
+                    <CommandShortcut>{maskCPF(p.cpf)}</CommandShortcut>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {visibleRoutes.length > 0 && (
+              <>
+                {(patients.length > 0 || (!search.trim() && recentItems.length > 0)) && <CommandSeparator />}
+                <CommandGroup heading="Ir para">
+                  {visibleRoutes.map((route) => (
+                    <CommandItem key={route.path} value={`route:${route.path}`} onSelect={() => openRoute(route)}>
+                      <route.icon className="mr-2 h-4 w-4" />
+                      {route.label}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              </>
+            )}
+          </>
+        )}
+
+        {page.kind === "patient" && (
+          <CommandGroup heading={page.patient.full_name}>
+            <CommandItem onSelect={() => go(`/patients?paciente=${page.patient.id}`)}>
+              <Eye className="mr-2 h-4 w-4" />
+              Ver detalhes
+            </CommandItem>
+            {can("update", "patient") && (
+              <CommandItem onSelect={() => go(`/patients/${page.patient.id}/edit`)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Editar cadastro
+              </CommandItem>
+            )}
+            <CommandItem onSelect={() => go(`/appointments/new?patientId=${page.patient.id}`)}>
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Agendar consulta
+            </CommandItem>
+            {can("merge", "patient") && (
+              <CommandItem onSelect={() => go(`/patients/merge?survivor=${page.patient.id}`)}>
+                <GitMerge className="mr-2 h-4 w-4" />
+                Mesclar com outro cadastro
+              </CommandItem>
+            )}
+            {can("delete", "patient") && (
+              <CommandItem
+                className="text-destructive"
+                onSelect={() => {
+                  setSearch("");
+                  setPage({ kind: "confirm-delete", patient: page.patient });
+                }}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Excluir
+              </CommandItem>
+            )}
+            <CommandItem onSelect={back}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Voltar
+              <CommandShortcut>⌫</CommandShortcut>
+            </CommandItem>
+          </CommandGroup>
+        )}
+
+        {page.kind === "confirm-delete" && (
+          <CommandGroup heading={`Excluir ${page.patient.full_name}?`}>
+            <CommandItem
+              className="text-destructive"
+              disabled={deleteMut.isPending}
+              onSelect={() => deleteMut.mutate(page.patient.id!)}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Mover para a lixeira
+            </CommandItem>
+            <CommandItem onSelect={back}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Cancelar
+              <CommandShortcut>⌫</CommandShortcut>
+            </CommandItem>
+          </CommandGroup>
+        )}
+      </CommandList>
+      <div className="border-t px-3 py-2 text-xs text-muted-foreground">
+        ↑↓ navegar · Enter selecionar · ⌫ voltar · Esc fechar
+      </div>
+    </CommandDialog>
+  );
+}
@@ -0,0 +1,68 @@
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, ExternalLink } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { maskCPF } from "@/lib/brDocuments";
+import { DUPLICATE_REASON_LABELS, type DuplicateMatch } from "@/lib/patientDuplicates";
+
+interface DuplicatePatientsAlertProps {
+  matches: DuplicateMatch[];
+  onOpen: (patientId: string) => void;
+  // Confirmação de que o cadastro é de outra pessoa (apenas para alertas não bloqueantes)
+  acknowledged: boolean;
+  onAcknowledgedChange: (value: boolean) => void;
+}
+
+export function DuplicatePatientsAlert({ matches, onOpen, acknowledged, onAcknowledgedChange }: DuplicatePatientsAlertProps) {
+  if (matches.length === 0) return null;
+  const blocking = matches.some((m) => m.blocking);
+
+  return (
+    <Alert variant={blocking ? "destructive" : "default"}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>{blocking ? "Paciente já cadastrado" : "Possíveis cadastros duplicados"}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>
+          {blocking
+            ? "Já existe um paciente com este CPF. Abra o cadastro existente em vez de criar um novo."
+            : "Encontramos cadastros semelhantes. Verifique se não se trata do mesmo paciente."}
+        </p>
+        <ul className="space-y-2">
+          {matches.map(({ patient, reasons }) => (
+            <li key={patient.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-foreground">
+              <div>
+                <p className="font-medium">
+                  {patient.full_name}
+                  {patient.deleted_at && <Badge variant="outline" className="ml-2">Na lixeira</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  CPF {maskCPF(patient.cpf)}
+                  {patient.birth_date && ` • Nasc. ${format(parseISO(patient.birth_date), "dd/MM/yyyy")}`}
+                  {" • "}
+                  {reasons.map((r) => DUPLICATE_REASON_LABELS[r]).join(", ")}
+                </p>
+              </div>
+              <Button type="button" variant="outline" size="sm" onClick={() => onOpen(patient.id!)}>
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Abrir cadastro existente
+              </Button>
+            </li>
+          ))}
+        </ul>
+        {!blocking && (
+          <div className="flex items-center gap-2 text-foreground">
+            <Checkbox
+              id="acknowledge-duplicates"
+              checked={acknowledged}
+              onCheckedChange={(v) => onAcknowledgedChange(v === true)}
+            />
+            <Label htmlFor="acknowledge-duplicates">Conferi os cadastros acima e este é um novo paciente</Label>
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
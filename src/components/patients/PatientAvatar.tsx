@@ -0,0 +1,38 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { useFileUrl } from "@/hooks/use-file-url";
+import { cn } from "@/lib/utils";
+import type { Patient } from "@/types/patient";
+
+// Partículas ignoradas nas iniciais ("Maria da Silva" -> "MS")
+const NAME_PARTICLES = new Set(["da", "das", "de", "do", "dos", "e"]);
+
+function getInitials(name: string): string {
+  const words = name
+    .trim()
+    .split(/\s+/)
+    .filter((w) => w && !NAME_PARTICLES.has(w.toLowerCase()));
+  if (words.length === 0) return "?";
+  const first = words[0][0];
+  const last = words.length > 1 ? words[words.length - 1][0] : "";
+  return (first + last).toUpperCase();
+}
+
+interface PatientAvatarProps {
+  patient: Pick<Patient, "full_name" | "social_name" | "photo_url">;
+  className?: string;
+  // Imagem já resolvida (ex.: prévia de uma foto ainda não enviada), no lugar de photo_url
+  src?: string | null;
+}
+
+// Foto do paciente; sem foto (ou enquanto carrega), as iniciais do nome social ou do nome completo
+export function PatientAvatar({ patient, className, src }: PatientAvatarProps) {
+  const { data: photoUrl } = useFileUrl(src ? null : patient.photo_url);
+  const name = patient.social_name || patient.full_name || "";
+  const image = src ?? photoUrl;
+  return (
+    <Avatar className={cn("h-9 w-9", className)}>
+      {image && <AvatarImage src={image} alt={`Foto de ${name}`} className="object-cover" />}
+      <AvatarFallback className="bg-muted text-xs font-medium text-muted-foreground">{getInitials(name)}</AvatarFallback>
+    </Avatar>
+  );
+}
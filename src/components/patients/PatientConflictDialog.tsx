@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { formatPatientFieldValue } from "@/lib/patientFieldFormat";
+import {
+  defaultConflictChoices,
+  resolveThreeWay,
+  threeWayDiff,
+  type ConflictSource,
+} from "@/lib/patientDiff";
+import { PATIENT_FIELD_LABELS, type Patient, type PatientField } from "@/types/patient";
+
+interface PatientConflictDialogProps {
+  open: boolean;
+  // Versão em que a edição se baseou, o que eu salvei e o que está gravado agora
+  original: Patient;
+  mine: Partial<Patient>;
+  theirs: Patient;
+  saving?: boolean;
+  onResolve: (resolved: Partial<Patient>) => void;
+  // Descarta minhas alterações e recarrega a versão atual
+  onDiscardMine: () => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<ConflictSource, string> = {
+  mine: "Minha versão",
+  theirs: "Versão atual",
+};
+
+// Resolução campo a campo de edições simultâneas (original x minha x atual)
+export function PatientConflictDialog({
+  open,
+  original,
+  mine,
+  theirs,
+  saving,
+  onResolve,
+  onDiscardMine,
+  onOpenChange,
+}: PatientConflictDialogProps) {
+  const rows = useMemo(() => threeWayDiff(original, mine, theirs), [original, mine, theirs]);
+  const [choices, setChoices] = useState<Partial<Record<PatientField, ConflictSource>>>({});
+  useEffect(() => setChoices(defaultConflictChoices(rows)), [rows]);
+
+  const display = (field: PatientField, value: unknown) =>
+    formatPatientFieldValue(field, value as Patient[PatientField]);
+  const conflicts = rows.filter((r) => r.conflict).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Cadastro alterado por outra pessoa</DialogTitle>
+          <DialogDescription>
+            O paciente foi salvo em {theirs.updated_at ? format(parseISO(theirs.updated_at), "dd/MM/yyyy 'às' HH:mm") : "—"}{" "}
+            enquanto você editava.{" "}
+            {conflicts > 0
+              ? `${conflicts} campo(s) foram alterados pelos dois lados. Escolha qual valor manter em cada um.`
+              : "As alterações não se sobrepõem; revise e confirme."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto rounded-md border">
+          <div className="grid grid-cols-[minmax(140px,200px)_1fr_1fr_1fr] border-b bg-muted/50 text-sm font-medium">
+            <div className="px-3 py-2">Campo</div>
+            <div className="px-3 py-2">Original</div>
+            <div className="px-3 py-2">{SOURCE_LABELS.mine}</div>
+            <div className="px-3 py-2">{SOURCE_LABELS.theirs}</div>
+          </div>
+          {rows.length === 0 ? (
+            <p className="px-3 py-4 text-sm text-muted-foreground">Nenhum campo editado foi alterado.</p>
+          ) : (
+            rows.map((row) => (
+              <RadioGroup
+                key={row.field}
+                value={choices[row.field] ?? "mine"}
+                onValueChange={(v) => setChoices((prev) => ({ ...prev, [row.field]: v as ConflictSource }))}
+                className="grid grid-cols-[minmax(140px,200px)_1fr_1fr_1fr] gap-0 border-b last:border-b-0 text-sm"
+              >
+                <div className="px-3 py-2 text-muted-foreground">
+                  {PATIENT_FIELD_LABELS[row.field]}
+                  {row.conflict && <Badge variant="destructive" className="ml-2">Conflito</Badge>}
+                </div>
+                <div className="px-3 py-2 break-words text-muted-foreground">{display(row.field, row.original)}</div>
+                {(["mine", "theirs"] as ConflictSource[]).map((source) => {
+                  const inputId = `${row.field}-${source}`;
+                  return (
+                    <Label
+                      key={source}
+                      htmlFor={inputId}
+                      className="flex items-start gap-2 px-3 py-2 font-normal cursor-pointer"
+                    >
+                      <RadioGroupItem id={inputId} value={source} className="mt-0.5" />
+                      <span className="break-words">{display(row.field, row[source])}</span>
+                    </Label>
+                  );
+                })}
+              </RadioGroup>
+            ))
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={onDiscardMine} disabled={saving}>
+            Descartar minhas alterações
+          </Button>
+          <Button type="button" onClick={() => onResolve(resolveThreeWay(rows, choices))} disabled={saving}>
+            {saving ? "Salvando..." : "Salvar versão resolvida"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,438 @@
+import { useRef, useState, type DragEvent } from "react";
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Download, Eye, FileText, Paperclip, Trash2, Upload } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useFileUrl } from "@/hooks/use-file-url";
+import { usePermissions } from "@/hooks/use-permissions";
+import { usePatientDocuments } from "@/hooks/use-patient-documents";
+import { downloadFile } from "@/lib/download";
+import { cn } from "@/lib/utils";
+import {
+  deletePatientDocument,
+  DOCUMENT_EXPIRY_WARNING_DAYS,
+  DOCUMENT_MIME_TYPES,
+  getDocumentExpiryStatus,
+  uploadPatientDocument,
+  validateDocumentFile,
+  type UploadPatientDocumentInput,
+} from "@/services/patientDocumentsService";
+import { resolveFileUrl } from "@/services/fileStorageService";
+import {
+  PATIENT_DOCUMENT_TYPE_LABELS,
+  PATIENT_DOCUMENT_TYPES,
+  type PatientDocument,
+  type PatientDocumentType,
+} from "@/types/patientDocument";
+
+interface PatientDocumentsProps {
+  patientId: string;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1).replace(".", ",")} MB`;
+}
+
+const formatDate = (value: string) => format(parseISO(value), "dd/MM/yyyy");
+
+// Anexos do paciente: envio por arrastar e soltar, prévia, download, exclusão e aviso de validade
+export function PatientDocuments({ patientId }: PatientDocumentsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = usePermissions();
+  const canUpload = can("create", "patient_document");
+  const canDelete = can("delete", "patient_document");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragOver, setDragOver] = useState(false);
+  // Arquivos escolhidos aguardando tipo e datas (um diálogo por arquivo)
+  const [queue, setQueue] = useState<{ id: string; file: File }[]>([]);
+  const [previewing, setPreviewing] = useState<PatientDocument | null>(null);
+  const [deleting, setDeleting] = useState<PatientDocument | null>(null);
+
+  const { data: documents = [], isLoading, isError } = usePatientDocuments(patientId);
+
+  const addFiles = (files: FileList | null | undefined) => {
+    // Copia antes de limpar o campo: a FileList do input é esvaziada junto com ele
+    const selected = Array.from(files ?? []);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    const accepted: { id: string; file: File }[] = [];
+    for (const file of selected) {
+      const invalid = validateDocumentFile(file);
+      if (invalid) toast({ title: `Não foi possível anexar ${file.name}`, description: invalid });
+      else accepted.push({ id: crypto.randomUUID(), file });
+    }
+    setQueue((current) => [...current, ...accepted]);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    if (canUpload) addFiles(e.dataTransfer.files);
+  };
+
+  const uploadMut = useMutation({
+    mutationFn: (input: UploadPatientDocumentInput) => uploadPatientDocument(input),
+    onSuccess: () => {
+      toast({ title: "Documento anexado" });
+      queryClient.invalidateQueries({ queryKey: ["patient_documents"] });
+      setQueue((current) => current.slice(1));
+    },
+    onError: (err: Error) => toast({ title: "Erro ao anexar documento", description: err?.message ?? "" }),
+  });
+
+  const deleteMut = useMutation({
+    mutationFn: (id: string) => deletePatientDocument(id),
+    onSuccess: () => {
+      toast({ title: "Documento excluído" });
+      queryClient.invalidateQueries({ queryKey: ["patient_documents"] });
+    },
+    onError: (err: Error) => toast({ title: "Erro ao excluir documento", description: err?.message ?? "" }),
+    onSettled: () => setDeleting(null),
+  });
+
+  const download = async (document: PatientDocument) => {
+    try {
+      const response = await fetch(await resolveFileUrl(document.file_ref));
+      if (!response.ok) throw new Error("Arquivo não encontrado");
+      downloadFile(await response.blob(), document.file_name, document.mime_type);
+    } catch (e) {
+      toast({ title: "Erro ao baixar documento", description: (e as Error)?.message ?? "" });
+    }
+  };
+
+  const expired = documents.filter((d) => getDocumentExpiryStatus(d) === "expired").length;
+  const expiring = documents.filter((d) => getDocumentExpiryStatus(d) === "expiring").length;
+
+  return (
+    <div className="space-y-4">
+      {(expired > 0 || expiring > 0) && (
+        <Alert variant={expired > 0 ? "destructive" : "default"}>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Documentos com validade a conferir</AlertTitle>
+          <AlertDescription>
+            {[
+              expired > 0 && `${expired} vencido(s)`,
+              expiring > 0 && `${expiring} vencendo nos próximos ${DOCUMENT_EXPIRY_WARNING_DAYS} dias`,
+            ]
+              .filter(Boolean)
+              .join(" e ")}
+            . Solicite a versão atualizada ao paciente.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {canUpload && (
+        <div
+          className={cn(
+            "flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-6 text-center",
+            dragOver && "border-primary bg-muted/50"
+          )}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOver(true);
+          }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={handleDrop}
+        >
+          <Paperclip className="h-8 w-8 text-muted-foreground" />
+          <div>
+            <p className="font-medium">Arraste os arquivos para cá</p>
+            <p className="text-sm text-muted-foreground">
+              Documentos digitalizados, carteirinhas, resultados de exames e termos assinados. PDF, JPEG, PNG ou WebP,
+              até 10 MB cada.
+            </p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={DOCUMENT_MIME_TYPES.join(",")}
+            className="hidden"
+            onChange={(e) => addFiles(e.target.files)}
+          />
+          <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="mr-2 h-4 w-4" />
+            Selecionar arquivos
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Carregando anexos...</p>
+      ) : isError ? (
+        <p className="text-sm text-destructive">Não foi possível carregar os anexos.</p>
+      ) : documents.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nenhum documento anexado a este paciente.</p>
+      ) : (
+        <ul className="grid grid-cols-1 gap-3 md:grid-cols-2">
+          {documents.map((document) => (
+            <li key={document.id} className="flex gap-3 rounded-md border p-3">
+              <button
+                type="button"
+                className="shrink-0 rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                onClick={() => setPreviewing(document)}
+                aria-label={`Visualizar ${document.file_name}`}
+              >
+                <DocumentThumbnail document={document} />
+              </button>
+              <div className="min-w-0 flex-1 space-y-1 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{PATIENT_DOCUMENT_TYPE_LABELS[document.document_type]}</span>
+                  <ExpiryBadge document={document} />
+                </div>
+                {document.description && <p className="text-muted-foreground">{document.description}</p>}
+                <p className="truncate text-xs text-muted-foreground" title={document.file_name}>
+                  {document.file_name} · {formatFileSize(document.size_bytes)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    document.issued_at && `Emitido em ${formatDate(document.issued_at)}`,
+                    document.expires_at && `Válido até ${formatDate(document.expires_at)}`,
+                    document.created_at && `Anexado em ${format(parseISO(document.created_at), "dd/MM/yyyy")}`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              </div>
+              <div className="flex shrink-0 flex-col gap-1">
+                <Button type="button" variant="ghost" size="icon" aria-label="Visualizar" onClick={() => setPreviewing(document)}>
+                  <Eye className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" aria-label="Baixar" onClick={() => download(document)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+                {canDelete && (
+                  <Button type="button" variant="ghost" size="icon" aria-label="Excluir" onClick={() => setDeleting(document)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <DocumentUploadDialog
+        // Um formulário novo para cada arquivo da fila
+        key={queue[0]?.id ?? "empty"}
+        file={queue[0]?.file ?? null}
+        remaining={queue.length}
+        isUploading={uploadMut.isPending}
+        onCancel={() => setQueue((current) => current.slice(1))}
+        onConfirm={(values) => uploadMut.mutate({ ...values, patient_id: patientId, file: queue[0].file })}
+      />
+
+      <DocumentPreviewDialog
+        document={previewing}
+        onOpenChange={(open) => !open && setPreviewing(null)}
+        onDownload={download}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir documento?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleting && `${PATIENT_DOCUMENT_TYPE_LABELS[deleting.document_type]} (${deleting.file_name}). `}O arquivo
+              será removido e não poderá ser recuperado.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleteMut.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                if (deleting?.id) deleteMut.mutate(deleting.id);
+              }}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function ExpiryBadge({ document }: { document: PatientDocument }) {
+  const status = getDocumentExpiryStatus(document);
+  if (status === "expired") return <Badge variant="destructive">Vencido</Badge>;
+  if (status !== "expiring") return null;
+  const days = differenceInCalendarDays(parseISO(document.expires_at!), new Date());
+  return (
+    <Badge variant="outline" className="border-amber-500 text-amber-700">
+      {days === 0 ? "Vence hoje" : `Vence em ${days} dia(s)`}
+    </Badge>
+  );
+}
+
+// Miniatura: a própria imagem ou um ícone para PDFs
+function DocumentThumbnail({ document }: { document: PatientDocument }) {
+  const isImage = document.mime_type.startsWith("image/");
+  const { data: url } = useFileUrl(isImage ? document.file_ref : null);
+  return (
+    <div className="flex h-16 w-16 items-center justify-center overflow-hidden rounded-md border bg-muted">
+      {isImage && url ? (
+        <img src={url} alt="" className="h-full w-full object-cover" />
+      ) : (
+        <FileText className="h-8 w-8 text-muted-foreground" />
+      )}
+    </div>
+  );
+}
+
+function DocumentPreviewDialog({
+  document,
+  onOpenChange,
+  onDownload,
+}: {
+  document: PatientDocument | null;
+  onOpenChange: (open: boolean) => void;
+  onDownload: (document: PatientDocument) => void;
+}) {
+  const { data: url, isLoading, isError } = useFileUrl(document?.file_ref);
+  return (
+    <Dialog open={!!document} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>{document && PATIENT_DOCUMENT_TYPE_LABELS[document.document_type]}</DialogTitle>
+          <DialogDescription>{document?.description || document?.file_name}</DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Carregando arquivo...</p>
+        ) : isError || !url ? (
+          <p className="text-sm text-destructive">Não foi possível abrir o arquivo.</p>
+        ) : document?.mime_type === "application/pdf" ? (
+          <iframe src={url} title={document.file_name} className="h-[70vh] w-full rounded-md border" />
+        ) : (
+          <img src={url} alt={document?.file_name ?? ""} className="mx-auto max-h-[70vh] rounded-md object-contain" />
+        )}
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => document && onDownload(document)}>
+            <Download className="mr-2 h-4 w-4" />
+            Baixar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Tipo e datas do arquivo escolhido. Sem <form>: a aba fica dentro do formulário do paciente e o evento
+// de envio atravessaria o portal do diálogo até ele.
+function DocumentUploadDialog({
+  file,
+  remaining,
+  isUploading,
+  onCancel,
+  onConfirm,
+}: {
+  file: File | null;
+  remaining: number;
+  isUploading: boolean;
+  onCancel: () => void;
+  onConfirm: (values: Omit<UploadPatientDocumentInput, "patient_id" | "file">) => void;
+}) {
+  const [documentType, setDocumentType] = useState<PatientDocumentType>("other");
+  const [description, setDescription] = useState("");
+  const [issuedAt, setIssuedAt] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const datesInvalid = Boolean(issuedAt && expiresAt && expiresAt < issuedAt);
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && !isUploading && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Anexar documento</DialogTitle>
+          <DialogDescription>
+            {file?.name}
+            {remaining > 1 && ` (mais ${remaining - 1} arquivo(s) na fila)`}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="document-type">Tipo</Label>
+            <Select value={documentType} onValueChange={(v) => setDocumentType(v as PatientDocumentType)}>
+              <SelectTrigger id="document-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PATIENT_DOCUMENT_TYPES.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {PATIENT_DOCUMENT_TYPE_LABELS[t]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="document-description">Descrição</Label>
+            <Input
+              id="document-description"
+              placeholder="Ex.: hemograma completo, carteirinha Unimed"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="document-issued-at">Emissão</Label>
+              <Input id="document-issued-at" type="date" value={issuedAt} onChange={(e) => setIssuedAt(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-expires-at">Validade</Label>
+              <Input id="document-expires-at" type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+            </div>
+          </div>
+          {datesInvalid && <p className="text-sm text-destructive">A validade deve ser posterior à emissão.</p>}
+        </div>
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isUploading}>
+            {remaining > 1 ? "Pular" : "Cancelar"}
+          </Button>
+          <Button
+            type="button"
+            disabled={isUploading || datesInvalid}
+            onClick={() =>
+              onConfirm({
+                document_type: documentType,
+                description,
+                issued_at: issuedAt || null,
+                expires_at: expiresAt || null,
+              })
+            }
+          >
+            {isUploading ? "Enviando..." : "Anexar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
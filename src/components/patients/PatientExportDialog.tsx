@@ -0,0 +1,200 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { useActiveClinic } from "@/hooks/use-active-clinic";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { usePermissions } from "@/hooks/use-permissions";
+import { downloadFile, printHtml } from "@/lib/download";
+import { describeFilters, type PatientListFilters } from "@/lib/patientFilters";
+import {
+  buildExportFile,
+  buildFhirExportFile,
+  buildPrintableList,
+  collectExportRows,
+  collectFhirPatients,
+  EXPORT_COLUMN_SET_LABELS,
+  EXPORT_FORMAT_LABELS,
+  exportColumns,
+  type ExportColumnSet,
+  type ExportFormat,
+} from "@/lib/patientExport";
+import { getPatientAppointmentSummaries } from "@/services/appointmentsService";
+import type { PatientSortField, SortDirection } from "@/services/patients/PatientRepository";
+
+interface PatientExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Estado atual da listagem
+  search: string;
+  sortBy: PatientSortField;
+  sortDirection: SortDirection;
+  filters: PatientListFilters;
+  // Total de pacientes com a busca e os filtros atuais
+  total: number;
+}
+
+const FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+const COLUMN_SETS = Object.keys(EXPORT_COLUMN_SET_LABELS) as ExportColumnSet[];
+
+// Exporta os pacientes da listagem atual (busca, filtros e ordenação) em CSV, XLSX, PDF ou FHIR
+export function PatientExportDialog({
+  open,
+  onOpenChange,
+  search,
+  sortBy,
+  sortDirection,
+  filters,
+  total,
+}: PatientExportDialogProps) {
+  const { toast } = useToast();
+  const { listPatients } = usePatientsService();
+  const { can } = usePermissions();
+  const { activeClinic } = useActiveClinic();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [columnSet, setColumnSet] = useState<ExportColumnSet>("visible");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const criteria = [search && `Busca: "${search}"`, ...describeFilters(filters).map((c) => c.label)].filter(Boolean);
+
+  const runExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total });
+    try {
+      const pages = {
+        listPatients,
+        params: { search, sortBy, sortDirection, filters },
+        onProgress: (done: number, count: number) => setProgress({ done, total: count }),
+        signal: controller.signal,
+      };
+      const now = new Date();
+      const name = `pacientes-${format(now, "yyyy-MM-dd-HHmm")}`;
+      if (exportFormat === "fhir") {
+        const file = buildFhirExportFile(await collectFhirPatients(pages), now);
+        downloadFile(file.content, `${name}-fhir.${file.extension}`, file.type);
+        onOpenChange(false);
+        return;
+      }
+      const rows = await collectExportRows({
+        ...pages,
+        columns: exportColumns(columnSet, (field) => can("read", "patient", field)),
+        getAppointmentSummaries: columnSet === "visible" ? getPatientAppointmentSummaries : undefined,
+      });
+      if (exportFormat === "pdf") {
+        const subtitle = [
+          activeClinic?.name,
+          `${rows.length - 1} paciente(s)`,
+          criteria.length ? criteria.join(" · ") : "Sem filtros",
+          `Gerado em ${format(now, "dd/MM/yyyy HH:mm")}`,
+        ]
+          .filter(Boolean)
+          .join(" — ");
+        printHtml(buildPrintableList("Pacientes", subtitle, rows, columnSet));
+      } else {
+        const file = buildExportFile(exportFormat, rows, "Pacientes");
+        downloadFile(file.content, `${name}.${file.extension}`, file.type);
+      }
+      onOpenChange(false);
+    } catch (e) {
+      if ((e as Error)?.name !== "AbortError") {
+        toast({ title: "Erro ao exportar pacientes", description: (e as Error)?.message ?? "" });
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const running = progress !== null;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        // Fechar durante a exportação a interrompe
+        if (!next) abortRef.current?.abort();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Exportar pacientes</DialogTitle>
+          <DialogDescription>
+            {total} paciente(s) {criteria.length ? `com ${criteria.join(", ")}` : "(todos os cadastros ativos)"}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Formato</p>
+            <RadioGroup value={exportFormat} onValueChange={(v) => setExportFormat(v as ExportFormat)} disabled={running}>
+              {FORMATS.map((f) => (
+                <Label key={f} htmlFor={`export-format-${f}`} className="flex items-center gap-2 font-normal cursor-pointer">
+                  <RadioGroupItem id={`export-format-${f}`} value={f} />
+                  {EXPORT_FORMAT_LABELS[f]}
+                </Label>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Colunas</p>
+            <RadioGroup
+              value={exportFormat === "fhir" ? "full" : columnSet}
+              onValueChange={(v) => setColumnSet(v as ExportColumnSet)}
+              disabled={running || exportFormat === "fhir"}
+            >
+              {COLUMN_SETS.map((set) => (
+                <Label key={set} htmlFor={`export-columns-${set}`} className="flex items-center gap-2 font-normal cursor-pointer">
+                  <RadioGroupItem id={`export-columns-${set}`} value={set} />
+                  {EXPORT_COLUMN_SET_LABELS[set]}
+                </Label>
+              ))}
+            </RadioGroup>
+            {exportFormat === "fhir" && (
+              <p className="text-xs text-muted-foreground">
+                Recursos Patient (HL7 FHIR R4) com identificação, contatos e endereço, para laboratórios e a rede de saúde.
+              </p>
+            )}
+            {columnSet === "full" && exportFormat !== "fhir" && (
+              <p className="text-xs text-muted-foreground">
+                Inclui todos os campos que seu perfil de acesso pode ver. Trate o arquivo como dado pessoal (LGPD).
+              </p>
+            )}
+          </div>
+          {running && (
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">
+                Lendo {progress.done} de {progress.total} paciente(s)...
+              </p>
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {running ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>Cancelar</Button>
+          ) : (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Fechar</Button>
+          )}
+          <Button onClick={runExport} disabled={running || total === 0}>
+            {running ? "Exportando..." : "Exportar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import { SlidersHorizontal, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { BRAZILIAN_STATES } from "@/lib/brDocuments";
+import {
+  BIRTH_MONTH_LABELS,
+  describeFilters,
+  parseTags,
+  removeFilterChip,
+  type PatientListFilters,
+} from "@/lib/patientFilters";
+import { GENDERS } from "@/types/patient";
+
+// Valor do Select para "sem filtro" (o Radix não aceita item com valor vazio)
+const ANY = "any";
+
+// Rascunho editado no painel; só vira filtro ao aplicar
+interface FilterDraft {
+  city: string;
+  state: string;
+  minAge: string;
+  maxAge: string;
+  genders: string[];
+  birthMonth: string;
+  minRisk: string;
+  maxRisk: string;
+  hasEmail: string;
+  createdFrom: string;
+  createdTo: string;
+  tags: string;
+}
+
+function toDraft(f: PatientListFilters): FilterDraft {
+  const text = (v?: number) => (v === undefined ? "" : String(v));
+  return {
+    city: f.city ?? "",
+    state: f.state ?? ANY,
+    minAge: text(f.minAge),
+    maxAge: text(f.maxAge),
+    genders: f.genders ?? [],
+    birthMonth: f.birthMonth ? String(f.birthMonth) : ANY,
+    minRisk: text(f.minRisk),
+    maxRisk: text(f.maxRisk),
+    hasEmail: f.hasEmail === undefined ? ANY : f.hasEmail ? "sim" : "nao",
+    createdFrom: f.createdFrom ?? "",
+    createdTo: f.createdTo ?? "",
+    tags: (f.tags ?? []).join(", "),
+  };
+}
+
+function fromDraft(d: FilterDraft): PatientListFilters {
+  const num = (v: string) => (v.trim() === "" || Number.isNaN(Number(v)) ? undefined : Math.max(0, Math.trunc(Number(v))));
+  const tags = parseTags(d.tags);
+  const filters: PatientListFilters = {
+    city: d.city.trim() || undefined,
+    state: d.state === ANY ? undefined : d.state,
+    minAge: num(d.minAge),
+    maxAge: num(d.maxAge),
+    genders: d.genders.length > 0 ? d.genders : undefined,
+    birthMonth: d.birthMonth === ANY ? undefined : Number(d.birthMonth),
+    minRisk: num(d.minRisk),
+    maxRisk: num(d.maxRisk),
+    hasEmail: d.hasEmail === ANY ? undefined : d.hasEmail === "sim",
+    createdFrom: d.createdFrom || undefined,
+    createdTo: d.createdTo || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+  };
+  return Object.fromEntries(Object.entries(filters).filter(([, v]) => v !== undefined)) as PatientListFilters;
+}
+
+interface PatientFilterSheetProps {
+  filters: PatientListFilters;
+  onApply: (filters: PatientListFilters) => void;
+}
+
+// Painel lateral com os filtros avançados da listagem
+export function PatientFilterSheet({ filters, onApply }: PatientFilterSheetProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<FilterDraft>(() => toDraft(filters));
+  const activeCount = describeFilters(filters).length;
+
+  // Reabre sempre com os filtros em vigor (podem ter mudado pelos chips ou pela URL)
+  useEffect(() => {
+    if (open) setDraft(toDraft(filters));
+  }, [open, filters]);
+
+  const set = <K extends keyof FilterDraft>(key: K, value: FilterDraft[K]) => setDraft((d) => ({ ...d, [key]: value }));
+  const toggleGender = (gender: string, checked: boolean) =>
+    set("genders", checked ? [...draft.genders, gender] : draft.genders.filter((g) => g !== gender));
+
+  const apply = (next: PatientListFilters) => {
+    onApply(next);
+    setOpen(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Filtros
+          {activeCount > 0 && <Badge variant="secondary" className="ml-2">{activeCount}</Badge>}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Filtros</SheetTitle>
+          <SheetDescription>Os pacientes listados precisam atender a todos os filtros preenchidos.</SheetDescription>
+        </SheetHeader>
+
+        <form
+          id="patient-filters"
+          className="space-y-5 py-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            apply(fromDraft(draft));
+          }}
+        >
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="filter-city">Cidade</Label>
+              <Input id="filter-city" value={draft.city} onChange={(e) => set("city", e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>UF</Label>
+              <Select value={draft.state} onValueChange={(v) => set("state", v)}>
+                <SelectTrigger aria-label="UF">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Todas</SelectItem>
+                  {BRAZILIAN_STATES.map((uf) => (
+                    <SelectItem key={uf} value={uf}>{uf}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Idade (anos)</Label>
+            <div className="flex items-center gap-2">
+              <Input type="number" min={0} placeholder="De" aria-label="Idade mínima" value={draft.minAge} onChange={(e) => set("minAge", e.target.value)} />
+              <span className="text-sm text-muted-foreground">a</span>
+              <Input type="number" min={0} placeholder="Até" aria-label="Idade máxima" value={draft.maxAge} onChange={(e) => set("maxAge", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Gênero</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {GENDERS.map((gender) => (
+                <label key={gender} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.genders.includes(gender)}
+                    onCheckedChange={(checked) => toggleGender(gender, checked === true)}
+                  />
+                  {gender}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>Mês de aniversário</Label>
+              <Select value={draft.birthMonth} onValueChange={(v) => set("birthMonth", v)}>
+                <SelectTrigger aria-label="Mês de aniversário">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Qualquer</SelectItem>
+                  {BIRTH_MONTH_LABELS.map((label, i) => (
+                    <SelectItem key={label} value={String(i + 1)}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>E-mail</Label>
+              <Select value={draft.hasEmail} onValueChange={(v) => set("hasEmail", v)}>
+                <SelectTrigger aria-label="E-mail">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Indiferente</SelectItem>
+                  <SelectItem value="sim">Com e-mail</SelectItem>
+                  <SelectItem value="nao">Sem e-mail</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Score de absenteísmo (0-100)</Label>
+            <div className="flex items-center gap-2">
+              <Input type="number" min={0} max={100} placeholder="De" aria-label="Score mínimo" value={draft.minRisk} onChange={(e) => set("minRisk", e.target.value)} />
+              <span className="text-sm text-muted-foreground">a</span>
+              <Input type="number" min={0} max={100} placeholder="Até" aria-label="Score máximo" value={draft.maxRisk} onChange={(e) => set("maxRisk", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Cadastrado entre</Label>
+            <div className="flex items-center gap-2">
+              <Input type="date" aria-label="Cadastrado a partir de" value={draft.createdFrom} onChange={(e) => set("createdFrom", e.target.value)} />
+              <span className="text-sm text-muted-foreground">e</span>
+              <Input type="date" aria-label="Cadastrado até" value={draft.createdTo} onChange={(e) => set("createdTo", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="filter-tags">Etiquetas</Label>
+            <Input id="filter-tags" placeholder="Ex.: vip, convênio" value={draft.tags} onChange={(e) => set("tags", e.target.value)} />
+            <p className="text-xs text-muted-foreground">Separe por vírgula; o paciente precisa ter todas.</p>
+          </div>
+        </form>
+
+        <SheetFooter className="gap-2">
+          <Button variant="outline" onClick={() => apply({})}>Limpar filtros</Button>
+          <Button type="submit" form="patient-filters">Aplicar</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+interface PatientFilterChipsProps {
+  filters: PatientListFilters;
+  onChange: (filters: PatientListFilters) => void;
+}
+
+// Filtros ativos como chips removíveis
+export function PatientFilterChips({ filters, onChange }: PatientFilterChipsProps) {
+  const chips = describeFilters(filters);
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" aria-label="Filtros ativos">
+      {chips.map((chip) => (
+        <Badge key={`${chip.key}:${chip.value ?? ""}`} variant="secondary" className="gap-1 pr-1 font-normal">
+          {chip.label}
+          <button
+            type="button"
+            className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+            aria-label={`Remover filtro ${chip.label}`}
+            onClick={() => onChange(removeFilterChip(filters, chip))}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      ))}
+      <Button variant="link" size="sm" className="h-auto px-1" onClick={() => onChange({})}>
+        Limpar todos
+      </Button>
+    </div>
+  );
+}
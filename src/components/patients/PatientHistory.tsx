@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { History, RotateCcw } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { AUDITED_FIELD_LABELS, formatAuditedFieldValue } from "@/lib/patientDiff";
+import type { Patient } from "@/types/patient";
+import { PATIENT_AUDIT_ACTION_LABELS, type PatientAuditAction, type PatientAuditEntry } from "@/types/patientAudit";
+
+interface PatientHistoryProps {
+  patientId: string;
+  // Chamado após restaurar uma versão, para recarregar o formulário
+  onRestored: (patient: Patient) => void;
+}
+
+const ACTION_VARIANTS: Record<PatientAuditAction, "default" | "secondary" | "destructive" | "outline"> = {
+  create: "default",
+  update: "secondary",
+  delete: "destructive",
+  restore: "outline",
+  purge: "destructive",
+  merge: "outline",
+  revert: "outline",
+};
+
+// Linha do tempo da trilha de auditoria do paciente, com restauração de versões anteriores
+export function PatientHistory({ patientId, onRestored }: PatientHistoryProps) {
+  const { listPatientHistory, restorePatientVersion } = usePatientsService();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [restoring, setRestoring] = useState<PatientAuditEntry | null>(null);
+
+  const clinicKey = useClinicQueryKey();
+  const { data, isLoading, isError } = useQuery({
+    queryKey: clinicKey("patients", patientId, "history"),
+    queryFn: () => listPatientHistory({ patientId }),
+  });
+  const entries = data?.data ?? [];
+
+  const restoreMut = useMutation({
+    mutationFn: (entryId: string) => restorePatientVersion(patientId, entryId),
+    onSuccess: (patient) => {
+      toast({ title: "Versão restaurada" });
+      queryClient.invalidateQueries({ queryKey: ["patients"] });
+      onRestored(patient);
+    },
+    onError: (err: Error) => toast({ title: "Erro ao restaurar versão", description: err?.message ?? "" }),
+    onSettled: () => setRestoring(null),
+  });
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Carregando histórico...</p>;
+  if (isError) return <p className="text-sm text-destructive">Não foi possível carregar o histórico.</p>;
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nenhuma alteração registrada para este paciente.</p>;
+  }
+
+  return (
+    <>
+      <ol className="relative space-y-6 border-l pl-6">
+        {entries.map((entry, index) => (
+          <li key={entry.id} className="relative">
+            <span className="absolute -left-[31px] top-1 flex h-4 w-4 items-center justify-center rounded-full border bg-background">
+              <History className="h-3 w-3 text-muted-foreground" />
+            </span>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant={ACTION_VARIANTS[entry.action]}>{PATIENT_AUDIT_ACTION_LABELS[entry.action]}</Badge>
+                <span className="text-sm text-muted-foreground">
+                  {format(parseISO(entry.occurred_at), "dd/MM/yyyy 'às' HH:mm", { locale: ptBR })} por {entry.actor}
+                </span>
+              </div>
+              {/* A entrada mais recente é o estado atual; expurgos não têm versão a restaurar */}
+              {index > 0 && entry.action !== "purge" && can("update", "patient") && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setRestoring(entry)}>
+                  <RotateCcw className="mr-2 h-4 w-4" /> Restaurar esta versão
+                </Button>
+              )}
+            </div>
+            {entry.changes.length > 0 && entry.action !== "create" && (
+              <dl className="mt-2 grid gap-1 text-sm">
+                {entry.changes.map((change) => (
+                  <div key={change.field} className="grid grid-cols-[minmax(0,12rem)_1fr] gap-2">
+                    <dt className="text-muted-foreground">
+                      {AUDITED_FIELD_LABELS[change.field as keyof typeof AUDITED_FIELD_LABELS] ?? change.field}
+                    </dt>
+                    <dd>
+                      <span className="line-through text-muted-foreground">
+                        {formatAuditedFieldValue(change.field, change.before)}
+                      </span>
+                      {" → "}
+                      <span>{formatAuditedFieldValue(change.field, change.after)}</span>
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <AlertDialog open={!!restoring} onOpenChange={(open) => !open && setRestoring(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restaurar esta versão?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Os dados do cadastro voltarão a ser como estavam em{" "}
+              {restoring ? format(parseISO(restoring.occurred_at), "dd/MM/yyyy 'às' HH:mm") : ""}. A restauração
+              também fica registrada no histórico e pode ser desfeita da mesma forma.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={restoreMut.isPending}
+              onClick={() => restoring?.id && restoreMut.mutate(restoring.id)}
+            >
+              Restaurar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,324 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+import { Camera, ImagePlus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { useToast } from "@/hooks/use-toast";
+import { PatientAvatar } from "@/components/patients/PatientAvatar";
+import {
+  cropFromView,
+  loadImage,
+  PHOTO_ACCEPT,
+  renderSquarePhoto,
+  sourceSize,
+  type PhotoSource,
+} from "@/lib/imageCrop";
+
+interface PatientPhotoFieldProps {
+  // Referência gravada no cadastro (Patient.photo_url)
+  value: string | null | undefined;
+  // Foto escolhida e ainda não enviada (o envio acontece ao salvar o cadastro)
+  pending: Blob | null;
+  name: string;
+  disabled?: boolean;
+  onChange: (photo: Blob) => void;
+  onRemove: () => void;
+}
+
+// Lado da área de recorte na tela, em pixels
+const VIEW_SIZE = 256;
+const MAX_ZOOM = 3;
+
+// Foto do paciente: envio de arquivo ou câmera, recorte quadrado e compressão antes do envio
+export function PatientPhotoField({ value, pending, name, disabled, onChange, onRemove }: PatientPhotoFieldProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [source, setSource] = useState<PhotoSource | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
+
+  const [pendingUrl, setPendingUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!pending) {
+      setPendingUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(pending);
+    setPendingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [pending]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (fileInputRef.current) fileInputRef.current.value = "";
+    if (!file) return;
+    try {
+      setSource(await loadImage(file));
+    } catch (e) {
+      toast({ title: "Não foi possível usar a imagem", description: (e as Error)?.message ?? "" });
+    }
+  };
+
+  const hasPhoto = Boolean(pending || value);
+
+  return (
+    <div className="flex items-center gap-4">
+      <PatientAvatar
+        patient={{ full_name: name, photo_url: value ?? null }}
+        src={pendingUrl}
+        className="h-20 w-20 text-lg"
+      />
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={PHOTO_ACCEPT}
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button type="button" variant="outline" size="sm" disabled={disabled} onClick={() => fileInputRef.current?.click()}>
+            <ImagePlus className="mr-2 h-4 w-4" />
+            {hasPhoto ? "Trocar foto" : "Enviar foto"}
+          </Button>
+          <Button type="button" variant="outline" size="sm" disabled={disabled} onClick={() => setCameraOpen(true)}>
+            <Camera className="mr-2 h-4 w-4" />
+            Usar câmera
+          </Button>
+          {hasPhoto && (
+            <Button type="button" variant="ghost" size="sm" disabled={disabled} onClick={onRemove}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Remover
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          JPEG, PNG ou WebP. A imagem é recortada em formato quadrado e comprimida antes do envio.
+        </p>
+      </div>
+
+      <CameraCaptureDialog
+        open={cameraOpen}
+        onOpenChange={setCameraOpen}
+        onCapture={(frame) => {
+          setCameraOpen(false);
+          setSource(frame);
+        }}
+      />
+      <PhotoCropDialog
+        source={source}
+        onCancel={() => setSource(null)}
+        onConfirm={(photo) => {
+          setSource(null);
+          onChange(photo);
+        }}
+      />
+    </div>
+  );
+}
+
+function PhotoCropDialog({
+  source,
+  onCancel,
+  onConfirm,
+}: {
+  source: PhotoSource | null;
+  onCancel: () => void;
+  onConfirm: (photo: Blob) => void;
+}) {
+  const { toast } = useToast();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const [isSaving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+  }, [source]);
+
+  const { width, height } = source ? sourceSize(source) : { width: 0, height: 0 };
+  const crop = cropFromView(width, height, zoom, offset.x, offset.y);
+
+  // Prévia do recorte
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !source) return;
+    ctx.clearRect(0, 0, VIEW_SIZE, VIEW_SIZE);
+    ctx.drawImage(source, crop.x, crop.y, crop.size, crop.size, 0, 0, VIEW_SIZE, VIEW_SIZE);
+  }, [source, crop.x, crop.y, crop.size]);
+
+  // Arrastar move o recorte; a folga de cada eixo corresponde ao deslocamento -1..1
+  const handlePointerMove = (e: ReactPointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current) return;
+    const dx = e.clientX - dragRef.current.x;
+    const dy = e.clientY - dragRef.current.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    const scale = VIEW_SIZE / crop.size;
+    const slackX = ((width - crop.size) / 2) * scale;
+    const slackY = ((height - crop.size) / 2) * scale;
+    const clamp = (v: number) => Math.max(-1, Math.min(1, v));
+    setOffset((current) => ({
+      x: slackX > 0 ? clamp(current.x - dx / slackX) : 0,
+      y: slackY > 0 ? clamp(current.y - dy / slackY) : 0,
+    }));
+  };
+
+  const confirm = async () => {
+    if (!source) return;
+    setSaving(true);
+    try {
+      onConfirm(await renderSquarePhoto(source, crop));
+    } catch (e) {
+      toast({ title: "Não foi possível recortar a foto", description: (e as Error)?.message ?? "" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!source} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Recortar foto</DialogTitle>
+          <DialogDescription>Arraste a imagem para enquadrar o rosto e ajuste o zoom.</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-4">
+          <canvas
+            ref={canvasRef}
+            width={VIEW_SIZE}
+            height={VIEW_SIZE}
+            className="cursor-move touch-none rounded-md border"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              dragRef.current = { x: e.clientX, y: e.clientY };
+            }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => (dragRef.current = null)}
+            onPointerCancel={() => (dragRef.current = null)}
+          />
+          <div className="w-full space-y-2">
+            <Label htmlFor="photo-zoom">Zoom</Label>
+            <Slider
+              id="photo-zoom"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.05}
+              value={[zoom]}
+              onValueChange={([v]) => setZoom(v)}
+            />
+          </div>
+        </div>
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={onCancel}>Cancelar</Button>
+          <Button type="button" onClick={confirm} disabled={isSaving}>
+            {isSaving ? "Processando..." : "Usar foto"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CameraCaptureDialog({
+  open,
+  onOpenChange,
+  onCapture,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCapture: (frame: HTMLCanvasElement) => void;
+}) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+
+  // A câmera fica ligada apenas enquanto o diálogo está aberto
+  useEffect(() => {
+    if (!open) return;
+    let media: MediaStream | null = null;
+    let cancelled = false;
+    setError(null);
+    setReady(false);
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("Este navegador não permite acesso à câmera.");
+      return;
+    }
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "user", width: { ideal: 1280 }, height: { ideal: 720 } }, audio: false })
+      .then((result) => {
+        media = result;
+        if (cancelled) result.getTracks().forEach((t) => t.stop());
+        else setStream(result);
+      })
+      .catch((e) => {
+        if (cancelled) return;
+        setError(
+          (e as Error)?.name === "NotAllowedError"
+            ? "O acesso à câmera foi negado. Libere a permissão no navegador e tente novamente."
+            : "Nenhuma câmera disponível."
+        );
+      });
+    return () => {
+      cancelled = true;
+      media?.getTracks().forEach((t) => t.stop());
+      setStream(null);
+    };
+  }, [open]);
+
+  // O vídeo só existe depois que o diálogo monta: liga o stream quando os dois estiverem prontos
+  const attachVideo = (video: HTMLVideoElement | null) => {
+    videoRef.current = video;
+    if (video && stream && video.srcObject !== stream) {
+      video.srcObject = stream;
+      video.play().catch(() => setError("Não foi possível iniciar a câmera."));
+    }
+  };
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    const frame = document.createElement("canvas");
+    frame.width = video.videoWidth;
+    frame.height = video.videoHeight;
+    frame.getContext("2d")?.drawImage(video, 0, 0);
+    onCapture(frame);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Foto pela câmera</DialogTitle>
+          <DialogDescription>Posicione o paciente de frente, com boa iluminação.</DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <video
+            ref={attachVideo}
+            className="w-full rounded-md bg-muted"
+            playsInline
+            muted
+            onPlaying={() => setReady(true)}
+          />
+        )}
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button type="button" onClick={capture} disabled={!ready || !!error}>
+            <Camera className="mr-2 h-4 w-4" />
+            Capturar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import type { Patient } from "@/types/patient";
+import { Search, X } from "lucide-react";
+
+interface PatientPickerProps {
+  value: Patient | null;
+  onChange: (patient: Patient | null) => void;
+}
+
+// Seleção de paciente com busca por nome ou CPF
+export function PatientPicker({ value, onChange }: PatientPickerProps) {
+  const { listPatients } = usePatientsService();
+  const [search, setSearch] = useState("");
+  const debouncedSearch = useDebouncedValue(search, 300);
+
+  const clinicKey = useClinicQueryKey();
+  const { data, isFetching } = useQuery({
+    queryKey: clinicKey("patients", { page: 1, search: debouncedSearch, picker: true }),
+    queryFn: () => listPatients({ page: 1, pageSize: 5, search: debouncedSearch }),
+    enabled: !value && debouncedSearch.trim().length >= 2,
+  });
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+        <span className="font-medium">{value.full_name}</span>
+        <Button type="button" variant="ghost" size="icon" aria-label="Trocar paciente" onClick={() => onChange(null)}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const results = data?.data ?? [];
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Buscar paciente por nome ou CPF"
+          className="pl-9"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+      </div>
+      {debouncedSearch.trim().length >= 2 && (
+        <ul className="rounded-md border divide-y text-sm">
+          {isFetching && results.length === 0 ? (
+            <li className="px-3 py-2 text-muted-foreground">Buscando...</li>
+          ) : results.length === 0 ? (
+            <li className="px-3 py-2 text-muted-foreground">Nenhum paciente encontrado</li>
+          ) : (
+            results.map((p) => (
+              <li key={p.id}>
+                <button
+                  type="button"
+                  className="w-full px-3 py-2 text-left hover:bg-accent"
+                  onClick={() => onChange(p)}
+                >
+                  <span className="font-medium">{p.full_name}</span>
+                  <span className="ml-2 text-muted-foreground">{p.phone_primary}</span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
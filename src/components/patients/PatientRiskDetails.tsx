@@ -0,0 +1,34 @@
+import { usePatientRiskAssessment } from "@/hooks/use-patient-risk";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { Patient } from "@/types/patient";
+import { RiskBadge } from "./RiskBadge";
+
+// Explica o score de absenteísmo: pontos de cada fator considerado
+export function PatientRiskDetails({ patient }: { patient: Patient }) {
+  const { data: assessment, isLoading } = usePatientRiskAssessment(patient);
+
+  if (isLoading) return <Skeleton className="h-16 w-full" />;
+  if (!assessment) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <p className="text-muted-foreground">Risco de absenteísmo</p>
+        <RiskBadge score={assessment.score} />
+      </div>
+      <ul className="space-y-1">
+        {assessment.factors.map((f) => (
+          <li key={f.key} className="flex items-start justify-between gap-4">
+            <span>
+              <span className="font-medium">{f.label}</span>
+              <span className="text-muted-foreground"> — {f.detail}</span>
+            </span>
+            <span className="tabular-nums text-muted-foreground">
+              {f.points > 0 ? `+${f.points}` : f.points}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
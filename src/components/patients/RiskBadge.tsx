@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { getRiskLevel, RISK_LEVEL_LABELS, type RiskLevel } from "@/lib/absenteeismRisk";
+
+const LEVEL_CLASSES: Record<RiskLevel, string> = {
+  low: "bg-emerald-100 text-emerald-900",
+  medium: "bg-amber-100 text-amber-900",
+  high: "bg-destructive text-destructive-foreground",
+};
+
+// Score de risco de absenteísmo (0-100) com a faixa correspondente
+export function RiskBadge({ score, className }: { score?: number | null; className?: string }) {
+  if (score === null || score === undefined) {
+    return <span className="text-sm text-muted-foreground">-</span>;
+  }
+  const level = getRiskLevel(score);
+  return (
+    <Badge
+      className={cn("border-transparent hover:opacity-90", LEVEL_CLASSES[level], className)}
+      title={`Risco de absenteísmo: ${RISK_LEVEL_LABELS[level]}`}
+    >
+      {RISK_LEVEL_LABELS[level]} · {score}
+    </Badge>
+  );
+}
@@ -0,0 +1,61 @@
+import type { ReactNode } from "react";
+import { maskCPF, maskPhone } from "@/lib/brDocuments";
+import {
+  highlightRanges,
+  matchPatientSearch,
+  parseSearchQuery,
+  type HighlightMode,
+  type PatientSearchField,
+} from "@/lib/patientSearch";
+import { PATIENT_FIELD_LABELS, type Patient, type PatientField } from "@/types/patient";
+
+interface SearchHighlightProps {
+  text: string;
+  search: string;
+  mode?: HighlightMode;
+}
+
+// Texto com os trechos encontrados pela busca destacados
+export function SearchHighlight({ text, search, mode = "text" }: SearchHighlightProps) {
+  const ranges = highlightRanges(text, search, mode);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach((r, i) => {
+    if (r.start > cursor) parts.push(text.slice(cursor, r.start));
+    parts.push(
+      <mark key={i} className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-700">
+        {text.slice(r.start, r.end)}
+      </mark>
+    );
+    cursor = r.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+}
+
+// Campos que não aparecem como coluna da listagem: valor exibido e modo de destaque
+const HINT_FIELDS: Partial<Record<PatientSearchField, (p: Patient, digits: boolean) => [string, HighlightMode]>> = {
+  cpf: (p) => [maskCPF(p.cpf), "digits"],
+  phone_secondary: (p) => [maskPhone(p.phone_secondary ?? ""), "digits"],
+  rg: (p, digits) => [p.rg ?? "", digits ? "digits" : "compact"],
+  legacy_code: (p) => [p.legacy_code ?? "", "compact"],
+  mother_name: (p) => [p.mother_name ?? "", "text"],
+  email: (p) => [p.email ?? "", "text"],
+};
+
+// Linha auxiliar com o campo que correspondeu à busca quando ele não é uma coluna (ex.: "CPF: 529.982.247-25")
+export function PatientSearchHint({ patient, search }: { patient: Patient; search: string }) {
+  if (!search.trim()) return null;
+  const query = parseSearchQuery(search);
+  const match = matchPatientSearch(patient, query);
+  const hint = match && HINT_FIELDS[match.field];
+  if (!hint) return null;
+  const [value, mode] = hint(patient, query.digits.length > 0);
+  return (
+    <div className="text-xs font-normal text-muted-foreground">
+      {PATIENT_FIELD_LABELS[match.field as PatientField]}: <SearchHighlight text={value} search={search} mode={mode} />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useSession } from "@/hooks/use-auth";
+import { dispatchDueReminders } from "@/services/remindersService";
+
+const DISPATCH_INTERVAL_MS = 60_000;
+
+// Envio periódico de lembretes vencidos a partir do navegador (ambiente de desenvolvimento).
+// Em produção o envio deve rodar no servidor (ex.: função agendada no Supabase).
+export function ReminderDispatcher() {
+  const qc = useQueryClient();
+  const { session } = useSession();
+  const signedIn = Boolean(session);
+
+  useEffect(() => {
+    // Sem sessão o banco recusa o acesso aos lembretes
+    if (!import.meta.env.DEV || !signedIn) return;
+    let running = false;
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const sent = await dispatchDueReminders();
+        if (sent.length > 0) await qc.invalidateQueries({ queryKey: ["reminders"] });
+      } catch (e) {
+        console.warn("Falha ao processar lembretes pendentes", e);
+      } finally {
+        running = false;
+      }
+    };
+    tick();
+    const id = setInterval(tick, DISPATCH_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [qc, signedIn]);
+
+  return null;
+}
@@ -0,0 +1,57 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { setCurrentActor } from "@/lib/currentActor";
+import { setCurrentRole } from "@/lib/permissions";
+import { AuthContext, type AuthContextValue } from "@/hooks/use-auth";
+import { defaultAuthAdapter, type AuthAdapter, type AuthSession } from "@/services/authService";
+
+interface AuthProviderProps {
+  // Provedor explícito (ex.: createMockAuthAdapter({ persist: false }) em testes)
+  adapter?: AuthAdapter;
+  children: ReactNode;
+}
+
+export function AuthProvider({ adapter = defaultAuthAdapter, children }: AuthProviderProps) {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let active = true;
+    // Usuário e perfil são aplicados antes da renderização das páginas, que já consultam o serviço
+    const apply = (next: AuthSession | null) => {
+      if (!active) return;
+      setCurrentActor(next?.user.email ?? null);
+      setCurrentRole(next?.user.role ?? null);
+      setSession(next);
+    };
+    const unsubscribe = adapter.onChange(apply);
+    adapter
+      .getSession()
+      .then(apply)
+      .catch((e) => console.warn("Não foi possível recuperar a sessão", e))
+      .finally(() => active && setLoading(false));
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [adapter]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      session,
+      loading,
+      signIn: (email, password) => adapter.signIn(email, password),
+      signOut: async () => {
+        await adapter.signOut();
+        // Dados de pacientes em cache não devem sobreviver ao logout
+        queryClient.clear();
+      },
+      requestPasswordReset: (email) => adapter.requestPasswordReset(email, `${window.location.origin}/reset-password`),
+      updatePassword: (password) => adapter.updatePassword(password),
+    }),
+    [adapter, session, loading, queryClient]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { setCurrentClinicId } from "@/lib/currentClinic";
+import { useSession } from "@/hooks/use-auth";
+import { ClinicContext, type ClinicContextValue } from "@/hooks/use-active-clinic";
+import { listUserClinics, pickInitialClinic, savePreferredClinic } from "@/services/clinicsService";
+
+export function ClinicProvider({ children }: { children: ReactNode }) {
+  const { user } = useSession();
+  const userId = user?.id ?? null;
+  const [activeId, setActiveId] = useState<string | null>(null);
+
+  const { data: clinics = [], isLoading, error } = useQuery({
+    queryKey: ["clinics", userId],
+    queryFn: () => listUserClinics(userId!),
+    enabled: !!userId,
+  });
+
+  // A clínica é aplicada antes da renderização das páginas, que já consultam os serviços
+  const apply = useCallback((clinicId: string | null) => {
+    setCurrentClinicId(clinicId);
+    setActiveId(clinicId);
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      apply(null);
+      return;
+    }
+    if (isLoading) return;
+    // Mantém a clínica atual se o usuário ainda tiver acesso; senão escolhe a preferida
+    if (!clinics.some((c) => c.id === activeId)) apply(pickInitialClinic(userId, clinics)?.id ?? null);
+  }, [userId, clinics, isLoading, activeId, apply]);
+
+  const value = useMemo<ClinicContextValue>(
+    () => ({
+      clinics,
+      activeClinic: clinics.find((c) => c.id === activeId) ?? null,
+      loading: !!userId && (isLoading || (clinics.length > 0 && !activeId)),
+      error: (error as Error | null) ?? null,
+      setActiveClinic: (clinicId) => {
+        if (!userId || !clinics.some((c) => c.id === clinicId)) return;
+        savePreferredClinic(userId, clinicId);
+        apply(clinicId);
+      },
+    }),
+    [clinics, activeId, userId, isLoading, error, apply]
+  );
+
+  return <ClinicContext.Provider value={value}>{children}</ClinicContext.Provider>;
+}
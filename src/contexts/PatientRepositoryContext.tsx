@@ -0,0 +1,39 @@
+import { useMemo, type ReactNode } from "react";
+import type { DataBackend } from "@/lib/dataBackend";
+import { PatientsServiceContext } from "@/hooks/use-patients-service";
+import {
+  createPatientAuditRepository,
+  createPatientRepository,
+  createPatientsService,
+  defaultPatientAuditRepository,
+  defaultPatientRepository,
+  type PatientAuditRepository,
+  type PatientRepository,
+} from "@/services/patientsService";
+
+interface PatientRepositoryProviderProps {
+  // Backend a utilizar; ignorado quando `repository` é informado
+  backend?: DataBackend;
+  // Repositório explícito (ex.: memória pré-populada em testes)
+  repository?: PatientRepository;
+  // Trilha de auditoria explícita; sem ela, segue o backend (ou memória quando há `repository`)
+  auditRepository?: PatientAuditRepository;
+  children: ReactNode;
+}
+
+export function PatientRepositoryProvider({
+  backend,
+  repository,
+  auditRepository,
+  children,
+}: PatientRepositoryProviderProps) {
+  const service = useMemo(() => {
+    const repo = repository ?? (backend ? createPatientRepository(backend) : defaultPatientRepository);
+    const audit =
+      auditRepository ??
+      (repository ? undefined : backend ? createPatientAuditRepository(backend) : defaultPatientAuditRepository);
+    return createPatientsService(repo, audit);
+  }, [backend, repository, auditRepository]);
+
+  return <PatientsServiceContext.Provider value={service}>{children}</PatientsServiceContext.Provider>;
+}
@@ -0,0 +1,30 @@
+import { createContext, useCallback, useContext } from "react";
+import type { QueryKey } from "@tanstack/react-query";
+import type { Clinic } from "@/types/clinic";
+
+export interface ClinicContextValue {
+  // Clínicas em que o usuário logado atua
+  clinics: Clinic[];
+  activeClinic: Clinic | null;
+  // true enquanto as clínicas do usuário são carregadas
+  loading: boolean;
+  error: Error | null;
+  setActiveClinic(clinicId: string): void;
+}
+
+export const ClinicContext = createContext<ClinicContextValue | null>(null);
+
+export function useActiveClinic(): ClinicContextValue {
+  const ctx = useContext(ClinicContext);
+  if (!ctx) throw new Error("useActiveClinic deve ser usado dentro de <ClinicProvider>");
+  return ctx;
+}
+
+// Monta chaves do React Query com a clínica ativa logo após a raiz (ex.: ["patients", clinicId, ...]),
+// para que trocar de clínica nunca reaproveite dados em cache de outra clínica.
+// A raiz continua na primeira posição: invalidateQueries({ queryKey: ["patients"] }) segue valendo.
+export function useClinicQueryKey(): (root: string, ...parts: unknown[]) => QueryKey {
+  const { activeClinic } = useActiveClinic();
+  const clinicId = activeClinic?.id ?? null;
+  return useCallback((root: string, ...parts: unknown[]) => [root, clinicId, ...parts], [clinicId]);
+}
@@ -0,0 +1,25 @@
+import { createContext, useContext } from "react";
+import type { AuthSession, AuthUser } from "@/services/authService";
+
+export interface AuthContextValue {
+  session: AuthSession | null;
+  // true até a sessão persistida ser verificada
+  loading: boolean;
+  signIn(email: string, password: string): Promise<AuthSession>;
+  signOut(): Promise<void>;
+  requestPasswordReset(email: string): Promise<void>;
+  updatePassword(password: string): Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth(): AuthContextValue {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth deve ser usado dentro de <AuthProvider>");
+  return ctx;
+}
+
+export function useSession(): { session: AuthSession | null; user: AuthUser | null; loading: boolean } {
+  const { session, loading } = useAuth();
+  return { session, user: session?.user ?? null, loading };
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { FILE_URL_STALE_MS, resolveFileUrl } from "@/services/fileStorageService";
+
+// URL exibível de um arquivo do armazenamento (foto, anexo); renovada antes de a URL assinada expirar
+export function useFileUrl(ref: string | null | undefined) {
+  return useQuery({
+    queryKey: ["files", "url", ref],
+    queryFn: () => resolveFileUrl(ref!),
+    enabled: !!ref,
+    staleTime: FILE_URL_STALE_MS,
+    refetchInterval: FILE_URL_STALE_MS,
+    retry: false,
+  });
+}
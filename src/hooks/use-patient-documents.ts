@@ -0,0 +1,15 @@
+import { useQuery } from "@tanstack/react-query";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { usePermissions } from "@/hooks/use-permissions";
+import { listPatientDocuments } from "@/services/patientDocumentsService";
+
+// Documentos anexados ao paciente (compartilhado entre a aba Anexos e o aviso de validade no título da aba)
+export function usePatientDocuments(patientId: string | undefined) {
+  const clinicKey = useClinicQueryKey();
+  const { can } = usePermissions();
+  return useQuery({
+    queryKey: clinicKey("patient_documents", patientId),
+    queryFn: () => listPatientDocuments(patientId!),
+    enabled: Boolean(patientId) && can("read", "patient_document"),
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { computeAbsenteeismRisk } from "@/lib/absenteeismRisk";
+import { clinicOf } from "@/lib/currentClinic";
+import { listAppointments } from "@/services/appointmentsService";
+import { getClinicLocation } from "@/services/clinicsService";
+import type { Patient } from "@/types/patient";
+
+// Avaliação de risco atual (com fatores) calculada a partir do histórico de agendamentos
+export function usePatientRiskAssessment(patient: Patient | null) {
+  const clinicKey = useClinicQueryKey();
+  return useQuery({
+    queryKey: clinicKey("appointments", "risk", patient?.id),
+    queryFn: async () => {
+      const [{ data }, clinic] = await Promise.all([
+        listAppointments({ patientIds: [patient!.id!] }),
+        getClinicLocation(clinicOf(patient!)),
+      ]);
+      return computeAbsenteeismRisk(patient!, data, { clinic });
+    },
+    enabled: Boolean(patient?.id),
+  });
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import type { Patient } from "@/types/patient";
+
+// Carrega um conjunto de pacientes por id (ex.: nomes exibidos em listas de agendamentos)
+export function usePatientsById(ids: string[]) {
+  const { getPatientById } = usePatientsService();
+  const unique = Array.from(new Set(ids)).sort();
+  const clinicKey = useClinicQueryKey();
+  return useQuery<Record<string, Patient>>({
+    queryKey: clinicKey("patients", "by-id", unique),
+    queryFn: async () => {
+      const found = await Promise.all(unique.map((id) => getPatientById(id)));
+      return Object.fromEntries(found.filter(Boolean).map((p) => [p!.id!, p!]));
+    },
+    enabled: unique.length > 0,
+    staleTime: 30_000,
+  });
+}
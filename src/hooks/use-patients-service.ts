@@ -0,0 +1,9 @@
+import { createContext, useContext } from "react";
+import { defaultPatientsService, type PatientsService } from "@/services/patientsService";
+
+// Sem provider, usa o serviço padrão (backend definido por VITE_DATA_BACKEND)
+export const PatientsServiceContext = createContext<PatientsService>(defaultPatientsService);
+
+export function usePatientsService() {
+  return useContext(PatientsServiceContext);
+}
@@ -0,0 +1,22 @@
+import { useMemo } from "react";
+import { useSession } from "@/hooks/use-auth";
+import {
+  hasPermission,
+  type PermissionAction,
+  type PermissionResource,
+  type Role,
+} from "@/lib/permissions";
+import type { PatientField } from "@/types/patient";
+
+// Permissões do usuário logado, para esconder ou desabilitar ações e campos na interface
+export function usePermissions(): {
+  role: Role | null;
+  can: (action: PermissionAction, resource: PermissionResource, field?: PatientField) => boolean;
+} {
+  const { user } = useSession();
+  const role = user?.role ?? null;
+  return useMemo(
+    () => ({ role, can: (action, resource, field) => hasPermission(role, action, resource, field) }),
+    [role]
+  );
+}
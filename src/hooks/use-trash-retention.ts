@@ -0,0 +1,20 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { usePermissions } from "@/hooks/use-permissions";
+
+// Expurga os pacientes cujo prazo de retenção na lixeira venceu, ao entrar em cada clínica.
+// Só perfis com permissão de expurgo; o serviço registra a auditoria e remove os arquivos do paciente.
+export function usePatientTrashRetention(clinicId: string | null | undefined) {
+  const qc = useQueryClient();
+  const { purgeExpiredPatients } = usePatientsService();
+  const { can } = usePermissions();
+  const canPurge = can("purge", "patient");
+
+  useEffect(() => {
+    if (!clinicId || !canPurge) return;
+    purgeExpiredPatients()
+      .then((purged) => purged > 0 && qc.invalidateQueries({ queryKey: ["patients"] }))
+      .catch((e) => console.warn("Não foi possível expurgar a lixeira", e));
+  }, [clinicId, canPurge, purgeExpiredPatients, qc]);
+}
@@ -14,10 +14,372 @@ export type Database = {
   }
   public: {
     Tables: {
+      appointment_reminders: {
+        Row: {
+          appointment_id: string
+          channel: string
+          clinic_id: string
+          created_at: string | null
+          delivered_at: string | null
+          failure_reason: string | null
+          id: string
+          message: string | null
+          offset_days: number
+          patient_id: string
+          provider_message_id: string | null
+          recipient: string | null
+          replied_at: string | null
+          reply: string | null
+          reply_text: string | null
+          scheduled_for: string
+          sent_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          appointment_id: string
+          channel: string
+          clinic_id: string
+          created_at?: string | null
+          delivered_at?: string | null
+          failure_reason?: string | null
+          id?: string
+          message?: string | null
+          offset_days: number
+          patient_id: string
+          provider_message_id?: string | null
+          recipient?: string | null
+          replied_at?: string | null
+          reply?: string | null
+          reply_text?: string | null
+          scheduled_for: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          appointment_id?: string
+          channel?: string
+          clinic_id?: string
+          created_at?: string | null
+          delivered_at?: string | null
+          failure_reason?: string | null
+          id?: string
+          message?: string | null
+          offset_days?: number
+          patient_id?: string
+          provider_message_id?: string | null
+          recipient?: string | null
+          replied_at?: string | null
+          reply?: string | null
+          reply_text?: string | null
+          scheduled_for?: string
+          sent_at?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reminders_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_reminders_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointments: {
+        Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          clinic_id: string
+          completed_at: string | null
+          confirmed_at: string | null
+          created_at: string | null
+          end_at: string
+          id: string
+          notes: string | null
+          patient_id: string
+          professional_name: string
+          reason: string | null
+          reschedule_count: number
+          start_at: string
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          clinic_id: string
+          completed_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string | null
+          end_at: string
+          id?: string
+          notes?: string | null
+          patient_id: string
+          professional_name: string
+          reason?: string | null
+          reschedule_count?: number
+          start_at: string
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          clinic_id?: string
+          completed_at?: string | null
+          confirmed_at?: string | null
+          created_at?: string | null
+          end_at?: string
+          id?: string
+          notes?: string | null
+          patient_id?: string
+          professional_name?: string
+          reason?: string | null
+          reschedule_count?: number
+          start_at?: string
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointments_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinic_members: {
+        Row: {
+          clinic_id: string
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "clinic_members_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      clinics: {
+        Row: {
+          city: string | null
+          created_at: string
+          id: string
+          name: string
+          state: string | null
+        }
+        Insert: {
+          city?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          state?: string | null
+        }
+        Update: {
+          city?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          state?: string | null
+        }
+        Relationships: []
+      }
+      patient_audit_log: {
+        Row: {
+          action: string
+          actor: string
+          changes: Json
+          clinic_id: string
+          id: string
+          occurred_at: string
+          patient_id: string
+          snapshot: Json
+        }
+        Insert: {
+          action: string
+          actor: string
+          changes?: Json
+          clinic_id: string
+          id?: string
+          occurred_at?: string
+          patient_id: string
+          snapshot: Json
+        }
+        Update: {
+          action?: string
+          actor?: string
+          changes?: Json
+          clinic_id?: string
+          id?: string
+          occurred_at?: string
+          patient_id?: string
+          snapshot?: Json
+        }
+        Relationships: []
+      }
+      patient_documents: {
+        Row: {
+          clinic_id: string
+          created_at: string | null
+          description: string | null
+          document_type: string
+          expires_at: string | null
+          file_name: string
+          file_ref: string
+          id: string
+          issued_at: string | null
+          mime_type: string
+          patient_id: string
+          size_bytes: number
+          updated_at: string | null
+          uploaded_by: string | null
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string | null
+          description?: string | null
+          document_type: string
+          expires_at?: string | null
+          file_name: string
+          file_ref: string
+          id?: string
+          issued_at?: string | null
+          mime_type: string
+          patient_id: string
+          size_bytes: number
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string | null
+          description?: string | null
+          document_type?: string
+          expires_at?: string | null
+          file_name?: string
+          file_ref?: string
+          id?: string
+          issued_at?: string | null
+          mime_type?: string
+          patient_id?: string
+          size_bytes?: number
+          updated_at?: string | null
+          uploaded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_documents_clinic_id_fkey"
+            columns: ["clinic_id"]
+            isOneToOne: false
+            referencedRelation: "clinics"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_documents_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_merges: {
+        Row: {
+          clinic_id: string
+          created_at: string | null
+          field_choices: Json
+          id: string
+          merged_at: string
+          merged_by: string
+          merged_id: string
+          merged_snapshot: Json
+          repointed: Json
+          survivor_id: string
+          survivor_snapshot: Json
+          undo_deadline: string
+          undone_at: string | null
+          undone_by: string | null
+        }
+        Insert: {
+          clinic_id: string
+          created_at?: string | null
+          field_choices: Json
+          id?: string
+          merged_at: string
+          merged_by: string
+          merged_id: string
+          merged_snapshot: Json
+          repointed?: Json
+          survivor_id: string
+          survivor_snapshot: Json
+          undo_deadline: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Update: {
+          clinic_id?: string
+          created_at?: string | null
+          field_choices?: Json
+          id?: string
+          merged_at?: string
+          merged_by?: string
+          merged_id?: string
+          merged_snapshot?: Json
+          repointed?: Json
+          survivor_id?: string
+          survivor_snapshot?: Json
+          undo_deadline?: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_merges_merged_id_fkey"
+            columns: ["merged_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_merges_survivor_id_fkey"
+            columns: ["survivor_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       patients: {
         Row: {
           absenteeism_risk_score: number | null
           address_city: string | null
+          address_city_search: string | null
           address_complement: string | null
           address_district: string | null
           address_number: string | null
@@ -27,10 +389,15 @@ export type Database = {
           behavior_score: number | null
           birth_city: string | null
           birth_date: string
+          birth_month: number | null
           birth_state: string | null
+          clinic_id: string
+          cns: string | null
           communication_preferences: Json | null
           cpf: string
           created_at: string | null
+          deleted_at: string | null
+          deleted_by: string | null
           email: string | null
           ethnicity: string | null
           father_name: string | null
@@ -39,6 +406,10 @@ export type Database = {
           id: string
           legacy_code: string | null
           marital_status: string | null
+          marketing_consent: boolean
+          marketing_consent_at: string | null
+          merged_at: string | null
+          merged_into_id: string | null
           mother_name: string | null
           nationality: string | null
           observations: string | null
@@ -47,17 +418,22 @@ export type Database = {
           phone_primary: string
           phone_secondary: string | null
           photo_url: string | null
+          preferred_contact_end: string | null
+          preferred_contact_start: string | null
           profession: string | null
           race: string | null
           responsible_cpf: string | null
           responsible_name: string | null
           rg: string | null
+          rg_state: string | null
           social_name: string | null
+          tags: string[]
           updated_at: string | null
         }
         Insert: {
           absenteeism_risk_score?: number | null
           address_city?: string | null
+          address_city_search?: never
           address_complement?: string | null
           address_district?: string | null
           address_number?: string | null
@@ -67,10 +443,15 @@ export type Database = {
           behavior_score?: number | null
           birth_city?: string | null
           birth_date: string
+          birth_month?: never
           birth_state?: string | null
+          clinic_id: string
+          cns?: string | null
           communication_preferences?: Json | null
           cpf: string
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           email?: string | null
           ethnicity?: string | null
           father_name?: string | null
@@ -79,6 +460,10 @@ export type Database = {
           id?: string
           legacy_code?: string | null
           marital_status?: string | null
+          marketing_consent?: boolean
+          marketing_consent_at?: string | null
+          merged_at?: string | null
+          merged_into_id?: string | null
           mother_name?: string | null
           nationality?: string | null
           observations?: string | null
@@ -87,17 +472,22 @@ export type Database = {
           phone_primary: string
           phone_secondary?: string | null
           photo_url?: string | null
+          preferred_contact_end?: string | null
+          preferred_contact_start?: string | null
           profession?: string | null
           race?: string | null
           responsible_cpf?: string | null
           responsible_name?: string | null
           rg?: string | null
+          rg_state?: string | null
           social_name?: string | null
+          tags?: string[]
           updated_at?: string | null
         }
         Update: {
           absenteeism_risk_score?: number | null
           address_city?: string | null
+          address_city_search?: never
           address_complement?: string | null
           address_district?: string | null
           address_number?: string | null
@@ -107,10 +497,15 @@ export type Database = {
           behavior_score?: number | null
           birth_city?: string | null
           birth_date?: string
+          birth_month?: never
           birth_state?: string | null
+          clinic_id?: string
+          cns?: string | null
           communication_preferences?: Json | null
           cpf?: string
           created_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
           email?: string | null
           ethnicity?: string | null
           father_name?: string | null
@@ -119,6 +514,10 @@ export type Database = {
           id?: string
           legacy_code?: string | null
           marital_status?: string | null
+          marketing_consent?: boolean
+          marketing_consent_at?: string | null
+          merged_at?: string | null
+          merged_into_id?: string | null
           mother_name?: string | null
           nationality?: string | null
           observations?: string | null
@@ -127,22 +526,93 @@ export type Database = {
           phone_primary?: string
           phone_secondary?: string | null
           photo_url?: string | null
+          preferred_contact_end?: string | null
+          preferred_contact_start?: string | null
           profession?: string | null
           race?: string | null
           responsible_cpf?: string | null
           responsible_name?: string | null
           rg?: string | null
+          rg_state?: string | null
           social_name?: string | null
+          tags?: string[]
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "patients_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      patient_records: {
+        Row: {
+          absenteeism_risk_score: number | null
+          address_city: string | null
+          address_city_search: string | null
+          address_complement: string | null
+          address_district: string | null
+          address_number: string | null
+          address_state: string | null
+          address_street: string | null
+          address_zip_code: string | null
+          behavior_score: number | null
+          birth_city: string | null
+          birth_date: string
+          birth_month: number | null
+          birth_state: string | null
+          clinic_id: string
+          cns: string | null
+          communication_preferences: Json | null
+          cpf: string
+          created_at: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          email: string | null
+          ethnicity: string | null
+          father_name: string | null
+          full_name: string
+          gender: string | null
+          id: string
+          legacy_code: string | null
+          marital_status: string | null
+          marketing_consent: boolean
+          marketing_consent_at: string | null
+          merged_at: string | null
+          merged_into_id: string | null
+          mother_name: string | null
+          nationality: string | null
+          observations: string | null
+          other_document_number: string | null
+          other_document_type: string | null
+          phone_primary: string
+          phone_secondary: string | null
+          photo_url: string | null
+          preferred_contact_end: string | null
+          preferred_contact_start: string | null
+          profession: string | null
+          race: string | null
+          responsible_cpf: string | null
+          responsible_name: string | null
+          rg: string | null
+          rg_state: string | null
+          social_name: string | null
+          tags: string[]
+          updated_at: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      search_patients: {
+        Args: { search_term?: string }
+        Returns: Database["public"]["Views"]["patient_records"]["Row"][]
+      }
     }
     Enums: {
       [_ in never]: never
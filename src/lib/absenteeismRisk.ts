@@ -0,0 +1,170 @@
+// Motor de score de risco de absenteísmo (0 a 100)
+// Determinístico: mesmas entradas (paciente, histórico, data de referência) geram o mesmo score.
+// Cada fator informa os pontos somados para que a equipe entenda o resultado.
+
+import { differenceInCalendarDays, differenceInYears, getDay, parseISO } from "date-fns";
+import { normalizeText, onlyDigits } from "@/lib/utils";
+import type { ClinicLocation } from "@/lib/clinic";
+import type { Appointment } from "@/types/appointment";
+import type { Patient } from "@/types/patient";
+
+export type RiskFactorKey =
+  | "history"
+  | "lead_time"
+  | "day_of_week"
+  | "distance"
+  | "age"
+  | "confirmations"
+  | "reschedules";
+
+export interface RiskFactor {
+  key: RiskFactorKey;
+  label: string;
+  points: number;
+  detail: string;
+}
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: "Baixo",
+  medium: "Moderado",
+  high: "Alto",
+};
+
+export interface RiskAssessment {
+  score: number;
+  level: RiskLevel;
+  factors: RiskFactor[];
+}
+
+export interface RiskContext {
+  now?: Date;
+  // Localização da clínica do paciente (getClinicLocation)
+  clinic: ClinicLocation;
+}
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= 60) return "high";
+  if (score >= 30) return "medium";
+  return "low";
+}
+
+const WEEKDAY_LABELS = ["domingo", "segunda-feira", "terça-feira", "quarta-feira", "quinta-feira", "sexta-feira", "sábado"];
+// Pontos por dia da semana do próximo agendamento (segundas, sextas e sábados concentram mais faltas)
+const WEEKDAY_POINTS = [6, 5, 0, 0, 0, 5, 6];
+
+function historyFactor(past: Appointment[]): RiskFactor {
+  const attended = past.filter((a) => a.status === "completed").length;
+  const missed = past.filter((a) => a.status === "no_show").length;
+  const total = attended + missed;
+  if (total === 0) {
+    return { key: "history", label: "Histórico de comparecimento", points: 10, detail: "Sem atendimentos anteriores" };
+  }
+  const rate = missed / total;
+  return {
+    key: "history",
+    label: "Histórico de comparecimento",
+    points: Math.round(rate * 40),
+    detail: `${missed} falta(s) em ${total} atendimento(s) (${Math.round(rate * 100)}%)`,
+  };
+}
+
+function confirmationsFactor(past: Appointment[]): RiskFactor | null {
+  const considered = past.filter((a) => a.status === "completed" || a.status === "no_show");
+  if (considered.length === 0) return null;
+  const confirmed = considered.filter((a) => a.confirmed_at).length;
+  const rate = confirmed / considered.length;
+  const points = rate >= 0.8 ? -5 : rate >= 0.5 ? 0 : 8;
+  return {
+    key: "confirmations",
+    label: "Confirmações anteriores",
+    points,
+    detail: `${confirmed} de ${considered.length} agendamento(s) confirmados`,
+  };
+}
+
+function reschedulesFactor(history: Appointment[]): RiskFactor | null {
+  const reschedules = history.reduce((sum, a) => sum + (a.reschedule_count ?? 0), 0);
+  if (reschedules === 0) return null;
+  return {
+    key: "reschedules",
+    label: "Reagendamentos",
+    points: Math.min(8, reschedules * 2),
+    detail: `${reschedules} reagendamento(s) no histórico`,
+  };
+}
+
+function leadTimeFactor(next: Appointment | undefined): RiskFactor | null {
+  if (!next?.created_at) return null;
+  const days = differenceInCalendarDays(parseISO(next.start_at), parseISO(next.created_at));
+  const points = days > 30 ? 12 : days > 14 ? 8 : days > 7 ? 4 : 0;
+  return {
+    key: "lead_time",
+    label: "Antecedência do agendamento",
+    points,
+    detail: `Marcado com ${Math.max(0, days)} dia(s) de antecedência`,
+  };
+}
+
+function dayOfWeekFactor(next: Appointment | undefined): RiskFactor | null {
+  if (!next) return null;
+  const day = getDay(parseISO(next.start_at));
+  return {
+    key: "day_of_week",
+    label: "Dia da semana",
+    points: WEEKDAY_POINTS[day],
+    detail: `Próximo agendamento em ${WEEKDAY_LABELS[day]}`,
+  };
+}
+
+function distanceFactor(patient: Patient, clinic: ClinicLocation): RiskFactor {
+  const label = "Distância da clínica";
+  const zip = onlyDigits(patient.address_zip_code ?? "");
+  const clinicZip = onlyDigits(clinic.zip_code ?? "");
+  // CEPs com o mesmo prefixo de 5 dígitos pertencem ao mesmo setor/sub-região
+  if (zip.length === 8 && clinicZip.length === 8) {
+    if (zip.slice(0, 5) === clinicZip.slice(0, 5)) return { key: "distance", label, points: 0, detail: "Mesmo setor de CEP da clínica" };
+    if (zip.slice(0, 3) === clinicZip.slice(0, 3)) return { key: "distance", label, points: 2, detail: "Sub-região de CEP próxima à clínica" };
+  }
+  if (!patient.address_city) return { key: "distance", label, points: 4, detail: "Endereço não informado" };
+  const sameState = (patient.address_state ?? "").toUpperCase() === clinic.state.toUpperCase();
+  if (sameState && normalizeText(patient.address_city) === normalizeText(clinic.city)) {
+    return { key: "distance", label, points: 3, detail: `Reside em ${patient.address_city}` };
+  }
+  if (sameState) return { key: "distance", label, points: 8, detail: `Outro município (${patient.address_city})` };
+  return { key: "distance", label, points: 12, detail: `Outro estado (${patient.address_state ?? "-"})` };
+}
+
+function ageFactor(patient: Patient, now: Date): RiskFactor | null {
+  if (!patient.birth_date) return null;
+  const age = differenceInYears(now, parseISO(patient.birth_date));
+  const points = age < 18 ? 3 : age <= 25 ? 8 : age <= 35 ? 5 : age >= 65 ? 3 : 0;
+  return { key: "age", label: "Faixa etária", points, detail: `${age} anos` };
+}
+
+export function computeAbsenteeismRisk(
+  patient: Patient,
+  appointments: Appointment[],
+  { now = new Date(), clinic }: RiskContext
+): RiskAssessment {
+  const sorted = [...appointments].sort((a, b) => parseISO(a.start_at).getTime() - parseISO(b.start_at).getTime());
+  const past = sorted.filter((a) => parseISO(a.start_at).getTime() <= now.getTime());
+  const next = sorted.find(
+    (a) => parseISO(a.start_at).getTime() > now.getTime() && (a.status === "scheduled" || a.status === "confirmed")
+  );
+
+  const factors = [
+    historyFactor(past),
+    confirmationsFactor(past),
+    reschedulesFactor(sorted),
+    leadTimeFactor(next),
+    dayOfWeekFactor(next),
+    distanceFactor(patient, clinic),
+    ageFactor(patient, now),
+  ].filter((f): f is RiskFactor => f !== null);
+
+  const raw = factors.reduce((sum, f) => sum + f.points, 0);
+  const score = Math.max(0, Math.min(100, raw));
+  return { score, level: getRiskLevel(score), factors };
+}
@@ -0,0 +1,20 @@
+// Seleção do provedor de autenticação por configuração (VITE_AUTH_BACKEND no .env.local)
+
+import { DATA_BACKEND, type DataBackend } from "@/lib/dataBackend";
+
+// supabase: Supabase Auth (GoTrue) do cliente configurado em src/integrations/supabase/client.ts
+// mock: usuários simulados no navegador, para desenvolvimento e testes sem servidor
+export type AuthBackend = "supabase" | "mock";
+
+export const AUTH_BACKENDS: AuthBackend[] = ["supabase", "mock"];
+
+// Sem configuração, acompanha o backend de dados: demos em localStorage/memória usam o simulado
+export function resolveAuthBackend(value: string | undefined, dataBackend: DataBackend): AuthBackend {
+  if (!value) return dataBackend === "supabase" ? "supabase" : "mock";
+  const v = value.trim().toLowerCase() as AuthBackend;
+  if (AUTH_BACKENDS.includes(v)) return v;
+  console.warn(`VITE_AUTH_BACKEND inválido ("${value}"). Usando "supabase".`);
+  return "supabase";
+}
+
+export const AUTH_BACKEND: AuthBackend = resolveAuthBackend(import.meta.env.VITE_AUTH_BACKEND, DATA_BACKEND);
@@ -0,0 +1,116 @@
+// Documentos brasileiros: validação (CPF, CNS, RG por UF) e máscaras de apresentação.
+// Usado pelo formulário (schema zod) e pela camada de serviço.
+
+import { onlyDigits } from "@/lib/utils";
+
+export const BRAZILIAN_STATES = [
+  "AC", "AL", "AM", "AP", "BA", "CE", "DF", "ES", "GO", "MA", "MG", "MS", "MT", "PA",
+  "PB", "PE", "PI", "PR", "RJ", "RN", "RO", "RR", "RS", "SC", "SE", "SP", "TO",
+];
+
+// CPF: 11 dígitos, dois dígitos verificadores (módulo 11) e sem sequências repetidas (111.111.111-11)
+export function isValidCPF(value: string): boolean {
+  const cpf = onlyDigits(value ?? "");
+  if (cpf.length !== 11 || /^(\d)\1{10}$/.test(cpf)) return false;
+  const digits = cpf.split("").map(Number);
+  const checkDigit = (length: number) => {
+    const sum = digits.slice(0, length).reduce((acc, d, i) => acc + d * (length + 1 - i), 0);
+    const rest = (sum * 10) % 11;
+    return rest === 10 ? 0 : rest;
+  };
+  return checkDigit(9) === digits[9] && checkDigit(10) === digits[10];
+}
+
+// CNS (Cartão Nacional de Saúde): 15 dígitos.
+// Definitivos começam com 1 ou 2 (derivados do PIS); provisórios com 7, 8 ou 9 (soma ponderada múltipla de 11).
+export function isValidCNS(value: string): boolean {
+  const cns = onlyDigits(value ?? "");
+  if (cns.length !== 15 || /^(\d)\1{14}$/.test(cns)) return false;
+  const digits = cns.split("").map(Number);
+  const weighted = (count: number) => digits.slice(0, count).reduce((acc, d, i) => acc + d * (15 - i), 0);
+
+  if (digits[0] === 1 || digits[0] === 2) {
+    let sum = weighted(11);
+    let dv = 11 - (sum % 11);
+    if (dv === 11) dv = 0;
+    let expected: string;
+    if (dv === 10) {
+      sum += 2;
+      dv = 11 - (sum % 11);
+      expected = `${cns.slice(0, 11)}001${dv}`;
+    } else {
+      expected = `${cns.slice(0, 11)}000${dv}`;
+    }
+    return cns === expected;
+  }
+  if (digits[0] >= 7) return weighted(15) % 11 === 0;
+  return false;
+}
+
+interface RgRule {
+  pattern: RegExp;
+  example: string;
+  checkDigit?: (rg: string) => boolean;
+}
+
+// SSP-SP: 8 dígitos + DV (pesos 2 a 9, módulo 11; 10 vira "X"). RGs antigos com menos dígitos não têm DV verificável.
+function spCheckDigit(rg: string): boolean {
+  if (rg.length !== 9) return true;
+  const sum = rg
+    .slice(0, 8)
+    .split("")
+    .reduce((acc, d, i) => acc + Number(d) * (i + 2), 0);
+  const dv = 11 - (sum % 11);
+  const expected = dv === 10 ? "X" : dv === 11 ? "0" : String(dv);
+  return rg[8] === expected;
+}
+
+const RG_RULES: Record<string, RgRule> = {
+  SP: { pattern: /^\d{7,8}[\dX]$/, example: "12.345.678-9", checkDigit: spCheckDigit },
+  RJ: { pattern: /^\d{7,9}$/, example: "12.345.678-9" },
+  MG: { pattern: /^(MG)?\d{7,8}$/, example: "MG-12.345.678" },
+};
+const DEFAULT_RG_RULE: RgRule = { pattern: /^[A-Z0-9]{4,14}$/, example: "1234567" };
+
+export function normalizeRG(value: string): string {
+  return (value ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// Valida o RG conforme o formato do órgão emissor da UF; sem UF, aceita qualquer formato alfanumérico plausível
+export function isValidRG(value: string, state?: string | null): boolean {
+  const rg = normalizeRG(value);
+  const rule = RG_RULES[(state ?? "").toUpperCase()] ?? DEFAULT_RG_RULE;
+  return rule.pattern.test(rg) && (!rule.checkDigit || rule.checkDigit(rg));
+}
+
+export function rgFormatExample(state?: string | null): string {
+  return (RG_RULES[(state ?? "").toUpperCase()] ?? DEFAULT_RG_RULE).example;
+}
+
+// Máscaras (apenas apresentação)
+export const maskCPF = (v: string) => {
+  const s = onlyDigits(v).slice(0, 11);
+  return s
+    .replace(/(\d{3})(\d)/, "$1.$2")
+    .replace(/(\d{3})(\d)/, "$1.$2")
+    .replace(/(\d{3})(\d{1,2})$/, "$1-$2");
+};
+export const maskPhone = (v: string) => {
+  const s = onlyDigits(v).slice(0, 11);
+  if (s.length <= 10) {
+    return s
+      .replace(/(\d{2})(\d)/, "($1) $2")
+      .replace(/(\d{4})(\d{1,4})$/, "$1-$2");
+  }
+  return s
+    .replace(/(\d{2})(\d)/, "($1) $2")
+    .replace(/(\d{5})(\d{1,4})$/, "$1-$2");
+};
+export const maskCEP = (v: string) => {
+  const s = onlyDigits(v).slice(0, 8);
+  return s.replace(/(\d{5})(\d{1,3})$/, "$1-$2");
+};
+export const maskCNS = (v: string) => {
+  const s = onlyDigits(v).slice(0, 15);
+  return s.replace(/(\d{3})(\d)/, "$1 $2").replace(/(\d{4})(\d)/, "$1 $2").replace(/(\d{4})(\d)/, "$1 $2");
+};
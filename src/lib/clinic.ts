@@ -0,0 +1,15 @@
+// Localização da clínica usada em cálculos locais (ex.: distância do paciente no score de absenteísmo)
+// Vem do cadastro de cada clínica (getClinicLocation); CLINIC_LOCATION é o padrão para clínicas sem
+// cidade/UF, configurável por VITE_CLINIC_CITY, VITE_CLINIC_STATE e VITE_CLINIC_ZIP_CODE no .env.local
+
+export interface ClinicLocation {
+  city: string;
+  state: string; // UF
+  zip_code?: string; // CEP sem máscara
+}
+
+export const CLINIC_LOCATION: ClinicLocation = {
+  city: import.meta.env.VITE_CLINIC_CITY ?? "São Paulo",
+  state: import.meta.env.VITE_CLINIC_STATE ?? "SP",
+  zip_code: import.meta.env.VITE_CLINIC_ZIP_CODE,
+};
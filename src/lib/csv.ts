@@ -0,0 +1,92 @@
+// Leitura e escrita de CSV (RFC 4180), no formato aceito pelo Excel em português: ";" e UTF-8 com BOM
+
+export const CSV_DELIMITER = ";";
+const BOM = "\uFEFF";
+
+// Separador mais frequente na primeira linha (fora de aspas): ";", "," ou tabulação
+export function detectCsvDelimiter(text: string): string {
+  const counts: Record<string, number> = { ";": 0, ",": 0, "\t": 0 };
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === "\n" || char === "\r")) break;
+    else if (!quoted && char in counts) counts[char]++;
+  }
+  const [best, count] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+  return count > 0 ? best : CSV_DELIMITER;
+}
+
+// Linhas do CSV, na posição em que aparecem no arquivo (linhas vazias incluídas)
+export function parseCsv(text: string, delimiter = detectCsvDelimiter(text)): string[][] {
+  const source = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+  return rows;
+}
+
+function escapeCell(value: string, delimiter: string): string {
+  return /["\r\n]/.test(value) || value.includes(delimiter) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// Início de texto que o Excel interpretaria como fórmula (injeção de fórmulas em CSV)
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+// Textos que começam como fórmula recebem "'" na frente; números são gravados como estão
+function cellText(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return String(value);
+  return FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix)) ? `'${value}` : value;
+}
+
+// Desfaz o prefixo de cellText (ex.: relatório de erros da importação corrigido e importado de novo)
+export function stripFormulaEscape(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix, 1)) ? value.slice(1) : value;
+}
+
+// CSV com BOM (o Excel reconhece os acentos) e quebras de linha CRLF
+export function toCsv(rows: (string | number | null | undefined)[][], delimiter = CSV_DELIMITER): string {
+  return BOM + rows.map((row) => row.map((v) => escapeCell(cellText(v), delimiter)).join(delimiter)).join("\r\n");
+}
+
+// Planilhas de sistemas antigos costumam vir em Windows-1252; UTF-8 inválido cai nessa codificação
+export function decodeCsvBytes(bytes: ArrayBuffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("windows-1252").decode(bytes);
+  }
+}
@@ -0,0 +1,14 @@
+// Usuário responsável pelas operações (gravado em trilhas de auditoria)
+// Definido pelo AuthProvider com o e-mail do usuário logado; sem sessão, as operações são atribuídas a "sistema".
+
+const DEFAULT_ACTOR = "sistema";
+
+let currentActor: string = DEFAULT_ACTOR;
+
+export function getCurrentActor(): string {
+  return currentActor;
+}
+
+export function setCurrentActor(actor: string | null): void {
+  currentActor = actor?.trim() || DEFAULT_ACTOR;
+}
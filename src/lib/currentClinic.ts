@@ -0,0 +1,25 @@
+// Clínica ativa do usuário, definida pelo ClinicProvider ao entrar ou trocar de clínica.
+// Os serviços a usam para filtrar consultas e preencher clinic_id nos novos registros.
+
+// Clínica que recebe os registros anteriores à multi-clínica (mesmo id usado na migração do Supabase)
+export const DEFAULT_CLINIC_ID = "00000000-0000-0000-0000-000000000001";
+
+let currentClinicId: string | null = null;
+
+export function getCurrentClinicId(): string | null {
+  return currentClinicId;
+}
+
+export function setCurrentClinicId(clinicId: string | null): void {
+  currentClinicId = clinicId;
+}
+
+export function requireClinicId(): string {
+  if (!currentClinicId) throw new Error("Nenhuma clínica selecionada");
+  return currentClinicId;
+}
+
+// Clínica de um registro; registros sem clinic_id (dados locais antigos) pertencem à clínica padrão
+export function clinicOf(record: { clinic_id?: string | null }): string {
+  return record.clinic_id ?? DEFAULT_CLINIC_ID;
+}
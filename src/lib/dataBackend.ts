@@ -0,0 +1,19 @@
+// Seleção do backend de dados por configuração (VITE_DATA_BACKEND no .env.local)
+// O fallback em memória só é usado quando explicitamente configurado.
+
+// supabase: tabelas do projeto Supabase
+// local: localStorage do navegador (sobrevive a recarregamentos, ideal para demos)
+// memory: apenas em memória (perdido ao recarregar)
+export type DataBackend = "supabase" | "local" | "memory";
+
+export const DATA_BACKENDS: DataBackend[] = ["supabase", "local", "memory"];
+
+export function resolveDataBackend(value: string | undefined): DataBackend {
+  if (!value) return "supabase";
+  const v = value.trim().toLowerCase() as DataBackend;
+  if (DATA_BACKENDS.includes(v)) return v;
+  console.warn(`VITE_DATA_BACKEND inválido ("${value}"). Usando "supabase".`);
+  return "supabase";
+}
+
+export const DATA_BACKEND: DataBackend = resolveDataBackend(import.meta.env.VITE_DATA_BACKEND);
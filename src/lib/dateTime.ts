@@ -0,0 +1,9 @@
+import { set } from "date-fns";
+
+// Combina uma data (dia) com um horário "HH:mm"
+export function combineDateAndTime(date: Date, time: string): Date {
+  const [hours, minutes] = time.split(":").map((n) => parseInt(n, 10));
+  return set(date, { hours: hours || 0, minutes: minutes || 0, seconds: 0, milliseconds: 0 });
+}
+
+export const DURATION_OPTIONS = [15, 20, 30, 45, 60, 90];
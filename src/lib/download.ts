@@ -0,0 +1,34 @@
+// Download e impressão de arquivos gerados no navegador (relatórios, exportações)
+
+export function downloadFile(content: BlobPart | Blob, filename: string, type: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Alguns navegadores só iniciam o download após o clique ser processado
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Abre a impressão de um documento HTML completo (o usuário pode salvar como PDF).
+// Usa um iframe oculto: window.open depois de uma operação assíncrona é bloqueado como pop-up.
+export function printHtml(html: string): void {
+  const frame = document.createElement("iframe");
+  frame.setAttribute("aria-hidden", "true");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  frame.srcdoc = html;
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener("afterprint", () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,314 @@
+// Conversão entre Patient e o recurso HL7 FHIR R4 Patient (laboratórios parceiros, rede regional de saúde).
+// CPF e CNS viram identificadores com os sistemas da RNDS; o nome social é o nome "usual".
+// Rua, número e complemento seguem nas extensões ISO 21090 (ADXP) das linhas do endereço, que não têm posição fixa.
+// Recursos importados passam pelas mesmas regras do cadastro (validatePatientValues) e pela detecção de duplicados
+// da importação de planilhas.
+
+import { isValid, parseISO } from "date-fns";
+import { onlyDigits } from "@/lib/utils";
+import { validatePatientValues, type ImportRow } from "@/lib/patientImport";
+import { parseFileRef } from "@/services/fileStorageService";
+import type {
+  FhirAddress,
+  FhirBundle,
+  FhirCodeableConcept,
+  FhirContactPoint,
+  FhirElement,
+  FhirHumanName,
+  FhirIdentifier,
+  FhirPatient,
+  FhirPatientContact,
+} from "@/types/fhir";
+import type { Patient } from "@/types/patient";
+
+// Sistemas de identificadores (NamingSystem da RNDS; OIDs aceitos na importação)
+export const FHIR_CPF_SYSTEM = "http://rnds.saude.gov.br/fhir/r4/NamingSystem/cpf";
+export const FHIR_CNS_SYSTEM = "http://rnds.saude.gov.br/fhir/r4/NamingSystem/cns";
+const CPF_SYSTEMS = [FHIR_CPF_SYSTEM, "urn:oid:2.16.840.1.113883.13.237"];
+const CNS_SYSTEMS = [FHIR_CNS_SYSTEM, "urn:oid:2.16.840.1.113883.13.236"];
+// Identificadores locais
+export const FHIR_RG_SYSTEM = "urn:mediconnect:patient:rg";
+export const FHIR_LEGACY_CODE_SYSTEM = "urn:mediconnect:patient:legacy-code";
+
+// Partes da linha do endereço (streetName, houseNumber, additionalLocator)
+const ADDRESS_PART_URL = "http://hl7.org/fhir/StructureDefinition/iso21090-ADXP-";
+
+const MARITAL_STATUS_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-MaritalStatus";
+const ROLE_CODE_SYSTEM = "http://terminology.hl7.org/CodeSystem/v3-RoleCode";
+
+export const FHIR_MIME_TYPE = "application/fhir+json";
+
+const GENDER_TO_FHIR: Record<string, FhirPatient["gender"]> = {
+  Masculino: "male",
+  Feminino: "female",
+  Outro: "other",
+  "Prefiro não informar": "unknown",
+};
+const GENDER_FROM_FHIR: Record<string, string> = {
+  male: "Masculino",
+  female: "Feminino",
+  other: "Outro",
+  unknown: "Prefiro não informar",
+};
+
+const MARITAL_STATUS_CODES: Record<string, string> = {
+  "Solteiro(a)": "S",
+  "Casado(a)": "M",
+  "Divorciado(a)": "D",
+  "Viúvo(a)": "W",
+  "União Estável": "T",
+};
+
+// Papel de cada contato do paciente (mãe, pai, responsável)
+const CONTACT_ROLES = {
+  mother_name: { code: "MTH", display: "mother" },
+  father_name: { code: "FTH", display: "father" },
+  responsible_name: { code: "GUARD", display: "guardian" },
+} as const;
+type ContactField = keyof typeof CONTACT_ROLES;
+
+// Telefones com DDI (+55) no FHIR; apenas DDD e número no cadastro
+const phoneToFhir = (digits: string) => `+55${digits}`;
+function phoneFromFhir(value: string): string {
+  const digits = onlyDigits(value);
+  return digits.startsWith("55") && digits.length >= 12 ? digits.slice(2) : digits;
+}
+
+function splitName(full: string): Pick<FhirHumanName, "family" | "given"> {
+  const parts = full.trim().split(/\s+/);
+  if (parts.length < 2) return { given: parts.filter(Boolean) };
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1) };
+}
+
+const nameText = (name: FhirHumanName) => name.text?.trim() || [...(name.given ?? []), name.family ?? ""].join(" ").trim();
+
+// Linha "rua, número" e linha do complemento, cada uma com as partes em extensões
+function addressLines(patient: Patient): Pick<FhirAddress, "line" | "_line"> {
+  const part = (name: string, value: string | null | undefined) =>
+    value ? [{ url: `${ADDRESS_PART_URL}${name}`, valueString: value }] : [];
+  const line: string[] = [];
+  const parts: FhirElement[] = [];
+  const street = [patient.address_street, patient.address_number].filter(Boolean).join(", ");
+  if (street) {
+    line.push(street);
+    parts.push({
+      extension: [...part("streetName", patient.address_street), ...part("houseNumber", patient.address_number)],
+    });
+  }
+  if (patient.address_complement) {
+    line.push(patient.address_complement);
+    parts.push({ extension: part("additionalLocator", patient.address_complement) });
+  }
+  return { line, _line: parts };
+}
+
+// Rua, número e complemento pelas extensões; sem elas, as linhas são lidas na ordem rua, número, complemento
+function addressFromLines(address: FhirAddress): { street: string; number: string; complement: string } {
+  const extensions = (address._line ?? []).flatMap((element) => element?.extension ?? []);
+  const part = (name: string) =>
+    extensions.find((e) => e.url === `${ADDRESS_PART_URL}${name}`)?.valueString ?? "";
+  if (extensions.some((e) => e.url.startsWith(ADDRESS_PART_URL))) {
+    return { street: part("streetName"), number: part("houseNumber"), complement: part("additionalLocator") };
+  }
+  const [street = "", number = "", ...rest] = address.line ?? [];
+  return { street, number, complement: rest.join(", ") };
+}
+
+// Remove elementos vazios (o FHIR não aceita strings vazias nem listas vazias)
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined && v !== null && v !== "" && !(Array.isArray(v) && v.length === 0))
+  ) as T;
+}
+
+export function patientToFhir(patient: Patient): FhirPatient {
+  const identifier: FhirIdentifier[] = [];
+  if (patient.cpf) identifier.push({ use: "official", system: FHIR_CPF_SYSTEM, value: patient.cpf });
+  if (patient.cns) identifier.push({ use: "official", system: FHIR_CNS_SYSTEM, value: patient.cns });
+  if (patient.rg) {
+    identifier.push(
+      compact({
+        use: "secondary" as const,
+        type: patient.rg_state ? { text: `RG ${patient.rg_state}` } : undefined,
+        system: FHIR_RG_SYSTEM,
+        value: patient.rg,
+      })
+    );
+  }
+  if (patient.legacy_code) identifier.push({ use: "old", system: FHIR_LEGACY_CODE_SYSTEM, value: patient.legacy_code });
+
+  const name: FhirHumanName[] = [{ use: "official", text: patient.full_name, ...splitName(patient.full_name) }];
+  if (patient.social_name) name.push({ use: "usual", text: patient.social_name, ...splitName(patient.social_name) });
+
+  const telecom: FhirContactPoint[] = [];
+  if (patient.phone_primary) telecom.push({ system: "phone", value: phoneToFhir(patient.phone_primary), use: "mobile", rank: 1 });
+  if (patient.phone_secondary) telecom.push({ system: "phone", value: phoneToFhir(patient.phone_secondary), use: "home", rank: 2 });
+  if (patient.email) telecom.push({ system: "email", value: patient.email });
+
+  const hasAddress = [patient.address_street, patient.address_city, patient.address_state, patient.address_zip_code].some(Boolean);
+  const address: FhirAddress[] = hasAddress
+    ? [
+        compact({
+          use: "home" as const,
+          ...addressLines(patient),
+          district: patient.address_district ?? undefined,
+          city: patient.address_city ?? undefined,
+          state: patient.address_state ?? undefined,
+          postalCode: patient.address_zip_code ?? undefined,
+          country: "BR",
+        }),
+      ]
+    : [];
+
+  const marital = patient.marital_status;
+  const maritalStatus: FhirCodeableConcept | undefined = marital
+    ? compact({
+        coding: MARITAL_STATUS_CODES[marital] ? [{ system: MARITAL_STATUS_SYSTEM, code: MARITAL_STATUS_CODES[marital] }] : undefined,
+        text: marital,
+      })
+    : undefined;
+
+  const contact: FhirPatientContact[] = (Object.keys(CONTACT_ROLES) as ContactField[])
+    .filter((field) => patient[field])
+    .map((field) => ({
+      relationship: [{ coding: [{ system: ROLE_CODE_SYSTEM, ...CONTACT_ROLES[field] }] }],
+      name: { text: patient[field]! },
+    }));
+
+  return compact({
+    resourceType: "Patient" as const,
+    id: patient.id,
+    meta: patient.updated_at ? { lastUpdated: patient.updated_at } : undefined,
+    identifier,
+    active: !patient.deleted_at,
+    name,
+    telecom,
+    gender: patient.gender ? GENDER_TO_FHIR[patient.gender] : undefined,
+    birthDate: patient.birth_date,
+    address,
+    maritalStatus,
+    // Referências do armazenamento interno (storage://) não abrem fora do sistema; só URLs externas são exportadas
+    photo: patient.photo_url && !parseFileRef(patient.photo_url) ? [{ url: patient.photo_url }] : undefined,
+    contact,
+  });
+}
+
+// Bundle do tipo collection (download no estilo $export)
+export function buildFhirBundle(resources: FhirPatient[], timestamp = new Date()): FhirBundle<FhirPatient> {
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: timestamp.toISOString(),
+    entry: resources.map((resource) => ({ ...(resource.id ? { fullUrl: `urn:uuid:${resource.id}` } : {}), resource })),
+  };
+}
+
+const identifierValue = (resource: FhirPatient, systems: string[]) =>
+  resource.identifier?.find((i) => i.system && systems.includes(i.system) && i.value)?.value;
+
+// Recurso FHIR -> valores no formato do formulário de cadastro, mais os erros de estrutura do recurso
+export function fhirToPatientValues(resource: FhirPatient): { values: Record<string, unknown>; errors: string[] } {
+  const errors: string[] = [];
+  const values: Record<string, unknown> = {};
+
+  const names = resource.name ?? [];
+  const official = names.find((n) => n.use === "official") ?? names.find((n) => n.use !== "usual" && n.use !== "old") ?? names[0];
+  const usual = names.find((n) => n.use === "usual" && n !== official);
+  values.full_name = official ? nameText(official) : "";
+  values.social_name = usual ? nameText(usual) : "";
+
+  values.cpf = identifierValue(resource, CPF_SYSTEMS) ?? "";
+  values.cns = identifierValue(resource, CNS_SYSTEMS) ?? "";
+  const rg = resource.identifier?.find((i) => i.system === FHIR_RG_SYSTEM && i.value);
+  values.rg = rg?.value ?? "";
+  values.rg_state = rg?.type?.text?.match(/^RG ([A-Z]{2})$/)?.[1] ?? "";
+  values.legacy_code = identifierValue(resource, [FHIR_LEGACY_CODE_SYSTEM]) ?? "";
+
+  if (resource.gender) {
+    if (GENDER_FROM_FHIR[resource.gender]) values.gender = GENDER_FROM_FHIR[resource.gender];
+    else errors.push(`gender: valor "${resource.gender}" não pertence ao R4 (male, female, other, unknown)`);
+  }
+
+  if (resource.birthDate) {
+    // Datas parciais (só ano ou ano-mês) são válidas no FHIR, mas o cadastro exige a data completa
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(resource.birthDate) ? parseISO(resource.birthDate) : null;
+    if (date && isValid(date)) values.birth_date = date;
+    else errors.push(`birthDate: data "${resource.birthDate}" incompleta ou inválida (use aaaa-mm-dd)`);
+  }
+
+  const active = (resource.telecom ?? []).filter((t) => t.value && t.use !== "old");
+  const phones = active.filter((t) => t.system === "phone" || t.system === "sms").sort((a, b) => (a.rank ?? 99) - (b.rank ?? 99));
+  values.phone_primary = phones[0] ? phoneFromFhir(phones[0].value!) : "";
+  values.phone_secondary = phones[1] ? phoneFromFhir(phones[1].value!) : "";
+  values.email = active.find((t) => t.system === "email")?.value ?? "";
+
+  const address = (resource.address ?? []).find((a) => a.use === "home") ?? resource.address?.[0];
+  if (address) {
+    const { street, number, complement } = addressFromLines(address);
+    values.address_street = street;
+    values.address_number = number;
+    values.address_complement = complement;
+    values.address_district = address.district ?? "";
+    values.address_city = address.city ?? "";
+    values.address_state = (address.state ?? "").toUpperCase();
+    values.address_zip_code = address.postalCode ?? "";
+  }
+
+  const maritalCode = resource.maritalStatus?.coding?.find((c) => c.system === MARITAL_STATUS_SYSTEM)?.code;
+  const maritalFromCode = Object.entries(MARITAL_STATUS_CODES).find(([, code]) => code === maritalCode)?.[0];
+  values.marital_status = maritalFromCode ?? resource.maritalStatus?.text ?? "";
+
+  for (const contact of resource.contact ?? []) {
+    const codes = (contact.relationship ?? []).flatMap((r) => r.coding ?? []).map((c) => c.code);
+    const field = (Object.keys(CONTACT_ROLES) as ContactField[]).find((f) => codes.includes(CONTACT_ROLES[f].code));
+    if (field && contact.name) values[field] = nameText(contact.name);
+  }
+
+  return { values, errors };
+}
+
+// Conteúdo do arquivo -> recursos: Bundle, um único recurso ou NDJSON (um recurso por linha, saída do $export)
+export function parseFhirInput(text: string): unknown[] {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("O arquivo está vazio");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(trimmed);
+  } catch {
+    try {
+      return trimmed
+        .split(/\r?\n/)
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line));
+    } catch {
+      throw new Error("Arquivo FHIR inválido: esperado um Bundle em JSON ou NDJSON");
+    }
+  }
+  const resource = parsed as { resourceType?: string; entry?: { resource?: unknown }[] };
+  if (resource?.resourceType === "Bundle") return (resource.entry ?? []).map((e) => e.resource);
+  return [parsed];
+}
+
+// Identificação do recurso no relatório de erros (ex.: "Patient/123")
+function resourceLabel(resource: unknown, position: number): string {
+  const r = resource as { resourceType?: unknown; id?: unknown } | null;
+  const type = typeof r?.resourceType === "string" ? r.resourceType : "Recurso";
+  return typeof r?.id === "string" && r.id ? `${type}/${r.id}` : `${type} #${position}`;
+}
+
+// Valida cada recurso; a posição no arquivo (1-based) ocupa o lugar da linha da planilha
+export function validateFhirResources(resources: unknown[]): ImportRow[] {
+  return resources.map((resource, i) => {
+    const line = i + 1;
+    const cells = [resourceLabel(resource, line)];
+    const type = (resource as { resourceType?: unknown } | null)?.resourceType;
+    if (type !== "Patient") {
+      return { line, cells, status: "invalid" as const, errors: [type ? `Tipo de recurso não suportado: ${String(type)}` : "Entrada sem recurso"] };
+    }
+    const { values, errors } = fhirToPatientValues(resource as FhirPatient);
+    const result = validatePatientValues(values, errors.some((e) => e.startsWith("birthDate")) ? ["birth_date"] : []);
+    const allErrors = [...errors, ...result.errors];
+    if (!result.payload || allErrors.length > 0) return { line, cells, status: "invalid" as const, errors: allErrors };
+    return { line, cells, status: "valid" as const, errors: [], payload: result.payload };
+  });
+}
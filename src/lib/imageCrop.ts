@@ -0,0 +1,79 @@
+// Recorte quadrado e compressão de fotos no navegador (canvas), antes do envio ao armazenamento
+
+// Lado da foto gravada, em pixels
+export const PHOTO_SIZE = 512;
+// Tamanho máximo do arquivo gravado
+export const PHOTO_MAX_BYTES = 200 * 1024;
+// Arquivos de origem aceitos (antes do recorte)
+export const PHOTO_SOURCE_MAX_BYTES = 15 * 1024 * 1024;
+export const PHOTO_ACCEPT = "image/jpeg,image/png,image/webp";
+
+// Área quadrada da imagem de origem, em pixels da origem
+export interface SquareCrop {
+  x: number;
+  y: number;
+  size: number;
+}
+
+export type PhotoSource = ImageBitmap | HTMLVideoElement | HTMLCanvasElement;
+
+export function sourceSize(source: PhotoSource): { width: number; height: number } {
+  if (source instanceof HTMLVideoElement) return { width: source.videoWidth, height: source.videoHeight };
+  return { width: source.width, height: source.height };
+}
+
+// Lê o arquivo de imagem respeitando a orientação EXIF (fotos de celular)
+export async function loadImage(file: Blob): Promise<ImageBitmap> {
+  if (!PHOTO_ACCEPT.split(",").includes(file.type)) throw new Error("Formato de imagem não suportado. Use JPEG, PNG ou WebP");
+  if (file.size > PHOTO_SOURCE_MAX_BYTES) throw new Error("Imagem muito grande (máximo de 15 MB)");
+  try {
+    return await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error("Não foi possível ler a imagem");
+  }
+}
+
+// Maior quadrado centralizado
+export function centeredSquare(width: number, height: number): SquareCrop {
+  const size = Math.min(width, height);
+  return { x: (width - size) / 2, y: (height - size) / 2, size };
+}
+
+// Recorte com zoom (1 = maior quadrado) e deslocamento do centro (-1 a 1 em cada eixo, dentro da folga disponível)
+export function cropFromView(width: number, height: number, zoom: number, offsetX: number, offsetY: number): SquareCrop {
+  const size = Math.min(width, height) / Math.max(1, zoom);
+  const clamp = (v: number) => Math.max(-1, Math.min(1, v));
+  return {
+    x: ((width - size) / 2) * (1 + clamp(offsetX)),
+    y: ((height - size) / 2) * (1 + clamp(offsetY)),
+    size,
+  };
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Não foi possível gerar a imagem"))), type, quality)
+  );
+
+// Desenha o recorte em PHOTO_SIZE x PHOTO_SIZE e comprime em JPEG até caber em PHOTO_MAX_BYTES
+export async function renderSquarePhoto(source: PhotoSource, crop: SquareCrop, size = PHOTO_SIZE): Promise<Blob> {
+  const canvas = document.createElement("canvas");
+  const output = Math.min(size, Math.round(crop.size));
+  canvas.width = output;
+  canvas.height = output;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Não foi possível processar a imagem");
+  // JPEG não tem transparência: fundo branco para PNGs
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, output, output);
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, crop.x, crop.y, crop.size, crop.size, 0, 0, output, output);
+
+  let quality = 0.9;
+  let blob = await canvasToBlob(canvas, "image/jpeg", quality);
+  while (blob.size > PHOTO_MAX_BYTES && quality > 0.4) {
+    quality -= 0.1;
+    blob = await canvasToBlob(canvas, "image/jpeg", quality);
+  }
+  return blob;
+}
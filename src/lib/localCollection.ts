@@ -0,0 +1,20 @@
+// Persistência simples de coleções no localStorage (usada pelo backend "local")
+
+const PREFIX = "mediconnect:";
+
+export function readCollection<T>(key: string): T[] {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    // Conteúdo corrompido: recomeça com coleção vazia
+    return [];
+  }
+}
+
+export function writeCollection<T>(key: string, items: T[]): void {
+  if (typeof localStorage === "undefined") return;
+  localStorage.setItem(PREFIX + key, JSON.stringify(items));
+}
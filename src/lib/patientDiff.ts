@@ -0,0 +1,95 @@
+// Diferença campo a campo entre duas versões de um Paciente (auditoria e resolução de conflitos)
+
+import { format, parseISO } from "date-fns";
+import { formatPatientFieldValue, isSamePatientFieldValue } from "@/lib/patientFieldFormat";
+import { PATIENT_FIELD_LABELS, PATIENT_FIELDS, type Patient, type PatientField } from "@/types/patient";
+import type { PatientFieldChange } from "@/types/patientAudit";
+
+// Campos de controle também registrados na auditoria, além dos campos do cadastro
+const CONTROL_FIELD_LABELS = {
+  merged_into_id: "Mesclado em",
+  merged_at: "Data da mesclagem",
+  deleted_at: "Excluído em",
+  deleted_by: "Excluído por",
+};
+
+type AuditedField = PatientField | keyof typeof CONTROL_FIELD_LABELS;
+
+export const AUDITED_FIELD_LABELS: Record<AuditedField, string> = { ...PATIENT_FIELD_LABELS, ...CONTROL_FIELD_LABELS };
+
+const AUDITED_FIELDS = Object.keys(AUDITED_FIELD_LABELS) as AuditedField[];
+
+export function diffPatients(before: Partial<Patient> | null, after: Partial<Patient> | null): PatientFieldChange[] {
+  const changes: PatientFieldChange[] = [];
+  for (const field of AUDITED_FIELDS) {
+    const a = before?.[field] ?? null;
+    const b = after?.[field] ?? null;
+    if (!isSamePatientFieldValue(a as Patient[PatientField], b as Patient[PatientField])) {
+      changes.push({ field, before: a, after: b });
+    }
+  }
+  return changes;
+}
+
+export function formatAuditedFieldValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "merged_at" || field === "deleted_at") return format(parseISO(String(value)), "dd/MM/yyyy HH:mm");
+  if (field in CONTROL_FIELD_LABELS) return String(value);
+  return formatPatientFieldValue(field as PatientField, value as Patient[PatientField]);
+}
+
+// Comparação em três vias para resolver conflitos de edição simultânea
+export type ConflictSource = "mine" | "theirs";
+
+export interface ThreeWayFieldDiff {
+  field: PatientField;
+  original: unknown;
+  mine: unknown;
+  theirs: unknown;
+  // Os dois lados alteraram o campo para valores diferentes
+  conflict: boolean;
+}
+
+// Campos alterados por qualquer um dos lados desde a versão original.
+// Só considera os campos presentes em `mine` (o que o formulário edita).
+export function threeWayDiff(original: Patient, mine: Partial<Patient>, theirs: Patient): ThreeWayFieldDiff[] {
+  const same = (a: unknown, b: unknown) =>
+    isSamePatientFieldValue(a as Patient[PatientField], b as Patient[PatientField]);
+  const rows: ThreeWayFieldDiff[] = [];
+  for (const field of PATIENT_FIELDS) {
+    if (!Object.prototype.hasOwnProperty.call(mine, field)) continue;
+    const mineChanged = !same(original[field], mine[field]);
+    const theirsChanged = !same(original[field], theirs[field]);
+    if (!mineChanged && !theirsChanged) continue;
+    rows.push({
+      field,
+      original: original[field] ?? null,
+      mine: mine[field] ?? null,
+      theirs: theirs[field] ?? null,
+      conflict: mineChanged && theirsChanged && !same(mine[field], theirs[field]),
+    });
+  }
+  return rows;
+}
+
+// Escolha inicial: a minha versão para o que eu alterei (inclusive conflitos), a atual para o resto
+export function defaultConflictChoices(rows: ThreeWayFieldDiff[]): Partial<Record<PatientField, ConflictSource>> {
+  const choices: Partial<Record<PatientField, ConflictSource>> = {};
+  for (const row of rows) {
+    const mineChanged = !isSamePatientFieldValue(row.original as Patient[PatientField], row.mine as Patient[PatientField]);
+    choices[row.field] = mineChanged ? "mine" : "theirs";
+  }
+  return choices;
+}
+
+// Campos resultantes da resolução, a aplicar sobre a versão atual (theirs)
+export function resolveThreeWay(
+  rows: ThreeWayFieldDiff[],
+  choices: Partial<Record<PatientField, ConflictSource>>
+): Partial<Patient> {
+  const resolved: Partial<Patient> = {};
+  for (const row of rows) {
+    (resolved as Record<string, unknown>)[row.field] = (choices[row.field] ?? "mine") === "mine" ? row.mine : row.theirs;
+  }
+  return resolved;
+}
@@ -0,0 +1,100 @@
+// Detecção de pacientes duplicados
+// CPF idêntico bloqueia o cadastro; nome + nascimento, nome parecido ou mesmo telefone geram alerta.
+
+import { normalizeText, onlyDigits } from "@/lib/utils";
+import type { Patient } from "@/types/patient";
+
+export type DuplicateCriteria = Partial<
+  Pick<Patient, "cpf" | "full_name" | "birth_date" | "phone_primary" | "phone_secondary">
+>;
+
+export type DuplicateReason = "cpf" | "name_birth_date" | "similar_name" | "phone";
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  cpf: "Mesmo CPF",
+  name_birth_date: "Mesmo nome e data de nascimento",
+  similar_name: "Nome parecido",
+  phone: "Mesmo telefone",
+};
+
+export interface DuplicateMatch {
+  patient: Patient;
+  reasons: DuplicateReason[];
+  // true quando o cadastro não pode prosseguir (CPF já existente)
+  blocking: boolean;
+}
+
+// Similaridade mínima (0 a 1) para considerar dois nomes parecidos
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+// Partículas ignoradas na comparação de nomes
+const NAME_PARTICLES = new Set(["de", "da", "do", "das", "dos", "e"]);
+
+export function nameTokens(name: string): string[] {
+  return normalizeText(name)
+    .replace(/[^a-z ]/g, "")
+    .split(" ")
+    .filter((t) => t && !NAME_PARTICLES.has(t));
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+// 1 = textos idênticos, 0 = nada em comum (distância de edição relativa ao maior texto)
+export function stringSimilarity(x: string, y: string): number {
+  if (!x || !y) return 0;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+// 1 = nomes idênticos (ignorando acentos, caixa e partículas)
+export function nameSimilarity(a: string, b: string): number {
+  return stringSimilarity(nameTokens(a).join(" "), nameTokens(b).join(" "));
+}
+
+// Mesmo primeiro e último nome também conta como parecido ("Maria Silva" x "Maria Aparecida Silva")
+function isSimilarName(a: string, b: string): boolean {
+  const ta = nameTokens(a);
+  const tb = nameTokens(b);
+  if (ta.length === 0 || tb.length === 0) return false;
+  const sameEnds = ta.length > 1 && tb.length > 1 && ta[0] === tb[0] && ta[ta.length - 1] === tb[tb.length - 1];
+  return sameEnds || nameSimilarity(a, b) >= NAME_SIMILARITY_THRESHOLD;
+}
+
+function phones(p: DuplicateCriteria): string[] {
+  return [p.phone_primary, p.phone_secondary].map((v) => onlyDigits(v ?? "")).filter((v) => v.length >= 10);
+}
+
+export function matchDuplicate(input: DuplicateCriteria, candidate: Patient): DuplicateMatch | null {
+  const reasons: DuplicateReason[] = [];
+  const cpf = onlyDigits(input.cpf ?? "");
+  if (cpf.length === 11 && cpf === onlyDigits(candidate.cpf)) reasons.push("cpf");
+
+  if (input.full_name?.trim()) {
+    const exactName = nameTokens(input.full_name).join(" ") === nameTokens(candidate.full_name).join(" ");
+    if (exactName && input.birth_date && input.birth_date === candidate.birth_date) reasons.push("name_birth_date");
+    else if (isSimilarName(input.full_name, candidate.full_name)) reasons.push("similar_name");
+  }
+
+  const candidatePhones = phones(candidate);
+  if (phones(input).some((p) => candidatePhones.includes(p))) reasons.push("phone");
+
+  if (reasons.length === 0) return null;
+  return { patient: candidate, reasons, blocking: reasons.includes("cpf") };
+}
+
+// Bloqueantes primeiro, depois quem tem mais motivos em comum
+export function rankDuplicates(input: DuplicateCriteria, candidates: Patient[], excludeId?: string): DuplicateMatch[] {
+  return candidates
+    .filter((c) => c.id !== excludeId)
+    .map((c) => matchDuplicate(input, c))
+    .filter((m): m is DuplicateMatch => m !== null)
+    .sort((a, b) => Number(b.blocking) - Number(a.blocking) || b.reasons.length - a.reasons.length);
+}
@@ -0,0 +1,212 @@
+// Exportação da lista de pacientes (CSV, XLSX, impressão/PDF e FHIR) com a busca e os filtros da listagem.
+// Os pacientes são lidos página a página por listPatients; cada página vira linhas de texto antes da próxima.
+
+import { format, parseISO } from "date-fns";
+import { toCsv } from "@/lib/csv";
+import { writeXlsx, XLSX_MIME_TYPE, type XlsxCell } from "@/lib/xlsx";
+import { getRiskLevel, RISK_LEVEL_LABELS } from "@/lib/absenteeismRisk";
+import { maskPhone } from "@/lib/brDocuments";
+import { formatPatientFieldValue } from "@/lib/patientFieldFormat";
+import { buildFhirBundle, FHIR_MIME_TYPE, patientToFhir } from "@/lib/fhirPatient";
+import type { ListPatientsParams, ListPatientsResult } from "@/services/patients/PatientRepository";
+import type { PatientAppointmentSummary } from "@/types/appointment";
+import type { FhirPatient } from "@/types/fhir";
+import { PATIENT_FIELD_LABELS, PATIENT_FIELDS, type Patient, type PatientField } from "@/types/patient";
+
+export type ExportFormat = "csv" | "xlsx" | "pdf" | "fhir";
+// visible: colunas da listagem; full: todos os campos do cadastro que o perfil pode ler
+export type ExportColumnSet = "visible" | "full";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV (Excel)",
+  xlsx: "XLSX",
+  pdf: "PDF (impressão)",
+  fhir: "FHIR R4 (Bundle JSON)",
+};
+
+export const EXPORT_COLUMN_SET_LABELS: Record<ExportColumnSet, string> = {
+  visible: "Colunas da listagem",
+  full: "Cadastro completo",
+};
+
+// Pacientes lidos por requisição
+export const EXPORT_PAGE_SIZE = 200;
+
+export type ExportValue = string | number;
+
+export interface ExportColumn {
+  header: string;
+  value: (patient: Patient, appointments?: PatientAppointmentSummary) => ExportValue;
+}
+
+const formatDateTime = (iso?: string | null) => (iso ? format(parseISO(iso), "dd/MM/yyyy HH:mm") : "");
+
+// Mesmas colunas da tabela de PatientListPage
+const VISIBLE_COLUMNS: ExportColumn[] = [
+  { header: "Nome", value: (p) => p.full_name },
+  { header: "Nome social", value: (p) => p.social_name ?? "" },
+  { header: "Telefone", value: (p) => (p.phone_primary ? maskPhone(p.phone_primary) : "") },
+  { header: "Cidade/UF", value: (p) => (p.address_city ? `${p.address_city}${p.address_state ? `/${p.address_state}` : ""}` : "") },
+  { header: "Último Atendimento", value: (_, a) => formatDateTime(a?.last?.start_at) },
+  { header: "Próximo Atendimento", value: (_, a) => formatDateTime(a?.next?.start_at) },
+  {
+    header: "Risco",
+    value: (p) =>
+      p.absenteeism_risk_score === null || p.absenteeism_risk_score === undefined
+        ? ""
+        : `${RISK_LEVEL_LABELS[getRiskLevel(p.absenteeism_risk_score)]} · ${p.absenteeism_risk_score}`,
+  },
+];
+
+function fieldColumn(field: PatientField): ExportColumn {
+  return {
+    header: PATIENT_FIELD_LABELS[field],
+    value: (p) => {
+      const value = p[field];
+      if (value === null || value === undefined || value === "") return "";
+      if (typeof value === "number") return value;
+      if (Array.isArray(value) && value.length === 0) return "";
+      return formatPatientFieldValue(field, value);
+    },
+  };
+}
+
+// Colunas do conjunto escolhido; no cadastro completo, campos ocultos para o perfil ficam de fora
+export function exportColumns(set: ExportColumnSet, canReadField: (field: PatientField) => boolean): ExportColumn[] {
+  if (set === "visible") return VISIBLE_COLUMNS;
+  return [
+    { header: "ID", value: (p) => p.id ?? "" },
+    ...PATIENT_FIELDS.filter(canReadField).map(fieldColumn),
+    { header: "Cadastrado em", value: (p) => formatDateTime(p.created_at) },
+    { header: "Atualizado em", value: (p) => formatDateTime(p.updated_at) },
+  ];
+}
+
+export interface PatientPagesOptions {
+  listPatients: (params: ListPatientsParams) => Promise<ListPatientsResult>;
+  // Busca, ordenação e filtros da listagem
+  params: Omit<ListPatientsParams, "page" | "pageSize">;
+  pageSize?: number;
+  onProgress?: (done: number, total: number) => void;
+  // Interrompe antes da próxima página (a promessa é rejeitada com AbortError)
+  signal?: AbortSignal;
+}
+
+// Percorre os pacientes da listagem página a página, aguardando o processamento de cada página
+export async function forEachPatientPage(
+  { listPatients, params, pageSize = EXPORT_PAGE_SIZE, onProgress, signal }: PatientPagesOptions,
+  handlePage: (patients: Patient[]) => Promise<void> | void
+): Promise<void> {
+  // Cadastros criados durante a exportação deslocam as páginas; o mesmo paciente não entra duas vezes
+  const seen = new Set<string>();
+  let done = 0;
+  for (let page = 1; ; page++) {
+    signal?.throwIfAborted();
+    const { data, count } = await listPatients({ ...params, page, pageSize });
+    const fresh = data.filter((p) => !p.id || !seen.has(p.id));
+    fresh.forEach((p) => p.id && seen.add(p.id));
+    await handlePage(fresh);
+    done += fresh.length;
+    onProgress?.(Math.min(done, count), count);
+    if (data.length < pageSize || page * pageSize >= count) break;
+  }
+}
+
+export interface ExportPatientsOptions extends PatientPagesOptions {
+  columns: ExportColumn[];
+  // Último/próximo atendimento dos pacientes de cada página (apenas nas colunas da listagem)
+  getAppointmentSummaries?: (patientIds: string[]) => Promise<Record<string, PatientAppointmentSummary>>;
+}
+
+// Linhas da exportação (cabeçalho + um paciente por linha)
+export async function collectExportRows({
+  columns,
+  getAppointmentSummaries,
+  ...pages
+}: ExportPatientsOptions): Promise<ExportValue[][]> {
+  const rows: ExportValue[][] = [columns.map((c) => c.header)];
+  await forEachPatientPage(pages, async (patients) => {
+    const ids = patients.map((p) => p.id!).filter(Boolean);
+    const summaries = getAppointmentSummaries && ids.length > 0 ? await getAppointmentSummaries(ids) : {};
+    for (const patient of patients) {
+      rows.push(columns.map((c) => c.value(patient, patient.id ? summaries[patient.id] : undefined)));
+    }
+  });
+  return rows;
+}
+
+// Recursos FHIR Patient de todos os pacientes da listagem
+export async function collectFhirPatients(options: PatientPagesOptions): Promise<FhirPatient[]> {
+  const resources: FhirPatient[] = [];
+  await forEachPatientPage(options, (patients) => {
+    resources.push(...patients.map(patientToFhir));
+  });
+  return resources;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Documento HTML para impressão: tabela para as colunas da listagem, uma ficha por paciente no cadastro completo
+export function buildPrintableList(title: string, subtitle: string, rows: ExportValue[][], set: ExportColumnSet): string {
+  const [headers = [], ...body] = rows.map((row) => row.map((v) => escapeHtml(String(v))));
+  const content =
+    set === "visible"
+      ? `<table><thead><tr>${headers.map((h) => `<th>${h}</th>`).join("")}</tr></thead><tbody>${body
+          .map((row) => `<tr>${row.map((v) => `<td>${v}</td>`).join("")}</tr>`)
+          .join("")}</tbody></table>`
+      : body
+          .map(
+            (row) =>
+              `<section class="record"><dl>${row
+                .map((v, i) => (v ? `<div><dt>${headers[i]}</dt><dd>${v}</dd></div>` : ""))
+                .join("")}</dl></section>`
+          )
+          .join("");
+  return `<!doctype html>
+<html lang="pt-BR">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4 ${set === "visible" ? "landscape" : "portrait"}; margin: 12mm; }
+  body { font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; font-size: 10pt; color: #111; }
+  h1 { font-size: 14pt; margin: 0 0 2mm; }
+  p.subtitle { margin: 0 0 4mm; color: #555; }
+  table { width: 100%; border-collapse: collapse; }
+  thead { display: table-header-group; }
+  th, td { border-bottom: 1px solid #ddd; padding: 1.5mm 2mm; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  tr { break-inside: avoid; }
+  .record { border: 1px solid #ddd; border-radius: 2mm; padding: 3mm; margin-bottom: 3mm; break-inside: avoid; }
+  .record dl { display: grid; grid-template-columns: repeat(3, 1fr); gap: 1.5mm 4mm; margin: 0; }
+  .record dt { color: #555; font-size: 8pt; }
+  .record dd { margin: 0; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="subtitle">${escapeHtml(subtitle)}</p>
+${content}
+</body>
+</html>`;
+}
+
+export interface ExportFile {
+  content: Blob | string;
+  type: string;
+  extension: string;
+}
+
+// Arquivo para download (CSV e XLSX); PDF é gerado pela impressão de buildPrintableList e FHIR por buildFhirExportFile
+export function buildExportFile(exportFormat: "csv" | "xlsx", rows: ExportValue[][], sheetName: string): ExportFile {
+  if (exportFormat === "xlsx") {
+    return { content: writeXlsx(rows as XlsxCell[][], sheetName), type: XLSX_MIME_TYPE, extension: "xlsx" };
+  }
+  return { content: toCsv(rows), type: "text/csv;charset=utf-8", extension: "csv" };
+}
+
+// Bundle FHIR com os recursos Patient
+export function buildFhirExportFile(resources: FhirPatient[], timestamp = new Date()): ExportFile {
+  return { content: JSON.stringify(buildFhirBundle(resources, timestamp), null, 2), type: FHIR_MIME_TYPE, extension: "json" };
+}
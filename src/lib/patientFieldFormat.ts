@@ -0,0 +1,52 @@
+// Formatação de valores de campos do Paciente para exibição (comparação e mesclagem de cadastros)
+
+import { format, parseISO } from "date-fns";
+import { maskCEP, maskCNS, maskCPF, maskPhone } from "@/lib/brDocuments";
+import { COMMUNICATION_CHANNEL_LABELS, type CommunicationChannel, type Patient, type PatientField } from "@/types/patient";
+
+const EMPTY = "—";
+
+export function formatPatientFieldValue(field: PatientField, value: Patient[PatientField]): string {
+  if (value === null || value === undefined || value === "") return EMPTY;
+  switch (field) {
+    case "cpf":
+    case "responsible_cpf":
+      return maskCPF(String(value));
+    case "cns":
+      return maskCNS(String(value));
+    case "phone_primary":
+    case "phone_secondary":
+      return maskPhone(String(value));
+    case "address_zip_code":
+      return maskCEP(String(value));
+    case "birth_date":
+      return format(parseISO(String(value)), "dd/MM/yyyy");
+    case "marketing_consent_at":
+      return format(parseISO(String(value)), "dd/MM/yyyy HH:mm");
+    case "marketing_consent":
+      return value ? "Sim" : "Não";
+    case "tags":
+      return (value as string[]).length > 0 ? (value as string[]).join(", ") : EMPTY;
+    case "communication_preferences": {
+      const enabled = Object.entries(value as Record<string, boolean>)
+        .filter(([, on]) => on)
+        .map(([channel]) => COMMUNICATION_CHANNEL_LABELS[channel as CommunicationChannel] ?? channel);
+      return enabled.length ? enabled.join(", ") : "Nenhum";
+    }
+    default:
+      return String(value);
+  }
+}
+
+// Compara valores de campo ignorando diferenças de representação (null x "" x undefined, ordem de chaves)
+export function isSamePatientFieldValue(a: Patient[PatientField], b: Patient[PatientField]): boolean {
+  const norm = (v: unknown) => {
+    if (v === null || v === undefined || v === "") return null;
+    if (Array.isArray(v)) return v.length > 0 ? JSON.stringify(v) : null;
+    if (typeof v === "object") {
+      return JSON.stringify(Object.fromEntries(Object.entries(v as object).sort(([x], [y]) => x.localeCompare(y))));
+    }
+    return v;
+  };
+  return norm(a) === norm(b);
+}
@@ -0,0 +1,234 @@
+// Filtros avançados da listagem de pacientes
+// Aplicados no banco (Supabase) ou em memória; o estado é serializado na URL para favoritar e compartilhar.
+
+import { addDays, differenceInYears, format, parseISO, subYears } from "date-fns";
+import { normalizeText } from "@/lib/utils";
+import type { Patient } from "@/types/patient";
+
+export interface PatientListFilters {
+  city?: string; // contém, sem diferenciar acentos e maiúsculas
+  state?: string; // UF
+  minAge?: number;
+  maxAge?: number;
+  genders?: string[];
+  birthMonth?: number; // 1-12
+  minRisk?: number;
+  maxRisk?: number;
+  hasEmail?: boolean;
+  createdFrom?: string; // yyyy-MM-dd, inclusivo
+  createdTo?: string; // yyyy-MM-dd, inclusivo
+  // O paciente precisa ter todas as etiquetas informadas
+  tags?: string[];
+}
+
+export type PatientFilterKey = keyof PatientListFilters;
+
+export const BIRTH_MONTH_LABELS = [
+  "Janeiro",
+  "Fevereiro",
+  "Março",
+  "Abril",
+  "Maio",
+  "Junho",
+  "Julho",
+  "Agosto",
+  "Setembro",
+  "Outubro",
+  "Novembro",
+  "Dezembro",
+];
+
+// Etiquetas: minúsculas, sem espaços nas pontas e sem repetição
+export function normalizeTags(tags: string[] | null | undefined): string[] {
+  const unique = new Set((tags ?? []).map((t) => t.trim().toLocaleLowerCase("pt-BR")).filter(Boolean));
+  return Array.from(unique);
+}
+
+// Etiquetas digitadas separadas por vírgula
+export function parseTags(text: string | null | undefined): string[] {
+  return normalizeTags((text ?? "").split(","));
+}
+
+// Faixa de nascimento equivalente à faixa de idade na data informada (datas yyyy-MM-dd inclusivas)
+export function ageRangeToBirthDates(
+  minAge: number | undefined,
+  maxAge: number | undefined,
+  today = new Date()
+): { from?: string; to?: string } {
+  return {
+    // Quem tem maxAge anos nasceu depois de (hoje - maxAge - 1 anos)
+    from: maxAge !== undefined ? format(addDays(subYears(today, maxAge + 1), 1), "yyyy-MM-dd") : undefined,
+    to: minAge !== undefined ? format(subYears(today, minAge), "yyyy-MM-dd") : undefined,
+  };
+}
+
+export function hasActiveFilters(filters: PatientListFilters): boolean {
+  return Object.values(filters).some((v) => v !== undefined && !(Array.isArray(v) && v.length === 0));
+}
+
+// Mesma semântica da consulta no Supabase, para os backends em memória e localStorage
+export function matchesPatientFilters(p: Patient, f: PatientListFilters, today = new Date()): boolean {
+  if (f.city && !normalizeText(p.address_city ?? "").includes(normalizeText(f.city))) return false;
+  if (f.state && p.address_state !== f.state) return false;
+  if (f.minAge !== undefined || f.maxAge !== undefined) {
+    if (!p.birth_date) return false;
+    const age = differenceInYears(today, parseISO(p.birth_date));
+    if (f.minAge !== undefined && age < f.minAge) return false;
+    if (f.maxAge !== undefined && age > f.maxAge) return false;
+  }
+  if (f.genders?.length && !f.genders.includes(p.gender ?? "")) return false;
+  if (f.birthMonth && (!p.birth_date || Number(p.birth_date.slice(5, 7)) !== f.birthMonth)) return false;
+  if (f.minRisk !== undefined || f.maxRisk !== undefined) {
+    const risk = p.absenteeism_risk_score;
+    if (risk === null || risk === undefined) return false;
+    if (f.minRisk !== undefined && risk < f.minRisk) return false;
+    if (f.maxRisk !== undefined && risk > f.maxRisk) return false;
+  }
+  if (f.hasEmail !== undefined && Boolean(p.email) !== f.hasEmail) return false;
+  const created = p.created_at ? format(parseISO(p.created_at), "yyyy-MM-dd") : null;
+  if (f.createdFrom && (!created || created < f.createdFrom)) return false;
+  if (f.createdTo && (!created || created > f.createdTo)) return false;
+  if (f.tags?.length) {
+    const own = normalizeTags(p.tags);
+    if (!normalizeTags(f.tags).every((t) => own.includes(t))) return false;
+  }
+  return true;
+}
+
+// Nomes dos parâmetros na URL (?cidade=...&uf=SP&tag=vip&tag=convenio)
+const PARAM_NAMES: Record<PatientFilterKey, string> = {
+  city: "cidade",
+  state: "uf",
+  minAge: "idade_min",
+  maxAge: "idade_max",
+  genders: "genero",
+  birthMonth: "mes_nascimento",
+  minRisk: "risco_min",
+  maxRisk: "risco_max",
+  hasEmail: "email",
+  createdFrom: "criado_de",
+  createdTo: "criado_ate",
+  tags: "tag",
+};
+
+const NUMBER_FILTERS: PatientFilterKey[] = ["minAge", "maxAge", "birthMonth", "minRisk", "maxRisk"];
+const LIST_FILTERS: PatientFilterKey[] = ["genders", "tags"];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Lê os filtros da URL ignorando valores inválidos
+export function filtersFromSearchParams(params: URLSearchParams): PatientListFilters {
+  const filters: PatientListFilters = {};
+  const set = <K extends PatientFilterKey>(key: K, value: PatientListFilters[K]) => {
+    filters[key] = value;
+  };
+  for (const key of Object.keys(PARAM_NAMES) as PatientFilterKey[]) {
+    const name = PARAM_NAMES[key];
+    if (LIST_FILTERS.includes(key)) {
+      const values = params.getAll(name).map((v) => v.trim()).filter(Boolean);
+      if (values.length > 0) set(key, key === "tags" ? normalizeTags(values) : values);
+      continue;
+    }
+    const raw = params.get(name)?.trim();
+    if (!raw) continue;
+    if (NUMBER_FILTERS.includes(key)) {
+      const n = Number(raw);
+      if (Number.isInteger(n) && n >= 0) set(key, n);
+    } else if (key === "hasEmail") {
+      if (raw === "sim" || raw === "nao") set(key, raw === "sim");
+    } else if (key === "createdFrom" || key === "createdTo") {
+      if (DATE_PATTERN.test(raw)) set(key, raw);
+    } else {
+      set(key, raw);
+    }
+  }
+  if (filters.birthMonth !== undefined && (filters.birthMonth < 1 || filters.birthMonth > 12)) {
+    delete filters.birthMonth;
+  }
+  return filters;
+}
+
+// Grava os filtros na URL preservando os demais parâmetros (busca, ordenação, página)
+export function applyFiltersToSearchParams(params: URLSearchParams, filters: PatientListFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of Object.keys(PARAM_NAMES) as PatientFilterKey[]) {
+    const name = PARAM_NAMES[key];
+    next.delete(name);
+    const value = filters[key];
+    if (value === undefined || value === "") continue;
+    if (Array.isArray(value)) value.forEach((v) => next.append(name, v));
+    else if (typeof value === "boolean") next.set(name, value ? "sim" : "nao");
+    else next.set(name, String(value));
+  }
+  return next;
+}
+
+export interface PatientFilterChip {
+  key: PatientFilterKey;
+  // Para filtros de lista (gênero, etiquetas), o item que o chip remove
+  value?: string;
+  label: string;
+}
+
+const formatDay = (day: string) => format(parseISO(day), "dd/MM/yyyy");
+
+function rangeLabel(min: number | undefined, max: number | undefined, unit = "") {
+  if (min !== undefined && max !== undefined) return `${min} a ${max}${unit}`;
+  if (min !== undefined) return `${min}${unit} ou mais`;
+  return `até ${max}${unit}`;
+}
+
+// Um chip por filtro ativo; faixas (idade, risco, cadastro) formam um único chip
+export function describeFilters(f: PatientListFilters): PatientFilterChip[] {
+  const chips: PatientFilterChip[] = [];
+  if (f.city) chips.push({ key: "city", label: `Cidade: ${f.city}` });
+  if (f.state) chips.push({ key: "state", label: `UF: ${f.state}` });
+  if (f.minAge !== undefined || f.maxAge !== undefined) {
+    chips.push({ key: "minAge", label: `Idade: ${rangeLabel(f.minAge, f.maxAge, " anos")}` });
+  }
+  f.genders?.forEach((g) => chips.push({ key: "genders", value: g, label: `Gênero: ${g}` }));
+  if (f.birthMonth) chips.push({ key: "birthMonth", label: `Aniversário em ${BIRTH_MONTH_LABELS[f.birthMonth - 1]}` });
+  if (f.minRisk !== undefined || f.maxRisk !== undefined) {
+    chips.push({ key: "minRisk", label: `Risco: ${rangeLabel(f.minRisk, f.maxRisk)}` });
+  }
+  if (f.hasEmail !== undefined) chips.push({ key: "hasEmail", label: f.hasEmail ? "Com e-mail" : "Sem e-mail" });
+  if (f.createdFrom || f.createdTo) {
+    const label =
+      f.createdFrom && f.createdTo
+        ? `${formatDay(f.createdFrom)} a ${formatDay(f.createdTo)}`
+        : f.createdFrom
+          ? `desde ${formatDay(f.createdFrom)}`
+          : `até ${formatDay(f.createdTo!)}`;
+    chips.push({ key: "createdFrom", label: `Cadastro: ${label}` });
+  }
+  f.tags?.forEach((t) => chips.push({ key: "tags", value: t, label: `Etiqueta: ${t}` }));
+  return chips;
+}
+
+// Remove o filtro representado pelo chip (a faixa inteira, ou só o item da lista)
+export function removeFilterChip(f: PatientListFilters, chip: PatientFilterChip): PatientListFilters {
+  const next = { ...f };
+  switch (chip.key) {
+    case "minAge":
+      delete next.minAge;
+      delete next.maxAge;
+      break;
+    case "minRisk":
+      delete next.minRisk;
+      delete next.maxRisk;
+      break;
+    case "createdFrom":
+      delete next.createdFrom;
+      delete next.createdTo;
+      break;
+    case "genders":
+    case "tags": {
+      const remaining = (next[chip.key] ?? []).filter((v) => v !== chip.value);
+      if (remaining.length > 0) next[chip.key] = remaining;
+      else delete next[chip.key];
+      break;
+    }
+    default:
+      delete next[chip.key];
+  }
+  return next;
+}
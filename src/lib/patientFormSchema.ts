@@ -0,0 +1,184 @@
+// Schema do formulário de paciente, compartilhado pelo cadastro e pela importação de planilhas
+
+import { z } from "zod";
+import { format } from "date-fns";
+import { onlyDigits } from "@/lib/utils";
+import { isValidCNS, isValidCPF, isValidRG, rgFormatExample } from "@/lib/brDocuments";
+import { parseTags } from "@/lib/patientFilters";
+import { DEFAULT_COMMUNICATION_PREFERENCES, type PatientInsert } from "@/types/patient";
+
+const timeOfDay = z
+  .string()
+  .optional()
+  .or(z.literal(""))
+  .refine((v) => !v || /^([01]\d|2[0-3]):[0-5]\d$/.test(v), "Horário inválido")
+  .transform((v) => v || null);
+
+// Schema de validação (espelha o schema do banco)
+export const PatientFormSchema = z
+  .object({
+    // Pessoais
+    full_name: z.string().min(1, "Nome é obrigatório"),
+    social_name: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    // Referência da foto no armazenamento de arquivos (ver services/fileStorageService)
+    photo_url: z.string().nullable().optional().transform((v) => v || null),
+    cpf: z
+      .string()
+      .min(1, "CPF é obrigatório")
+      .transform((v) => onlyDigits(v))
+      .refine((v) => v.length === 11, "CPF deve conter 11 dígitos")
+      .refine(isValidCPF, "CPF inválido"),
+    rg: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    rg_state: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    cns: z
+      .string()
+      .optional()
+      .transform((v) => (v ? onlyDigits(v) : undefined))
+      .refine((v) => !v || isValidCNS(v), "CNS inválido"),
+    other_document_type: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    other_document_number: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    gender: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    birth_date: z.date({ required_error: "Data de nascimento é obrigatória" }),
+    ethnicity: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    race: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    nationality: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    birth_city: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    birth_state: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    profession: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    marital_status: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    mother_name: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    father_name: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    responsible_name: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    responsible_cpf: z
+      .string()
+      .optional()
+      .transform((v) => (v ? onlyDigits(v) : undefined))
+      .refine((v) => !v || v.length === 11, "CPF do responsável deve conter 11 dígitos")
+      .refine((v) => !v || isValidCPF(v), "CPF do responsável inválido"),
+    legacy_code: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    // Etiquetas separadas por vírgula (convertidas em lista ao salvar)
+    tags: z.string().optional(),
+    // Contato
+    email: z
+      .string()
+      .email("E-mail inválido")
+      .optional()
+      .or(z.literal(""))
+      .transform((v) => (v ? v : undefined)),
+    phone_primary: z
+      .string()
+      .min(1, "Telefone principal é obrigatório")
+      .transform((v) => onlyDigits(v))
+      .refine((v) => v.length >= 10, "Telefone inválido"),
+    phone_secondary: z
+      .string()
+      .optional()
+      .transform((v) => (v ? onlyDigits(v) : undefined)),
+    // Endereço
+    address_zip_code: z.string().optional().transform((v) => (v ? onlyDigits(v) : undefined)),
+    address_street: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    address_number: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    address_complement: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    address_district: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    address_city: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    address_state: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    // Observações
+    observations: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+    // Comunicação
+    communication_preferences: z.object({
+      whatsapp: z.boolean(),
+      sms: z.boolean(),
+      email: z.boolean(),
+      call: z.boolean(),
+    }),
+    preferred_contact_start: timeOfDay,
+    preferred_contact_end: timeOfDay,
+    marketing_consent: z.boolean(),
+    behavior_score: z
+      .number({ invalid_type_error: "Informe um número" })
+      .int("Use um número inteiro")
+      .min(0, "Mínimo 0")
+      .max(100, "Máximo 100")
+      .nullable()
+      .optional(),
+  })
+  .superRefine((v, ctx) => {
+    if (v.rg && !isValidRG(v.rg, v.rg_state)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["rg"],
+        message: `RG fora do formato esperado${v.rg_state ? ` para ${v.rg_state}` : ""} (ex.: ${rgFormatExample(v.rg_state)})`,
+      });
+    }
+    if (v.preferred_contact_start && v.preferred_contact_end && v.preferred_contact_start >= v.preferred_contact_end) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["preferred_contact_end"],
+        message: "O fim deve ser posterior ao início",
+      });
+    }
+    if (v.communication_preferences.email && !v.email) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["communication_preferences", "email"],
+        message: "Cadastre um e-mail para usar este canal",
+      });
+    }
+  });
+
+export type PatientFormValues = z.infer<typeof PatientFormSchema>;
+
+// Formulário em branco (novo cadastro)
+export function emptyPatientForm(): PatientFormValues {
+  return {
+    full_name: "",
+    social_name: "",
+    photo_url: null,
+    cpf: "",
+    rg: "",
+    rg_state: "",
+    cns: "",
+    other_document_type: "",
+    other_document_number: "",
+    gender: "",
+    birth_date: undefined as unknown as Date,
+    ethnicity: "",
+    race: "",
+    nationality: "",
+    birth_city: "",
+    birth_state: "",
+    profession: "",
+    marital_status: "",
+    mother_name: "",
+    father_name: "",
+    responsible_name: "",
+    responsible_cpf: "",
+    legacy_code: "",
+    tags: "",
+    email: "",
+    phone_primary: "",
+    phone_secondary: "",
+    address_zip_code: "",
+    address_street: "",
+    address_number: "",
+    address_complement: "",
+    address_district: "",
+    address_city: "",
+    address_state: "",
+    observations: "",
+    communication_preferences: { ...DEFAULT_COMMUNICATION_PREFERENCES },
+    preferred_contact_start: "",
+    preferred_contact_end: "",
+    marketing_consent: false,
+    behavior_score: null,
+  };
+}
+
+// Valores validados -> payload do serviço (datas yyyy-MM-dd, etiquetas em lista)
+export function toPatientInsert(values: PatientFormValues): PatientInsert {
+  return {
+    ...values,
+    birth_date: format(values.birth_date, "yyyy-MM-dd"),
+    tags: parseTags(values.tags),
+  } as unknown as PatientInsert;
+}
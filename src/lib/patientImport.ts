@@ -0,0 +1,266 @@
+// Importação de pacientes a partir de planilhas (CSV/XLSX) de sistemas anteriores.
+// Cada linha passa pelas mesmas regras do formulário de cadastro (PatientFormSchema); CPF e código legado
+// repetidos, no arquivo ou já cadastrados, não são importados.
+
+import { isValid, parse } from "date-fns";
+import { normalizeText, onlyDigits } from "@/lib/utils";
+import { stripFormulaEscape, toCsv } from "@/lib/csv";
+import { emptyPatientForm, PatientFormSchema, toPatientInsert } from "@/lib/patientFormSchema";
+import { PATIENT_FIELD_LABELS, type Patient, type PatientField, type PatientInsert } from "@/types/patient";
+
+// Campos que podem vir da planilha
+export const IMPORT_FIELDS: PatientField[] = [
+  "full_name",
+  "social_name",
+  "cpf",
+  "rg",
+  "rg_state",
+  "cns",
+  "gender",
+  "birth_date",
+  "marital_status",
+  "ethnicity",
+  "race",
+  "nationality",
+  "birth_city",
+  "birth_state",
+  "profession",
+  "mother_name",
+  "father_name",
+  "responsible_name",
+  "responsible_cpf",
+  "legacy_code",
+  "tags",
+  "email",
+  "phone_primary",
+  "phone_secondary",
+  "address_zip_code",
+  "address_street",
+  "address_number",
+  "address_complement",
+  "address_district",
+  "address_city",
+  "address_state",
+  "observations",
+];
+
+// Obrigatórios no cadastro: a importação não começa sem essas colunas mapeadas
+export const REQUIRED_IMPORT_FIELDS: PatientField[] = ["full_name", "cpf", "birth_date", "phone_primary"];
+
+// Limite de linhas por arquivo
+export const MAX_IMPORT_ROWS = 5000;
+
+// Nomes de coluna comuns em exportações de outros sistemas (comparados sem acentos e caixa)
+const HEADER_ALIASES: Partial<Record<PatientField, string[]>> = {
+  full_name: ["nome", "nome do paciente", "paciente", "nome completo"],
+  cpf: ["cpf do paciente", "documento"],
+  birth_date: ["nascimento", "data nascimento", "dt nascimento", "dt nasc", "data de nasc"],
+  gender: ["sexo", "genero"],
+  mother_name: ["mae", "nome mae"],
+  father_name: ["pai", "nome pai"],
+  legacy_code: ["codigo", "cod", "id", "prontuario", "matricula", "codigo do paciente"],
+  email: ["e-mail", "email"],
+  phone_primary: ["telefone", "celular", "fone", "telefone 1", "whatsapp"],
+  phone_secondary: ["telefone 2", "fone 2", "telefone fixo", "outro telefone"],
+  address_zip_code: ["cep"],
+  address_street: ["endereco", "logradouro", "rua"],
+  address_number: ["numero", "n"],
+  address_complement: ["complemento"],
+  address_district: ["bairro"],
+  address_city: ["cidade", "municipio"],
+  address_state: ["uf", "estado"],
+  observations: ["observacao", "obs"],
+  tags: ["etiqueta", "tags"],
+};
+
+// Coluna i da planilha -> campo do paciente (null = ignorar)
+export type ImportColumnMapping = (PatientField | null)[];
+
+const headerKey = (v: string) => normalizeText(v).replace(/[^a-z0-9 ]/g, " ").replace(/\s+/g, " ").trim();
+
+// Sugere o campo de cada coluna pelo cabeçalho; cada campo é usado uma única vez
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const used = new Set<PatientField>();
+  return headers.map((header) => {
+    const key = headerKey(header);
+    const field = IMPORT_FIELDS.find(
+      (f) =>
+        !used.has(f) &&
+        (key === headerKey(f) ||
+          key === headerKey(PATIENT_FIELD_LABELS[f]) ||
+          (HEADER_ALIASES[f] ?? []).some((alias) => headerKey(alias) === key))
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+export function missingRequiredFields(mapping: ImportColumnMapping): PatientField[] {
+  return REQUIRED_IMPORT_FIELDS.filter((f) => !mapping.includes(f));
+}
+
+// Data no formato dd/MM/yyyy (dia e mês com um ou dois dígitos)
+export function parseImportDate(value: string): Date | null {
+  const text = value.trim();
+  if (!/^\d{1,2}\/\d{1,2}\/\d{4}$/.test(text)) return null;
+  const date = parse(text, "d/M/yyyy", new Date());
+  return isValid(date) && date.getFullYear() >= 1900 && date <= new Date() ? date : null;
+}
+
+// Planilhas salvas como número perdem os zeros à esquerda do CPF ("01234567890" -> 1234567890)
+function restoreCpfZeros(value: string): string {
+  const digits = onlyDigits(value);
+  return /^\d+$/.test(value.trim()) && digits.length >= 9 && digits.length < 11 ? digits.padStart(11, "0") : value;
+}
+
+export type ImportRowStatus = "valid" | "invalid" | "duplicate";
+
+export interface ImportRow {
+  // Linha na planilha (1 = cabeçalho)
+  line: number;
+  cells: string[];
+  status: ImportRowStatus;
+  // Mensagens de validação ou o motivo da duplicidade
+  errors: string[];
+  payload?: PatientInsert;
+}
+
+// Valida valores no formato do formulário de cadastro; erros já informados para os campos em "reported" não se repetem
+export function validatePatientValues(
+  values: Record<string, unknown>,
+  reported: PatientField[] = []
+): { errors: string[]; payload?: PatientInsert } {
+  const result = PatientFormSchema.safeParse({ ...emptyPatientForm(), ...values });
+  if (result.success) return { errors: [], payload: toPatientInsert(result.data) };
+  return {
+    errors: result.error.issues
+      .filter((issue) => !reported.includes(issue.path[0] as PatientField))
+      .map((issue) => {
+        const field = issue.path[0] as PatientField;
+        return `${PATIENT_FIELD_LABELS[field] ?? field}: ${issue.message}`;
+      }),
+  };
+}
+
+// Valida uma linha com as regras do formulário de cadastro
+export function validateImportRow(cells: string[], mapping: ImportColumnMapping, line: number): ImportRow {
+  const values: Record<string, unknown> = {};
+  const errors: string[] = [];
+  let invalidDate = false;
+  mapping.forEach((field, i) => {
+    if (!field) return;
+    const value = stripFormulaEscape(cells[i] ?? "").trim();
+    if (field === "birth_date") {
+      const date = value ? parseImportDate(value) : null;
+      invalidDate = Boolean(value && !date);
+      if (invalidDate) errors.push(`${PATIENT_FIELD_LABELS.birth_date}: data inválida (use dd/MM/aaaa)`);
+      values.birth_date = date ?? undefined;
+    } else if (field === "cpf" || field === "responsible_cpf") {
+      values[field] = restoreCpfZeros(value);
+    } else if (field === "rg_state" || field === "birth_state" || field === "address_state") {
+      values[field] = value.toUpperCase();
+    } else {
+      values[field] = value;
+    }
+  });
+
+  // Data fora do formato já foi informada acima
+  const result = validatePatientValues(values, invalidDate ? ["birth_date"] : []);
+  errors.push(...result.errors);
+  if (!result.payload || errors.length > 0) return { line, cells, status: "invalid", errors };
+  return { line, cells, status: "valid", errors: [], payload: result.payload };
+}
+
+// Linhas da planilha (sem o cabeçalho e sem linhas em branco) validadas
+export function validateImportRows(rows: string[][], mapping: ImportColumnMapping): ImportRow[] {
+  return rows
+    .map((cells, i) => ({ cells, line: i + 2 }))
+    .filter(({ cells }) => cells.some((v) => v.trim() !== ""))
+    .map(({ cells, line }) => validateImportRow(cells, mapping, line));
+}
+
+// CPFs e códigos legados das linhas válidas, para procurar cadastros existentes
+export function importIdentifiers(rows: ImportRow[]): { cpfs: string[]; legacyCodes: string[] } {
+  const valid = rows.filter((r) => r.payload);
+  return {
+    cpfs: valid.map((r) => r.payload!.cpf),
+    legacyCodes: valid.map((r) => r.payload!.legacy_code?.trim()).filter(Boolean) as string[],
+  };
+}
+
+// Marca como duplicadas as linhas com CPF ou código legado já cadastrado ou repetido em linha anterior
+export function markImportDuplicates(rows: ImportRow[], existing: Patient[]): ImportRow[] {
+  const existingCpfs = new Map(existing.map((p) => [onlyDigits(p.cpf), p]));
+  const existingCodes = new Map(existing.filter((p) => p.legacy_code).map((p) => [p.legacy_code!.trim(), p]));
+  const seenCpfs = new Map<string, number>();
+  const seenCodes = new Map<string, number>();
+
+  return rows.map((row) => {
+    if (!row.payload) return row;
+    const cpf = row.payload.cpf;
+    const code = row.payload.legacy_code?.trim();
+    let reason: string | null = null;
+    if (existingCpfs.has(cpf)) reason = `CPF já cadastrado (${existingCpfs.get(cpf)!.full_name})`;
+    else if (code && existingCodes.has(code)) reason = `Código legado já cadastrado (${existingCodes.get(code)!.full_name})`;
+    else if (seenCpfs.has(cpf)) reason = `CPF repetido na linha ${seenCpfs.get(cpf)}`;
+    else if (code && seenCodes.has(code)) reason = `Código legado repetido na linha ${seenCodes.get(code)}`;
+
+    if (reason) return { ...row, status: "duplicate" as const, errors: [reason], payload: undefined };
+    seenCpfs.set(cpf, row.line);
+    if (code) seenCodes.set(code, row.line);
+    return row;
+  });
+}
+
+export interface ImportCommitOptions {
+  batchSize?: number;
+  // Chamado após cada lote com o total processado
+  onProgress?: (done: number, total: number) => void;
+  // Interrompe antes do próximo lote
+  signal?: AbortSignal;
+}
+
+export interface ImportCommitResult {
+  created: Patient[];
+  // Linhas válidas que falharam ao gravar (ex.: CPF cadastrado por outra pessoa durante a importação)
+  failed: ImportRow[];
+  // true quando a importação foi interrompida antes do fim
+  aborted: boolean;
+}
+
+// Grava as linhas válidas em lotes (as do mesmo lote em paralelo)
+export async function commitImport(
+  rows: ImportRow[],
+  createPatient: (payload: PatientInsert) => Promise<Patient>,
+  { batchSize = 25, onProgress, signal }: ImportCommitOptions = {}
+): Promise<ImportCommitResult> {
+  const pending = rows.filter((r) => r.status === "valid" && r.payload);
+  const created: Patient[] = [];
+  const failed: ImportRow[] = [];
+  for (let i = 0; i < pending.length; i += batchSize) {
+    if (signal?.aborted) return { created, failed, aborted: true };
+    const batch = pending.slice(i, i + batchSize);
+    const results = await Promise.allSettled(batch.map((row) => createPatient(row.payload!)));
+    results.forEach((result, j) => {
+      if (result.status === "fulfilled") created.push(result.value);
+      else failed.push({ ...batch[j], status: "invalid", errors: [`Falha ao gravar: ${(result.reason as Error)?.message ?? ""}`] });
+    });
+    onProgress?.(Math.min(i + batchSize, pending.length), pending.length);
+  }
+  return { created, failed, aborted: false };
+}
+
+// Relatório CSV com as linhas não importadas: colunas originais mais a linha e os motivos
+export function buildImportErrorReport(headers: string[], rows: ImportRow[]): string {
+  const problems = rows.filter((r) => r.status !== "valid");
+  return toCsv([
+    ["Linha", "Situação", "Erros", ...headers],
+    ...problems.map((r) => [
+      r.line,
+      r.status === "duplicate" ? "Duplicado" : "Inválido",
+      r.errors.join(" | "),
+      ...headers.map((_, i) => r.cells[i] ?? ""),
+    ]),
+  ]);
+}
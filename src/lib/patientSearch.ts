@@ -0,0 +1,182 @@
+// Busca de pacientes: ignora acentos e caixa, tolera erros de digitação e ordena por relevância.
+// Nome e nome social por palavras; CPF, telefones e RG por trechos de dígitos; RG e código legado
+// por trecho alfanumérico; nome da mãe e e-mail com peso menor.
+// A mesma regra é aplicada no Supabase pela função search_patients (unaccent + fuzzystrmatch).
+
+import { normalizeText, onlyDigits } from "@/lib/utils";
+import { nameTokens, stringSimilarity } from "@/lib/patientDuplicates";
+import type { Patient } from "@/types/patient";
+
+export type PatientSearchField =
+  | "name"
+  | "cpf"
+  | "phone_primary"
+  | "phone_secondary"
+  | "rg"
+  | "legacy_code"
+  | "mother_name"
+  | "email";
+
+export interface PatientSearchQuery {
+  text: string; // sem acentos, minúsculo
+  tokens: string[]; // palavras do nome (sem partículas)
+  digits: string; // somente quando a busca não tem letras
+  compact: string; // letras e dígitos, para RG e código legado ("AB-12" -> "ab12")
+}
+
+export interface PatientSearchMatch {
+  // 0-100; maior é mais relevante
+  score: number;
+  // Campo que gerou a melhor pontuação (exibido na listagem quando não é uma coluna)
+  field: PatientSearchField;
+}
+
+// Mínimo de dígitos para buscar em CPF, telefones e RG
+const MIN_DIGITS = 3;
+// Palavras curtas não usam comparação aproximada ("ana" não deve achar "ivo")
+const FUZZY_MIN_LENGTH = 4;
+// Similaridade mínima para aceitar uma palavra com erro de digitação ("Souza" x "Sousa")
+const FUZZY_THRESHOLD = 0.75;
+
+export function parseSearchQuery(term: string): PatientSearchQuery {
+  const text = normalizeText(term);
+  return {
+    text,
+    tokens: nameTokens(term),
+    digits: /[a-z]/.test(text) ? "" : onlyDigits(term),
+    compact: text.replace(/[^a-z0-9]/g, ""),
+  };
+}
+
+// 1 = palavra igual; prefixo ou trecho um pouco menos; parecida (erro de digitação) bem menos
+function tokenScore(token: string, words: string[]): number {
+  let best = 0;
+  for (const word of words) {
+    if (word === token) return 1;
+    if (word.startsWith(token)) best = Math.max(best, 0.9);
+    else if (word.includes(token)) best = Math.max(best, 0.8);
+    else if (token.length >= FUZZY_MIN_LENGTH) {
+      const similarity = stringSimilarity(token, word);
+      if (similarity >= FUZZY_THRESHOLD) best = Math.max(best, similarity * 0.7);
+    }
+  }
+  return best;
+}
+
+// Todas as palavras da busca precisam aparecer no texto; retorna a média (0 se alguma faltar)
+function wordsScore(tokens: string[], text: string | null | undefined): number {
+  if (tokens.length === 0 || !text) return 0;
+  const words = nameTokens(text);
+  let total = 0;
+  for (const token of tokens) {
+    const score = tokenScore(token, words);
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total / tokens.length;
+}
+
+// Igual, começa com ou contém o trecho
+function fragmentScore(value: string, fragment: string, [equal, prefix, contains]: [number, number, number]): number {
+  if (!value || !fragment) return 0;
+  if (value === fragment) return equal;
+  if (value.startsWith(fragment)) return prefix;
+  return value.includes(fragment) ? contains : 0;
+}
+
+// Pontua o paciente para a busca; null quando não corresponde
+export function matchPatientSearch(p: Patient, query: PatientSearchQuery): PatientSearchMatch | null {
+  let best: PatientSearchMatch | null = null;
+  const consider = (field: PatientSearchField, score: number) => {
+    if (score > 0 && (!best || score > best.score)) best = { field, score };
+  };
+
+  if (query.text) {
+    const names = [p.full_name, p.social_name].filter(Boolean).map((n) => normalizeText(n!));
+    for (const name of names) consider("name", fragmentScore(name, query.text, [100, 90, 80]));
+    const byWords = wordsScore(query.tokens, [p.full_name, p.social_name].filter(Boolean).join(" "));
+    if (byWords > 0) consider("name", 40 + 30 * byWords);
+
+    const byMother = wordsScore(query.tokens, p.mother_name);
+    if (byMother > 0) consider("mother_name", 20 + 10 * byMother);
+    consider("email", fragmentScore(normalizeText(p.email ?? ""), query.text, [30, 28, 25]));
+
+    if (query.compact.length >= 2) {
+      const compact = (v?: string | null) => normalizeText(v ?? "").replace(/[^a-z0-9]/g, "");
+      consider("legacy_code", fragmentScore(compact(p.legacy_code), query.compact, [95, 75, 70]));
+      consider("rg", fragmentScore(compact(p.rg), query.compact, [95, 75, 70]));
+    }
+  }
+
+  if (query.digits.length >= MIN_DIGITS) {
+    consider("cpf", fragmentScore(onlyDigits(p.cpf), query.digits, [100, 85, 70]));
+    consider("phone_primary", fragmentScore(onlyDigits(p.phone_primary), query.digits, [100, 85, 70]));
+    consider("phone_secondary", fragmentScore(onlyDigits(p.phone_secondary), query.digits, [100, 85, 70]));
+    consider("rg", fragmentScore(onlyDigits(p.rg), query.digits, [95, 75, 65]));
+  }
+
+  return best;
+}
+
+// Pacientes que correspondem à busca, do mais relevante ao menos relevante (empate: ordem original)
+export function rankPatientSearch(patients: Patient[], term: string): Patient[] {
+  const query = parseSearchQuery(term);
+  return patients
+    .map((patient, index) => ({ patient, index, match: matchPatientSearch(patient, query) }))
+    .filter((r) => r.match !== null)
+    .sort((a, b) => b.match!.score - a.match!.score || a.index - b.index)
+    .map((r) => r.patient);
+}
+
+export interface HighlightRange {
+  start: number;
+  end: number; // exclusivo
+}
+
+export type HighlightMode = "text" | "digits" | "compact";
+
+// Trechos de `text` a destacar para a busca. Em "text", compara sem acentos e caixa (frase inteira e cada
+// palavra); em "digits", procura os dígitos da busca ignorando a máscara (ex.: "(11) 98765-4321");
+// em "compact", só letras e dígitos (RG e código legado).
+export function highlightRanges(text: string, term: string, mode: HighlightMode = "text"): HighlightRange[] {
+  if (!text || !term.trim()) return [];
+  const query = parseSearchQuery(term);
+  // Texto normalizado caractere a caractere, guardando a posição de origem de cada um
+  let normalized = "";
+  const origin: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    let n: string;
+    if (mode === "digits") n = char.replace(/\D/g, "");
+    else if (mode === "compact") n = normalizeText(char).replace(/[^a-z0-9]/g, "");
+    else n = /\s/.test(char) ? " " : normalizeText(char);
+    for (const c of n) {
+      normalized += c;
+      origin.push(i);
+    }
+  }
+
+  const needles =
+    mode === "digits"
+      ? query.digits.length >= MIN_DIGITS ? [query.digits] : []
+      : mode === "compact"
+        ? query.compact.length >= 2 ? [query.compact] : []
+        : [query.text, ...query.tokens];
+  const ranges: HighlightRange[] = [];
+  for (const needle of needles) {
+    if (!needle) continue;
+    for (let at = normalized.indexOf(needle); at >= 0; at = normalized.indexOf(needle, at + needle.length)) {
+      ranges.push({ start: origin[at], end: origin[at + needle.length - 1] + 1 });
+    }
+  }
+
+  // Une trechos sobrepostos ou encostados
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: HighlightRange[] = [];
+  for (const r of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && r.start <= last.end) last.end = Math.max(last.end, r.end);
+    else merged.push({ ...r });
+  }
+  return merged;
+}
@@ -0,0 +1,137 @@
+// Perfis de acesso da equipe e permissões sobre os dados de Pacientes
+// As mesmas regras são aplicadas no serviço, na interface e nas políticas RLS do Supabase
+// (supabase/migrations/20261019180000_patient_access_policies.sql).
+
+import { PATIENT_FIELD_LABELS, PATIENT_FIELDS, type Patient, type PatientField } from "@/types/patient";
+
+export type Role = "reception" | "doctor" | "nurse" | "billing" | "admin";
+
+export const ROLES: Role[] = ["reception", "doctor", "nurse", "billing", "admin"];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  reception: "Recepção",
+  doctor: "Médico(a)",
+  nurse: "Enfermagem",
+  billing: "Faturamento",
+  admin: "Administrador",
+};
+
+export type PermissionAction = "read" | "create" | "update" | "delete" | "restore" | "purge" | "merge";
+// patient_history: trilha de auditoria (versões anteriores do cadastro)
+// patient_document: documentos anexados ao cadastro (supabase/migrations/20261019230000_create_patient_documents.sql)
+// appointment: agenda, aberta a todos os perfis da clínica (supabase/migrations/20261019190000_add_clinics.sql)
+export type PermissionResource = "patient" | "patient_history" | "patient_document" | "appointment";
+
+const ROLE_PERMISSIONS: Record<Role, Partial<Record<PermissionResource, PermissionAction[]>>> = {
+  admin: {
+    patient: ["read", "create", "update", "delete", "restore", "purge", "merge"],
+    patient_history: ["read"],
+    patient_document: ["read", "create", "update", "delete"],
+    appointment: ["read", "create", "update"],
+  },
+  reception: {
+    patient: ["read", "create", "update", "delete", "restore", "merge"],
+    patient_history: ["read"],
+    patient_document: ["read", "create", "update", "delete"],
+    appointment: ["read", "create", "update"],
+  },
+  doctor: {
+    patient: ["read", "update"],
+    patient_history: ["read"],
+    patient_document: ["read", "create", "update"],
+    appointment: ["read", "create", "update"],
+  },
+  nurse: {
+    patient: ["read", "update"],
+    patient_history: ["read"],
+    patient_document: ["read", "create", "update"],
+    appointment: ["read", "create", "update"],
+  },
+  // Faturamento anexa carteirinhas e guias do convênio
+  billing: {
+    patient: ["read", "update"],
+    patient_document: ["read", "create"],
+    appointment: ["read", "create", "update"],
+  },
+};
+
+// Campos que o faturamento pode alterar: contato e endereço para cobrança
+const BILLING_EDITABLE_FIELDS: PatientField[] = [
+  "email",
+  "phone_primary",
+  "phone_secondary",
+  "address_zip_code",
+  "address_street",
+  "address_number",
+  "address_complement",
+  "address_district",
+  "address_city",
+  "address_state",
+];
+
+// hidden: o perfil não lê o campo; readOnly: lê, mas não altera
+const FIELD_RULES: Partial<Record<Role, { hidden?: PatientField[]; readOnly?: PatientField[] }>> = {
+  billing: {
+    hidden: ["observations", "behavior_score"],
+    readOnly: PATIENT_FIELDS.filter((f) => !BILLING_EDITABLE_FIELDS.includes(f)),
+  },
+  reception: { readOnly: ["observations"] },
+};
+
+export function resolveRole(value: unknown): Role | null {
+  return ROLES.includes(value as Role) ? (value as Role) : null;
+}
+
+export function hasPermission(
+  role: Role | null,
+  action: PermissionAction,
+  resource: PermissionResource,
+  field?: PatientField
+): boolean {
+  if (!role) return false;
+  if (!ROLE_PERMISSIONS[role][resource]?.includes(action)) return false;
+  if (!field || resource !== "patient") return true;
+  const rules = FIELD_RULES[role];
+  if (rules?.hidden?.includes(field)) return false;
+  if (action !== "read" && rules?.readOnly?.includes(field)) return false;
+  return true;
+}
+
+// Perfil do usuário logado, definido pelo AuthProvider; sem sessão nada é permitido
+let currentRole: Role | null = null;
+
+export function getCurrentRole(): Role | null {
+  return currentRole;
+}
+
+export function setCurrentRole(role: Role | null): void {
+  currentRole = role;
+}
+
+export function can(action: PermissionAction, resource: PermissionResource, field?: PatientField): boolean {
+  return hasPermission(currentRole, action, resource, field);
+}
+
+// Operação negada pelo perfil de acesso do usuário
+export class PermissionDeniedError extends Error {
+  constructor(message = "Seu perfil de acesso não permite esta operação") {
+    super(message);
+    this.name = "PermissionDeniedError";
+  }
+}
+
+export function assertCan(action: PermissionAction, resource: PermissionResource, field?: PatientField): void {
+  if (can(action, resource, field)) return;
+  throw new PermissionDeniedError(
+    field ? `Seu perfil de acesso não permite alterar o campo ${PATIENT_FIELD_LABELS[field]}` : undefined
+  );
+}
+
+// Remove do registro os campos que o perfil não pode ler
+export function redactPatient<T extends Partial<Patient>>(patient: T, role: Role | null = currentRole): T {
+  const hidden = role ? FIELD_RULES[role]?.hidden ?? [] : [];
+  if (hidden.length === 0) return patient;
+  const redacted = { ...patient };
+  for (const field of hidden) delete redacted[field];
+  return redacted;
+}
@@ -0,0 +1,54 @@
+// Itens usados recentemente na paleta de comandos (Ctrl/Cmd+K), por usuário e clínica, neste navegador.
+// Pacientes são guardados só pelo id: o nome é carregado na hora (e some se o acesso for perdido).
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+
+const RECENT_COMMANDS_KEY = "recent_commands";
+// Quantos itens recentes cada usuário mantém por clínica
+export const RECENT_COMMANDS_LIMIT = 6;
+
+export type RecentCommandKind = "patient" | "route";
+
+export interface RecentCommand {
+  kind: RecentCommandKind;
+  // id do paciente ou caminho da rota
+  ref: string;
+}
+
+interface StoredRecentCommand extends RecentCommand {
+  user_id: string;
+  clinic_id: string;
+  used_at: string;
+}
+
+const sameOwner = (item: StoredRecentCommand, userId: string, clinicId: string) =>
+  item.user_id === userId && item.clinic_id === clinicId;
+
+// Do mais recente ao mais antigo
+export function listRecentCommands(userId: string, clinicId: string): RecentCommand[] {
+  return readCollection<StoredRecentCommand>(RECENT_COMMANDS_KEY)
+    .filter((item) => sameOwner(item, userId, clinicId))
+    .sort((a, b) => b.used_at.localeCompare(a.used_at))
+    .map(({ kind, ref }) => ({ kind, ref }));
+}
+
+// Move o item para o topo e descarta os mais antigos além do limite
+export function rememberCommand(userId: string, clinicId: string, command: RecentCommand): void {
+  const all = readCollection<StoredRecentCommand>(RECENT_COMMANDS_KEY);
+  const others = all.filter((item) => !sameOwner(item, userId, clinicId));
+  const own = all
+    .filter((item) => sameOwner(item, userId, clinicId) && !(item.kind === command.kind && item.ref === command.ref))
+    .sort((a, b) => b.used_at.localeCompare(a.used_at))
+    .slice(0, RECENT_COMMANDS_LIMIT - 1);
+  const entry: StoredRecentCommand = { ...command, user_id: userId, clinic_id: clinicId, used_at: new Date().toISOString() };
+  writeCollection(RECENT_COMMANDS_KEY, [...others, entry, ...own]);
+}
+
+// Remove um item (ex.: paciente excluído ou sem acesso)
+export function forgetCommand(userId: string, clinicId: string, command: RecentCommand): void {
+  const all = readCollection<StoredRecentCommand>(RECENT_COMMANDS_KEY);
+  writeCollection(
+    RECENT_COMMANDS_KEY,
+    all.filter((item) => !(sameOwner(item, userId, clinicId) && item.kind === command.kind && item.ref === command.ref))
+  );
+}
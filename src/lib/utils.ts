@@ -4,3 +4,10 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Utilitário: sanitiza string mantendo apenas dígitos
+export const onlyDigits = (v: string) => (v || "").replace(/\D+/g, "");
+
+// Utilitário: remove acentos e normaliza caixa/espaços para comparações de texto
+export const normalizeText = (v: string) =>
+  (v || "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim();
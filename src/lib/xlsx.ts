@@ -0,0 +1,309 @@
+// Leitura (primeira aba) e escrita de planilhas XLSX sem dependências externas.
+// O arquivo é um ZIP de XMLs: descompacta com DecompressionStream e interpreta com DOMParser (APIs do navegador);
+// na escrita, os XMLs são gravados sem compressão.
+
+const SHEET_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 = sem compressão, 8 = deflate
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+// Índice do ZIP a partir do diretório central (no fim do arquivo)
+function readZipEntries(bytes: Uint8Array): ZipEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Arquivo XLSX inválido");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error("Arquivo XLSX inválido");
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localHeaderOffset + 30 + view.getUint16(entry.localHeaderOffset + 26, true) + view.getUint16(entry.localHeaderOffset + 28, true);
+  const data = bytes.slice(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error("Compressão não suportada no arquivo XLSX");
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, "application/xml");
+
+// "BC12" -> 54 (índice da coluna, a partir de 0)
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, "");
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+// Formatos de data embutidos no Excel (14-22 e 45-47)
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Estilos de célula (índice de "s") que representam datas
+function readDateStyles(stylesXml: string | null): Set<number> {
+  const dates = new Set<number>();
+  if (!stylesXml) return dates;
+  const doc = parseXml(stylesXml);
+  const customDates = new Set<number>();
+  for (const fmt of Array.from(doc.getElementsByTagNameNS(SHEET_NS, "numFmt"))) {
+    // Ignora trechos entre aspas/colchetes ("[Red]", "\"h\"") antes de procurar d, m, y
+    const code = (fmt.getAttribute("formatCode") ?? "").replace(/"[^"]*"|\[[^\]]*\]/g, "");
+    if (/[dy]/i.test(code)) customDates.add(Number(fmt.getAttribute("numFmtId")));
+  }
+  const cellXfs = doc.getElementsByTagNameNS(SHEET_NS, "cellXfs")[0];
+  Array.from(cellXfs?.getElementsByTagNameNS(SHEET_NS, "xf") ?? []).forEach((xf, i) => {
+    const id = Number(xf.getAttribute("numFmtId"));
+    if (BUILTIN_DATE_FORMATS.has(id) || customDates.has(id)) dates.add(i);
+  });
+  return dates;
+}
+
+// Número serial do Excel (dias desde 30/12/1899) -> dd/MM/yyyy
+function serialToDate(serial: number): string {
+  const date = new Date(Math.round((serial - 25569) * 86_400_000));
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}/${date.getUTCFullYear()}`;
+}
+
+const textOf = (el: Element) =>
+  Array.from(el.getElementsByTagNameNS(SHEET_NS, "t"))
+    .map((t) => t.textContent ?? "")
+    .join("");
+
+// Linhas da primeira aba como texto, na posição original (linhas vazias incluídas); datas como dd/MM/yyyy
+export async function readXlsx(data: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(data);
+  const entries = readZipEntries(bytes);
+  const read = async (name: string) => {
+    const entry = entries.find((e) => e.name === name);
+    return entry ? readZipText(bytes, entry) : null;
+  };
+
+  // Caminho da primeira aba pelo workbook e seus relacionamentos
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const workbook = await read("xl/workbook.xml");
+  const rels = await read("xl/_rels/workbook.xml.rels");
+  if (workbook && rels) {
+    const sheet = parseXml(workbook).getElementsByTagNameNS(SHEET_NS, "sheet")[0];
+    const relId = sheet?.getAttributeNS(REL_NS, "id");
+    const rel = Array.from(parseXml(rels).getElementsByTagName("Relationship")).find((r) => r.getAttribute("Id") === relId);
+    const target = rel?.getAttribute("Target");
+    if (target) sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+  const sheetXml = await read(sheetPath);
+  if (!sheetXml) throw new Error("A planilha não possui abas");
+
+  const sharedXml = await read("xl/sharedStrings.xml");
+  const shared = sharedXml ? Array.from(parseXml(sharedXml).getElementsByTagNameNS(SHEET_NS, "si")).map(textOf) : [];
+  const dateStyles = readDateStyles(await read("xl/styles.xml"));
+
+  const rows: string[][] = [];
+  for (const rowEl of Array.from(parseXml(sheetXml).getElementsByTagNameNS(SHEET_NS, "row"))) {
+    const position = Number(rowEl.getAttribute("r")) || rows.length + 1;
+    while (rows.length < position - 1) rows.push([]);
+    const row: string[] = [];
+    for (const cell of Array.from(rowEl.getElementsByTagNameNS(SHEET_NS, "c"))) {
+      const ref = cell.getAttribute("r");
+      const index = ref ? columnIndex(ref) : row.length;
+      const type = cell.getAttribute("t");
+      const raw = cell.getElementsByTagNameNS(SHEET_NS, "v")[0]?.textContent ?? "";
+      let value = raw;
+      if (type === "s") value = shared[Number(raw)] ?? "";
+      else if (type === "inlineStr") value = textOf(cell);
+      else if (type === "b") value = raw === "1" ? "VERDADEIRO" : "FALSO";
+      else if (!type || type === "n") {
+        if (raw !== "" && dateStyles.has(Number(cell.getAttribute("s")))) value = serialToDate(Number(raw));
+      }
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Escrita
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// ZIP sem compressão (método 0): suficiente para o Excel e sem depender de CompressionStream
+function writeZip(files: { name: string; data: Uint8Array }[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true); // versão necessária
+    lv.setUint16(6, 0x0800, true); // nomes em UTF-8
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, file.data.length, true);
+    lv.setUint32(22, file.data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const entry = new Uint8Array(46 + name.length);
+    const cv = new DataView(entry.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, file.data.length, true);
+    cv.setUint32(24, file.data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    parts.push(local, file.data);
+    central.push(entry);
+    offset += local.length + file.data.length;
+  }
+  const centralSize = central.reduce((sum, e) => sum + e.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+  return new Blob([...parts, ...central, end], { type: XLSX_MIME_TYPE });
+}
+
+// Caracteres de controle inválidos no XML 1.0 (tabulação e quebras de linha são permitidas)
+const isInvalidXmlChar = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d;
+};
+
+// Escapa o texto para XML, removendo caracteres de controle que o invalidam
+const escapeXml = (value: string) =>
+  Array.from(value)
+    .filter((char) => !isInvalidXmlChar(char))
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// 54 -> "BC"
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+}
+
+export type XlsxCell = string | number | null | undefined;
+
+// Planilha de uma aba; a primeira linha (cabeçalho) fica em negrito e congelada.
+// Textos são gravados como inlineStr: CPF, CEP e telefone mantêm os zeros à esquerda.
+export function writeXlsx(rows: XlsxCell[][], sheetName = "Planilha1"): Blob {
+  const encoder = new TextEncoder();
+  const sheetRows = rows.map((row, r) => {
+    const style = r === 0 ? ' s="1"' : "";
+    const cells = row.map((value, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (value === null || value === undefined || value === "") return "";
+      if (typeof value === "number" && Number.isFinite(value)) return `<c r="${ref}"${style}><v>${value}</v></c>`;
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+    });
+    return `<row r="${r + 1}">${cells.join("")}</row>`;
+  });
+  const sheet =
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="${SHEET_NS}">` +
+    (rows.length > 1
+      ? `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>`
+      : "") +
+    `<sheetData>${sheetRows.join("")}</sheetData></worksheet>`;
+
+  // Nome da aba: até 31 caracteres, sem : \ / ? * [ ]
+  const safeName = escapeXml(sheetName.replace(/[:\\/?*[\]]/g, " ").slice(0, 31) || "Planilha1");
+  const files: Record<string, string> = {
+    "[Content_Types].xml":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+      `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+      `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+      `</Types>`,
+    "_rels/.rels":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+      `</Relationships>`,
+    "xl/workbook.xml":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}">` +
+      `<sheets><sheet name="${safeName}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    "xl/_rels/workbook.xml.rels":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>` +
+      `<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      `</Relationships>`,
+    "xl/styles.xml":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<styleSheet xmlns="${SHEET_NS}">` +
+      `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+      `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>` +
+      `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+      `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+      `<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+      `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>` +
+      `</styleSheet>`,
+    "xl/worksheets/sheet1.xml": sheet,
+  };
+  return writeZip(Object.entries(files).map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+}
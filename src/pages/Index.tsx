@@ -12,9 +12,17 @@ const Index = () => {
       <div className="text-center space-y-4">
         <h1 className="text-4xl font-bold">MediConnect</h1>
         <p className="text-lg text-muted-foreground">Reduza o absenteísmo com uma gestão moderna de pacientes.</p>
-        <a href="/patients">
-          <Button>Ir para Pacientes</Button>
-        </a>
+        <div className="flex items-center justify-center gap-2">
+          <a href="/patients">
+            <Button>Ir para Pacientes</Button>
+          </a>
+          <a href="/agenda">
+            <Button variant="outline">Agenda</Button>
+          </a>
+          <a href="/appointments">
+            <Button variant="outline">Agendamentos</Button>
+          </a>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,250 @@
+import { useMemo, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  addDays,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  set,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AgendaTimeGrid } from "@/components/agenda/AgendaTimeGrid";
+import { AgendaMonthGrid } from "@/components/agenda/AgendaMonthGrid";
+import { useToast } from "@/hooks/use-toast";
+import { usePatientsById } from "@/hooks/use-patients-by-id";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import {
+  findOverlappingAppointmentIds,
+  listAppointments,
+  rescheduleAppointment,
+} from "@/services/appointmentsService";
+import type { Appointment, AppointmentStatus } from "@/types/appointment";
+import { AlertTriangle, ChevronLeft, ChevronRight, Plus } from "lucide-react";
+
+type AgendaView = "day" | "week" | "month";
+
+// Cancelados liberam o horário e não aparecem na agenda
+const VISIBLE_STATUSES: AppointmentStatus[] = ["scheduled", "confirmed", "completed", "no_show"];
+
+function getVisibleRange(view: AgendaView, date: Date) {
+  if (view === "day") return { start: startOfDay(date), end: addDays(startOfDay(date), 1) };
+  if (view === "week") {
+    const start = startOfWeek(date, { weekStartsOn: 1 });
+    return { start, end: addDays(start, 7) };
+  }
+  const start = startOfWeek(startOfMonth(date), { weekStartsOn: 1 });
+  return { start, end: addDays(endOfWeek(endOfMonth(date), { weekStartsOn: 1 }), 1) };
+}
+
+function getTitle(view: AgendaView, date: Date) {
+  if (view === "day") return format(date, "EEEE, dd 'de' MMMM 'de' yyyy", { locale: ptBR });
+  if (view === "week") {
+    const start = startOfWeek(date, { weekStartsOn: 1 });
+    return `${format(start, "dd/MM")} – ${format(addDays(start, 6), "dd/MM/yyyy")}`;
+  }
+  return format(date, "MMMM 'de' yyyy", { locale: ptBR });
+}
+
+function shift(view: AgendaView, date: Date, amount: number) {
+  if (view === "day") return addDays(date, amount);
+  if (view === "week") return addWeeks(date, amount);
+  return addMonths(date, amount);
+}
+
+export default function AgendaPage() {
+  const navigate = useNavigate();
+  const qc = useQueryClient();
+  const { toast } = useToast();
+
+  const [view, setView] = useState<AgendaView>("week");
+  const [date, setDate] = useState(() => startOfDay(new Date()));
+  const [professional, setProfessional] = useState<string>("all");
+
+  const range = useMemo(() => getVisibleRange(view, date), [view, date]);
+
+  const clinicKey = useClinicQueryKey();
+  const { data, isLoading } = useQuery({
+    queryKey: clinicKey("appointments", "agenda", { from: range.start.toISOString(), to: range.end.toISOString() }),
+    queryFn: () =>
+      listAppointments({
+        from: range.start.toISOString(),
+        to: range.end.toISOString(),
+        status: VISIBLE_STATUSES,
+      }),
+    placeholderData: (prev) => prev,
+  });
+
+  const all = useMemo(() => data?.data ?? [], [data]);
+  const professionals = useMemo(
+    () => Array.from(new Set(all.map((a) => a.professional_name))).sort((a, b) => a.localeCompare(b, "pt-BR")),
+    [all]
+  );
+  const visible = professional === "all" ? all : all.filter((a) => a.professional_name === professional);
+  const conflicts = useMemo(() => findOverlappingAppointmentIds(all), [all]);
+  const visibleConflicts = visible.filter((a) => conflicts.has(a.id!)).length;
+
+  const { data: patients } = usePatientsById(visible.map((a) => a.patient_id));
+
+  const rescheduleMut = useMutation({
+    mutationFn: ({ appointment, start }: { appointment: Appointment; start: Date }) => {
+      const duration = differenceInMinutes(parseISO(appointment.end_at), parseISO(appointment.start_at));
+      return rescheduleAppointment(appointment.id!, {
+        start_at: start.toISOString(),
+        end_at: addMinutes(start, duration).toISOString(),
+      });
+    },
+    onSuccess: async (updated) => {
+      toast({
+        title: "Agendamento reagendado",
+        description: format(parseISO(updated.start_at), "dd/MM/yyyy 'às' HH:mm"),
+      });
+      await qc.invalidateQueries({ queryKey: ["appointments"] });
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao reagendar", description: err?.message ?? "" });
+    },
+  });
+
+  const moveTo = (appointmentId: string, start: Date) => {
+    const appointment = all.find((a) => a.id === appointmentId);
+    if (!appointment || parseISO(appointment.start_at).getTime() === start.getTime()) return;
+    rescheduleMut.mutate({ appointment, start });
+  };
+
+  const book = (start: Date) => {
+    const params = new URLSearchParams({ start: start.toISOString() });
+    if (professional !== "all") params.set("professional", professional);
+    navigate(`/appointments/new?${params.toString()}`);
+  };
+
+  const openAppointment = (a: Appointment) => navigate(`/appointments/${a.id}`);
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Helmet>
+        <title>Agenda | MediConnect</title>
+        <meta name="description" content="Agenda da clínica por dia, semana e mês - MediConnect" />
+        <link rel="canonical" href={typeof window !== 'undefined' ? window.location.href : '/agenda'} />
+      </Helmet>
+
+      <header className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight">Agenda</h1>
+          <p className="text-sm text-muted-foreground">
+            Clique em um horário livre para agendar ou arraste um agendamento para reagendar
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => navigate("/appointments")}>Agendamentos</Button>
+          <Button onClick={() => navigate("/appointments/new")}>
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Agendamento
+          </Button>
+        </div>
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[auto,1fr] gap-6">
+        <aside className="space-y-4">
+          <Calendar
+            mode="single"
+            locale={ptBR}
+            selected={date}
+            onSelect={(d) => d && setDate(startOfDay(d))}
+            month={date}
+            onMonthChange={(m) => setDate(startOfDay(m))}
+            className="rounded-md border"
+          />
+          <Select value={professional} onValueChange={setProfessional}>
+            <SelectTrigger>
+              <SelectValue placeholder="Profissional" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os profissionais</SelectItem>
+              {professionals.map((p) => (
+                <SelectItem key={p} value={p}>{p}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </aside>
+
+        <main className="space-y-4 min-w-0">
+          <section aria-label="Navegação da agenda" className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" aria-label="Anterior" onClick={() => setDate((d) => shift(view, d, -1))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setDate(startOfDay(new Date()))}>Hoje</Button>
+              <Button variant="outline" size="icon" aria-label="Próximo" onClick={() => setDate((d) => shift(view, d, 1))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              <h2 className="ml-2 text-lg font-medium capitalize">{getTitle(view, date)}</h2>
+            </div>
+            <Tabs value={view} onValueChange={(v) => setView(v as AgendaView)}>
+              <TabsList>
+                <TabsTrigger value="day">Dia</TabsTrigger>
+                <TabsTrigger value="week">Semana</TabsTrigger>
+                <TabsTrigger value="month">Mês</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </section>
+
+          {visibleConflicts > 0 && (
+            <div className="flex items-center gap-2 rounded-md border border-destructive/40 bg-destructive/5 px-3 py-2 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {visibleConflicts} agendamento(s) com sobreposição de horário para o mesmo profissional
+            </div>
+          )}
+
+          {isLoading ? (
+            <Skeleton className="h-[480px] w-full" />
+          ) : view === "month" ? (
+            <AgendaMonthGrid
+              month={date}
+              appointments={visible}
+              patients={patients}
+              conflicts={conflicts}
+              onDayClick={(d) => {
+                setDate(startOfDay(d));
+                setView("day");
+              }}
+              onEventClick={openAppointment}
+              onEventDrop={(id, day) => {
+                const appointment = all.find((a) => a.id === id);
+                if (!appointment) return;
+                const original = parseISO(appointment.start_at);
+                moveTo(id, set(day, { hours: original.getHours(), minutes: original.getMinutes(), seconds: 0, milliseconds: 0 }));
+              }}
+            />
+          ) : (
+            <AgendaTimeGrid
+              days={eachDayOfInterval({ start: range.start, end: addDays(range.end, -1) })}
+              appointments={visible}
+              patients={patients}
+              conflicts={conflicts}
+              onSlotClick={book}
+              onEventClick={openAppointment}
+              onEventDrop={moveTo}
+            />
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
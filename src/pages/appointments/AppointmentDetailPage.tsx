@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addMinutes, differenceInMinutes, format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar } from "@/components/ui/calendar";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AppointmentStatusBadge } from "@/components/appointments/AppointmentStatusBadge";
+import { useToast } from "@/hooks/use-toast";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { combineDateAndTime } from "@/lib/dateTime";
+import {
+  cancelAppointment,
+  completeAppointment,
+  confirmAppointment,
+  getAppointmentById,
+  markAppointmentNoShow,
+  rescheduleAppointment,
+} from "@/services/appointmentsService";
+import { ACTIVE_APPOINTMENT_STATUSES, type Appointment } from "@/types/appointment";
+
+export default function AppointmentDetailPage() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  const { getPatientById } = usePatientsService();
+
+  const clinicKey = useClinicQueryKey();
+  const { data: appointment, isLoading } = useQuery({
+    queryKey: clinicKey("appointments", "detail", id),
+    queryFn: () => getAppointmentById(id!),
+    enabled: Boolean(id),
+  });
+
+  const { data: patient } = useQuery({
+    queryKey: clinicKey("patients", "detail", appointment?.patient_id),
+    queryFn: () => getPatientById(appointment!.patient_id),
+    enabled: Boolean(appointment?.patient_id),
+  });
+
+  const actionMut = useMutation({
+    mutationFn: async (action: () => Promise<Appointment>) => action(),
+    onSuccess: async () => {
+      toast({ title: "Agendamento atualizado" });
+      await qc.invalidateQueries({ queryKey: ["appointments"] });
+      // O score de absenteísmo do paciente é recalculado a cada mudança na agenda
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao atualizar agendamento", description: err?.message ?? "" });
+    },
+  });
+
+  const [rescheduleOpen, setRescheduleOpen] = useState(false);
+  const [newDate, setNewDate] = useState<Date | undefined>();
+  const [newTime, setNewTime] = useState("");
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+
+  if (isLoading) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Skeleton className="h-8 w-[280px]" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  if (!appointment) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <p className="text-sm text-muted-foreground">Agendamento não encontrado.</p>
+        <Button variant="outline" onClick={() => navigate("/appointments")}>Voltar</Button>
+      </div>
+    );
+  }
+
+  const start = parseISO(appointment.start_at);
+  const end = parseISO(appointment.end_at);
+  const isActive = ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status);
+  const hasStarted = start.getTime() <= Date.now();
+
+  const openReschedule = () => {
+    setNewDate(start);
+    setNewTime(format(start, "HH:mm"));
+    setRescheduleOpen(true);
+  };
+
+  const submitReschedule = async () => {
+    if (!newDate || !newTime) return;
+    const startAt = combineDateAndTime(newDate, newTime);
+    const endAt = addMinutes(startAt, differenceInMinutes(end, start));
+    await actionMut.mutateAsync(() =>
+      rescheduleAppointment(appointment.id!, { start_at: startAt.toISOString(), end_at: endAt.toISOString() })
+    );
+    setRescheduleOpen(false);
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Helmet>
+        <title>Agendamento | MediConnect</title>
+        <meta name="description" content="Detalhes do agendamento" />
+        <link rel="canonical" href={typeof window !== 'undefined' ? window.location.href : `/appointments/${id}`} />
+      </Helmet>
+
+      <header className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight">Agendamento</h1>
+          <p className="text-sm text-muted-foreground">
+            {format(start, "dd/MM/yyyy")} das {format(start, "HH:mm")} às {format(end, "HH:mm")}
+          </p>
+        </div>
+        <AppointmentStatusBadge status={appointment.status} />
+      </header>
+
+      <main className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+        <div>
+          <p className="text-muted-foreground">Paciente</p>
+          <p className="font-medium">{patient?.full_name ?? "-"}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Profissional</p>
+          <p className="font-medium">{appointment.professional_name}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Motivo</p>
+          <p className="font-medium">{appointment.reason ?? "-"}</p>
+        </div>
+        <div>
+          <p className="text-muted-foreground">Reagendamentos</p>
+          <p className="font-medium">{appointment.reschedule_count ?? 0}</p>
+        </div>
+        {appointment.cancellation_reason && (
+          <div className="md:col-span-2">
+            <p className="text-muted-foreground">Motivo do cancelamento</p>
+            <p className="font-medium">{appointment.cancellation_reason}</p>
+          </div>
+        )}
+        <div className="md:col-span-2">
+          <p className="text-muted-foreground">Observações</p>
+          <p className="font-medium whitespace-pre-wrap">{appointment.notes ?? "-"}</p>
+        </div>
+      </main>
+
+      <div className="flex flex-wrap items-center gap-2 justify-end">
+        <Button variant="outline" onClick={() => navigate("/appointments")}>Voltar</Button>
+        {appointment.status === "scheduled" && (
+          <Button variant="outline" onClick={() => actionMut.mutate(() => confirmAppointment(appointment.id!))}>
+            Confirmar
+          </Button>
+        )}
+        {isActive && (
+          <>
+            <Button variant="outline" onClick={openReschedule}>Reagendar</Button>
+            <Button variant="outline" onClick={() => setCancelOpen(true)}>Cancelar</Button>
+          </>
+        )}
+        {isActive && hasStarted && (
+          <>
+            <Button variant="outline" onClick={() => actionMut.mutate(() => markAppointmentNoShow(appointment.id!))}>
+              Registrar falta
+            </Button>
+            <Button onClick={() => actionMut.mutate(() => completeAppointment(appointment.id!))}>
+              Concluir atendimento
+            </Button>
+          </>
+        )}
+      </div>
+
+      {/* Reagendamento */}
+      <Dialog open={rescheduleOpen} onOpenChange={setRescheduleOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reagendar</DialogTitle>
+            <DialogDescription>Escolha a nova data e horário. A duração será mantida.</DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col items-center gap-4">
+            <Calendar mode="single" selected={newDate} onSelect={setNewDate} className="p-3" />
+            <div className="w-full space-y-2">
+              <Label htmlFor="reschedule-time">Horário</Label>
+              <Input id="reschedule-time" type="time" step={300} value={newTime} onChange={(e) => setNewTime(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRescheduleOpen(false)}>Voltar</Button>
+            <Button disabled={!newDate || !newTime || actionMut.isPending} onClick={submitReschedule}>
+              Reagendar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancelamento */}
+      <AlertDialog open={cancelOpen} onOpenChange={setCancelOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancelar agendamento?</AlertDialogTitle>
+            <AlertDialogDescription>O horário será liberado na agenda.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <Textarea
+            placeholder="Motivo do cancelamento (opcional)"
+            value={cancelReason}
+            onChange={(e) => setCancelReason(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Voltar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={async () => {
+                await actionMut.mutateAsync(() => cancelAppointment(appointment.id!, cancelReason));
+                setCancelReason("");
+              }}
+            >
+              Cancelar agendamento
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { addMinutes, format, parseISO } from "date-fns";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { PatientPicker } from "@/components/patients/PatientPicker";
+import { CalendarIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { combineDateAndTime, DURATION_OPTIONS } from "@/lib/dateTime";
+import { useToast } from "@/hooks/use-toast";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { createAppointment } from "@/services/appointmentsService";
+import type { Patient } from "@/types/patient";
+
+const FormSchema = z.object({
+  patient_id: z.string().min(1, "Paciente é obrigatório"),
+  professional_name: z.string().trim().min(1, "Profissional é obrigatório"),
+  date: z.date({ required_error: "Data é obrigatória" }),
+  time: z.string().regex(/^\d{2}:\d{2}$/, "Horário inválido"),
+  duration: z.string().min(1),
+  reason: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+  notes: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
+});
+
+export default function AppointmentFormPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  const { getPatientById } = usePatientsService();
+
+  // Pré-preenchimento via query string (ex.: clique em horário livre na agenda)
+  const initialStart = searchParams.get("start");
+  const initialPatientId = searchParams.get("patientId");
+  const start = initialStart ? parseISO(initialStart) : null;
+
+  const form = useForm<z.infer<typeof FormSchema>>({
+    resolver: zodResolver(FormSchema),
+    defaultValues: {
+      patient_id: "",
+      professional_name: searchParams.get("professional") ?? "",
+      date: start ?? (undefined as unknown as Date),
+      time: start ? format(start, "HH:mm") : "",
+      duration: searchParams.get("duration") ?? "30",
+      reason: "",
+      notes: "",
+    },
+    mode: "onChange",
+  });
+
+  const [patient, setPatient] = useState<Patient | null>(null);
+  const selectPatient = (p: Patient | null) => {
+    setPatient(p);
+    form.setValue("patient_id", p?.id ?? "", { shouldValidate: true });
+  };
+
+  useEffect(() => {
+    if (!initialPatientId) return;
+    (async () => {
+      try {
+        const p = await getPatientById(initialPatientId);
+        if (!p) return;
+        setPatient(p);
+        form.setValue("patient_id", p.id ?? "", { shouldValidate: true });
+      } catch (e) {
+        // Silencioso: usuário pode selecionar o paciente manualmente
+      }
+    })();
+  }, [initialPatientId, getPatientById, form]);
+
+  const onSubmit = async (values: z.infer<typeof FormSchema>) => {
+    const startAt = combineDateAndTime(values.date, values.time);
+    const endAt = addMinutes(startAt, Number(values.duration));
+    try {
+      await createAppointment({
+        patient_id: values.patient_id,
+        professional_name: values.professional_name,
+        start_at: startAt.toISOString(),
+        end_at: endAt.toISOString(),
+        reason: values.reason ?? null,
+        notes: values.notes ?? null,
+      });
+      await qc.invalidateQueries({ queryKey: ["appointments"] });
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+      toast({ title: "Agendamento criado com sucesso" });
+      navigate("/appointments");
+    } catch (e) {
+      toast({ title: "Erro ao salvar agendamento", description: (e as Error)?.message ?? "" });
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Helmet>
+        <title>Novo Agendamento | MediConnect</title>
+        <meta name="description" content="Agendamento de consulta" />
+        <link rel="canonical" href={typeof window !== 'undefined' ? window.location.href : '/appointments/new'} />
+      </Helmet>
+
+      <header className="space-y-1">
+        <h1 className="text-3xl font-semibold tracking-tight">Novo Agendamento</h1>
+        <p className="text-sm text-muted-foreground">Selecione o paciente, o profissional e o horário</p>
+      </header>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="patient_id"
+              render={() => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Paciente</FormLabel>
+                  <PatientPicker value={patient} onChange={selectPatient} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="professional_name"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Profissional</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex.: Dra. Ana Souza" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>Data</FormLabel>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          className={cn("pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
+                        >
+                          {field.value ? format(field.value, "dd/MM/yyyy") : <span>Selecionar data</span>}
+                          <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={field.value}
+                        onSelect={field.onChange}
+                        initialFocus
+                        className={cn("p-3 pointer-events-auto")}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="time"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Horário</FormLabel>
+                    <FormControl>
+                      <Input type="time" step={300} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="duration"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Duração</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Selecione" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {DURATION_OPTIONS.map((m) => (
+                          <SelectItem key={m} value={String(m)}>{m} min</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Motivo</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Ex.: Consulta de retorno" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Observações</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Opcional" rows={4} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="flex items-center gap-2 justify-end">
+            <Button type="button" variant="outline" onClick={() => navigate(-1)}>Cancelar</Button>
+            <Button type="submit" disabled={!form.formState.isValid || form.formState.isSubmitting}>
+              {form.formState.isSubmitting ? "Salvando..." : "Agendar"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
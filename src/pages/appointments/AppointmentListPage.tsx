@@ -0,0 +1,173 @@
+import { useEffect, useMemo, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AppointmentStatusBadge } from "@/components/appointments/AppointmentStatusBadge";
+import { usePatientsById } from "@/hooks/use-patients-by-id";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { listAppointments, type ListAppointmentsResult } from "@/services/appointmentsService";
+import { APPOINTMENT_STATUS_LABELS, type AppointmentStatus } from "@/types/appointment";
+import { Plus } from "lucide-react";
+
+const PAGE_SIZE = 10;
+
+type Period = "upcoming" | "past";
+
+export default function AppointmentListPage() {
+  const navigate = useNavigate();
+  const [period, setPeriod] = useState<Period>("upcoming");
+  const [status, setStatus] = useState<AppointmentStatus | "all">("all");
+  const [page, setPage] = useState(1);
+
+  // Referência fixa de "agora" enquanto a página está aberta (mantém a chave de cache estável)
+  const [now] = useState(() => new Date().toISOString());
+
+  const clinicKey = useClinicQueryKey();
+  const { data, isLoading, isError, error } = useQuery<ListAppointmentsResult>({
+    queryKey: clinicKey("appointments", { period, status, page, now }),
+    queryFn: () =>
+      listAppointments({
+        ...(period === "upcoming" ? { from: now } : { to: now }),
+        ascending: period === "upcoming",
+        status: status === "all" ? undefined : [status],
+        page,
+        pageSize: PAGE_SIZE,
+      }),
+    placeholderData: (prev) => prev,
+  });
+
+  const appointments = data?.data ?? [];
+  const { data: patients } = usePatientsById(appointments.map((a) => a.patient_id));
+
+  const total = data?.count ?? 0;
+  const totalPages = useMemo(() => Math.max(1, Math.ceil(total / PAGE_SIZE)), [total]);
+
+  useEffect(() => {
+    // Reset para página 1 quando mudam os filtros
+    setPage(1);
+  }, [period, status]);
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Helmet>
+        <title>Agendamentos | MediConnect</title>
+        <meta name="description" content="Agendamentos de consultas da clínica - MediConnect" />
+        <link rel="canonical" href={typeof window !== 'undefined' ? window.location.href : '/appointments'} />
+      </Helmet>
+
+      <header className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight">Agendamentos</h1>
+          <p className="text-sm text-muted-foreground">Consultas agendadas, realizadas e canceladas</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => navigate("/patients")}>Pacientes</Button>
+          <Button variant="outline" onClick={() => navigate("/agenda")}>Agenda</Button>
+          <Button variant="outline" onClick={() => navigate("/reminders")}>Lembretes</Button>
+          <Button onClick={() => navigate("/appointments/new")}>
+            <Plus className="mr-2 h-4 w-4" />
+            Novo Agendamento
+          </Button>
+        </div>
+      </header>
+
+      <section aria-label="Controles de listagem" className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
+        <Tabs value={period} onValueChange={(v) => setPeriod(v as Period)}>
+          <TabsList>
+            <TabsTrigger value="upcoming">Próximos</TabsTrigger>
+            <TabsTrigger value="past">Anteriores</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Select value={status} onValueChange={(v) => setStatus(v as AppointmentStatus | "all")}>
+          <SelectTrigger className="w-full md:w-48">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os status</SelectItem>
+            {(Object.keys(APPOINTMENT_STATUS_LABELS) as AppointmentStatus[]).map((s) => (
+              <SelectItem key={s} value={s}>{APPOINTMENT_STATUS_LABELS[s]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </section>
+
+      <main>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data/Hora</TableHead>
+              <TableHead>Paciente</TableHead>
+              <TableHead>Profissional</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell><Skeleton className="h-4 w-[140px]" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-[220px]" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-[160px]" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-[80px]" /></TableCell>
+                </TableRow>
+              ))
+            ) : isError ? (
+              <TableRow>
+                <TableCell colSpan={4}>
+                  <div className="text-sm text-destructive">Erro ao carregar: {(error as Error)?.message ?? "Tente novamente"}</div>
+                </TableCell>
+              </TableRow>
+            ) : appointments.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4}>
+                  <div className="text-sm text-muted-foreground">Nenhum agendamento encontrado</div>
+                </TableCell>
+              </TableRow>
+            ) : (
+              appointments.map((a) => (
+                <TableRow
+                  key={a.id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/appointments/${a.id}`)}
+                >
+                  <TableCell className="font-medium">{format(parseISO(a.start_at), "dd/MM/yyyy HH:mm")}</TableCell>
+                  <TableCell>{patients?.[a.patient_id]?.full_name ?? "-"}</TableCell>
+                  <TableCell>{a.professional_name}</TableCell>
+                  <TableCell><AppointmentStatusBadge status={a.status} /></TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        {/* Paginação */}
+        <div className="flex items-center justify-between pt-4">
+          <div className="text-sm text-muted-foreground">
+            Página {page} de {totalPages} — {total} registro(s)
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
+              Anterior
+            </Button>
+            <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage((p) => Math.min(totalPages, p + 1))}>
+              Próxima
+            </Button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+const FormSchema = z.object({
+  email: z.string().min(1, "E-mail é obrigatório").email("E-mail inválido"),
+});
+
+export default function ForgotPasswordPage() {
+  const { requestPasswordReset } = useAuth();
+  const { toast } = useToast();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<z.infer<typeof FormSchema>>({
+    resolver: zodResolver(FormSchema),
+    defaultValues: { email: "" },
+  });
+
+  const onSubmit = async ({ email }: z.infer<typeof FormSchema>) => {
+    try {
+      await requestPasswordReset(email);
+      setSentTo(email);
+    } catch (e) {
+      toast({ title: "Não foi possível enviar o link", description: (e as Error)?.message ?? "" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Helmet>
+        <title>Redefinir senha | MediConnect</title>
+        <meta name="description" content="Solicitar redefinição de senha" />
+      </Helmet>
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Redefinir senha</CardTitle>
+          <CardDescription>Enviaremos um link para o seu e-mail</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sentTo ? (
+            <p className="text-sm">
+              Se houver uma conta para <strong>{sentTo}</strong>, você receberá em instantes um e-mail com o link para
+              criar uma nova senha.
+            </p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>E-mail</FormLabel>
+                      <FormControl>
+                        <Input type="email" autoComplete="email" autoFocus {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Enviando..." : "Enviar link"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Link to="/login" className="text-sm text-muted-foreground hover:underline">
+            Voltar para o login
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { Helmet } from "react-helmet-async";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, Navigate, useLocation, useNavigate, type Location } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { AUTH_BACKEND } from "@/lib/authBackend";
+import { ROLE_LABELS } from "@/lib/permissions";
+import { DEFAULT_MOCK_AUTH_USERS } from "@/services/authService";
+
+const FormSchema = z.object({
+  email: z.string().min(1, "E-mail é obrigatório").email("E-mail inválido"),
+  password: z.string().min(1, "Senha é obrigatória"),
+});
+
+export default function LoginPage() {
+  const { session, loading, signIn } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+  // Página pedida antes do redirecionamento para o login
+  const from = (location.state as { from?: Location } | null)?.from;
+  const target = from ? `${from.pathname}${from.search}` : "/patients";
+
+  const form = useForm<z.infer<typeof FormSchema>>({
+    resolver: zodResolver(FormSchema),
+    defaultValues: { email: "", password: "" },
+  });
+
+  if (!loading && session) return <Navigate to={target} replace />;
+
+  const onSubmit = async ({ email, password }: z.infer<typeof FormSchema>) => {
+    try {
+      await signIn(email, password);
+      navigate(target, { replace: true });
+    } catch (e) {
+      toast({ title: "Não foi possível entrar", description: (e as Error)?.message ?? "" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Helmet>
+        <title>Entrar | MediConnect</title>
+        <meta name="description" content="Acesso ao MediConnect" />
+      </Helmet>
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Entrar</CardTitle>
+          <CardDescription>Acesse com seu e-mail e senha</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {import.meta.env.DEV && AUTH_BACKEND === "mock" && (
+            <Alert>
+              <AlertDescription className="space-y-1">
+                <p>Autenticação simulada. Usuários disponíveis (um por perfil):</p>
+                <ul className="list-disc pl-4">
+                  {DEFAULT_MOCK_AUTH_USERS.map((u) => (
+                    <li key={u.id}>
+                      {u.email} / {u.password}
+                      {u.role && ` (${ROLE_LABELS[u.role]})`}
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>E-mail</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="username" autoFocus {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Senha</FormLabel>
+                      <Link to="/forgot-password" className="text-sm text-muted-foreground hover:underline">
+                        Esqueci minha senha
+                      </Link>
+                    </div>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Entrando..." : "Entrar"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
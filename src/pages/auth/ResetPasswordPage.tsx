@@ -0,0 +1,100 @@
+import { Helmet } from "react-helmet-async";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { MIN_PASSWORD_LENGTH } from "@/services/authService";
+
+const FormSchema = z
+  .object({
+    password: z.string().min(MIN_PASSWORD_LENGTH, `A senha deve ter ao menos ${MIN_PASSWORD_LENGTH} caracteres`),
+    confirm: z.string(),
+  })
+  .refine((v) => v.password === v.confirm, { path: ["confirm"], message: "As senhas não conferem" });
+
+// Aberta pelo link de redefinição: o provedor já cria a sessão de recuperação a partir da URL
+export default function ResetPasswordPage() {
+  const { session, loading, updatePassword } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof FormSchema>>({
+    resolver: zodResolver(FormSchema),
+    defaultValues: { password: "", confirm: "" },
+  });
+
+  const onSubmit = async ({ password }: z.infer<typeof FormSchema>) => {
+    try {
+      await updatePassword(password);
+      toast({ title: "Senha alterada com sucesso" });
+      navigate("/patients", { replace: true });
+    } catch (e) {
+      toast({ title: "Não foi possível alterar a senha", description: (e as Error)?.message ?? "" });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Helmet>
+        <title>Nova senha | MediConnect</title>
+        <meta name="description" content="Definir nova senha" />
+      </Helmet>
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Nova senha</CardTitle>
+          <CardDescription>{session ? `Conta: ${session.user.email}` : "Defina uma nova senha de acesso"}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Verificando link...</p>
+          ) : !session ? (
+            <p className="text-sm">
+              Link inválido ou expirado.{" "}
+              <Link to="/forgot-password" className="underline">Solicite um novo link</Link>.
+            </p>
+          ) : (
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nova senha</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" autoFocus {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="confirm"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirmar senha</FormLabel>
+                      <FormControl>
+                        <Input type="password" autoComplete="new-password" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting ? "Salvando..." : "Salvar nova senha"}
+                </Button>
+              </form>
+            </Form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,10 +1,10 @@
 import { useEffect, useMemo, useState } from "react";
 import { Helmet } from "react-helmet-async";
 import { useForm } from "react-hook-form";
-import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { format, parseISO } from "date-fns";
 import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -17,203 +17,314 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
-import { CalendarIcon } from "lucide-react";
+import { AlertTriangle, CalendarIcon } from "lucide-react";
+import { emptyPatientForm, PatientFormSchema, toPatientInsert, type PatientFormValues } from "@/lib/patientFormSchema";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { createPatient, getPatientById, onlyDigits, updatePatient } from "@/services/patientsService";
-import type { Patient, PatientInsert } from "@/types/patient";
-import { fetchAddressByZipCode } from "@/services/cep";
-
-// Helpers de máscara (apenas apresentação)
-const maskCPF = (v: string) => {
-  const s = onlyDigits(v).slice(0, 11);
-  return s
-    .replace(/(\d{3})(\d)/, "$1.$2")
-    .replace(/(\d{3})(\d)/, "$1.$2")
-    .replace(/(\d{3})(\d{1,2})$/, "$1-$2");
-};
-const maskPhone = (v: string) => {
-  const s = onlyDigits(v).slice(0, 11);
-  if (s.length <= 10) {
-    return s
-      .replace(/(\d{2})(\d)/, "($1) $2")
-      .replace(/(\d{4})(\d{1,4})$/, "$1-$2");
-  }
-  return s
-    .replace(/(\d{2})(\d)/, "($1) $2")
-    .replace(/(\d{5})(\d{1,4})$/, "$1-$2");
-};
-const maskCEP = (v: string) => {
-  const s = onlyDigits(v).slice(0, 8);
-  return s.replace(/(\d{5})(\d{1,3})$/, "$1-$2");
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { usePatientDocuments } from "@/hooks/use-patient-documents";
+import { DuplicatePatientsAlert } from "@/components/patients/DuplicatePatientsAlert";
+import { PatientHistory } from "@/components/patients/PatientHistory";
+import { PatientConflictDialog } from "@/components/patients/PatientConflictDialog";
+import { PatientPhotoField } from "@/components/patients/PatientPhotoField";
+import { PatientDocuments } from "@/components/patients/PatientDocuments";
+import { onlyDigits, PatientVersionConflictError } from "@/services/patientsService";
+import { removePatientPhoto, uploadPatientPhoto } from "@/services/patientPhotosService";
+import { getDocumentExpiryStatus } from "@/services/patientDocumentsService";
+import {
+  BRAZILIAN_STATES,
+  maskCEP,
+  maskCNS,
+  maskCPF,
+  maskPhone,
+} from "@/lib/brDocuments";
+import {
+  COMMUNICATION_CHANNEL_LABELS,
+  COMMUNICATION_CHANNELS,
+  DEFAULT_COMMUNICATION_PREFERENCES,
+  type Patient,
+  type PatientField,
+} from "@/types/patient";
+import { CepNotFoundError, fetchAddressByZipCode } from "@/services/cep";
+
+// Campos de cada aba, para desabilitar as abas que o perfil não pode editar
+const TAB_FIELDS: Record<"pessoais" | "contato" | "comunicacao" | "observacoes", PatientField[]> = {
+  pessoais: [
+    "full_name",
+    "social_name",
+    "photo_url",
+    "cpf",
+    "rg",
+    "rg_state",
+    "cns",
+    "gender",
+    "marital_status",
+    "ethnicity",
+    "birth_date",
+    "profession",
+    "mother_name",
+    "father_name",
+    "tags",
+  ],
+  contato: [
+    "email",
+    "phone_primary",
+    "phone_secondary",
+    "address_zip_code",
+    "address_street",
+    "address_number",
+    "address_complement",
+    "address_district",
+    "address_city",
+    "address_state",
+  ],
+  comunicacao: [
+    "communication_preferences",
+    "preferred_contact_start",
+    "preferred_contact_end",
+    "behavior_score",
+    "marketing_consent",
+  ],
+  observacoes: ["observations"],
 };
 
-// Schema de validação (espelha o schema do banco)
-const FormSchema = z.object({
-  // Pessoais
-  full_name: z.string().min(1, "Nome é obrigatório"),
-  social_name: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  cpf: z
-    .string()
-    .min(1, "CPF é obrigatório")
-    .transform((v) => onlyDigits(v))
-    .refine((v) => v.length === 11, "CPF deve conter 11 dígitos"),
-  rg: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  other_document_type: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  other_document_number: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  gender: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  birth_date: z.date({ required_error: "Data de nascimento é obrigatória" }),
-  ethnicity: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  race: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  nationality: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  birth_city: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  birth_state: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  profession: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  marital_status: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  mother_name: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  father_name: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  responsible_name: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  responsible_cpf: z
-    .string()
-    .optional()
-    .transform((v) => (v ? onlyDigits(v) : undefined))
-    .refine((v) => !v || v.length === 11, "CPF do responsável deve conter 11 dígitos"),
-  legacy_code: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  // Contato
-  email: z
-    .string()
-    .email("E-mail inválido")
-    .optional()
-    .or(z.literal(""))
-    .transform((v) => (v ? v : undefined)),
-  phone_primary: z
-    .string()
-    .min(1, "Telefone principal é obrigatório")
-    .transform((v) => onlyDigits(v))
-    .refine((v) => v.length >= 10, "Telefone inválido"),
-  phone_secondary: z
-    .string()
-    .optional()
-    .transform((v) => (v ? onlyDigits(v) : undefined)),
-  // Endereço
-  address_zip_code: z.string().optional().transform((v) => (v ? onlyDigits(v) : undefined)),
-  address_street: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  address_number: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  address_complement: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  address_district: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  address_city: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  address_state: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-  // Observações
-  observations: z.string().optional().or(z.literal("")).transform((v) => v || undefined),
-});
+const TAB_GRID_COLS = ["", "grid-cols-1", "grid-cols-2", "grid-cols-3", "grid-cols-4", "grid-cols-5", "grid-cols-6"];
 
 export default function PatientFormPage() {
   const { id } = useParams();
   const isEdit = Boolean(id);
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { createPatient, findDuplicatePatients, getPatientById, updatePatient } = usePatientsService();
+  const { can } = usePermissions();
+  const editAction = isEdit ? "update" : "create";
+  const canEditTab = (tab: keyof typeof TAB_FIELDS) => TAB_FIELDS[tab].some((f) => can(editAction, "patient", f));
+  const canReadObservations = can("read", "patient", "observations");
+  const showHistory = isEdit && can("read", "patient_history");
+  const showDocuments = isEdit && can("read", "patient_document");
+  // Documentos vencidos ou a vencer sinalizados no título da aba Anexos
+  const { data: documents = [] } = usePatientDocuments(showDocuments ? id : undefined);
+  const documentsNeedAttention = documents.some((d) => {
+    const status = getDocumentExpiryStatus(d);
+    return status === "expired" || status === "expiring";
+  });
 
-  const form = useForm<z.infer<typeof FormSchema>>({
-    resolver: zodResolver(FormSchema),
-    defaultValues: {
-      full_name: "",
-      social_name: "",
-      cpf: "",
-      rg: "",
-      other_document_type: "",
-      other_document_number: "",
-      gender: "",
-      birth_date: undefined as unknown as Date,
-      ethnicity: "",
-      race: "",
-      nationality: "",
-      birth_city: "",
-      birth_state: "",
-      profession: "",
-      marital_status: "",
-      mother_name: "",
-      father_name: "",
-      responsible_name: "",
-      responsible_cpf: "",
-      legacy_code: "",
-      email: "",
-      phone_primary: "",
-      phone_secondary: "",
-      address_zip_code: "",
-      address_street: "",
-      address_number: "",
-      address_complement: "",
-      address_district: "",
-      address_city: "",
-      address_state: "",
-      observations: "",
-    },
+  const form = useForm<PatientFormValues>({
+    resolver: zodResolver(PatientFormSchema),
+    defaultValues: emptyPatientForm(),
     mode: "onChange",
   });
 
+  // Data do consentimento de marketing já registrado (definida pelo serviço ao salvar)
+  const [consentAt, setConsentAt] = useState<string | null>(null);
+  // Versão carregada, base da verificação de concorrência ao salvar
+  const [original, setOriginal] = useState<Patient | null>(null);
+  // Edição simultânea detectada ao salvar: aguarda resolução campo a campo
+  const [conflict, setConflict] = useState<{ original: Patient; mine: Partial<Patient>; theirs: Patient } | null>(null);
+  const [isResolving, setResolving] = useState(false);
+  // Foto recortada aguardando o envio, que acontece ao salvar o cadastro
+  const [pendingPhoto, setPendingPhoto] = useState<Blob | null>(null);
+
+  // Preenche o formulário com o paciente carregado (ou com uma versão restaurada do histórico)
+  const fillForm = (p: Patient) => {
+    form.reset({
+      ...p,
+      cpf: p.cpf,
+      phone_primary: p.phone_primary,
+      phone_secondary: p.phone_secondary ?? "",
+      photo_url: p.photo_url ?? null,
+      rg_state: p.rg_state ?? "",
+      cns: p.cns ?? "",
+      address_zip_code: p.address_zip_code ?? "",
+      tags: (p.tags ?? []).join(", "),
+      birth_date: p.birth_date ? parseISO(p.birth_date) : (undefined as any),
+      communication_preferences: {
+        ...(p.communication_preferences && Object.keys(p.communication_preferences).length > 0
+          ? { whatsapp: false, sms: false, email: false, call: false }
+          : DEFAULT_COMMUNICATION_PREFERENCES),
+        ...p.communication_preferences,
+      },
+      preferred_contact_start: p.preferred_contact_start ?? "",
+      preferred_contact_end: p.preferred_contact_end ?? "",
+      marketing_consent: p.marketing_consent ?? false,
+      behavior_score: p.behavior_score ?? null,
+    });
+    setConsentAt(p.marketing_consent ? p.marketing_consent_at ?? null : null);
+    setOriginal(p);
+  };
+
   // Carregar dados para edição
   useEffect(() => {
     if (!isEdit || !id) return;
     (async () => {
       try {
         const p = await getPatientById(id);
-        if (!p) return;
-        form.reset({
-          ...p,
-          cpf: p.cpf,
-          phone_primary: p.phone_primary,
-          phone_secondary: p.phone_secondary ?? "",
-          address_zip_code: p.address_zip_code ?? "",
-          birth_date: p.birth_date ? parseISO(p.birth_date) : (undefined as any),
-        });
+        // Inexistente ou de outra clínica
+        if (!p) {
+          toast({ title: "Paciente não encontrado", description: "O cadastro não existe na clínica ativa." });
+          navigate("/patients", { replace: true });
+          return;
+        }
+        // Cadastro mesclado: o id antigo redireciona para o paciente que permaneceu
+        if (p.id !== id) {
+          navigate(`/patients/${p.id}/edit`, { replace: true });
+          return;
+        }
+        fillForm(p);
       } catch (e) {
         // Silencioso: página continuará com defaults
       }
     })();
-  }, [id, isEdit]);
+  }, [id, isEdit, getPatientById]);
 
   // Preenchimento automático por CEP ao desfocar
   const [isFetchingAddress, setFetchingAddress] = useState(false);
+  const [isPartialAddress, setPartialAddress] = useState(false);
   const handleCepBlur = async () => {
     const cep = onlyDigits(form.getValues("address_zip_code") || "");
-    if (cep.length !== 8) return;
+    setPartialAddress(false);
+    if (cep.length === 0) return;
+    if (cep.length !== 8) {
+      form.setError("address_zip_code", { message: "CEP deve conter 8 dígitos" });
+      return;
+    }
     setFetchingAddress(true);
     try {
       const res = await fetchAddressByZipCode(cep);
-      form.setValue("address_street", res.street);
-      form.setValue("address_district", res.district);
-      form.setValue("address_city", res.city);
+      form.clearErrors("address_zip_code");
+      // Base offline só conhece cidade/UF: preserva o que já foi digitado nos demais campos
+      if (!res.partial || !form.getValues("address_street")) form.setValue("address_street", res.street);
+      if (!res.partial || !form.getValues("address_district")) form.setValue("address_district", res.district);
+      if (res.city) form.setValue("address_city", res.city);
       form.setValue("address_state", res.state);
+      setPartialAddress(Boolean(res.partial));
+    } catch (e) {
+      if (e instanceof CepNotFoundError) {
+        form.setError("address_zip_code", { message: "CEP não encontrado" });
+      } else {
+        toast({
+          title: "Não foi possível buscar o endereço",
+          description: (e as Error)?.message ?? "Preencha o endereço manualmente.",
+        });
+      }
     } finally {
       setFetchingAddress(false);
     }
   };
 
-  const onSubmit = async (values: z.infer<typeof FormSchema>) => {
-    // Converter Date para string yyyy-MM-dd
-    const payload: PatientInsert = {
-      ...values,
-      birth_date: format(values.birth_date, "yyyy-MM-dd"),
-    } as unknown as PatientInsert;
+  // Detecção de duplicados durante o cadastro (CPF, nome + nascimento, nome parecido, telefone)
+  const [fullName, cpf, birthDate, phonePrimary, phoneSecondary] = form.watch([
+    "full_name",
+    "cpf",
+    "birth_date",
+    "phone_primary",
+    "phone_secondary",
+  ]);
+  const duplicateCriteria = useDebouncedValue(
+    useMemo(
+      () => ({
+        full_name: fullName?.trim() || undefined,
+        cpf: onlyDigits(cpf ?? "") || undefined,
+        birth_date: birthDate ? format(birthDate, "yyyy-MM-dd") : undefined,
+        phone_primary: onlyDigits(phonePrimary ?? "") || undefined,
+        phone_secondary: onlyDigits(phoneSecondary ?? "") || undefined,
+      }),
+      [fullName, cpf, birthDate, phonePrimary, phoneSecondary]
+    )
+  );
+  const clinicKey = useClinicQueryKey();
+  const { data: duplicates = [] } = useQuery({
+    queryKey: clinicKey("patients", "duplicates", duplicateCriteria),
+    queryFn: () => findDuplicatePatients(duplicateCriteria),
+    enabled: !isEdit && Object.values(duplicateCriteria).some(Boolean),
+  });
+  const [duplicatesAcknowledged, setDuplicatesAcknowledged] = useState(false);
+  const duplicateIds = duplicates.map((d) => d.patient.id).join(",");
+  useEffect(() => setDuplicatesAcknowledged(false), [duplicateIds]);
+  const hasBlockingDuplicate = duplicates.some((d) => d.blocking);
+  const duplicatesPending = duplicates.length > 0 && (hasBlockingDuplicate || !duplicatesAcknowledged);
+
+  // Foto anterior que deixou de ser usada após salvar (falha na remoção não impede o cadastro)
+  const discardReplacedPhoto = (saved: Partial<Patient>) => {
+    const previous = original?.photo_url;
+    if (previous && "photo_url" in saved && previous !== saved.photo_url) removePatientPhoto(previous).catch(() => undefined);
+  };
+
+  const onSubmit = async (values: PatientFormValues) => {
+    const payload = toPatientInsert(values);
+    let uploadedPhoto: string | null = null;
 
     try {
+      if (pendingPhoto) {
+        uploadedPhoto = await uploadPatientPhoto(pendingPhoto);
+        payload.photo_url = uploadedPhoto;
+      }
       if (isEdit && id) {
-        await updatePatient({ id, ...payload });
+        await updatePatient({ id, ...payload }, { expectedUpdatedAt: original?.updated_at });
         toast({ title: "Paciente atualizado com sucesso" });
       } else {
         await createPatient(payload);
         toast({ title: "Paciente criado com sucesso" });
       }
+      discardReplacedPhoto(payload);
+      setPendingPhoto(null);
       navigate("/patients");
     } catch (e: any) {
+      if (e instanceof PatientVersionConflictError && original) {
+        // A foto enviada segue na resolução do conflito
+        if (uploadedPhoto) {
+          form.setValue("photo_url", uploadedPhoto);
+          setPendingPhoto(null);
+        }
+        setConflict({ original, mine: payload as Partial<Patient>, theirs: e.current });
+        return;
+      }
+      if (uploadedPhoto) removePatientPhoto(uploadedPhoto).catch(() => undefined);
       toast({ title: "Erro ao salvar paciente", description: e?.message ?? "" });
     }
   };
 
+  // Salva o resultado da resolução sobre a versão atual; novo conflito reabre a comparação
+  const saveResolved = async (resolved: Partial<Patient>) => {
+    if (!conflict || !id) return;
+    setResolving(true);
+    try {
+      await updatePatient({ id, ...resolved }, { expectedUpdatedAt: conflict.theirs.updated_at });
+      discardReplacedPhoto(resolved);
+      setConflict(null);
+      toast({ title: "Paciente atualizado com sucesso" });
+      navigate("/patients");
+    } catch (e) {
+      if (e instanceof PatientVersionConflictError) {
+        setConflict({ original: conflict.theirs, mine: { ...conflict.mine, ...resolved }, theirs: e.current });
+      } else {
+        toast({ title: "Erro ao salvar paciente", description: (e as Error)?.message ?? "" });
+      }
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const discardMine = () => {
+    if (!conflict) return;
+    // Foto enviada nesta edição e descartada junto com as alterações
+    const photo = form.getValues("photo_url");
+    if (photo && photo !== original?.photo_url && photo !== conflict.theirs.photo_url) {
+      removePatientPhoto(photo).catch(() => undefined);
+    }
+    fillForm(conflict.theirs);
+    setConflict(null);
+    toast({ title: "Versão atual carregada", description: "Suas alterações foram descartadas." });
+  };
+
   return (
     <div className="container mx-auto py-8 space-y-6">
       <Helmet>
@@ -234,410 +345,659 @@ export default function PatientFormPage() {
       <Form {...form}>
         <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
           <Tabs defaultValue="pessoais" className="w-full">
-            <TabsList className="grid w-full grid-cols-3">
+            <TabsList
+              className={cn(
+                "grid w-full",
+                TAB_GRID_COLS[3 + Number(canReadObservations) + Number(showDocuments) + Number(showHistory)]
+              )}
+            >
               <TabsTrigger value="pessoais">Dados Pessoais</TabsTrigger>
               <TabsTrigger value="contato">Contato e Endereço</TabsTrigger>
-              <TabsTrigger value="observacoes">Observações</TabsTrigger>
+              <TabsTrigger value="comunicacao">Comunicação</TabsTrigger>
+              {canReadObservations && <TabsTrigger value="observacoes">Observações</TabsTrigger>}
+              {showDocuments && (
+                <TabsTrigger value="anexos" className="gap-1">
+                  Anexos
+                  {documentsNeedAttention && (
+                    <AlertTriangle className="h-3.5 w-3.5 text-destructive" aria-label="Documentos vencidos ou a vencer" />
+                  )}
+                </TabsTrigger>
+              )}
+              {showHistory && <TabsTrigger value="historico">Histórico</TabsTrigger>}
             </TabsList>
 
             {/* Aba: Dados Pessoais */}
             <TabsContent value="pessoais" className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="full_name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Nome completo</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Ex.: Maria Silva" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="social_name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Nome social</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Opcional" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="cpf"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>CPF</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="000.000.000-00"
-                          value={maskCPF(field.value)}
-                          onChange={(e) => field.onChange(e.target.value)}
-                          inputMode="numeric"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="rg"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>RG</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Opcional" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="gender"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Gênero</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+              <fieldset disabled={!canEditTab("pessoais")} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="full_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nome completo</FormLabel>
                         <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Selecione" />
-                          </SelectTrigger>
+                          <Input placeholder="Ex.: Maria Silva" {...field} />
                         </FormControl>
-                        <SelectContent>
-                          <SelectItem value="Masculino">Masculino</SelectItem>
-                          <SelectItem value="Feminino">Feminino</SelectItem>
-                          <SelectItem value="Outro">Outro</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="marital_status"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Estado civil</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="social_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nome social</FormLabel>
                         <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Selecione" />
-                          </SelectTrigger>
+                          <Input placeholder="Opcional" {...field} />
                         </FormControl>
-                        <SelectContent>
-                          <SelectItem value="Solteiro(a)">Solteiro(a)</SelectItem>
-                          <SelectItem value="Casado(a)">Casado(a)</SelectItem>
-                          <SelectItem value="Divorciado(a)">Divorciado(a)</SelectItem>
-                          <SelectItem value="Viúvo(a)">Viúvo(a)</SelectItem>
-                          <SelectItem value="União Estável">União Estável</SelectItem>
-                          <SelectItem value="Outro">Outro</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="ethnicity"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Etnia (IBGE)</FormLabel>
-                      <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="cpf"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>CPF</FormLabel>
                         <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Selecione" />
-                          </SelectTrigger>
+                          <Input
+                            placeholder="000.000.000-00"
+                            value={maskCPF(field.value)}
+                            onChange={(e) => field.onChange(e.target.value)}
+                            inputMode="numeric"
+                          />
                         </FormControl>
-                        <SelectContent>
-                          <SelectItem value="Branca">Branca</SelectItem>
-                          <SelectItem value="Preta">Preta</SelectItem>
-                          <SelectItem value="Parda">Parda</SelectItem>
-                          <SelectItem value="Amarela">Amarela</SelectItem>
-                          <SelectItem value="Indígena">Indígena</SelectItem>
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="birth_date"
-                  render={({ field }) => (
-                    <FormItem className="flex flex-col">
-                      <FormLabel>Data de nascimento</FormLabel>
-                      <Popover>
-                        <PopoverTrigger asChild>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="rg"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>RG</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Opcional" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="rg_state"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>UF emissora do RG</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
-                            <Button
-                              variant="outline"
-                              className={cn("pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
-                            >
-                              {field.value ? format(field.value, "dd/MM/yyyy") : <span>Selecionar data</span>}
-                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                            </Button>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione" />
+                            </SelectTrigger>
                           </FormControl>
-                        </PopoverTrigger>
-                        <PopoverContent className="w-auto p-0" align="start">
-                          <Calendar
-                            mode="single"
-                            selected={field.value}
-                            onSelect={field.onChange}
-                            initialFocus
-                            className={cn("p-3 pointer-events-auto")}
+                          <SelectContent>
+                            {BRAZILIAN_STATES.map((uf) => (
+                              <SelectItem key={uf} value={uf}>{uf}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="cns"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>CNS (Cartão SUS)</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="000 0000 0000 0000"
+                            value={maskCNS(field.value || "")}
+                            onChange={(e) => field.onChange(e.target.value)}
+                            inputMode="numeric"
                           />
-                        </PopoverContent>
-                      </Popover>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                <FormField
-                  control={form.control}
-                  name="profession"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Profissão</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Opcional" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                  <FormField
+                    control={form.control}
+                    name="gender"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Gênero</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="Masculino">Masculino</SelectItem>
+                            <SelectItem value="Feminino">Feminino</SelectItem>
+                            <SelectItem value="Outro">Outro</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
+                  <FormField
+                    control={form.control}
+                    name="marital_status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Estado civil</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="Solteiro(a)">Solteiro(a)</SelectItem>
+                            <SelectItem value="Casado(a)">Casado(a)</SelectItem>
+                            <SelectItem value="Divorciado(a)">Divorciado(a)</SelectItem>
+                            <SelectItem value="Viúvo(a)">Viúvo(a)</SelectItem>
+                            <SelectItem value="União Estável">União Estável</SelectItem>
+                            <SelectItem value="Outro">Outro</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="ethnicity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Etnia (IBGE)</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Selecione" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="Branca">Branca</SelectItem>
+                            <SelectItem value="Preta">Preta</SelectItem>
+                            <SelectItem value="Parda">Parda</SelectItem>
+                            <SelectItem value="Amarela">Amarela</SelectItem>
+                            <SelectItem value="Indígena">Indígena</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="birth_date"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Data de nascimento</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant="outline"
+                                className={cn("pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
+                              >
+                                {field.value ? format(field.value, "dd/MM/yyyy") : <span>Selecionar data</span>}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={field.value}
+                              onSelect={field.onChange}
+                              initialFocus
+                              className={cn("p-3 pointer-events-auto")}
+                            />
+                          </PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="profession"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Profissão</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Opcional" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="mother_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nome da mãe</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Opcional" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="father_name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nome do pai</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Opcional" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="tags"
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Etiquetas</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Ex.: vip, convênio" {...field} />
+                        </FormControl>
+                        <FormDescription>Separe por vírgula. Usadas nos filtros da listagem.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
                 <FormField
                   control={form.control}
-                  name="mother_name"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Nome da mãe</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Opcional" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="father_name"
+                  name="photo_url"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Nome do pai</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Opcional" {...field} />
-                      </FormControl>
+                      <FormLabel>Foto</FormLabel>
+                      <PatientPhotoField
+                        value={field.value}
+                        pending={pendingPhoto}
+                        name={form.watch("full_name")}
+                        disabled={!can(editAction, "patient", "photo_url")}
+                        onChange={setPendingPhoto}
+                        onRemove={() => {
+                          setPendingPhoto(null);
+                          field.onChange(null);
+                        }}
+                      />
                       <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
-              <FormDescription>Upload de foto será adicionado em breve (armazenamento no Supabase).</FormDescription>
+              </fieldset>
             </TabsContent>
 
             {/* Aba: Contato e Endereço */}
             <TabsContent value="contato" className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <FormField
-                  control={form.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>E-mail</FormLabel>
-                      <FormControl>
-                        <Input placeholder="email@exemplo.com" type="email" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="phone_primary"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Telefone principal (WhatsApp)</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="(11) 90000-0000"
-                          value={maskPhone(field.value)}
-                          onChange={(e) => field.onChange(e.target.value)}
-                          inputMode="numeric"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="phone_secondary"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Telefone secundário</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="(11) 0000-0000"
-                          value={maskPhone(field.value || "")}
-                          onChange={(e) => field.onChange(e.target.value)}
-                          inputMode="numeric"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+              <fieldset disabled={!canEditTab("contato")} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>E-mail</FormLabel>
+                        <FormControl>
+                          <Input placeholder="email@exemplo.com" type="email" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="phone_primary"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Telefone principal (WhatsApp)</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="(11) 90000-0000"
+                            value={maskPhone(field.value)}
+                            onChange={(e) => field.onChange(e.target.value)}
+                            inputMode="numeric"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="phone_secondary"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Telefone secundário</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="(11) 0000-0000"
+                            value={maskPhone(field.value || "")}
+                            onChange={(e) => field.onChange(e.target.value)}
+                            inputMode="numeric"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                <FormField
-                  control={form.control}
-                  name="address_zip_code"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>CEP</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="00000-000"
-                          value={maskCEP(field.value || "")}
-                          onChange={(e) => field.onChange(e.target.value)}
-                          onBlur={handleCepBlur}
-                          inputMode="numeric"
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <div />
+                  <FormField
+                    control={form.control}
+                    name="address_zip_code"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>CEP</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder="00000-000"
+                            value={maskCEP(field.value || "")}
+                            onChange={(e) => field.onChange(e.target.value)}
+                            onBlur={handleCepBlur}
+                            inputMode="numeric"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <div />
 
-                <FormField
-                  control={form.control}
-                  name="address_street"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Logradouro</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Rua, Avenida..." {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="address_number"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Número</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Número" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                  <FormField
+                    control={form.control}
+                    name="address_street"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Logradouro</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Rua, Avenida..." {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address_number"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Número</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Número" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                <FormField
-                  control={form.control}
-                  name="address_complement"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Complemento</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Apartamento, bloco, etc." {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-                <FormField
-                  control={form.control}
-                  name="address_district"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Bairro</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Bairro" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                  <FormField
+                    control={form.control}
+                    name="address_complement"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Complemento</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Apartamento, bloco, etc." {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address_district"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Bairro</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Bairro" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                <FormField
-                  control={form.control}
-                  name="address_city"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Cidade</FormLabel>
-                      <FormControl>
-                        <Input placeholder="Cidade" {...field} />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+                  <FormField
+                    control={form.control}
+                    name="address_city"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Cidade</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Cidade" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="address_state"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>UF</FormLabel>
+                        <FormControl>
+                          <Input placeholder="SP" maxLength={2} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                {isFetchingAddress && (
+                  <p className="text-sm text-muted-foreground">Buscando endereço pelo CEP...</p>
+                )}
+                {isPartialAddress && (
+                  <p className="text-sm text-muted-foreground">
+                    Serviço de CEP indisponível: cidade e UF preenchidas pela base offline. Confira logradouro e bairro.
+                  </p>
+                )}
+              </fieldset>
+            </TabsContent>
+
+            {/* Aba: Comunicação */}
+            <TabsContent value="comunicacao" className="space-y-6">
+              <fieldset disabled={!canEditTab("comunicacao")} className="space-y-6">
+                <div className="space-y-3">
+                  <div>
+                    <h2 className="text-sm font-medium">Canais permitidos</h2>
+                    <p className="text-sm text-muted-foreground">
+                      Usados para lembretes de consulta. Desmarque todos para o paciente não receber lembretes.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {COMMUNICATION_CHANNELS.map((channel) => (
+                      <FormField
+                        key={channel}
+                        control={form.control}
+                        name={`communication_preferences.${channel}`}
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                            <div className="space-y-0.5">
+                              <FormLabel>{COMMUNICATION_CHANNEL_LABELS[channel]}</FormLabel>
+                              <FormMessage />
+                            </div>
+                            <FormControl>
+                              <Switch checked={field.value} onCheckedChange={field.onChange} />
+                            </FormControl>
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="preferred_contact_start"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Contato a partir de</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormDescription>Os lembretes são enviados neste horário.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="preferred_contact_end"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Contato até</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {can("read", "patient", "behavior_score") && (
+                    <FormField
+                      control={form.control}
+                      name="behavior_score"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Score comportamental</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={0}
+                              max={100}
+                              placeholder="0 a 100"
+                              value={field.value ?? ""}
+                              onChange={(e) => field.onChange(e.target.value === "" ? null : e.target.valueAsNumber)}
+                            />
+                          </FormControl>
+                          <FormDescription>Avaliação interna da equipe; não é exibida ao paciente.</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   )}
-                />
+                </div>
+
                 <FormField
                   control={form.control}
-                  name="address_state"
+                  name="marketing_consent"
                   render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>UF</FormLabel>
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                      <div className="space-y-0.5">
+                        <FormLabel>Consentimento para comunicações de marketing (LGPD)</FormLabel>
+                        <FormDescription>
+                          {field.value && consentAt
+                            ? `Consentimento registrado em ${format(parseISO(consentAt), "dd/MM/yyyy 'às' HH:mm")}`
+                            : "Campanhas e novidades só são enviadas com o consentimento do paciente."}
+                        </FormDescription>
+                      </div>
                       <FormControl>
-                        <Input placeholder="SP" maxLength={2} {...field} />
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
                       </FormControl>
-                      <FormMessage />
                     </FormItem>
                   )}
                 />
-              </div>
-              {isFetchingAddress && (
-                <p className="text-sm text-muted-foreground">Buscando endereço pelo CEP...</p>
-              )}
+              </fieldset>
             </TabsContent>
 
             {/* Aba: Observações */}
-            <TabsContent value="observacoes" className="space-y-4">
-              <FormField
-                control={form.control}
-                name="observations"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Observações</FormLabel>
-                    <FormControl>
-                      <Textarea placeholder="Anotações gerais" rows={6} {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </TabsContent>
+            {canReadObservations && (
+              <TabsContent value="observacoes" className="space-y-4">
+                <fieldset disabled={!canEditTab("observacoes")} className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="observations"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Observações</FormLabel>
+                        <FormControl>
+                          <Textarea placeholder="Anotações gerais" rows={6} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </fieldset>
+              </TabsContent>
+            )}
+
+            {/* Aba: Anexos (somente edição) */}
+            {showDocuments && id && (
+              <TabsContent value="anexos" className="space-y-4">
+                <PatientDocuments patientId={id} />
+              </TabsContent>
+            )}
+
+            {/* Aba: Histórico (somente edição) */}
+            {showHistory && id && (
+              <TabsContent value="historico" className="space-y-4">
+                <PatientHistory patientId={id} onRestored={fillForm} />
+              </TabsContent>
+            )}
           </Tabs>
 
+          {!isEdit && (
+            <DuplicatePatientsAlert
+              matches={duplicates}
+              onOpen={(patientId) => navigate(`/patients/${patientId}/edit`)}
+              acknowledged={duplicatesAcknowledged}
+              onAcknowledgedChange={setDuplicatesAcknowledged}
+            />
+          )}
+
           <div className="flex items-center gap-2 justify-end">
             <Button type="button" variant="outline" onClick={() => navigate("/patients")}>Cancelar</Button>
-            <Button type="submit" disabled={!form.formState.isValid || form.formState.isSubmitting}>
+            <Button
+              type="submit"
+              disabled={!form.formState.isValid || form.formState.isSubmitting || (!isEdit && duplicatesPending)}
+            >
               {form.formState.isSubmitting ? "Salvando..." : "Salvar"}
             </Button>
           </div>
         </form>
       </Form>
+
+      {conflict && (
+        <PatientConflictDialog
+          open
+          original={conflict.original}
+          mine={conflict.mine}
+          theirs={conflict.theirs}
+          saving={isResolving}
+          onResolve={saveResolved}
+          onDiscardMine={discardMine}
+          onOpenChange={(open) => !open && setConflict(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,505 @@
+import { useMemo, useRef, useState, type DragEvent } from "react";
+import { Helmet } from "react-helmet-async";
+import { useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, Download, FileSpreadsheet, Upload } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { cn } from "@/lib/utils";
+import { decodeCsvBytes, parseCsv } from "@/lib/csv";
+import { readXlsx } from "@/lib/xlsx";
+import { parseFhirInput, validateFhirResources } from "@/lib/fhirPatient";
+import { downloadFile } from "@/lib/download";
+import { maskCPF, maskPhone } from "@/lib/brDocuments";
+import {
+  buildImportErrorReport,
+  commitImport,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  importIdentifiers,
+  markImportDuplicates,
+  MAX_IMPORT_ROWS,
+  missingRequiredFields,
+  REQUIRED_IMPORT_FIELDS,
+  validateImportRows,
+  type ImportColumnMapping,
+  type ImportCommitResult,
+  type ImportRow,
+  type ImportRowStatus,
+} from "@/lib/patientImport";
+import { PATIENT_FIELD_LABELS, type PatientField } from "@/types/patient";
+
+type Step = "upload" | "mapping" | "review" | "importing" | "done";
+
+const STEPS: { id: Step; label: string }[] = [
+  { id: "upload", label: "Arquivo" },
+  { id: "mapping", label: "Colunas" },
+  { id: "review", label: "Revisão" },
+  { id: "done", label: "Resultado" },
+];
+
+// Valor do Select para colunas ignoradas
+const IGNORE = "ignore";
+// Linhas exibidas na prévia
+const PREVIEW_LIMIT = 100;
+
+const STATUS_LABELS: Record<ImportRowStatus, string> = {
+  valid: "Válida",
+  invalid: "Inválida",
+  duplicate: "Duplicada",
+};
+
+const STATUS_CLASSES: Record<ImportRowStatus, string> = {
+  valid: "bg-emerald-100 text-emerald-900",
+  invalid: "bg-destructive text-destructive-foreground",
+  duplicate: "bg-amber-100 text-amber-900",
+};
+
+type PreviewFilter = "all" | "valid" | "problems";
+// Planilha (mapeamento de colunas) ou recursos FHIR Patient (mapeamento fixo)
+type ImportSource = "spreadsheet" | "fhir";
+
+const isFhirFile = (file: File) => /\.(json|ndjson)$/i.test(file.name);
+
+async function readSpreadsheet(file: File): Promise<string[][]> {
+  const data = await file.arrayBuffer();
+  if (/\.xlsx$/i.test(file.name)) return readXlsx(data);
+  if (/\.(csv|txt)$/i.test(file.name)) return parseCsv(decodeCsvBytes(data));
+  throw new Error("Formato não suportado. Envie um arquivo .csv ou .xlsx");
+}
+
+export default function PatientImportPage() {
+  const navigate = useNavigate();
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  const { createPatient, findPatientsByIdentifiers } = usePatientsService();
+
+  const [step, setStep] = useState<Step>("upload");
+  const [source, setSource] = useState<ImportSource>("spreadsheet");
+  const [fileName, setFileName] = useState("");
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping>([]);
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [previewFilter, setPreviewFilter] = useState<PreviewFilter>("all");
+  const [isReading, setReading] = useState(false);
+  const [isValidating, setValidating] = useState(false);
+  const [dragOver, setDragOver] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [result, setResult] = useState<ImportCommitResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      if (isFhirFile(file)) {
+        const resources = parseFhirInput(await file.text());
+        if (resources.length === 0) throw new Error("O arquivo não contém recursos");
+        if (resources.length > MAX_IMPORT_ROWS) {
+          throw new Error(`O arquivo tem ${resources.length} recursos; o limite por importação é ${MAX_IMPORT_ROWS}`);
+        }
+        setFileName(file.name);
+        setSource("fhir");
+        // Cada recurso é identificado no relatório de erros pela coluna "Recurso"
+        setHeaders(["Recurso"]);
+        setDataRows([]);
+        setMapping([]);
+        await review(validateFhirResources(resources));
+        return;
+      }
+      const all = await readSpreadsheet(file);
+      const [header = [], ...body] = all;
+      const filled = body.filter((r) => r.some((v) => v.trim() !== ""));
+      if (header.every((h) => !h.trim()) || filled.length === 0) {
+        throw new Error("A planilha precisa de uma linha de cabeçalho e ao menos um paciente");
+      }
+      if (filled.length > MAX_IMPORT_ROWS) {
+        throw new Error(`A planilha tem ${filled.length} linhas; o limite por importação é ${MAX_IMPORT_ROWS}`);
+      }
+      const columns = header.map((h, i) => h.trim() || `Coluna ${i + 1}`);
+      setFileName(file.name);
+      setSource("spreadsheet");
+      setHeaders(columns);
+      setDataRows(body);
+      setMapping(guessColumnMapping(columns));
+      setStep("mapping");
+    } catch (e) {
+      toast({ title: "Não foi possível ler o arquivo", description: (e as Error)?.message ?? "" });
+    } finally {
+      setReading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    handleFile(e.dataTransfer.files?.[0]);
+  };
+
+  // Cada campo só pode ser mapeado a uma coluna: escolher de novo libera a coluna anterior
+  const setColumnField = (column: number, value: string) => {
+    const field = value === IGNORE ? null : (value as PatientField);
+    setMapping((current) => current.map((f, i) => (i === column ? field : f === field ? null : f)));
+  };
+
+  const missing = missingRequiredFields(mapping);
+
+  // Marca duplicados (CPF ou código legado já cadastrado ou repetido no arquivo) e abre a revisão
+  const review = async (validated: ImportRow[]) => {
+    const existing = await findPatientsByIdentifiers(importIdentifiers(validated));
+    setRows(markImportDuplicates(validated, existing));
+    setPreviewFilter("all");
+    setStep("review");
+  };
+
+  const validate = async () => {
+    setValidating(true);
+    try {
+      await review(validateImportRows(dataRows, mapping));
+    } catch (e) {
+      toast({ title: "Erro ao validar a planilha", description: (e as Error)?.message ?? "" });
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  const counts = useMemo(
+    () => ({
+      valid: rows.filter((r) => r.status === "valid").length,
+      invalid: rows.filter((r) => r.status === "invalid").length,
+      duplicate: rows.filter((r) => r.status === "duplicate").length,
+    }),
+    [rows]
+  );
+
+  const preview = rows
+    .filter((r) => previewFilter === "all" || (previewFilter === "valid" ? r.status === "valid" : r.status !== "valid"))
+    .slice(0, PREVIEW_LIMIT);
+
+  const cellOf = (row: ImportRow, field: PatientField) => {
+    const column = mapping.indexOf(field);
+    return column >= 0 ? (row.cells[column] ?? "").trim() : "";
+  };
+
+  // Linhas não importadas: inválidas, duplicadas e as que falharam ao gravar
+  const reportRows = useMemo(() => {
+    const failed = new Map((result?.failed ?? []).map((r) => [r.line, r]));
+    return rows.map((r) => failed.get(r.line) ?? r).filter((r) => r.status !== "valid");
+  }, [rows, result]);
+
+  const downloadReport = () => {
+    const name = fileName.replace(/\.[^.]+$/, "");
+    downloadFile(buildImportErrorReport(headers, reportRows), `${name}-erros.csv`, "text/csv;charset=utf-8");
+  };
+
+  const runImport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: counts.valid });
+    setStep("importing");
+    try {
+      const outcome = await commitImport(rows, createPatient, {
+        onProgress: (done, total) => setProgress({ done, total }),
+        signal: controller.signal,
+      });
+      setResult(outcome);
+      setStep("done");
+    } catch (e) {
+      toast({ title: "Erro na importação", description: (e as Error)?.message ?? "" });
+      setStep("review");
+    } finally {
+      abortRef.current = null;
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+    }
+  };
+
+  const restart = () => {
+    setStep("upload");
+    setSource("spreadsheet");
+    setFileName("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping([]);
+    setRows([]);
+    setResult(null);
+  };
+
+  const currentStepIndex = STEPS.findIndex((s) => s.id === (step === "importing" ? "review" : step));
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Helmet>
+        <title>Importar pacientes | MediConnect</title>
+        <meta name="description" content="Importação de pacientes a partir de planilhas CSV, XLSX ou recursos FHIR - MediConnect" />
+      </Helmet>
+
+      <header className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight">Importar pacientes</h1>
+          <p className="text-sm text-muted-foreground">
+            Traga os cadastros de outro sistema a partir de uma planilha CSV ou XLSX, ou de recursos FHIR R4 Patient
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate("/patients")}>Voltar</Button>
+      </header>
+
+      <ol className="flex items-center gap-2 text-sm" aria-label="Etapas da importação">
+        {STEPS.map((s, i) => (
+          <li key={s.id} className="flex items-center gap-2">
+            <span
+              className={cn(
+                "flex h-6 w-6 items-center justify-center rounded-full border text-xs",
+                i <= currentStepIndex ? "border-primary bg-primary text-primary-foreground" : "text-muted-foreground"
+              )}
+            >
+              {i + 1}
+            </span>
+            <span className={cn(i === currentStepIndex ? "font-medium" : "text-muted-foreground")}>{s.label}</span>
+            {i < STEPS.length - 1 && <span className="mx-1 h-px w-8 bg-border" />}
+          </li>
+        ))}
+      </ol>
+
+      {step === "upload" && (
+        <section className="space-y-4">
+          <div
+            className={cn(
+              "flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-10 text-center",
+              dragOver && "border-primary bg-muted/50"
+            )}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={handleDrop}
+          >
+            <FileSpreadsheet className="h-10 w-10 text-muted-foreground" />
+            <div>
+              <p className="font-medium">Arraste o arquivo para cá</p>
+              <p className="text-sm text-muted-foreground">
+                CSV (separado por ponto e vírgula ou vírgula) ou XLSX; a primeira linha deve ter os nomes das colunas.
+                Também aceita Bundle FHIR R4 (.json) ou NDJSON com recursos Patient. Até {MAX_IMPORT_ROWS} pacientes
+                por arquivo.
+              </p>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,.xlsx,.json,.ndjson,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/fhir+json"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={isReading}>
+              <Upload className="mr-2 h-4 w-4" />
+              {isReading ? "Lendo arquivo..." : "Selecionar arquivo"}
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Colunas obrigatórias: {REQUIRED_IMPORT_FIELDS.map((f) => PATIENT_FIELD_LABELS[f]).join(", ")}. Datas no
+            formato dd/MM/aaaa.
+          </p>
+        </section>
+      )}
+
+      {step === "mapping" && (
+        <section className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            <span className="font-medium text-foreground">{fileName}</span> —{" "}
+            {dataRows.filter((r) => r.some((v) => v.trim() !== "")).length} linha(s). Indique o campo do cadastro
+            correspondente a cada coluna.
+          </p>
+          {missing.length > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Colunas obrigatórias sem correspondência</AlertTitle>
+              <AlertDescription>{missing.map((f) => PATIENT_FIELD_LABELS[f]).join(", ")}</AlertDescription>
+            </Alert>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Coluna da planilha</TableHead>
+                <TableHead>Exemplos</TableHead>
+                <TableHead className="w-[260px]">Campo do cadastro</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {headers.map((header, column) => (
+                <TableRow key={`${header}-${column}`}>
+                  <TableCell className="font-medium">{header}</TableCell>
+                  <TableCell className="max-w-[320px] truncate text-sm text-muted-foreground">
+                    {dataRows
+                      .map((r) => (r[column] ?? "").trim())
+                      .filter(Boolean)
+                      .slice(0, 3)
+                      .join(" · ") || "-"}
+                  </TableCell>
+                  <TableCell>
+                    <Select value={mapping[column] ?? IGNORE} onValueChange={(v) => setColumnField(column, v)}>
+                      <SelectTrigger aria-label={`Campo da coluna ${header}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Ignorar coluna</SelectItem>
+                        {IMPORT_FIELDS.map((field) => (
+                          <SelectItem key={field} value={field}>
+                            {PATIENT_FIELD_LABELS[field]}
+                            {REQUIRED_IMPORT_FIELDS.includes(field) && " *"}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={restart}>Trocar arquivo</Button>
+            <Button onClick={validate} disabled={missing.length > 0 || isValidating}>
+              {isValidating ? "Validando..." : "Validar linhas"}
+            </Button>
+          </div>
+        </section>
+      )}
+
+      {(step === "review" || step === "importing") && (
+        <section className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge className={cn("border-transparent", STATUS_CLASSES.valid)}>{counts.valid} válida(s)</Badge>
+            <Badge className={cn("border-transparent", STATUS_CLASSES.invalid)}>{counts.invalid} inválida(s)</Badge>
+            <Badge className={cn("border-transparent", STATUS_CLASSES.duplicate)}>{counts.duplicate} duplicada(s)</Badge>
+            <span className="text-muted-foreground">
+              Apenas as linhas válidas serão importadas; duplicadas (mesmo CPF ou código legado) são ignoradas.
+            </span>
+          </div>
+
+          {step === "importing" ? (
+            <div className="space-y-2 rounded-lg border p-4">
+              <p className="text-sm font-medium">
+                Importando {progress.done} de {progress.total}...
+              </p>
+              <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} />
+              <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+                Interromper após o lote atual
+              </Button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Tabs value={previewFilter} onValueChange={(v) => setPreviewFilter(v as PreviewFilter)}>
+                <TabsList>
+                  <TabsTrigger value="all">Todas ({rows.length})</TabsTrigger>
+                  <TabsTrigger value="valid">Válidas ({counts.valid})</TabsTrigger>
+                  <TabsTrigger value="problems">Com problemas ({counts.invalid + counts.duplicate})</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <div className="flex items-center gap-2">
+                {source === "spreadsheet" && (
+                  <Button variant="outline" onClick={() => setStep("mapping")}>Ajustar colunas</Button>
+                )}
+                {reportRows.length > 0 && (
+                  <Button variant="outline" onClick={downloadReport}>
+                    <Download className="mr-2 h-4 w-4" />
+                    Relatório de erros
+                  </Button>
+                )}
+                <Button onClick={runImport} disabled={counts.valid === 0}>
+                  Importar {counts.valid} paciente(s)
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">{source === "fhir" ? "Recurso" : "Linha"}</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead>Nome</TableHead>
+                <TableHead>CPF</TableHead>
+                <TableHead>Nascimento</TableHead>
+                <TableHead>Telefone</TableHead>
+                <TableHead>Problemas</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-sm text-muted-foreground">Nenhuma linha neste filtro</TableCell>
+                </TableRow>
+              ) : (
+                preview.map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell className="whitespace-nowrap">{source === "fhir" ? row.cells[0] : row.line}</TableCell>
+                    <TableCell>
+                      <Badge className={cn("border-transparent", STATUS_CLASSES[row.status])}>{STATUS_LABELS[row.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="font-medium">{row.payload?.full_name ?? cellOf(row, "full_name")}</TableCell>
+                    <TableCell>{row.payload ? maskCPF(row.payload.cpf) : cellOf(row, "cpf")}</TableCell>
+                    <TableCell>
+                      {row.payload ? format(parseISO(row.payload.birth_date), "dd/MM/yyyy") : cellOf(row, "birth_date")}
+                    </TableCell>
+                    <TableCell>{row.payload ? maskPhone(row.payload.phone_primary) : cellOf(row, "phone_primary")}</TableCell>
+                    <TableCell className="text-sm text-destructive">{row.errors.join("; ")}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+          {rows.length > PREVIEW_LIMIT && (
+            <p className="text-sm text-muted-foreground">
+              Prévia limitada às primeiras {PREVIEW_LIMIT} linhas do filtro; o relatório de erros inclui todas.
+            </p>
+          )}
+        </section>
+      )}
+
+      {step === "done" && result && (
+        <section className="space-y-4">
+          <Alert variant={result.failed.length > 0 || result.aborted ? "destructive" : "default"}>
+            <FileSpreadsheet className="h-4 w-4" />
+            <AlertTitle>
+              {result.aborted ? "Importação interrompida" : "Importação concluída"}: {result.created.length} paciente(s)
+              cadastrado(s)
+            </AlertTitle>
+            <AlertDescription>
+              {reportRows.length > 0
+                ? `${reportRows.length} linha(s) não foram importadas. Baixe o relatório, corrija o arquivo e importe somente essas linhas.`
+                : "Todas as linhas do arquivo foram importadas."}
+              {result.aborted && " As linhas restantes não foram gravadas."}
+            </AlertDescription>
+          </Alert>
+          <div className="flex items-center gap-2">
+            {reportRows.length > 0 && (
+              <Button variant="outline" onClick={downloadReport}>
+                <Download className="mr-2 h-4 w-4" />
+                Relatório de erros
+              </Button>
+            )}
+            <Button variant="outline" onClick={restart}>Nova importação</Button>
+            <Button onClick={() => navigate("/patients")}>Ver pacientes</Button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Helmet } from "react-helmet-async";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -38,43 +39,177 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
-import { ListPatientsResult, deletePatient, listPatients } from "@/services/patientsService";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import {
+  PATIENT_TRASH_RETENTION_DAYS,
+  type ListPatientsResult,
+  type PatientSortField,
+  type SortDirection,
+} from "@/services/patientsService";
+import { getPatientAppointmentSummaries } from "@/services/appointmentsService";
+import {
+  applyFiltersToSearchParams,
+  filtersFromSearchParams,
+  type PatientListFilters,
+} from "@/lib/patientFilters";
 import type { Patient } from "@/types/patient";
-import { Search, MoreVertical, Plus } from "lucide-react";
+import { maskCPF, maskPhone } from "@/lib/brDocuments";
+import { RiskBadge } from "@/components/patients/RiskBadge";
+import { PatientRiskDetails } from "@/components/patients/PatientRiskDetails";
+import { PatientFilterChips, PatientFilterSheet } from "@/components/patients/PatientFilters";
+import { PatientSearchHint, SearchHighlight } from "@/components/patients/SearchHighlight";
+import { PatientExportDialog } from "@/components/patients/PatientExportDialog";
+import { PatientAvatar } from "@/components/patients/PatientAvatar";
+import { Search, MoreVertical, Plus, ArrowDown, ArrowUp, ArrowUpDown, Trash2, Upload, Download } from "lucide-react";
 
-// Hook simples para debouce
-function useDebouncedValue<T>(value: T, delay = 400) {
-  const [debounced, setDebounced] = useState(value);
-  useEffect(() => {
-    const id = setTimeout(() => setDebounced(value), delay);
-    return () => clearTimeout(id);
-  }, [value, delay]);
-  return debounced;
+const PAGE_SIZE = 10;
+// Espera após a última tecla antes de levar a busca para a URL (e consultar)
+const SEARCH_DEBOUNCE_MS = 500;
+
+type ListSort = { sortBy: PatientSortField; sortDirection: SortDirection };
+
+const DEFAULT_SORT: ListSort = {
+  sortBy: "created_at",
+  sortDirection: "desc",
+};
+// Ordenações aceitas na URL (?ordem=full_name&direcao=asc)
+const LIST_SORT_FIELDS: PatientSortField[] = ["created_at", "full_name", "birth_date", "absenteeism_risk_score"];
+
+// Com busca e sem ordenação escolhida, os mais relevantes vêm primeiro
+const SEARCH_SORT: ListSort = { sortBy: "relevance", sortDirection: "desc" };
+
+// Ordenação da URL, ou a padrão quando ausente ou inválida
+function sortFromSearchParams(params: URLSearchParams): ListSort {
+  const sortBy = params.get("ordem") as PatientSortField;
+  const sortDirection: SortDirection = params.get("direcao") === "asc" ? "asc" : "desc";
+  if (LIST_SORT_FIELDS.includes(sortBy)) return { sortBy, sortDirection };
+  return params.get("busca")?.trim() ? SEARCH_SORT : DEFAULT_SORT;
 }
 
-const PAGE_SIZE = 10;
+const formatAppointmentDate = (iso?: string) => (iso ? format(parseISO(iso), "dd/MM/yyyy HH:mm") : "-");
 
 export default function PatientListPage() {
   const navigate = useNavigate();
   const qc = useQueryClient();
   const { toast } = useToast();
+  const { listPatients, getPatientById, deletePatient, restorePatient } = usePatientsService();
+  const { can } = usePermissions();
+
+  // Busca, ordenação, filtros e página ficam na URL: a visão filtrada pode ser favoritada e compartilhada
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlSearch = searchParams.get("busca") ?? "";
+  const page = Math.max(1, Number(searchParams.get("pagina")) || 1);
+  const sort = useMemo(() => sortFromSearchParams(searchParams), [searchParams]);
+  const filters = useMemo(() => filtersFromSearchParams(searchParams), [searchParams]);
+
+  const [search, setSearch] = useState(urlSearch);
+  const searchTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Altera parâmetros da URL; mudanças de busca, ordenação ou filtros voltam para a página 1
+  const updateParams = (change: (params: URLSearchParams) => URLSearchParams, resetPage = true) => {
+    setSearchParams(
+      (prev) => {
+        const next = change(new URLSearchParams(prev));
+        if (resetPage) next.delete("pagina");
+        return next;
+      },
+      { replace: true }
+    );
+  };
 
-  const [search, setSearch] = useState("");
-  const debouncedSearch = useDebouncedValue(search, 500);
-  const [page, setPage] = useState(1);
+  const setPage = (next: number) =>
+    updateParams((params) => {
+      if (next > 1) params.set("pagina", String(next));
+      else params.delete("pagina");
+      return params;
+    }, false);
 
+  const setFilters = (next: PatientListFilters) => updateParams((params) => applyFiltersToSearchParams(params, next));
+
+  // Alterna a ordenação da coluna: desc -> asc -> padrão (created_at desc, ou relevância durante a busca)
+  const toggleSort = (field: PatientSortField) => {
+    let next: ListSort = DEFAULT_SORT;
+    if (sort.sortBy !== field) next = { sortBy: field, sortDirection: "desc" };
+    else if (sort.sortDirection === "desc") next = { sortBy: field, sortDirection: "asc" };
+    updateParams((params) => {
+      if (next === DEFAULT_SORT) {
+        params.delete("ordem");
+        params.delete("direcao");
+      } else {
+        params.set("ordem", next.sortBy);
+        params.set("direcao", next.sortDirection);
+      }
+      return params;
+    });
+  };
+
+  // Busca digitada vai para a URL 500 ms após a última tecla; navegação (voltar/avançar) atualiza o campo
+  const changeSearch = (value: string) => {
+    setSearch(value);
+    clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => {
+      const term = value.trim();
+      setSearchParams(
+        (prev) => {
+          if ((prev.get("busca") ?? "") === term) return prev;
+          const next = new URLSearchParams(prev);
+          if (term) next.set("busca", term);
+          else next.delete("busca");
+          next.delete("pagina");
+          return next;
+        },
+        { replace: true }
+      );
+    }, SEARCH_DEBOUNCE_MS);
+  };
+  useEffect(() => () => clearTimeout(searchTimer.current), []);
+  useEffect(() => {
+    setSearch((current) => (current.trim() === urlSearch ? current : urlSearch));
+  }, [urlSearch]);
+
+  const clinicKey = useClinicQueryKey();
   const { data, isLoading, isError, error, isFetching } = useQuery<ListPatientsResult>({
-    queryKey: ["patients", { page, search: debouncedSearch }],
-    queryFn: () => listPatients({ page, pageSize: PAGE_SIZE, search: debouncedSearch }),
+    queryKey: clinicKey("patients", { page, search: urlSearch, ...sort, filters }),
+    queryFn: () => listPatients({ page, pageSize: PAGE_SIZE, search: urlSearch, ...sort, filters }),
     staleTime: 10_000,
     placeholderData: (prev) => prev,
   });
 
+  // Último/próximo atendimento dos pacientes da página atual
+  const pageIds = (data?.data ?? []).map((p) => p.id!).filter(Boolean);
+  const { data: summaries } = useQuery({
+    queryKey: clinicKey("appointments", "summaries", pageIds),
+    queryFn: () => getPatientAppointmentSummaries(pageIds),
+    enabled: pageIds.length > 0,
+    staleTime: 10_000,
+  });
+
+  const restoreMut = useMutation({
+    mutationFn: async (id: string) => restorePatient(id),
+    onSuccess: async () => {
+      toast({ title: "Paciente restaurado" });
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+    },
+    onError: (err: Error) => {
+      toast({ title: "Erro ao restaurar paciente", description: err?.message ?? "" });
+    },
+  });
+
   const deleteMut = useMutation({
     mutationFn: async (id: string) => deletePatient(id),
-    onSuccess: async () => {
-      toast({ title: "Paciente excluído com sucesso" });
+    onSuccess: async (_, id) => {
+      toast({
+        title: "Paciente movido para a lixeira",
+        action: (
+          <ToastAction altText="Desfazer exclusão" onClick={() => restoreMut.mutate(id)}>
+            Desfazer
+          </ToastAction>
+        ),
+      });
       await qc.invalidateQueries({ queryKey: ["patients"] });
     },
     onError: (err: any) => {
@@ -83,7 +218,25 @@ export default function PatientListPage() {
   });
 
   const [viewPatient, setViewPatient] = useState<Patient | null>(null);
+  // Detalhes abertos por link (?paciente=<id>, usado pela paleta de comandos)
+  const linkedPatientId = searchParams.get("paciente");
+  const { data: linkedPatient } = useQuery({
+    queryKey: clinicKey("patients", "by-id", linkedPatientId),
+    queryFn: () => getPatientById(linkedPatientId!),
+    enabled: !!linkedPatientId,
+  });
+  const shownPatient = viewPatient ?? (linkedPatientId ? linkedPatient : null) ?? null;
+  const closeDetails = () => {
+    setViewPatient(null);
+    if (linkedPatientId) {
+      updateParams((params) => {
+        params.delete("paciente");
+        return params;
+      }, false);
+    }
+  };
   const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
 
   const total = data?.count ?? 0;
   const totalPages = useMemo(
@@ -91,11 +244,6 @@ export default function PatientListPage() {
     [total]
   );
 
-  useEffect(() => {
-    // Reset para página 1 quando muda a busca
-    setPage(1);
-  }, [debouncedSearch]);
-
   return (
     <div className="container mx-auto py-8 space-y-6">
       <Helmet>
@@ -109,41 +257,71 @@ export default function PatientListPage() {
           <h1 className="text-3xl font-semibold tracking-tight">Pacientes</h1>
           <p className="text-sm text-muted-foreground">Gerencie seus pacientes e reduza o absenteísmo</p>
         </div>
-        <Button onClick={() => navigate("/patients/new")}>
-          <Plus className="mr-2 h-4 w-4" />
-          Adicionar Paciente
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => navigate("/appointments")}>Agendamentos</Button>
+          {can("restore", "patient") && (
+            <Button variant="outline" onClick={() => navigate("/patients/trash")}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Lixeira
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setExportOpen(true)}>
+            <Download className="mr-2 h-4 w-4" />
+            Exportar
+          </Button>
+          {can("create", "patient") && (
+            <Button variant="outline" onClick={() => navigate("/patients/import")}>
+              <Upload className="mr-2 h-4 w-4" />
+              Importar
+            </Button>
+          )}
+          {can("create", "patient") && (
+            <Button onClick={() => navigate("/patients/new")}>
+              <Plus className="mr-2 h-4 w-4" />
+              Adicionar Paciente
+            </Button>
+          )}
+        </div>
       </header>
 
       <section aria-label="Controles de listagem" className="flex flex-col md:flex-row gap-3 md:items-center md:justify-between">
         <div className="relative w-full md:max-w-md">
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
           <Input
-            placeholder="Buscar por nome ou CPF"
+            placeholder="Buscar por nome, CPF, telefone, RG, código, mãe ou e-mail"
             className="pl-9"
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            onChange={(e) => changeSearch(e.target.value)}
           />
         </div>
 
         <div className="flex items-center gap-2">
-          {/* Filtros futuros (Convênio, VIP) */}
-          {/* Placeholder para manter layout coerente */}
-          <Button variant="outline" disabled>
-            Filtros (em breve)
-          </Button>
+          <PatientFilterSheet filters={filters} onApply={setFilters} />
         </div>
       </section>
 
+      <PatientFilterChips filters={filters} onChange={setFilters} />
+
       <main>
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Nome</TableHead>
+              <TableHead>
+                <Button variant="ghost" size="sm" className="-ml-3" onClick={() => toggleSort("full_name")}>
+                  Nome
+                  <SortIcon active={sort.sortBy === "full_name"} direction={sort.sortDirection} />
+                </Button>
+              </TableHead>
               <TableHead>Telefone</TableHead>
               <TableHead>Cidade/UF</TableHead>
               <TableHead>Último Atendimento</TableHead>
               <TableHead>Próximo Atendimento</TableHead>
+              <TableHead>
+                <Button variant="ghost" size="sm" className="-ml-3" onClick={() => toggleSort("absenteeism_risk_score")}>
+                  Risco
+                  <SortIcon active={sort.sortBy === "absenteeism_risk_score"} direction={sort.sortDirection} />
+                </Button>
+              </TableHead>
               <TableHead className="w-14 text-right">Ações</TableHead>
             </TableRow>
           </TableHeader>
@@ -156,37 +334,55 @@ export default function PatientListPage() {
                   <TableCell><Skeleton className="h-4 w-[120px]" /></TableCell>
                   <TableCell><Skeleton className="h-4 w-[80px]" /></TableCell>
                   <TableCell><Skeleton className="h-4 w-[80px]" /></TableCell>
+                  <TableCell><Skeleton className="h-4 w-[60px]" /></TableCell>
                   <TableCell className="text-right"><Skeleton className="ml-auto h-6 w-6" /></TableCell>
                 </TableRow>
               ))
             ) : isError ? (
               <TableRow>
-                <TableCell colSpan={6}>
+                <TableCell colSpan={7}>
                   <div className="text-sm text-destructive">Erro ao carregar: {(error as any)?.message ?? "Tente novamente"}</div>
                 </TableCell>
               </TableRow>
             ) : (data?.data ?? []).length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6}>
+                <TableCell colSpan={7}>
                   <div className="text-sm text-muted-foreground">Nenhum paciente encontrado</div>
                 </TableCell>
               </TableRow>
             ) : (
               (data?.data ?? []).map((p) => (
                 <TableRow key={p.id}>
-                  <TableCell className="font-medium">{p.full_name}</TableCell>
-                  <TableCell>{p.phone_primary || "-"}</TableCell>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-3">
+                      <PatientAvatar patient={p} className="h-8 w-8 text-xs" />
+                      <div>
+                        <SearchHighlight text={p.full_name} search={urlSearch} />
+                        {p.social_name && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            Nome social: <SearchHighlight text={p.social_name} search={urlSearch} />
+                          </div>
+                        )}
+                        <PatientSearchHint patient={p} search={urlSearch} />
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {p.phone_primary ? <SearchHighlight text={maskPhone(p.phone_primary)} search={urlSearch} mode="digits" /> : "-"}
+                  </TableCell>
                   <TableCell>
                     {p.address_city ? `${p.address_city}${p.address_state ? `/${p.address_state}` : ""}` : "-"}
                   </TableCell>
-                  <TableCell>N/A</TableCell>
-                  <TableCell>N/A</TableCell>
+                  <TableCell>{formatAppointmentDate(summaries?.[p.id!]?.last?.start_at)}</TableCell>
+                  <TableCell>{formatAppointmentDate(summaries?.[p.id!]?.next?.start_at)}</TableCell>
+                  <TableCell><RiskBadge score={p.absenteeism_risk_score} /></TableCell>
                   <TableCell className="text-right">
                     <RowActions
                       patient={p}
                       onView={() => setViewPatient(p)}
-                      onEdit={() => navigate(`/patients/${p.id}/edit`)}
-                      onDelete={() => setConfirmDeleteId(p.id!)}
+                      onEdit={can("update", "patient") ? () => navigate(`/patients/${p.id}/edit`) : undefined}
+                      onMerge={can("merge", "patient") ? () => navigate(`/patients/merge?survivor=${p.id}`) : undefined}
+                      onDelete={can("delete", "patient") ? () => setConfirmDeleteId(p.id!) : undefined}
                     />
                   </TableCell>
                 </TableRow>
@@ -201,10 +397,10 @@ export default function PatientListPage() {
             Página {page} de {totalPages} — {total} registro(s)
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="outline" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
+            <Button variant="outline" disabled={page <= 1} onClick={() => setPage(Math.max(1, page - 1))}>
               Anterior
             </Button>
-            <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage((p) => Math.min(totalPages, p + 1))}>
+            <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage(Math.min(totalPages, page + 1))}>
               Próxima
             </Button>
           </div>
@@ -212,50 +408,69 @@ export default function PatientListPage() {
       </main>
 
       {/* Dialog de detalhes (leitura) */}
-      <Dialog open={!!viewPatient} onOpenChange={(open) => !open && setViewPatient(null)}>
+      <Dialog open={!!shownPatient} onOpenChange={(open) => !open && closeDetails()}>
         <DialogContent>
           <DialogHeader>
             <DialogTitle>Detalhes do Paciente</DialogTitle>
             <DialogDescription>Visualização rápida das informações</DialogDescription>
           </DialogHeader>
-          {viewPatient && (
+          {shownPatient && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-              <div>
-                <p className="text-muted-foreground">Nome completo</p>
-                <p className="font-medium">{viewPatient.full_name}</p>
+              <div className="flex items-center gap-3 md:col-span-2">
+                <PatientAvatar patient={shownPatient} className="h-16 w-16 text-base" />
+                <div>
+                  <p className="text-muted-foreground">Nome completo</p>
+                  <p className="font-medium">{shownPatient.full_name}</p>
+                </div>
               </div>
               <div>
                 <p className="text-muted-foreground">CPF</p>
-                <p className="font-medium">{viewPatient.cpf}</p>
+                <p className="font-medium">{maskCPF(shownPatient.cpf)}</p>
               </div>
               <div>
                 <p className="text-muted-foreground">Telefone</p>
-                <p className="font-medium">{viewPatient.phone_primary}</p>
+                <p className="font-medium">{maskPhone(shownPatient.phone_primary)}</p>
               </div>
               <div>
                 <p className="text-muted-foreground">Nascimento</p>
-                <p className="font-medium">{viewPatient.birth_date}</p>
+                <p className="font-medium">{shownPatient.birth_date}</p>
               </div>
               <div className="md:col-span-2">
                 <p className="text-muted-foreground">Cidade/UF</p>
-                <p className="font-medium">{viewPatient.address_city ?? "-"}{viewPatient.address_state ? `/${viewPatient.address_state}` : ""}</p>
+                <p className="font-medium">{shownPatient.address_city ?? "-"}{shownPatient.address_state ? `/${shownPatient.address_state}` : ""}</p>
               </div>
+              {can("read", "patient", "observations") && (
+                <div className="md:col-span-2">
+                  <p className="text-muted-foreground">Observações</p>
+                  <p className="font-medium whitespace-pre-wrap">{shownPatient.observations ?? "-"}</p>
+                </div>
+              )}
               <div className="md:col-span-2">
-                <p className="text-muted-foreground">Observações</p>
-                <p className="font-medium whitespace-pre-wrap">{viewPatient.observations ?? "-"}</p>
+                <PatientRiskDetails patient={shownPatient} />
               </div>
             </div>
           )}
         </DialogContent>
       </Dialog>
 
+      <PatientExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        search={urlSearch}
+        sortBy={sort.sortBy}
+        sortDirection={sort.sortDirection}
+        filters={filters}
+        total={total}
+      />
+
       {/* Confirmação de exclusão */}
       <AlertDialog open={!!confirmDeleteId} onOpenChange={(open) => !open && setConfirmDeleteId(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Excluir paciente?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta ação não pode ser desfeita. O paciente será removido permanentemente.
+              O paciente será movido para a lixeira e poderá ser restaurado por {PATIENT_TRASH_RETENTION_DAYS} dias.
+              Depois desse prazo, será removido permanentemente.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -276,16 +491,24 @@ export default function PatientListPage() {
   );
 }
 
+function SortIcon({ active, direction }: { active: boolean; direction: SortDirection }) {
+  if (!active) return <ArrowUpDown className="ml-1 h-3 w-3 opacity-50" />;
+  return direction === "asc" ? <ArrowUp className="ml-1 h-3 w-3" /> : <ArrowDown className="ml-1 h-3 w-3" />;
+}
+
 function RowActions({
   patient,
   onView,
   onEdit,
+  onMerge,
   onDelete,
 }: {
   patient: Patient;
   onView: () => void;
-  onEdit: () => void;
-  onDelete: () => void;
+  // Ações sem handler não são permitidas ao perfil do usuário e ficam ocultas
+  onEdit?: () => void;
+  onMerge?: () => void;
+  onDelete?: () => void;
 }) {
   return (
     <DropdownMenu>
@@ -297,11 +520,14 @@ function RowActions({
       <DropdownMenuContent align="end">
         <DropdownMenuLabel>Ações</DropdownMenuLabel>
         <DropdownMenuItem onClick={onView}>Ver detalhes</DropdownMenuItem>
-        <DropdownMenuSeparator />
-        <DropdownMenuItem onClick={onEdit}>Editar</DropdownMenuItem>
-        <DropdownMenuItem className="text-destructive" onClick={onDelete}>
-          Excluir
-        </DropdownMenuItem>
+        {(onEdit || onMerge || onDelete) && <DropdownMenuSeparator />}
+        {onEdit && <DropdownMenuItem onClick={onEdit}>Editar</DropdownMenuItem>}
+        {onMerge && <DropdownMenuItem onClick={onMerge}>Mesclar com outro cadastro</DropdownMenuItem>}
+        {onDelete && (
+          <DropdownMenuItem className="text-destructive" onClick={onDelete}>
+            Excluir
+          </DropdownMenuItem>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
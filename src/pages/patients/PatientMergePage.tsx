@@ -0,0 +1,314 @@
+import { useEffect, useMemo, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ToastAction } from "@/components/ui/toast";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { PatientPicker } from "@/components/patients/PatientPicker";
+import { formatPatientFieldValue, isSamePatientFieldValue } from "@/lib/patientFieldFormat";
+import {
+  MERGE_RELATIONS,
+  MERGE_UNDO_WINDOW_DAYS,
+  canUndoPatientMerge,
+  getDefaultMergeChoices,
+  listPatientMerges,
+  mergePatients,
+  undoPatientMerge,
+} from "@/services/patientMergeService";
+import { PATIENT_FIELDS, PATIENT_FIELD_LABELS, type Patient } from "@/types/patient";
+import type { MergeFieldChoices, MergeFieldSource } from "@/types/patientMerge";
+import { ArrowLeftRight } from "lucide-react";
+
+export default function PatientMergePage() {
+  const navigate = useNavigate();
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  const { getPatientById } = usePatientsService();
+  const [searchParams] = useSearchParams();
+
+  const [survivor, setSurvivor] = useState<Patient | null>(null);
+  const [merged, setMerged] = useState<Patient | null>(null);
+  const [choices, setChoices] = useState<MergeFieldChoices>({});
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  // Pré-seleção vinda da listagem (?survivor=<id>&merged=<id>)
+  useEffect(() => {
+    const survivorId = searchParams.get("survivor");
+    const mergedId = searchParams.get("merged");
+    if (survivorId) getPatientById(survivorId).then((p) => p && setSurvivor(p));
+    if (mergedId) getPatientById(mergedId).then((p) => p && setMerged(p));
+  }, [searchParams, getPatientById]);
+
+  useEffect(() => {
+    setChoices(survivor && merged ? getDefaultMergeChoices(survivor, merged) : {});
+  }, [survivor, merged]);
+
+  const fields = useMemo(() => {
+    if (!survivor || !merged) return [];
+    return PATIENT_FIELDS.filter((f) => !onlyDifferences || !isSamePatientFieldValue(survivor[f], merged[f]));
+  }, [survivor, merged, onlyDifferences]);
+
+  const sameRecord = !!survivor && !!merged && survivor.id === merged.id;
+
+  const clinicKey = useClinicQueryKey();
+  const { data: history, isLoading: loadingHistory } = useQuery({
+    queryKey: clinicKey("patients", "merges"),
+    queryFn: () => listPatientMerges({ page: 1, pageSize: 20 }),
+  });
+
+  const invalidate = async () => {
+    await qc.invalidateQueries({ queryKey: ["patients"] });
+    await qc.invalidateQueries({ queryKey: ["appointments"] });
+    await qc.invalidateQueries({ queryKey: ["reminders"] });
+  };
+
+  const undoMut = useMutation({
+    mutationFn: (mergeId: string) => undoPatientMerge(mergeId),
+    onSuccess: async ({ keptFields }) => {
+      toast({
+        title: "Mesclagem desfeita",
+        description: keptFields.length
+          ? `Alterados após a mesclagem, estes campos foram mantidos no sobrevivente: ${keptFields
+              .map((f) => PATIENT_FIELD_LABELS[f])
+              .join(", ")}.`
+          : undefined,
+      });
+      await invalidate();
+    },
+    onError: (err: Error) => toast({ title: "Erro ao desfazer mesclagem", description: err?.message ?? "" }),
+  });
+
+  const mergeMut = useMutation({
+    mutationFn: () => mergePatients({ survivorId: survivor!.id!, mergedId: merged!.id!, choices }),
+    onSuccess: async (merge) => {
+      toast({
+        title: "Cadastros mesclados",
+        description: `${merge.merged_snapshot.full_name} foi incorporado a ${merge.survivor_snapshot.full_name}.`,
+        action: (
+          <ToastAction altText="Desfazer mesclagem" onClick={() => undoMut.mutate(merge.id!)}>
+            Desfazer
+          </ToastAction>
+        ),
+      });
+      setSurvivor(null);
+      setMerged(null);
+      await invalidate();
+    },
+    onError: (err: Error) => toast({ title: "Erro ao mesclar cadastros", description: err?.message ?? "" }),
+  });
+
+  const setChoice = (field: string, source: MergeFieldSource) => setChoices((c) => ({ ...c, [field]: source }));
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Helmet>
+        <title>Mesclar Pacientes | MediConnect</title>
+        <meta name="description" content="Mesclagem de cadastros duplicados de pacientes - MediConnect" />
+        <link rel="canonical" href={typeof window !== 'undefined' ? window.location.href : '/patients/merge'} />
+      </Helmet>
+
+      <header className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight">Mesclar cadastros</h1>
+          <p className="text-sm text-muted-foreground">
+            Escolha, campo a campo, os dados que permanecem. Pode ser desfeito em até {MERGE_UNDO_WINDOW_DAYS} dias.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate("/patients")}>Voltar</Button>
+      </header>
+
+      <section aria-label="Cadastros" className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-4 items-end">
+        <div className="space-y-2">
+          <Label>Cadastro que permanece</Label>
+          <PatientPicker value={survivor} onChange={setSurvivor} />
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Inverter cadastros"
+          disabled={!survivor || !merged}
+          onClick={() => {
+            setSurvivor(merged);
+            setMerged(survivor);
+          }}
+        >
+          <ArrowLeftRight className="h-4 w-4" />
+        </Button>
+        <div className="space-y-2">
+          <Label>Cadastro a ser incorporado</Label>
+          <PatientPicker value={merged} onChange={setMerged} />
+        </div>
+      </section>
+
+      {sameRecord && <p className="text-sm text-destructive">Selecione dois cadastros diferentes.</p>}
+
+      {survivor && merged && !sameRecord && (
+        <section aria-label="Comparação de campos" className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Switch id="only-differences" checked={onlyDifferences} onCheckedChange={setOnlyDifferences} />
+              <Label htmlFor="only-differences">Mostrar apenas campos diferentes</Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {MERGE_RELATIONS.map((r) => r.label)
+                .join(", ")
+                .replace(/, ([^,]*)$/, " e $1")}{" "}
+              do cadastro incorporado serão transferidos.
+            </p>
+          </div>
+
+          <div className="rounded-md border">
+            <div className="grid grid-cols-[minmax(160px,220px)_1fr_1fr] border-b bg-muted/50 text-sm font-medium">
+              <div className="px-3 py-2">Campo</div>
+              <div className="px-3 py-2">{survivor.full_name}</div>
+              <div className="px-3 py-2">{merged.full_name}</div>
+            </div>
+            {fields.length === 0 ? (
+              <p className="px-3 py-4 text-sm text-muted-foreground">Os cadastros têm os mesmos dados.</p>
+            ) : (
+              fields.map((field) => {
+                const same = isSamePatientFieldValue(survivor[field], merged[field]);
+                return (
+                  <RadioGroup
+                    key={field}
+                    value={choices[field] ?? "survivor"}
+                    onValueChange={(v) => setChoice(field, v as MergeFieldSource)}
+                    disabled={same}
+                    className="grid grid-cols-[minmax(160px,220px)_1fr_1fr] gap-0 border-b last:border-b-0 text-sm"
+                  >
+                    <div className="px-3 py-2 text-muted-foreground">{PATIENT_FIELD_LABELS[field]}</div>
+                    {(["survivor", "merged"] as MergeFieldSource[]).map((source) => {
+                      const patient = source === "survivor" ? survivor : merged;
+                      const inputId = `${field}-${source}`;
+                      return (
+                        <Label
+                          key={source}
+                          htmlFor={inputId}
+                          className="flex items-start gap-2 px-3 py-2 font-normal cursor-pointer"
+                        >
+                          <RadioGroupItem id={inputId} value={source} className="mt-0.5" />
+                          <span className="break-words">{formatPatientFieldValue(field, patient[field])}</span>
+                        </Label>
+                      );
+                    })}
+                  </RadioGroup>
+                );
+              })
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={() => setConfirmOpen(true)} disabled={mergeMut.isPending}>
+              Mesclar cadastros
+            </Button>
+          </div>
+        </section>
+      )}
+
+      <section aria-label="Mesclagens recentes" className="space-y-2">
+        <h2 className="text-lg font-semibold">Mesclagens recentes</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Data</TableHead>
+              <TableHead>Permaneceu</TableHead>
+              <TableHead>Incorporado</TableHead>
+              <TableHead>Responsável</TableHead>
+              <TableHead>Situação</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loadingHistory ? (
+              <TableRow>
+                <TableCell colSpan={6}><Skeleton className="h-4 w-full" /></TableCell>
+              </TableRow>
+            ) : (history?.data ?? []).length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6}>
+                  <div className="text-sm text-muted-foreground">Nenhuma mesclagem registrada</div>
+                </TableCell>
+              </TableRow>
+            ) : (
+              history!.data.map((m) => (
+                <TableRow key={m.id}>
+                  <TableCell>{format(parseISO(m.merged_at), "dd/MM/yyyy HH:mm")}</TableCell>
+                  <TableCell>{m.survivor_snapshot.full_name}</TableCell>
+                  <TableCell>{m.merged_snapshot.full_name}</TableCell>
+                  <TableCell>{m.merged_by}</TableCell>
+                  <TableCell>
+                    {m.undone_at ? (
+                      <Badge variant="outline">Desfeita em {format(parseISO(m.undone_at), "dd/MM/yyyy")}</Badge>
+                    ) : canUndoPatientMerge(m) ? (
+                      <span className="text-sm text-muted-foreground">
+                        Reversível até {format(parseISO(m.undo_deadline), "dd/MM/yyyy")}
+                      </span>
+                    ) : (
+                      <Badge variant="secondary">Definitiva</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {canUndoPatientMerge(m) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={undoMut.isPending}
+                        onClick={() => undoMut.mutate(m.id!)}
+                      >
+                        Desfazer
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </section>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Mesclar cadastros?</AlertDialogTitle>
+            <AlertDialogDescription>
+              O cadastro de {merged?.full_name} será incorporado ao de {survivor?.full_name} e deixará de aparecer na
+              listagem. Links antigos passam a abrir o cadastro que permanece.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={() => mergeMut.mutate()}>Mesclar</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useEffect, useMemo, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { usePatientsService } from "@/hooks/use-patients-service";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { maskCPF } from "@/lib/brDocuments";
+import { PATIENT_TRASH_RETENTION_DAYS, type ListPatientsResult } from "@/services/patientsService";
+import type { Patient } from "@/types/patient";
+import { RotateCcw, Search } from "lucide-react";
+
+const PAGE_SIZE = 10;
+
+export default function PatientTrashPage() {
+  const navigate = useNavigate();
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  const { listPatients, restorePatient, purgePatient } = usePatientsService();
+  const { can } = usePermissions();
+  const canPurge = can("purge", "patient");
+
+  const [search, setSearch] = useState("");
+  const debouncedSearch = useDebouncedValue(search, 500);
+  const [page, setPage] = useState(1);
+  const [confirmPurge, setConfirmPurge] = useState<Patient | null>(null);
+
+  useEffect(() => setPage(1), [debouncedSearch]);
+
+  const clinicKey = useClinicQueryKey();
+  const { data, isLoading, isError, error } = useQuery<ListPatientsResult>({
+    queryKey: clinicKey("patients", "trash", { page, search: debouncedSearch }),
+    queryFn: () =>
+      listPatients({
+        page,
+        pageSize: PAGE_SIZE,
+        search: debouncedSearch,
+        deleted: true,
+        sortBy: "deleted_at",
+        sortDirection: "desc",
+      }),
+    placeholderData: (prev) => prev,
+  });
+
+  const total = data?.count ?? 0;
+  const totalPages = useMemo(() => Math.max(1, Math.ceil(total / PAGE_SIZE)), [total]);
+
+  const restoreMut = useMutation({
+    mutationFn: (id: string) => restorePatient(id),
+    onSuccess: async (patient) => {
+      toast({ title: "Paciente restaurado", description: patient.full_name });
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+    },
+    onError: (err: Error) => toast({ title: "Erro ao restaurar paciente", description: err?.message ?? "" }),
+  });
+
+  const purgeMut = useMutation({
+    mutationFn: (id: string) => purgePatient(id),
+    onSuccess: async () => {
+      toast({ title: "Paciente excluído definitivamente" });
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+    },
+    onError: (err: Error) => toast({ title: "Erro ao excluir paciente", description: err?.message ?? "" }),
+  });
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Helmet>
+        <title>Lixeira de Pacientes | MediConnect</title>
+        <meta name="description" content="Pacientes excluídos e restauração de cadastros - MediConnect" />
+        <link rel="canonical" href={typeof window !== 'undefined' ? window.location.href : '/patients/trash'} />
+      </Helmet>
+
+      <header className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight">Lixeira</h1>
+          <p className="text-sm text-muted-foreground">
+            Pacientes excluídos ficam aqui por {PATIENT_TRASH_RETENTION_DAYS} dias antes da remoção definitiva
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => navigate("/patients")}>Voltar</Button>
+      </header>
+
+      <section aria-label="Controles de listagem">
+        <div className="relative w-full md:max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Buscar por nome ou CPF"
+            className="pl-9"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+      </section>
+
+      <main>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Nome</TableHead>
+              <TableHead>CPF</TableHead>
+              <TableHead>Excluído em</TableHead>
+              <TableHead>Excluído por</TableHead>
+              <TableHead>Remoção definitiva</TableHead>
+              <TableHead className="text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 3 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell colSpan={6}><Skeleton className="h-4 w-full" /></TableCell>
+                </TableRow>
+              ))
+            ) : isError ? (
+              <TableRow>
+                <TableCell colSpan={6}>
+                  <div className="text-sm text-destructive">Erro ao carregar: {(error as Error)?.message ?? "Tente novamente"}</div>
+                </TableCell>
+              </TableRow>
+            ) : (data?.data ?? []).length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6}>
+                  <div className="text-sm text-muted-foreground">A lixeira está vazia</div>
+                </TableCell>
+              </TableRow>
+            ) : (
+              data!.data.map((p) => (
+                <TableRow key={p.id}>
+                  <TableCell className="font-medium">{p.full_name}</TableCell>
+                  <TableCell>{maskCPF(p.cpf)}</TableCell>
+                  <TableCell>{format(parseISO(p.deleted_at!), "dd/MM/yyyy HH:mm")}</TableCell>
+                  <TableCell>{p.deleted_by ?? "-"}</TableCell>
+                  <TableCell>
+                    {format(addDays(parseISO(p.deleted_at!), PATIENT_TRASH_RETENTION_DAYS), "dd/MM/yyyy")}
+                  </TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={restoreMut.isPending}
+                      onClick={() => restoreMut.mutate(p.id!)}
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restaurar
+                    </Button>
+                    {canPurge && (
+                      <Button variant="ghost" size="sm" className="text-destructive" onClick={() => setConfirmPurge(p)}>
+                        Excluir definitivamente
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        {/* Paginação */}
+        <div className="flex items-center justify-between pt-4">
+          <div className="text-sm text-muted-foreground">
+            Página {page} de {totalPages} — {total} registro(s)
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
+              Anterior
+            </Button>
+            <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage((p) => Math.min(totalPages, p + 1))}>
+              Próxima
+            </Button>
+          </div>
+        </div>
+      </main>
+
+      <AlertDialog open={!!confirmPurge} onOpenChange={(open) => !open && setConfirmPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir definitivamente?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Esta ação não pode ser desfeita. O cadastro de {confirmPurge?.full_name} e seus agendamentos serão
+              removidos permanentemente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={async () => {
+                if (!confirmPurge) return;
+                await purgeMut.mutateAsync(confirmPurge.id!);
+                setConfirmPurge(null);
+              }}
+            >
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useMemo, useState } from "react";
+import { Helmet } from "react-helmet-async";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { usePatientsById } from "@/hooks/use-patients-by-id";
+import { useClinicQueryKey } from "@/hooks/use-active-clinic";
+import { applyReminderReply } from "@/services/appointmentsService";
+import { dispatchDueReminders, listReminders, type ListRemindersResult } from "@/services/remindersService";
+import { COMMUNICATION_CHANNEL_LABELS } from "@/types/patient";
+import {
+  REMINDER_REPLY_LABELS,
+  REMINDER_STATUS_LABELS,
+  type AppointmentReminder,
+  type ReminderReply,
+  type ReminderStatus,
+} from "@/types/reminder";
+import { MessageSquareReply, Send } from "lucide-react";
+
+const PAGE_SIZE = 20;
+
+export default function ReminderListPage() {
+  const navigate = useNavigate();
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<ReminderStatus | "all">("all");
+  const [page, setPage] = useState(1);
+
+  const clinicKey = useClinicQueryKey();
+  const { data, isLoading, isError, error } = useQuery<ListRemindersResult>({
+    queryKey: clinicKey("reminders", { status, page }),
+    queryFn: () => listReminders({ status: status === "all" ? undefined : [status], page, pageSize: PAGE_SIZE }),
+    placeholderData: (prev) => prev,
+  });
+
+  const reminders = data?.data ?? [];
+  const { data: patients } = usePatientsById(reminders.map((r) => r.patient_id));
+  const total = data?.count ?? 0;
+  const totalPages = useMemo(() => Math.max(1, Math.ceil(total / PAGE_SIZE)), [total]);
+
+  const invalidate = async () => {
+    await qc.invalidateQueries({ queryKey: ["reminders"] });
+    await qc.invalidateQueries({ queryKey: ["appointments"] });
+  };
+
+  const dispatchMut = useMutation({
+    mutationFn: () => dispatchDueReminders(),
+    onSuccess: async (sent) => {
+      toast({ title: sent.length ? `${sent.length} lembrete(s) processado(s)` : "Nenhum lembrete pendente no momento" });
+      await invalidate();
+    },
+    onError: (err: Error) => toast({ title: "Erro ao enviar lembretes", description: err?.message ?? "" }),
+  });
+
+  const replyMut = useMutation({
+    mutationFn: ({ reminder, reply }: { reminder: AppointmentReminder; reply: ReminderReply }) =>
+      applyReminderReply(reminder.id!, reply),
+    onSuccess: async () => {
+      toast({ title: "Resposta registrada" });
+      await invalidate();
+      await qc.invalidateQueries({ queryKey: ["patients"] });
+    },
+    onError: (err: Error) => toast({ title: "Erro ao registrar resposta", description: err?.message ?? "" }),
+  });
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Helmet>
+        <title>Lembretes | MediConnect</title>
+        <meta name="description" content="Lembretes de confirmação de agendamentos - MediConnect" />
+        <link rel="canonical" href={typeof window !== 'undefined' ? window.location.href : '/reminders'} />
+      </Helmet>
+
+      <header className="flex items-center justify-between">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight">Lembretes</h1>
+          <p className="text-sm text-muted-foreground">Confirmações enviadas aos pacientes antes do atendimento</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => navigate("/appointments")}>Agendamentos</Button>
+          <Button onClick={() => dispatchMut.mutate()} disabled={dispatchMut.isPending}>
+            <Send className="mr-2 h-4 w-4" />
+            Enviar pendentes
+          </Button>
+        </div>
+      </header>
+
+      <section aria-label="Controles de listagem" className="flex justify-end">
+        <Select
+          value={status}
+          onValueChange={(v) => {
+            setStatus(v as ReminderStatus | "all");
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-full md:w-48">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Todos os status</SelectItem>
+            {(Object.keys(REMINDER_STATUS_LABELS) as ReminderStatus[]).map((s) => (
+              <SelectItem key={s} value={s}>{REMINDER_STATUS_LABELS[s]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </section>
+
+      <main>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Envio</TableHead>
+              <TableHead>Paciente</TableHead>
+              <TableHead>Canal</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Resposta</TableHead>
+              <TableHead className="w-14 text-right">Ações</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell colSpan={6}><Skeleton className="h-4 w-full" /></TableCell>
+                </TableRow>
+              ))
+            ) : isError ? (
+              <TableRow>
+                <TableCell colSpan={6}>
+                  <div className="text-sm text-destructive">Erro ao carregar: {(error as Error)?.message ?? "Tente novamente"}</div>
+                </TableCell>
+              </TableRow>
+            ) : reminders.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6}>
+                  <div className="text-sm text-muted-foreground">Nenhum lembrete encontrado</div>
+                </TableCell>
+              </TableRow>
+            ) : (
+              reminders.map((r) => (
+                <TableRow key={r.id} title={r.message ?? undefined}>
+                  <TableCell className="font-medium">
+                    {format(parseISO(r.scheduled_for), "dd/MM/yyyy HH:mm")}
+                    <span className="ml-2 text-xs text-muted-foreground">D-{r.offset_days}</span>
+                  </TableCell>
+                  <TableCell>
+                    <button type="button" className="hover:underline" onClick={() => navigate(`/appointments/${r.appointment_id}`)}>
+                      {patients?.[r.patient_id]?.full_name ?? "-"}
+                    </button>
+                  </TableCell>
+                  <TableCell>
+                    {COMMUNICATION_CHANNEL_LABELS[r.channel]}
+                    {r.recipient && <span className="block text-xs text-muted-foreground">{r.recipient}</span>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={r.status === "failed" ? "destructive" : r.status === "pending" ? "outline" : "secondary"}>
+                      {REMINDER_STATUS_LABELS[r.status]}
+                    </Badge>
+                    {r.failure_reason && <span className="block text-xs text-destructive">{r.failure_reason}</span>}
+                  </TableCell>
+                  <TableCell>{r.reply ? REMINDER_REPLY_LABELS[r.reply] : "-"}</TableCell>
+                  <TableCell className="text-right">
+                    {(r.status === "sent" || r.status === "delivered") && !r.reply && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Registrar resposta">
+                            <MessageSquareReply className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuLabel>Resposta do paciente</DropdownMenuLabel>
+                          {(Object.keys(REMINDER_REPLY_LABELS) as ReminderReply[]).map((reply) => (
+                            <DropdownMenuItem key={reply} onClick={() => replyMut.mutate({ reminder: r, reply })}>
+                              {REMINDER_REPLY_LABELS[reply]}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        {/* Paginação */}
+        <div className="flex items-center justify-between pt-4">
+          <div className="text-sm text-muted-foreground">
+            Página {page} de {totalPages} — {total} registro(s)
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))}>
+              Anterior
+            </Button>
+            <Button variant="outline" disabled={page >= totalPages} onClick={() => setPage((p) => Math.min(totalPages, p + 1))}>
+              Próxima
+            </Button>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+// Gravação do score de absenteísmo em patients.absenteeism_risk_score
+
+import { computeAbsenteeismRisk, type RiskAssessment } from "@/lib/absenteeismRisk";
+import { clinicOf } from "@/lib/currentClinic";
+import type { Appointment } from "@/types/appointment";
+import { getClinicLocation } from "./clinicsService";
+import { getPatientById, updatePatientRiskScore } from "./patientsService";
+
+// Recalcula o score a partir do histórico informado e grava no paciente (somente quando mudou).
+// A gravação não altera a versão do cadastro: um formulário aberto continua podendo salvar.
+export async function refreshPatientRiskScore(
+  patientId: string,
+  history: Appointment[]
+): Promise<RiskAssessment | null> {
+  const patient = await getPatientById(patientId);
+  if (!patient) return null;
+  const clinic = await getClinicLocation(clinicOf(patient));
+  const assessment = computeAbsenteeismRisk(patient, history, { clinic });
+  if (patient.absenteeism_risk_score !== assessment.score) {
+    await updatePatientRiskScore(patient.id, assessment.score);
+  }
+  return assessment;
+}
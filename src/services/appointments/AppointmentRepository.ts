@@ -0,0 +1,28 @@
+// Contrato de armazenamento de Agendamentos (mesmos backends dos Pacientes)
+
+import type { Appointment, AppointmentInsert, AppointmentStatus, AppointmentUpdate } from "@/types/appointment";
+
+export interface ListAppointmentsParams {
+  clinicId?: string;
+  patientIds?: string[];
+  professionalName?: string;
+  status?: AppointmentStatus[];
+  from?: string; // start_at >= from (ISO)
+  to?: string; // start_at < to (ISO)
+  ascending?: boolean; // ordenação por start_at (padrão: crescente)
+  // Paginação opcional; sem pageSize retorna todos os registros do filtro
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface ListAppointmentsResult {
+  data: Appointment[];
+  count: number;
+}
+
+export interface AppointmentRepository {
+  list(params: ListAppointmentsParams): Promise<ListAppointmentsResult>;
+  getById(id: string): Promise<Appointment | null>;
+  create(payload: AppointmentInsert & { status: AppointmentStatus }): Promise<Appointment>;
+  update(payload: AppointmentUpdate): Promise<Appointment>;
+}
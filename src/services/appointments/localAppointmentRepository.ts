@@ -0,0 +1,13 @@
+// Repositório de Agendamentos persistido no localStorage (sobrevive a recarregamentos, para demos)
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { Appointment } from "@/types/appointment";
+import { createMemoryAppointmentRepository } from "./memoryAppointmentRepository";
+import type { AppointmentRepository } from "./AppointmentRepository";
+
+export function createLocalAppointmentRepository(storageKey = "appointments"): AppointmentRepository {
+  return createMemoryAppointmentRepository({
+    initial: readCollection<Appointment>(storageKey),
+    onChange: (items) => writeCollection(storageKey, items),
+  });
+}
@@ -0,0 +1,78 @@
+// Repositório de Agendamentos em memória (base também do backend localStorage)
+
+import { clinicOf } from "@/lib/currentClinic";
+import type { Appointment } from "@/types/appointment";
+import type {
+  AppointmentRepository,
+  ListAppointmentsParams,
+  ListAppointmentsResult,
+} from "./AppointmentRepository";
+
+export interface MemoryAppointmentRepositoryOptions {
+  initial?: Appointment[];
+  // Chamado após cada alteração (ex.: para persistir em localStorage)
+  onChange?: (items: Appointment[]) => void;
+}
+
+function matches(a: Appointment, params: ListAppointmentsParams) {
+  if (params.clinicId && clinicOf(a) !== params.clinicId) return false;
+  if (params.patientIds && !params.patientIds.includes(a.patient_id)) return false;
+  if (params.professionalName && a.professional_name !== params.professionalName) return false;
+  if (params.status && !params.status.includes(a.status)) return false;
+  const start = new Date(a.start_at).getTime();
+  if (params.from && start < new Date(params.from).getTime()) return false;
+  if (params.to && start >= new Date(params.to).getTime()) return false;
+  return true;
+}
+
+export function createMemoryAppointmentRepository(
+  options: MemoryAppointmentRepositoryOptions = {}
+): AppointmentRepository {
+  let items: Appointment[] = [...(options.initial ?? [])];
+  const commit = (next: Appointment[]) => {
+    items = next;
+    options.onChange?.(items);
+  };
+
+  return {
+    async list(params: ListAppointmentsParams): Promise<ListAppointmentsResult> {
+      const direction = params.ascending === false ? -1 : 1;
+      const filtered = items
+        .filter((a) => matches(a, params))
+        .sort((a, b) => direction * (new Date(a.start_at).getTime() - new Date(b.start_at).getTime()));
+      const count = filtered.length;
+      if (!params.pageSize) return { data: filtered, count };
+      const from = ((params.page ?? 1) - 1) * params.pageSize;
+      return { data: filtered.slice(from, from + params.pageSize), count };
+    },
+
+    async getById(id: string): Promise<Appointment | null> {
+      return items.find((a) => a.id === id) ?? null;
+    },
+
+    async create(payload): Promise<Appointment> {
+      const now = new Date().toISOString();
+      const entity: Appointment = {
+        reschedule_count: 0,
+        ...payload,
+        id: crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      commit([...items, entity]);
+      return entity;
+    },
+
+    async update(payload): Promise<Appointment> {
+      const idx = items.findIndex((a) => a.id === payload.id);
+      if (idx < 0) throw new Error("Agendamento não encontrado");
+      const updated: Appointment = {
+        ...items[idx],
+        ...payload,
+        updated_at: new Date().toISOString(),
+      };
+      commit(items.map((a, i) => (i === idx ? updated : a)));
+      return updated;
+    },
+  };
+}
@@ -0,0 +1,77 @@
+// Repositório de Agendamentos sobre a tabela public.appointments do Supabase
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { clinicOf } from "@/lib/currentClinic";
+import type { Appointment, AppointmentStatus } from "@/types/appointment";
+import type {
+  AppointmentRepository,
+  ListAppointmentsParams,
+  ListAppointmentsResult,
+} from "./AppointmentRepository";
+
+type AppointmentRow = Database["public"]["Tables"]["appointments"]["Row"];
+
+function fromRow(row: AppointmentRow): Appointment {
+  return {
+    ...row,
+    status: row.status as AppointmentStatus,
+    created_at: row.created_at ?? undefined,
+    updated_at: row.updated_at ?? undefined,
+  };
+}
+
+export function createSupabaseAppointmentRepository(): AppointmentRepository {
+  return {
+    async list(params: ListAppointmentsParams): Promise<ListAppointmentsResult> {
+      let query = supabase
+        .from("appointments")
+        .select("*", { count: "exact" })
+        .order("start_at", { ascending: params.ascending !== false });
+
+      if (params.clinicId) query = query.eq("clinic_id", params.clinicId);
+      if (params.patientIds) query = query.in("patient_id", params.patientIds);
+      if (params.professionalName) query = query.eq("professional_name", params.professionalName);
+      if (params.status) query = query.in("status", params.status);
+      if (params.from) query = query.gte("start_at", params.from);
+      if (params.to) query = query.lt("start_at", params.to);
+      if (params.pageSize) {
+        const from = ((params.page ?? 1) - 1) * params.pageSize;
+        query = query.range(from, from + params.pageSize - 1);
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw new Error(error.message);
+      return { data: (data ?? []).map(fromRow), count: count ?? 0 };
+    },
+
+    async getById(id: string): Promise<Appointment | null> {
+      const { data, error } = await supabase.from("appointments").select("*").eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data) : null;
+    },
+
+    async create(payload): Promise<Appointment> {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from("appointments")
+        .insert({ ...payload, clinic_id: clinicOf(payload), created_at: now, updated_at: now })
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return fromRow(data);
+    },
+
+    async update({ id, ...changes }): Promise<Appointment> {
+      const { data, error } = await supabase
+        .from("appointments")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) throw new Error("Agendamento não encontrado");
+      return fromRow(data);
+    },
+  };
+}
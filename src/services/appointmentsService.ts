@@ -0,0 +1,242 @@
+// Serviço de Agendamentos
+// Concentra as transições de status (agendar, confirmar, reagendar, cancelar, concluir, falta).
+// O armazenamento segue o mesmo backend configurado para Pacientes (VITE_DATA_BACKEND).
+
+import { DATA_BACKEND, type DataBackend } from "@/lib/dataBackend";
+import { clinicOf, requireClinicId } from "@/lib/currentClinic";
+import { assertCan } from "@/lib/permissions";
+import {
+  ACTIVE_APPOINTMENT_STATUSES,
+  APPOINTMENT_STATUS_LABELS,
+  type Appointment,
+  type AppointmentInsert,
+  type AppointmentStatus,
+  type PatientAppointmentSummary,
+} from "@/types/appointment";
+import type {
+  AppointmentRepository,
+  ListAppointmentsParams,
+  ListAppointmentsResult,
+} from "./appointments/AppointmentRepository";
+import { createMemoryAppointmentRepository } from "./appointments/memoryAppointmentRepository";
+import { createLocalAppointmentRepository } from "./appointments/localAppointmentRepository";
+import { createSupabaseAppointmentRepository } from "./appointments/supabaseAppointmentRepository";
+import { refreshPatientRiskScore } from "./absenteeismRiskService";
+import { getPatientById } from "./patientsService";
+import { recordReminderReply, syncAppointmentReminders } from "./remindersService";
+import type { ReminderReply } from "@/types/reminder";
+
+export type { AppointmentRepository, ListAppointmentsParams, ListAppointmentsResult };
+
+export function createAppointmentRepository(backend: DataBackend): AppointmentRepository {
+  switch (backend) {
+    case "memory":
+      return createMemoryAppointmentRepository();
+    case "local":
+      return createLocalAppointmentRepository();
+    default:
+      return createSupabaseAppointmentRepository();
+  }
+}
+
+const repository = createAppointmentRepository(DATA_BACKEND);
+
+// Status aceitos na criação
+const INITIAL_APPOINTMENT_STATUSES: AppointmentStatus[] = ["scheduled", "confirmed"];
+
+// Utilitário: valida o intervalo do agendamento
+function assertValidPeriod(start_at: string, end_at: string) {
+  const start = new Date(start_at).getTime();
+  const end = new Date(end_at).getTime();
+  if (Number.isNaN(start) || Number.isNaN(end)) throw new Error("Data/hora inválida");
+  if (end <= start) throw new Error("O término deve ser posterior ao início");
+}
+
+// Agendamentos de outra clínica são tratados como inexistentes
+async function getInClinic(id: string): Promise<Appointment | null> {
+  const appointment = await repository.getById(id);
+  return appointment && clinicOf(appointment) === requireClinicId() ? appointment : null;
+}
+
+async function getOrFail(id: string): Promise<Appointment> {
+  const current = await getInClinic(id);
+  if (!current) throw new Error("Agendamento não encontrado");
+  return current;
+}
+
+// Mantém lembretes e score de absenteísmo do paciente em dia após mudanças na agenda.
+// Falhas aqui não devem desfazer a operação principal.
+async function afterChange(appointment: Appointment): Promise<Appointment> {
+  try {
+    await syncAppointmentReminders(appointment);
+  } catch (e) {
+    console.warn("Não foi possível atualizar os lembretes do agendamento", e);
+  }
+  try {
+    const { data } = await repository.list({ patientIds: [appointment.patient_id] });
+    await refreshPatientRiskScore(appointment.patient_id, data);
+  } catch (e) {
+    console.warn("Não foi possível atualizar o score de absenteísmo", e);
+  }
+  return appointment;
+}
+
+function assertStatus(appointment: Appointment, allowed: AppointmentStatus[], action: string) {
+  if (!allowed.includes(appointment.status)) {
+    const label = APPOINTMENT_STATUS_LABELS[appointment.status].toLowerCase();
+    throw new Error(`Não é possível ${action} um agendamento ${label}`);
+  }
+}
+
+export async function listAppointments(params: ListAppointmentsParams): Promise<ListAppointmentsResult> {
+  assertCan("read", "appointment");
+  return repository.list({ ...params, clinicId: requireClinicId() });
+}
+
+export async function getAppointmentById(id: string): Promise<Appointment | null> {
+  assertCan("read", "appointment");
+  return getInClinic(id);
+}
+
+export async function createAppointment(payload: AppointmentInsert): Promise<Appointment> {
+  assertCan("create", "appointment");
+  if (!payload.patient_id) throw new Error("Paciente é obrigatório");
+  if (!payload.professional_name?.trim()) throw new Error("Profissional é obrigatório");
+  assertValidPeriod(payload.start_at, payload.end_at);
+  // getPatientById já se restringe à clínica ativa; um id mesclado devolve o cadastro sobrevivente
+  const patient = await getPatientById(payload.patient_id);
+  if (!patient || patient.id !== payload.patient_id) throw new Error("Paciente não encontrado");
+  if (patient.deleted_at) throw new Error("Não é possível agendar para um paciente na lixeira");
+  // Um agendamento nasce agendado ou já confirmado; os demais status só vêm das transições abaixo
+  const status = payload.status ?? "scheduled";
+  if (!INITIAL_APPOINTMENT_STATUSES.includes(status)) {
+    throw new Error("Novos agendamentos só podem ser criados como agendados ou confirmados");
+  }
+  const created = await repository.create({
+    ...payload,
+    clinic_id: requireClinicId(),
+    status,
+    confirmed_at: status === "confirmed" ? new Date().toISOString() : null,
+    cancelled_at: null,
+    cancellation_reason: null,
+    completed_at: null,
+    reschedule_count: 0,
+  });
+  return afterChange(created);
+}
+
+export async function confirmAppointment(id: string): Promise<Appointment> {
+  assertCan("update", "appointment");
+  const current = await getOrFail(id);
+  assertStatus(current, ["scheduled"], "confirmar");
+  return afterChange(await repository.update({ id, status: "confirmed", confirmed_at: new Date().toISOString() }));
+}
+
+export async function rescheduleAppointment(
+  id: string,
+  { start_at, end_at }: { start_at: string; end_at: string }
+): Promise<Appointment> {
+  assertCan("update", "appointment");
+  const current = await getOrFail(id);
+  assertStatus(current, ACTIVE_APPOINTMENT_STATUSES, "reagendar");
+  assertValidPeriod(start_at, end_at);
+  // Um novo horário exige nova confirmação do paciente
+  const updated = await repository.update({
+    id,
+    start_at,
+    end_at,
+    status: "scheduled",
+    confirmed_at: null,
+    reschedule_count: (current.reschedule_count ?? 0) + 1,
+  });
+  return afterChange(updated);
+}
+
+export async function cancelAppointment(id: string, reason?: string): Promise<Appointment> {
+  assertCan("update", "appointment");
+  const current = await getOrFail(id);
+  assertStatus(current, ACTIVE_APPOINTMENT_STATUSES, "cancelar");
+  const updated = await repository.update({
+    id,
+    status: "cancelled",
+    cancelled_at: new Date().toISOString(),
+    cancellation_reason: reason?.trim() || null,
+  });
+  return afterChange(updated);
+}
+
+export async function completeAppointment(id: string): Promise<Appointment> {
+  assertCan("update", "appointment");
+  const current = await getOrFail(id);
+  assertStatus(current, ACTIVE_APPOINTMENT_STATUSES, "concluir");
+  return afterChange(await repository.update({ id, status: "completed", completed_at: new Date().toISOString() }));
+}
+
+export async function markAppointmentNoShow(id: string): Promise<Appointment> {
+  assertCan("update", "appointment");
+  const current = await getOrFail(id);
+  assertStatus(current, ACTIVE_APPOINTMENT_STATUSES, "registrar falta em");
+  if (new Date(current.start_at).getTime() > Date.now()) {
+    throw new Error("Só é possível registrar falta após o horário do agendamento");
+  }
+  return afterChange(await repository.update({ id, status: "no_show" }));
+}
+
+// Resposta do paciente a um lembrete: confirma ou cancela o agendamento correspondente
+export async function applyReminderReply(reminderId: string, reply: ReminderReply, text?: string): Promise<void> {
+  const reminder = await recordReminderReply(reminderId, reply, text);
+  const appointment = await getOrFail(reminder.appointment_id);
+  if (reply === "confirmed" && appointment.status === "scheduled") {
+    await confirmAppointment(appointment.id!);
+  } else if (reply === "cancelled" && ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) {
+    await cancelAppointment(appointment.id!, "Cancelado pelo paciente em resposta ao lembrete");
+  }
+}
+
+// Transfere agendamentos para outro paciente (mesclagem de cadastros e sua reversão).
+// Não altera status nem lembretes; o score é recalculado pelo chamador.
+export async function reassignAppointments(ids: string[], patientId: string): Promise<void> {
+  for (const id of ids) await repository.update({ id, patient_id: patientId });
+}
+
+// Último atendimento realizado e próximo agendamento ativo de cada paciente
+export async function getPatientAppointmentSummaries(
+  patientIds: string[]
+): Promise<Record<string, PatientAppointmentSummary>> {
+  if (patientIds.length === 0) return {};
+  const { data } = await repository.list({ patientIds, clinicId: requireClinicId() });
+  const now = Date.now();
+  const summaries: Record<string, PatientAppointmentSummary> = {};
+  // Lista ordenada por start_at crescente: o último "realizado" e o primeiro futuro ativo vencem
+  for (const a of data) {
+    const summary = (summaries[a.patient_id] ??= {});
+    const start = new Date(a.start_at).getTime();
+    if (a.status === "completed" && start <= now) summary.last = a;
+    if (!summary.next && start >= now && ACTIVE_APPOINTMENT_STATUSES.includes(a.status)) summary.next = a;
+  }
+  return summaries;
+}
+
+// Agendamentos ativos que se sobrepõem no horário para o mesmo profissional
+export function findOverlappingAppointmentIds(appointments: Appointment[]): Set<string> {
+  const overlapping = new Set<string>();
+  const byProfessional = new Map<string, Appointment[]>();
+  for (const a of appointments) {
+    if (!a.id || !ACTIVE_APPOINTMENT_STATUSES.includes(a.status)) continue;
+    const key = a.professional_name.trim().toLowerCase();
+    byProfessional.set(key, [...(byProfessional.get(key) ?? []), a]);
+  }
+  for (const list of byProfessional.values()) {
+    const sorted = [...list].sort((a, b) => new Date(a.start_at).getTime() - new Date(b.start_at).getTime());
+    // Varredura: quem termina mais tarde até aqui colide com qualquer início anterior ao seu término
+    let latest: Appointment | null = null;
+    for (const a of sorted) {
+      if (latest && new Date(a.start_at).getTime() < new Date(latest.end_at).getTime()) {
+        overlapping.add(a.id!);
+        overlapping.add(latest.id!);
+      }
+      if (!latest || new Date(a.end_at).getTime() > new Date(latest.end_at).getTime()) latest = a;
+    }
+  }
+  return overlapping;
+}
@@ -0,0 +1,21 @@
+// Contrato de armazenamento da trilha de auditoria de Pacientes (somente inclusão e leitura)
+
+import type { PatientAuditEntry, PatientAuditEntryInsert } from "@/types/patientAudit";
+
+export interface ListPatientAuditParams {
+  patientId: string;
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface ListPatientAuditResult {
+  data: PatientAuditEntry[];
+  count: number;
+}
+
+export interface PatientAuditRepository {
+  // Mais recentes primeiro
+  list(params: ListPatientAuditParams): Promise<ListPatientAuditResult>;
+  getById(id: string): Promise<PatientAuditEntry | null>;
+  append(entry: PatientAuditEntryInsert): Promise<PatientAuditEntry>;
+}
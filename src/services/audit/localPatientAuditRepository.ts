@@ -0,0 +1,13 @@
+// Trilha de auditoria persistida no localStorage (sobrevive a recarregamentos, para demos)
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { PatientAuditEntry } from "@/types/patientAudit";
+import { createMemoryPatientAuditRepository } from "./memoryPatientAuditRepository";
+import type { PatientAuditRepository } from "./PatientAuditRepository";
+
+export function createLocalPatientAuditRepository(storageKey = "patient_audit_log"): PatientAuditRepository {
+  return createMemoryPatientAuditRepository({
+    initial: readCollection<PatientAuditEntry>(storageKey),
+    onChange: (items) => writeCollection(storageKey, items),
+  });
+}
@@ -0,0 +1,39 @@
+// Trilha de auditoria em memória (base também do backend localStorage)
+
+import type { PatientAuditEntry } from "@/types/patientAudit";
+import type { ListPatientAuditParams, ListPatientAuditResult, PatientAuditRepository } from "./PatientAuditRepository";
+
+export interface MemoryPatientAuditRepositoryOptions {
+  initial?: PatientAuditEntry[];
+  // Chamado após cada inclusão (ex.: para persistir em localStorage)
+  onChange?: (items: PatientAuditEntry[]) => void;
+}
+
+export function createMemoryPatientAuditRepository(
+  options: MemoryPatientAuditRepositoryOptions = {}
+): PatientAuditRepository {
+  let items: PatientAuditEntry[] = [...(options.initial ?? [])];
+
+  return {
+    async list({ patientId, page = 1, pageSize }: ListPatientAuditParams): Promise<ListPatientAuditResult> {
+      const filtered = items
+        .filter((e) => e.patient_id === patientId)
+        .sort((a, b) => b.occurred_at.localeCompare(a.occurred_at));
+      const count = filtered.length;
+      if (!pageSize) return { data: filtered, count };
+      const from = (page - 1) * pageSize;
+      return { data: filtered.slice(from, from + pageSize), count };
+    },
+
+    async getById(id: string): Promise<PatientAuditEntry | null> {
+      return items.find((e) => e.id === id) ?? null;
+    },
+
+    async append(entry): Promise<PatientAuditEntry> {
+      const entity: PatientAuditEntry = { ...entry, id: crypto.randomUUID() };
+      items = [...items, entity];
+      options.onChange?.(items);
+      return entity;
+    },
+  };
+}
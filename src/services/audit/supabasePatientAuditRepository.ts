@@ -0,0 +1,60 @@
+// Trilha de auditoria sobre a tabela public.patient_audit_log do Supabase
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { clinicOf } from "@/lib/currentClinic";
+import type { Patient } from "@/types/patient";
+import type { PatientAuditAction, PatientAuditEntry, PatientFieldChange } from "@/types/patientAudit";
+import type { ListPatientAuditParams, ListPatientAuditResult, PatientAuditRepository } from "./PatientAuditRepository";
+
+type PatientAuditRow = Database["public"]["Tables"]["patient_audit_log"]["Row"];
+
+function fromRow(row: PatientAuditRow): PatientAuditEntry {
+  return {
+    ...row,
+    action: row.action as PatientAuditAction,
+    changes: row.changes as unknown as PatientFieldChange[],
+    snapshot: row.snapshot as unknown as Patient,
+  };
+}
+
+export function createSupabasePatientAuditRepository(): PatientAuditRepository {
+  return {
+    async list({ patientId, page = 1, pageSize }: ListPatientAuditParams): Promise<ListPatientAuditResult> {
+      let query = supabase
+        .from("patient_audit_log")
+        .select("*", { count: "exact" })
+        .eq("patient_id", patientId)
+        .order("occurred_at", { ascending: false });
+      if (pageSize) {
+        const from = (page - 1) * pageSize;
+        query = query.range(from, from + pageSize - 1);
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw new Error(error.message);
+      return { data: (data ?? []).map(fromRow), count: count ?? 0 };
+    },
+
+    async getById(id: string): Promise<PatientAuditEntry | null> {
+      const { data, error } = await supabase.from("patient_audit_log").select("*").eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data) : null;
+    },
+
+    async append(entry): Promise<PatientAuditEntry> {
+      const { data, error } = await supabase
+        .from("patient_audit_log")
+        .insert({
+          ...entry,
+          clinic_id: clinicOf(entry),
+          changes: entry.changes as unknown as Json,
+          snapshot: entry.snapshot as unknown as Json,
+        })
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return fromRow(data);
+    },
+  };
+}
@@ -0,0 +1,31 @@
+// Contrato do provedor de autenticação
+// Implementado sobre o Supabase Auth e por um adaptador simulado para desenvolvimento e testes.
+
+import type { Role } from "@/lib/permissions";
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string | null;
+  // Perfil de acesso; null quando o usuário ainda não recebeu um perfil
+  role: Role | null;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+}
+
+export type AuthChangeListener = (session: AuthSession | null) => void;
+
+export interface AuthAdapter {
+  // Sessão atual (persistida entre recarregamentos), ou null
+  getSession(): Promise<AuthSession | null>;
+  // Notifica login, logout e renovação de sessão; retorna a função para cancelar a inscrição
+  onChange(listener: AuthChangeListener): () => void;
+  signIn(email: string, password: string): Promise<AuthSession>;
+  signOut(): Promise<void>;
+  // Envia o link de redefinição; o link abre redirectTo já com uma sessão de recuperação
+  requestPasswordReset(email: string, redirectTo: string): Promise<void>;
+  // Troca a senha do usuário da sessão atual (inclusive a de recuperação)
+  updatePassword(password: string): Promise<void>;
+}
@@ -0,0 +1,118 @@
+// Autenticação simulada para desenvolvimento e testes (sem servidor)
+// Não há envio de e-mail: o link de redefinição de senha é exibido no console.
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { AuthAdapter, AuthChangeListener, AuthSession, AuthUser } from "./AuthAdapter";
+
+export interface MockAuthUser extends AuthUser {
+  password: string;
+}
+
+// Um usuário por perfil de acesso, todos com a senha "mediconnect"
+export const DEFAULT_MOCK_AUTH_USERS: MockAuthUser[] = [
+  { id: "mock-admin", email: "admin@mediconnect.dev", name: "Administrador", role: "admin", password: "mediconnect" },
+  { id: "mock-reception", email: "recepcao@mediconnect.dev", name: "Recepção", role: "reception", password: "mediconnect" },
+  { id: "mock-doctor", email: "medico@mediconnect.dev", name: "Médico", role: "doctor", password: "mediconnect" },
+  { id: "mock-nurse", email: "enfermagem@mediconnect.dev", name: "Enfermagem", role: "nurse", password: "mediconnect" },
+  { id: "mock-billing", email: "faturamento@mediconnect.dev", name: "Faturamento", role: "billing", password: "mediconnect" },
+];
+
+export interface MockAuthAdapterOptions {
+  users?: MockAuthUser[];
+  // Persiste usuários, sessão e links de recuperação no localStorage (padrão: true)
+  persist?: boolean;
+}
+
+interface RecoveryToken {
+  token: string;
+  user_id: string;
+}
+
+// Parâmetro do link de redefinição no hash da URL (como o Supabase faz com access_token)
+const RECOVERY_HASH_PARAM = "mock_recovery";
+
+export function createMockAuthAdapter(options: MockAuthAdapterOptions = {}): AuthAdapter {
+  const persist = options.persist ?? true;
+  const load = <T>(key: string, fallback: T[]): T[] => {
+    if (!persist) return fallback;
+    const stored = readCollection<T>(key);
+    return stored.length > 0 ? stored : fallback;
+  };
+  const save = <T>(key: string, items: T[]) => {
+    if (persist) writeCollection(key, items);
+  };
+
+  // Usuários armazenados só guardam alterações (ex.: nova senha) sobre a lista configurada
+  const stored = load<MockAuthUser>("auth_users", []);
+  let users = (options.users ?? DEFAULT_MOCK_AUTH_USERS).map((u) => ({
+    ...u,
+    password: stored.find((s) => s.id === u.id)?.password ?? u.password,
+  }));
+  let tokens = load<RecoveryToken>("auth_recovery_tokens", []);
+  const toSession = ({ id, email, name, role }: MockAuthUser): AuthSession => ({ user: { id, email, name, role } });
+  // Sessão armazenada é reconstruída a partir do usuário, para refletir mudanças de perfil
+  const storedUserId = load<AuthSession>("auth_session", [])[0]?.user.id;
+  const storedUser = users.find((u) => u.id === storedUserId);
+  let session: AuthSession | null = storedUser ? toSession(storedUser) : null;
+  const listeners = new Set<AuthChangeListener>();
+
+  const setSession = (next: AuthSession | null) => {
+    session = next;
+    save("auth_session", next ? [next] : []);
+    listeners.forEach((l) => l(session));
+  };
+
+  // Abre a sessão de recuperação quando a página é aberta pelo link de redefinição
+  const consumeRecoveryLink = () => {
+    if (typeof window === "undefined") return;
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    const token = params.get(RECOVERY_HASH_PARAM);
+    if (!token) return;
+    const found = tokens.find((t) => t.token === token);
+    tokens = tokens.filter((t) => t.token !== token);
+    save("auth_recovery_tokens", tokens);
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    const user = found && users.find((u) => u.id === found.user_id);
+    if (user) setSession(toSession(user));
+  };
+
+  return {
+    async getSession() {
+      consumeRecoveryLink();
+      return session;
+    },
+
+    onChange(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    async signIn(email, password) {
+      const user = users.find((u) => u.email.toLowerCase() === email.trim().toLowerCase());
+      if (!user || user.password !== password) throw new Error("E-mail ou senha inválidos");
+      const next = toSession(user);
+      setSession(next);
+      return next;
+    },
+
+    async signOut() {
+      setSession(null);
+    },
+
+    async requestPasswordReset(email, redirectTo) {
+      const user = users.find((u) => u.email.toLowerCase() === email.trim().toLowerCase());
+      // E-mail desconhecido não gera erro, para não revelar quais contas existem
+      if (!user) return;
+      const token = crypto.randomUUID();
+      tokens = [...tokens, { token, user_id: user.id }];
+      save("auth_recovery_tokens", tokens);
+      console.info(`[auth simulado] Link de redefinição de senha para ${user.email}: ${redirectTo}#${RECOVERY_HASH_PARAM}=${token}`);
+    },
+
+    async updatePassword(password) {
+      if (!session) throw new Error("Sessão expirada. Solicite um novo link de redefinição.");
+      users = users.map((u) => (u.id === session!.user.id ? { ...u, password } : u));
+      save("auth_users", users);
+    },
+  };
+}
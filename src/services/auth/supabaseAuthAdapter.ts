@@ -0,0 +1,52 @@
+// Autenticação pelo Supabase Auth (GoTrue), com sessão persistida pelo próprio cliente
+
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { resolveRole } from "@/lib/permissions";
+import type { AuthAdapter, AuthSession } from "./AuthAdapter";
+
+function toSession(session: Session | null): AuthSession | null {
+  if (!session?.user) return null;
+  const { user } = session;
+  const name = user.user_metadata?.full_name ?? user.user_metadata?.name ?? null;
+  // Perfil em app_metadata (só o administrador altera; user_metadata é editável pelo próprio usuário)
+  return { user: { id: user.id, email: user.email ?? "", name, role: resolveRole(user.app_metadata?.role) } };
+}
+
+export function createSupabaseAuthAdapter(): AuthAdapter {
+  return {
+    async getSession() {
+      const { data, error } = await supabase.auth.getSession();
+      if (error) throw new Error(error.message);
+      return toSession(data.session);
+    },
+
+    onChange(listener) {
+      const { data } = supabase.auth.onAuthStateChange((_event, session) => listener(toSession(session)));
+      return () => data.subscription.unsubscribe();
+    },
+
+    async signIn(email, password) {
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) {
+        throw new Error(error.status === 400 ? "E-mail ou senha inválidos" : error.message);
+      }
+      return toSession(data.session)!;
+    },
+
+    async signOut() {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw new Error(error.message);
+    },
+
+    async requestPasswordReset(email, redirectTo) {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo });
+      if (error) throw new Error(error.message);
+    },
+
+    async updatePassword(password) {
+      const { error } = await supabase.auth.updateUser({ password });
+      if (error) throw new Error(error.message);
+    },
+  };
+}
@@ -0,0 +1,25 @@
+// Serviço de autenticação
+// O provedor é escolhido por VITE_AUTH_BACKEND (Supabase Auth ou simulado).
+
+import { AUTH_BACKEND, type AuthBackend } from "@/lib/authBackend";
+import type { AuthAdapter, AuthChangeListener, AuthSession, AuthUser } from "./auth/AuthAdapter";
+import { createSupabaseAuthAdapter } from "./auth/supabaseAuthAdapter";
+import { createMockAuthAdapter } from "./auth/mockAuthAdapter";
+
+export type { AuthAdapter, AuthChangeListener, AuthSession, AuthUser };
+export { createMockAuthAdapter, DEFAULT_MOCK_AUTH_USERS } from "./auth/mockAuthAdapter";
+
+// Tamanho mínimo de senha aceito na redefinição
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function createAuthAdapter(backend: AuthBackend): AuthAdapter {
+  switch (backend) {
+    case "mock":
+      return createMockAuthAdapter();
+    default:
+      return createSupabaseAuthAdapter();
+  }
+}
+
+// Instância padrão, selecionada pela configuração do ambiente
+export const defaultAuthAdapter = createAuthAdapter(AUTH_BACKEND);
@@ -1,21 +1,65 @@
-// Mock de busca de endereço por CEP (API externa)
-// Substituir futuramente por consumo de um serviço real (ex.: ViaCEP)
-
-export interface AddressData {
-  street: string;
-  district: string;
-  city: string;
-  state: string; // UF
+// Busca de endereço por CEP
+// Consulta os provedores online em ordem (ViaCEP, depois BrasilAPI). A base offline só é usada
+// quando nenhum provedor online responde; "CEP não encontrado" de um provedor online é definitivo
+// apenas depois que todos confirmarem.
+
+import { onlyDigits } from "@/lib/utils";
+import { CepNetworkError, CepNotFoundError, type AddressData, type CepProvider } from "./cep/CepProvider";
+import { createViaCepProvider } from "./cep/viaCepProvider";
+import { createBrasilApiCepProvider } from "./cep/brasilApiCepProvider";
+import { createOfflineCepProvider } from "./cep/offlineCepProvider";
+import { getCachedAddress, setCachedAddress } from "./cep/cepCache";
+
+export type { AddressData, CepProvider };
+export { CepNetworkError, CepNotFoundError };
+export { clearCepCache } from "./cep/cepCache";
+
+export class InvalidCepError extends Error {
+  constructor() {
+    super("CEP deve conter 8 dígitos");
+    this.name = "InvalidCepError";
+  }
+}
+
+let onlineProviders: CepProvider[] = [createViaCepProvider(), createBrasilApiCepProvider()];
+let offlineProvider: CepProvider | null = createOfflineCepProvider();
+
+// Permite trocar a cadeia de provedores (ex.: testes, proxy próprio)
+export function setCepProviders(online: CepProvider[], offline: CepProvider | null = null) {
+  onlineProviders = online;
+  offlineProvider = offline;
 }
 
 export async function fetchAddressByZipCode(zip: string): Promise<AddressData> {
-  // Simula latência de rede
-  await new Promise((r) => setTimeout(r, 500));
-  // Retorno estático para demonstração
-  return {
-    street: "Rua das Palmeiras",
-    district: "Centro",
-    city: "São Paulo",
-    state: "SP",
-  };
+  const cep = onlyDigits(zip);
+  if (cep.length !== 8) throw new InvalidCepError();
+
+  const cached = getCachedAddress(cep);
+  if (cached) return cached;
+
+  let networkFailure = false;
+  for (const provider of onlineProviders) {
+    try {
+      const address = await provider.lookup(cep);
+      setCachedAddress(cep, address);
+      return address;
+    } catch (e) {
+      if (e instanceof CepNotFoundError) continue;
+      networkFailure = true;
+      console.warn(`Falha ao consultar CEP no provedor ${provider.name}`, e);
+    }
+  }
+
+  // Todos os provedores que responderam desconhecem o CEP
+  if (!networkFailure) throw new CepNotFoundError(cep);
+
+  if (offlineProvider) {
+    try {
+      // Resultado aproximado: não vai para o cache, para que a próxima consulta online o substitua
+      return await offlineProvider.lookup(cep);
+    } catch {
+      // Fora das faixas conhecidas: reporta a falha de rede original
+    }
+  }
+  throw new CepNetworkError();
 }
@@ -0,0 +1,51 @@
+// Contrato dos provedores de consulta de CEP e erros compartilhados pela cadeia de provedores
+
+export interface AddressData {
+  street: string;
+  district: string;
+  city: string;
+  state: string; // UF
+  // Nome do provedor que respondeu (ex.: "viacep", "offline")
+  source?: string;
+  // true quando só cidade/UF são conhecidas (base offline)
+  partial?: boolean;
+}
+
+export interface CepProvider {
+  name: string;
+  // Recebe o CEP com 8 dígitos. Lança CepNotFoundError ou CepNetworkError.
+  lookup(cep: string): Promise<AddressData>;
+}
+
+// O CEP não existe na base consultada
+export class CepNotFoundError extends Error {
+  constructor(public readonly cep: string) {
+    super("CEP não encontrado");
+    this.name = "CepNotFoundError";
+  }
+}
+
+// Falha de comunicação (sem conexão, tempo esgotado, resposta inesperada)
+export class CepNetworkError extends Error {
+  constructor(message = "Não foi possível consultar o CEP. Verifique a conexão e tente novamente.") {
+    super(message);
+    this.name = "CepNetworkError";
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 5000;
+
+// GET com tempo limite. Erros de transporte viram CepNetworkError; o status é devolvido ao provedor.
+export async function fetchCepJson(url: string): Promise<{ status: number; body: unknown }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, { signal: controller.signal, headers: { Accept: "application/json" } });
+    const body = res.status === 404 ? null : await res.json().catch(() => null);
+    return { status: res.status, body };
+  } catch {
+    throw new CepNetworkError();
+  } finally {
+    clearTimeout(timer);
+  }
+}
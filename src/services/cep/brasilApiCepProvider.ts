@@ -0,0 +1,29 @@
+// Provedor de contingência: BrasilAPI (https://brasilapi.com.br), que agrega outras bases de CEP
+
+import { CepNetworkError, CepNotFoundError, fetchCepJson, type AddressData, type CepProvider } from "./CepProvider";
+
+interface BrasilApiCepResponse {
+  street?: string | null;
+  neighborhood?: string | null;
+  city?: string;
+  state?: string;
+}
+
+export function createBrasilApiCepProvider(baseUrl = "https://brasilapi.com.br/api/cep/v2"): CepProvider {
+  return {
+    name: "brasilapi",
+    async lookup(cep: string): Promise<AddressData> {
+      const { status, body } = await fetchCepJson(`${baseUrl}/${cep}`);
+      if (status === 404) throw new CepNotFoundError(cep);
+      if (status !== 200 || !body) throw new CepNetworkError();
+      const data = body as BrasilApiCepResponse;
+      return {
+        street: data.street ?? "",
+        district: data.neighborhood ?? "",
+        city: data.city ?? "",
+        state: data.state ?? "",
+        source: "brasilapi",
+      };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+// Cache LRU de consultas de CEP, persistido no localStorage para sobreviver a recarregamentos
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { AddressData } from "./CepProvider";
+
+const CACHE_KEY = "cep_cache";
+const MAX_ENTRIES = 200;
+const TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface CepCacheEntry {
+  cep: string;
+  address: AddressData;
+  cached_at: number;
+}
+
+// Ordem do array = uso menos recente primeiro
+let entries: CepCacheEntry[] | null = null;
+
+function load(): CepCacheEntry[] {
+  entries ??= readCollection<CepCacheEntry>(CACHE_KEY).filter((e) => Date.now() - e.cached_at < TTL_MS);
+  return entries;
+}
+
+export function getCachedAddress(cep: string): AddressData | null {
+  const list = load();
+  const index = list.findIndex((e) => e.cep === cep);
+  if (index < 0) return null;
+  const [entry] = list.splice(index, 1);
+  if (Date.now() - entry.cached_at >= TTL_MS) {
+    try {
+      writeCollection(CACHE_KEY, list);
+    } catch {
+      // localStorage indisponível: a entrada vencida já saiu do cache em memória
+    }
+    return null;
+  }
+  list.push(entry);
+  return entry.address;
+}
+
+export function setCachedAddress(cep: string, address: AddressData): void {
+  const list = load().filter((e) => e.cep !== cep);
+  list.push({ cep, address, cached_at: Date.now() });
+  entries = list.slice(-MAX_ENTRIES);
+  try {
+    writeCollection(CACHE_KEY, entries);
+  } catch {
+    // localStorage cheio ou indisponível: mantém apenas o cache em memória
+  }
+}
+
+export function clearCepCache(): void {
+  entries = [];
+  try {
+    writeCollection(CACHE_KEY, []);
+  } catch {
+    // localStorage indisponível: o cache em memória já foi limpo
+  }
+}
@@ -0,0 +1,65 @@
+// Base offline de faixas de CEP (Correios): UF por faixa e faixas das capitais.
+// Usada apenas quando os provedores online estão indisponíveis; não identifica logradouro nem bairro.
+
+// [início, fim] em prefixos de 5 dígitos
+export type CepRange = [number, number];
+
+export const STATE_CEP_RANGES: { state: string; ranges: CepRange[] }[] = [
+  { state: "SP", ranges: [[1000, 19999]] },
+  { state: "RJ", ranges: [[20000, 28999]] },
+  { state: "ES", ranges: [[29000, 29999]] },
+  { state: "MG", ranges: [[30000, 39999]] },
+  { state: "BA", ranges: [[40000, 48999]] },
+  { state: "SE", ranges: [[49000, 49999]] },
+  { state: "PE", ranges: [[50000, 56999]] },
+  { state: "AL", ranges: [[57000, 57999]] },
+  { state: "PB", ranges: [[58000, 58999]] },
+  { state: "RN", ranges: [[59000, 59999]] },
+  { state: "CE", ranges: [[60000, 63999]] },
+  { state: "PI", ranges: [[64000, 64999]] },
+  { state: "MA", ranges: [[65000, 65999]] },
+  { state: "PA", ranges: [[66000, 68899]] },
+  { state: "AP", ranges: [[68900, 68999]] },
+  { state: "AM", ranges: [[69000, 69299], [69400, 69899]] },
+  { state: "RR", ranges: [[69300, 69399]] },
+  { state: "AC", ranges: [[69900, 69999]] },
+  { state: "DF", ranges: [[70000, 72799], [73000, 73699]] },
+  { state: "GO", ranges: [[72800, 72999], [73700, 76799]] },
+  { state: "RO", ranges: [[76800, 76999]] },
+  { state: "TO", ranges: [[77000, 77999]] },
+  { state: "MT", ranges: [[78000, 78899]] },
+  { state: "MS", ranges: [[79000, 79999]] },
+  { state: "PR", ranges: [[80000, 87999]] },
+  { state: "SC", ranges: [[88000, 89999]] },
+  { state: "RS", ranges: [[90000, 99999]] },
+];
+
+export const CITY_CEP_RANGES: { city: string; state: string; ranges: CepRange[] }[] = [
+  { city: "São Paulo", state: "SP", ranges: [[1000, 5999], [8000, 8499]] },
+  { city: "Rio de Janeiro", state: "RJ", ranges: [[20000, 23799]] },
+  { city: "Vitória", state: "ES", ranges: [[29000, 29099]] },
+  { city: "Belo Horizonte", state: "MG", ranges: [[30000, 31999]] },
+  { city: "Salvador", state: "BA", ranges: [[40000, 42599]] },
+  { city: "Aracaju", state: "SE", ranges: [[49000, 49098]] },
+  { city: "Recife", state: "PE", ranges: [[50000, 52999]] },
+  { city: "Maceió", state: "AL", ranges: [[57000, 57099]] },
+  { city: "João Pessoa", state: "PB", ranges: [[58000, 58099]] },
+  { city: "Natal", state: "RN", ranges: [[59000, 59139]] },
+  { city: "Fortaleza", state: "CE", ranges: [[60000, 61599]] },
+  { city: "Teresina", state: "PI", ranges: [[64000, 64099]] },
+  { city: "São Luís", state: "MA", ranges: [[65000, 65099]] },
+  { city: "Belém", state: "PA", ranges: [[66000, 66999]] },
+  { city: "Macapá", state: "AP", ranges: [[68900, 68914]] },
+  { city: "Manaus", state: "AM", ranges: [[69000, 69099]] },
+  { city: "Boa Vista", state: "RR", ranges: [[69300, 69339]] },
+  { city: "Rio Branco", state: "AC", ranges: [[69900, 69923]] },
+  { city: "Brasília", state: "DF", ranges: [[70000, 72799], [73000, 73699]] },
+  { city: "Goiânia", state: "GO", ranges: [[74000, 74899]] },
+  { city: "Porto Velho", state: "RO", ranges: [[76800, 76834]] },
+  { city: "Palmas", state: "TO", ranges: [[77000, 77270]] },
+  { city: "Cuiabá", state: "MT", ranges: [[78000, 78109]] },
+  { city: "Campo Grande", state: "MS", ranges: [[79000, 79129]] },
+  { city: "Curitiba", state: "PR", ranges: [[80000, 82999]] },
+  { city: "Florianópolis", state: "SC", ranges: [[88000, 88099]] },
+  { city: "Porto Alegre", state: "RS", ranges: [[90000, 91999]] },
+];
@@ -0,0 +1,19 @@
+// Provedor offline: resolve cidade/UF pelas faixas de CEP embarcadas no bundle
+
+import { CepNotFoundError, type AddressData, type CepProvider } from "./CepProvider";
+import { CITY_CEP_RANGES, STATE_CEP_RANGES, type CepRange } from "./offlineCepDataset";
+
+const inRanges = (prefix: number, ranges: CepRange[]) => ranges.some(([from, to]) => prefix >= from && prefix <= to);
+
+export function createOfflineCepProvider(): CepProvider {
+  return {
+    name: "offline",
+    async lookup(cep: string): Promise<AddressData> {
+      const prefix = Number(cep.slice(0, 5));
+      const city = CITY_CEP_RANGES.find((c) => inRanges(prefix, c.ranges));
+      const state = city?.state ?? STATE_CEP_RANGES.find((s) => inRanges(prefix, s.ranges))?.state;
+      if (!state) throw new CepNotFoundError(cep);
+      return { street: "", district: "", city: city?.city ?? "", state, source: "offline", partial: true };
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// Provedor principal: ViaCEP (https://viacep.com.br)
+
+import { CepNetworkError, CepNotFoundError, fetchCepJson, type AddressData, type CepProvider } from "./CepProvider";
+
+interface ViaCepResponse {
+  erro?: boolean | string;
+  logradouro?: string;
+  bairro?: string;
+  localidade?: string;
+  uf?: string;
+}
+
+export function createViaCepProvider(baseUrl = "https://viacep.com.br/ws"): CepProvider {
+  return {
+    name: "viacep",
+    async lookup(cep: string): Promise<AddressData> {
+      const { status, body } = await fetchCepJson(`${baseUrl}/${cep}/json/`);
+      // ViaCEP responde 200 com { erro: true } para CEP inexistente e 400 para formato inválido
+      if (status === 400) throw new CepNotFoundError(cep);
+      if (status !== 200 || !body) throw new CepNetworkError();
+      const data = body as ViaCepResponse;
+      if (data.erro) throw new CepNotFoundError(cep);
+      return {
+        street: data.logradouro ?? "",
+        district: data.bairro ?? "",
+        city: data.localidade ?? "",
+        state: data.uf ?? "",
+        source: "viacep",
+      };
+    },
+  };
+}
@@ -0,0 +1,9 @@
+// Contrato de armazenamento de Clínicas e vínculos de usuários
+
+import type { Clinic } from "@/types/clinic";
+
+export interface ClinicRepository {
+  // Clínicas em que o usuário atua, em ordem alfabética
+  listForUser(userId: string): Promise<Clinic[]>;
+  getById(id: string): Promise<Clinic | null>;
+}
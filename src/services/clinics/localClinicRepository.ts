@@ -0,0 +1,28 @@
+// Repositório de Clínicas persistido no localStorage (sobrevive a recarregamentos, para demos).
+// Coleções vazias são semeadas com as clínicas e vínculos de demonstração.
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { Clinic, ClinicMember } from "@/types/clinic";
+import type { ClinicRepository } from "./ClinicRepository";
+import {
+  createMemoryClinicRepository,
+  DEFAULT_MOCK_CLINIC_MEMBERS,
+  DEFAULT_MOCK_CLINICS,
+} from "./memoryClinicRepository";
+
+function readOrSeed<T>(key: string, seed: T[]): T[] {
+  const stored = readCollection<T>(key);
+  if (stored.length > 0) return stored;
+  writeCollection(key, seed);
+  return seed;
+}
+
+export function createLocalClinicRepository(
+  clinicsKey = "clinics",
+  membersKey = "clinic_members"
+): ClinicRepository {
+  return createMemoryClinicRepository({
+    clinics: readOrSeed<Clinic>(clinicsKey, DEFAULT_MOCK_CLINICS),
+    members: readOrSeed<ClinicMember>(membersKey, DEFAULT_MOCK_CLINIC_MEMBERS),
+  });
+}
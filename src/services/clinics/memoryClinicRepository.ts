@@ -0,0 +1,45 @@
+// Repositório de Clínicas em memória (base também do backend localStorage)
+
+import { DEFAULT_CLINIC_ID } from "@/lib/currentClinic";
+import type { Clinic, ClinicMember } from "@/types/clinic";
+import type { ClinicRepository } from "./ClinicRepository";
+
+// Clínicas de demonstração; a padrão recebe os cadastros anteriores à multi-clínica
+export const DEFAULT_MOCK_CLINICS: Clinic[] = [
+  { id: DEFAULT_CLINIC_ID, name: "MediConnect Central", city: "São Paulo", state: "SP" },
+  { id: "00000000-0000-0000-0000-000000000002", name: "MediConnect Zona Sul", city: "São Paulo", state: "SP" },
+];
+
+// Vínculos dos usuários simulados (ver DEFAULT_MOCK_AUTH_USERS)
+export const DEFAULT_MOCK_CLINIC_MEMBERS: ClinicMember[] = [
+  ...["mock-admin", "mock-reception", "mock-billing"].flatMap((user_id) =>
+    DEFAULT_MOCK_CLINICS.map((c) => ({ clinic_id: c.id, user_id }))
+  ),
+  { clinic_id: DEFAULT_MOCK_CLINICS[0].id, user_id: "mock-doctor" },
+  { clinic_id: DEFAULT_MOCK_CLINICS[1].id, user_id: "mock-nurse" },
+];
+
+export interface MemoryClinicRepositoryOptions {
+  clinics?: Clinic[];
+  members?: ClinicMember[];
+}
+
+export function createMemoryClinicRepository(options: MemoryClinicRepositoryOptions = {}): ClinicRepository {
+  const clinics = options.clinics ?? DEFAULT_MOCK_CLINICS;
+  const members = options.members ?? DEFAULT_MOCK_CLINIC_MEMBERS;
+
+  return {
+    async listForUser(userId: string): Promise<Clinic[]> {
+      const own = members.filter((m) => m.user_id === userId).map((m) => m.clinic_id);
+      // Usuário sem vínculo registrado (ex.: login real com dados locais) acessa a clínica padrão
+      const ids = own.length > 0 ? own : [DEFAULT_CLINIC_ID];
+      return clinics
+        .filter((c) => ids.includes(c.id))
+        .sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+    },
+
+    async getById(id: string): Promise<Clinic | null> {
+      return clinics.find((c) => c.id === id) ?? null;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+// Repositório de Clínicas sobre as tabelas public.clinics e public.clinic_members do Supabase
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Clinic } from "@/types/clinic";
+import type { ClinicRepository } from "./ClinicRepository";
+
+export function createSupabaseClinicRepository(): ClinicRepository {
+  return {
+    async listForUser(userId: string): Promise<Clinic[]> {
+      const { data: members, error: membersError } = await supabase
+        .from("clinic_members")
+        .select("clinic_id")
+        .eq("user_id", userId);
+      if (membersError) throw new Error(membersError.message);
+      if (!members || members.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from("clinics")
+        .select("*")
+        .in("id", members.map((m) => m.clinic_id))
+        .order("name", { ascending: true });
+      if (error) throw new Error(error.message);
+      return data ?? [];
+    },
+
+    async getById(id: string): Promise<Clinic | null> {
+      const { data, error } = await supabase.from("clinics").select("*").eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data;
+    },
+  };
+}
@@ -0,0 +1,57 @@
+// Serviço de Clínicas (multi-clínica)
+// Lista as clínicas do usuário e lembra a última clínica ativa escolhida em cada navegador.
+
+import { CLINIC_LOCATION, type ClinicLocation } from "@/lib/clinic";
+import { DATA_BACKEND, type DataBackend } from "@/lib/dataBackend";
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { Clinic } from "@/types/clinic";
+import type { ClinicRepository } from "./clinics/ClinicRepository";
+import { createMemoryClinicRepository } from "./clinics/memoryClinicRepository";
+import { createLocalClinicRepository } from "./clinics/localClinicRepository";
+import { createSupabaseClinicRepository } from "./clinics/supabaseClinicRepository";
+
+export type { ClinicRepository };
+export { DEFAULT_MOCK_CLINICS, DEFAULT_MOCK_CLINIC_MEMBERS } from "./clinics/memoryClinicRepository";
+
+const PREFERRED_CLINIC_KEY = "active_clinic";
+
+interface PreferredClinic {
+  user_id: string;
+  clinic_id: string;
+}
+
+export function createClinicRepository(backend: DataBackend): ClinicRepository {
+  switch (backend) {
+    case "memory":
+      return createMemoryClinicRepository();
+    case "local":
+      return createLocalClinicRepository();
+    default:
+      return createSupabaseClinicRepository();
+  }
+}
+
+const repository = createClinicRepository(DATA_BACKEND);
+
+export async function listUserClinics(userId: string): Promise<Clinic[]> {
+  return repository.listForUser(userId);
+}
+
+// Cidade e UF da clínica (fator de distância do score de absenteísmo).
+// Clínica sem cidade ou UF cadastrada usa a localização configurada no ambiente.
+export async function getClinicLocation(clinicId: string): Promise<ClinicLocation> {
+  const clinic = await repository.getById(clinicId);
+  if (!clinic?.city || !clinic.state) return CLINIC_LOCATION;
+  return { city: clinic.city, state: clinic.state };
+}
+
+// Clínica ativa inicial: a última escolhida pelo usuário, se ele ainda tiver acesso; senão a primeira
+export function pickInitialClinic(userId: string, clinics: Clinic[]): Clinic | null {
+  const preferred = readCollection<PreferredClinic>(PREFERRED_CLINIC_KEY).find((p) => p.user_id === userId);
+  return clinics.find((c) => c.id === preferred?.clinic_id) ?? clinics[0] ?? null;
+}
+
+export function savePreferredClinic(userId: string, clinicId: string): void {
+  const others = readCollection<PreferredClinic>(PREFERRED_CLINIC_KEY).filter((p) => p.user_id !== userId);
+  writeCollection(PREFERRED_CLINIC_KEY, [...others, { user_id: userId, clinic_id: clinicId }]);
+}
@@ -0,0 +1,21 @@
+// Contrato de armazenamento dos documentos anexados aos Pacientes (somente os metadados; o arquivo fica no FileStorage)
+
+import type { PatientDocument, PatientDocumentInsert, PatientDocumentUpdate } from "@/types/patientDocument";
+
+export interface ListPatientDocumentsParams {
+  clinicId?: string;
+  patientIds?: string[];
+}
+
+export interface ListPatientDocumentsResult {
+  data: PatientDocument[];
+  count: number;
+}
+
+export interface PatientDocumentRepository {
+  list(params: ListPatientDocumentsParams): Promise<ListPatientDocumentsResult>;
+  getById(id: string): Promise<PatientDocument | null>;
+  create(payload: PatientDocumentInsert): Promise<PatientDocument>;
+  update(payload: PatientDocumentUpdate): Promise<PatientDocument>;
+  delete(id: string): Promise<void>;
+}
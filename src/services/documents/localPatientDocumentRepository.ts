@@ -0,0 +1,13 @@
+// Repositório de documentos de pacientes persistido no localStorage (os arquivos ficam no IndexedDB)
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { PatientDocument } from "@/types/patientDocument";
+import { createMemoryPatientDocumentRepository } from "./memoryPatientDocumentRepository";
+import type { PatientDocumentRepository } from "./PatientDocumentRepository";
+
+export function createLocalPatientDocumentRepository(storageKey = "patient_documents"): PatientDocumentRepository {
+  return createMemoryPatientDocumentRepository({
+    initial: readCollection<PatientDocument>(storageKey),
+    onChange: (items) => writeCollection(storageKey, items),
+  });
+}
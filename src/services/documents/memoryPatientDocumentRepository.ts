@@ -0,0 +1,64 @@
+// Repositório de documentos de pacientes em memória (base também do backend localStorage)
+
+import { clinicOf } from "@/lib/currentClinic";
+import type { PatientDocument } from "@/types/patientDocument";
+import type {
+  ListPatientDocumentsParams,
+  ListPatientDocumentsResult,
+  PatientDocumentRepository,
+} from "./PatientDocumentRepository";
+
+export interface MemoryPatientDocumentRepositoryOptions {
+  initial?: PatientDocument[];
+  // Chamado após cada alteração (ex.: para persistir em localStorage)
+  onChange?: (items: PatientDocument[]) => void;
+}
+
+function matches(d: PatientDocument, params: ListPatientDocumentsParams) {
+  if (params.clinicId && clinicOf(d) !== params.clinicId) return false;
+  if (params.patientIds && !params.patientIds.includes(d.patient_id)) return false;
+  return true;
+}
+
+export function createMemoryPatientDocumentRepository(
+  options: MemoryPatientDocumentRepositoryOptions = {}
+): PatientDocumentRepository {
+  let items: PatientDocument[] = [...(options.initial ?? [])];
+  const commit = (next: PatientDocument[]) => {
+    items = next;
+    options.onChange?.(items);
+  };
+
+  return {
+    async list(params: ListPatientDocumentsParams): Promise<ListPatientDocumentsResult> {
+      // Mais recentes primeiro (created_at desc)
+      const data = items
+        .filter((d) => matches(d, params))
+        .sort((a, b) => new Date(b.created_at ?? 0).getTime() - new Date(a.created_at ?? 0).getTime());
+      return { data, count: data.length };
+    },
+
+    async getById(id: string): Promise<PatientDocument | null> {
+      return items.find((d) => d.id === id) ?? null;
+    },
+
+    async create(payload): Promise<PatientDocument> {
+      const now = new Date().toISOString();
+      const entity: PatientDocument = { ...payload, id: crypto.randomUUID(), created_at: now, updated_at: now };
+      commit([...items, entity]);
+      return entity;
+    },
+
+    async update(payload): Promise<PatientDocument> {
+      const idx = items.findIndex((d) => d.id === payload.id);
+      if (idx < 0) throw new Error("Documento não encontrado");
+      const updated: PatientDocument = { ...items[idx], ...payload, updated_at: new Date().toISOString() };
+      commit(items.map((d, i) => (i === idx ? updated : d)));
+      return updated;
+    },
+
+    async delete(id: string): Promise<void> {
+      commit(items.filter((d) => d.id !== id));
+    },
+  };
+}
@@ -0,0 +1,74 @@
+// Repositório de documentos de pacientes sobre a tabela public.patient_documents do Supabase
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { clinicOf } from "@/lib/currentClinic";
+import type { PatientDocument, PatientDocumentType } from "@/types/patientDocument";
+import type {
+  ListPatientDocumentsParams,
+  ListPatientDocumentsResult,
+  PatientDocumentRepository,
+} from "./PatientDocumentRepository";
+
+type PatientDocumentRow = Database["public"]["Tables"]["patient_documents"]["Row"];
+
+function fromRow(row: PatientDocumentRow): PatientDocument {
+  return {
+    ...row,
+    document_type: row.document_type as PatientDocumentType,
+    created_at: row.created_at ?? undefined,
+    updated_at: row.updated_at ?? undefined,
+  };
+}
+
+export function createSupabasePatientDocumentRepository(): PatientDocumentRepository {
+  return {
+    async list(params: ListPatientDocumentsParams): Promise<ListPatientDocumentsResult> {
+      let query = supabase
+        .from("patient_documents")
+        .select("*", { count: "exact" })
+        .order("created_at", { ascending: false });
+
+      if (params.clinicId) query = query.eq("clinic_id", params.clinicId);
+      if (params.patientIds) query = query.in("patient_id", params.patientIds);
+
+      const { data, count, error } = await query;
+      if (error) throw new Error(error.message);
+      return { data: (data ?? []).map(fromRow), count: count ?? 0 };
+    },
+
+    async getById(id: string): Promise<PatientDocument | null> {
+      const { data, error } = await supabase.from("patient_documents").select("*").eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data) : null;
+    },
+
+    async create(payload): Promise<PatientDocument> {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from("patient_documents")
+        .insert({ ...payload, clinic_id: clinicOf(payload), created_at: now, updated_at: now })
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return fromRow(data);
+    },
+
+    async update({ id, ...changes }): Promise<PatientDocument> {
+      const { data, error } = await supabase
+        .from("patient_documents")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) throw new Error("Documento não encontrado");
+      return fromRow(data);
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await supabase.from("patient_documents").delete().eq("id", id);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
@@ -0,0 +1,71 @@
+// Serviço de armazenamento de arquivos (fotos e anexos de pacientes)
+// Os cadastros guardam uma referência "storage://<bucket>/<caminho>", resolvida em URL na hora de exibir:
+// URLs assinadas do Supabase expiram e object URLs do IndexedDB só valem na sessão.
+
+import { DATA_BACKEND, type DataBackend } from "@/lib/dataBackend";
+import { FileNotFoundError, type FileStorage } from "./storage/FileStorage";
+import { createMemoryFileStorage } from "./storage/memoryFileStorage";
+import { createIndexedDbFileStorage } from "./storage/indexedDbFileStorage";
+import { createSupabaseFileStorage, SIGNED_URL_TTL_SECONDS } from "./storage/supabaseFileStorage";
+
+export type { FileStorage };
+export { FileNotFoundError };
+
+const REF_PREFIX = "storage://";
+
+// Tempo em que uma URL resolvida pode ser reutilizada (antes de a URL assinada expirar)
+export const FILE_URL_STALE_MS = (SIGNED_URL_TTL_SECONDS - 5 * 60) * 1000;
+
+export function createFileStorage(backend: DataBackend): FileStorage {
+  switch (backend) {
+    case "memory":
+      return createMemoryFileStorage();
+    case "local":
+      return createIndexedDbFileStorage();
+    default:
+      return createSupabaseFileStorage();
+  }
+}
+
+let storage = createFileStorage(DATA_BACKEND);
+
+// Permite trocar o armazenamento (ex.: testes)
+export function setFileStorage(next: FileStorage) {
+  storage = next;
+}
+
+export function toFileRef(bucket: string, path: string): string {
+  return `${REF_PREFIX}${bucket}/${path}`;
+}
+
+// null para valores que não são referências do armazenamento (ex.: URLs externas de cadastros legados)
+export function parseFileRef(ref: string | null | undefined): { bucket: string; path: string } | null {
+  if (!ref?.startsWith(REF_PREFIX)) return null;
+  const rest = ref.slice(REF_PREFIX.length);
+  const slash = rest.indexOf("/");
+  if (slash <= 0 || slash === rest.length - 1) return null;
+  return { bucket: rest.slice(0, slash), path: rest.slice(slash + 1) };
+}
+
+// Grava o arquivo e devolve a referência para o cadastro
+export async function uploadFile(bucket: string, path: string, file: Blob): Promise<string> {
+  await storage.upload(bucket, path, file);
+  return toFileRef(bucket, path);
+}
+
+// URL exibível; URLs comuns (http, data:) são devolvidas como estão
+export async function resolveFileUrl(ref: string): Promise<string> {
+  const parsed = parseFileRef(ref);
+  if (!parsed) return ref;
+  return storage.getUrl(parsed.bucket, parsed.path);
+}
+
+// Remove os arquivos das referências; valores que não são do armazenamento são ignorados
+export async function removeFiles(refs: string[]): Promise<void> {
+  const byBucket = new Map<string, string[]>();
+  for (const ref of refs) {
+    const parsed = parseFileRef(ref);
+    if (parsed) byBucket.set(parsed.bucket, [...(byBucket.get(parsed.bucket) ?? []), parsed.path]);
+  }
+  for (const [bucket, paths] of byBucket) await storage.remove(bucket, paths);
+}
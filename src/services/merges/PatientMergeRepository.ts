@@ -0,0 +1,22 @@
+// Contrato de armazenamento do histórico de mesclagens de Pacientes
+
+import type { PatientMerge, PatientMergeInsert, PatientMergeUpdate } from "@/types/patientMerge";
+
+export interface ListPatientMergesParams {
+  clinicId?: string;
+  patientId?: string; // Mesclagens em que o paciente foi sobrevivente ou absorvido
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface ListPatientMergesResult {
+  data: PatientMerge[];
+  count: number;
+}
+
+export interface PatientMergeRepository {
+  list(params: ListPatientMergesParams): Promise<ListPatientMergesResult>;
+  getById(id: string): Promise<PatientMerge | null>;
+  create(payload: PatientMergeInsert): Promise<PatientMerge>;
+  update(payload: PatientMergeUpdate): Promise<PatientMerge>;
+}
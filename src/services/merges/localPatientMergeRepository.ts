@@ -0,0 +1,13 @@
+// Repositório de mesclagens persistido no localStorage (sobrevive a recarregamentos, para demos)
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { PatientMerge } from "@/types/patientMerge";
+import { createMemoryPatientMergeRepository } from "./memoryPatientMergeRepository";
+import type { PatientMergeRepository } from "./PatientMergeRepository";
+
+export function createLocalPatientMergeRepository(storageKey = "patient_merges"): PatientMergeRepository {
+  return createMemoryPatientMergeRepository({
+    initial: readCollection<PatientMerge>(storageKey),
+    onChange: (items) => writeCollection(storageKey, items),
+  });
+}
@@ -0,0 +1,53 @@
+// Repositório de mesclagens em memória (base também do backend localStorage)
+
+import { clinicOf } from "@/lib/currentClinic";
+import type { PatientMerge } from "@/types/patientMerge";
+import type { ListPatientMergesParams, ListPatientMergesResult, PatientMergeRepository } from "./PatientMergeRepository";
+
+export interface MemoryPatientMergeRepositoryOptions {
+  initial?: PatientMerge[];
+  // Chamado após cada alteração (ex.: para persistir em localStorage)
+  onChange?: (items: PatientMerge[]) => void;
+}
+
+export function createMemoryPatientMergeRepository(
+  options: MemoryPatientMergeRepositoryOptions = {}
+): PatientMergeRepository {
+  let items: PatientMerge[] = [...(options.initial ?? [])];
+  const commit = (next: PatientMerge[]) => {
+    items = next;
+    options.onChange?.(items);
+  };
+
+  return {
+    async list({ clinicId, patientId, page = 1, pageSize }: ListPatientMergesParams): Promise<ListPatientMergesResult> {
+      // Mais recentes primeiro
+      const filtered = items
+        .filter((m) => !clinicId || clinicOf(m) === clinicId)
+        .filter((m) => !patientId || m.survivor_id === patientId || m.merged_id === patientId)
+        .sort((a, b) => b.merged_at.localeCompare(a.merged_at));
+      const count = filtered.length;
+      if (!pageSize) return { data: filtered, count };
+      const from = (page - 1) * pageSize;
+      return { data: filtered.slice(from, from + pageSize), count };
+    },
+
+    async getById(id: string): Promise<PatientMerge | null> {
+      return items.find((m) => m.id === id) ?? null;
+    },
+
+    async create(payload): Promise<PatientMerge> {
+      const entity: PatientMerge = { ...payload, id: crypto.randomUUID(), created_at: new Date().toISOString() };
+      commit([...items, entity]);
+      return entity;
+    },
+
+    async update(payload): Promise<PatientMerge> {
+      const idx = items.findIndex((m) => m.id === payload.id);
+      if (idx < 0) throw new Error("Mesclagem não encontrada");
+      const updated: PatientMerge = { ...items[idx], ...payload };
+      commit(items.map((m, i) => (i === idx ? updated : m)));
+      return updated;
+    },
+  };
+}
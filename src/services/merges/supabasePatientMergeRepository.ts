@@ -0,0 +1,90 @@
+// Repositório de mesclagens sobre a tabela public.patient_merges do Supabase
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { clinicOf } from "@/lib/currentClinic";
+import type { Patient } from "@/types/patient";
+import type { MergeFieldChoices, PatientMerge, PatientMergeInsert } from "@/types/patientMerge";
+import type { ListPatientMergesParams, ListPatientMergesResult, PatientMergeRepository } from "./PatientMergeRepository";
+
+type PatientMergeRow = Database["public"]["Tables"]["patient_merges"]["Row"];
+
+function fromRow(row: PatientMergeRow): PatientMerge {
+  return {
+    ...row,
+    field_choices: row.field_choices as MergeFieldChoices,
+    survivor_snapshot: row.survivor_snapshot as unknown as Patient,
+    merged_snapshot: row.merged_snapshot as unknown as Patient,
+    repointed: row.repointed as Record<string, string[]>,
+    created_at: row.created_at ?? undefined,
+  };
+}
+
+// Campos JSON do domínio -> Json do banco (atualizações parciais)
+function toRow<T extends Partial<PatientMergeInsert>>(payload: T) {
+  const { field_choices, survivor_snapshot, merged_snapshot, repointed, ...rest } = payload;
+  return {
+    ...rest,
+    ...(field_choices !== undefined ? { field_choices: field_choices as Json } : {}),
+    ...(survivor_snapshot !== undefined ? { survivor_snapshot: survivor_snapshot as unknown as Json } : {}),
+    ...(merged_snapshot !== undefined ? { merged_snapshot: merged_snapshot as unknown as Json } : {}),
+    ...(repointed !== undefined ? { repointed: repointed as Json } : {}),
+  };
+}
+
+export function createSupabasePatientMergeRepository(): PatientMergeRepository {
+  return {
+    async list({ clinicId, patientId, page = 1, pageSize }: ListPatientMergesParams): Promise<ListPatientMergesResult> {
+      let query = supabase
+        .from("patient_merges")
+        .select("*", { count: "exact" })
+        .order("merged_at", { ascending: false });
+      if (clinicId) query = query.eq("clinic_id", clinicId);
+      if (patientId) query = query.or(`survivor_id.eq.${patientId},merged_id.eq.${patientId}`);
+      if (pageSize) {
+        const from = (page - 1) * pageSize;
+        query = query.range(from, from + pageSize - 1);
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw new Error(error.message);
+      return { data: (data ?? []).map(fromRow), count: count ?? 0 };
+    },
+
+    async getById(id: string): Promise<PatientMerge | null> {
+      const { data, error } = await supabase.from("patient_merges").select("*").eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data) : null;
+    },
+
+    async create(payload): Promise<PatientMerge> {
+      const { data, error } = await supabase
+        .from("patient_merges")
+        .insert({
+          ...payload,
+          clinic_id: clinicOf(payload),
+          field_choices: payload.field_choices as Json,
+          survivor_snapshot: payload.survivor_snapshot as unknown as Json,
+          merged_snapshot: payload.merged_snapshot as unknown as Json,
+          repointed: payload.repointed as Json,
+          created_at: new Date().toISOString(),
+        })
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return fromRow(data);
+    },
+
+    async update({ id, ...changes }): Promise<PatientMerge> {
+      const { data, error } = await supabase
+        .from("patient_merges")
+        .update(toRow(changes))
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) throw new Error("Mesclagem não encontrada");
+      return fromRow(data);
+    },
+  };
+}
@@ -0,0 +1,145 @@
+// Serviço de documentos anexados aos Pacientes
+// Os metadados (tipo, descrição, emissão e validade) ficam no repositório e o arquivo no armazenamento
+// de arquivos, na pasta <clínica>/<paciente> do bucket patient-documents.
+
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { DATA_BACKEND, type DataBackend } from "@/lib/dataBackend";
+import { getCurrentActor } from "@/lib/currentActor";
+import { clinicOf, requireClinicId } from "@/lib/currentClinic";
+import { assertCan } from "@/lib/permissions";
+import type { DocumentExpiryStatus, PatientDocument, PatientDocumentType } from "@/types/patientDocument";
+import type {
+  ListPatientDocumentsParams,
+  ListPatientDocumentsResult,
+  PatientDocumentRepository,
+} from "./documents/PatientDocumentRepository";
+import { createMemoryPatientDocumentRepository } from "./documents/memoryPatientDocumentRepository";
+import { createLocalPatientDocumentRepository } from "./documents/localPatientDocumentRepository";
+import { createSupabasePatientDocumentRepository } from "./documents/supabasePatientDocumentRepository";
+import { removeFiles, uploadFile } from "./fileStorageService";
+import { getPatientById } from "./patientsService";
+
+export type { ListPatientDocumentsParams, ListPatientDocumentsResult, PatientDocumentRepository };
+
+export const PATIENT_DOCUMENTS_BUCKET = "patient-documents";
+// Limites do bucket (supabase/migrations/20261019230000_create_patient_documents.sql)
+export const DOCUMENT_MAX_BYTES = 10 * 1024 * 1024;
+export const DOCUMENT_MIME_TYPES = ["application/pdf", "image/jpeg", "image/png", "image/webp"];
+// Antecedência com que documentos a vencer são sinalizados
+export const DOCUMENT_EXPIRY_WARNING_DAYS = 30;
+
+const EXTENSIONS: Record<string, string> = {
+  "application/pdf": "pdf",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+export function createPatientDocumentRepository(backend: DataBackend): PatientDocumentRepository {
+  switch (backend) {
+    case "memory":
+      return createMemoryPatientDocumentRepository();
+    case "local":
+      return createLocalPatientDocumentRepository();
+    default:
+      return createSupabasePatientDocumentRepository();
+  }
+}
+
+const repository = createPatientDocumentRepository(DATA_BACKEND);
+
+// Situação da validade; null para documentos sem data de validade
+export function getDocumentExpiryStatus(
+  document: Pick<PatientDocument, "expires_at">,
+  now = new Date()
+): DocumentExpiryStatus | null {
+  if (!document.expires_at) return null;
+  const days = differenceInCalendarDays(parseISO(document.expires_at), now);
+  if (days < 0) return "expired";
+  return days <= DOCUMENT_EXPIRY_WARNING_DAYS ? "expiring" : "valid";
+}
+
+export async function listPatientDocuments(patientId: string): Promise<PatientDocument[]> {
+  assertCan("read", "patient_document");
+  const { data } = await repository.list({ clinicId: requireClinicId(), patientIds: [patientId] });
+  return data;
+}
+
+export interface UploadPatientDocumentInput {
+  patient_id: string;
+  file: File;
+  document_type: PatientDocumentType;
+  description?: string | null;
+  issued_at?: string | null; // yyyy-MM-dd
+  expires_at?: string | null; // yyyy-MM-dd
+}
+
+// Verifica o arquivo antes do envio (mesmas regras do bucket)
+export function validateDocumentFile(file: File): string | null {
+  if (!DOCUMENT_MIME_TYPES.includes(file.type)) return "Formato não suportado. Envie PDF, JPEG, PNG ou WebP";
+  if (file.size > DOCUMENT_MAX_BYTES) return "Arquivo muito grande (máximo de 10 MB)";
+  if (file.size === 0) return "O arquivo está vazio";
+  return null;
+}
+
+// Grava o arquivo e registra o documento; se o registro falhar, o arquivo enviado é removido
+export async function uploadPatientDocument(input: UploadPatientDocumentInput): Promise<PatientDocument> {
+  assertCan("create", "patient_document");
+  const invalid = validateDocumentFile(input.file);
+  if (invalid) throw new Error(invalid);
+  if (input.issued_at && input.expires_at && input.expires_at < input.issued_at) {
+    throw new Error("A validade deve ser posterior à emissão");
+  }
+
+  // getPatientById já se restringe à clínica ativa; um id mesclado devolve o cadastro sobrevivente
+  const patient = await getPatientById(input.patient_id);
+  if (!patient || patient.id !== input.patient_id) throw new Error("Paciente não encontrado");
+  if (patient.deleted_at) throw new Error("Restaure o paciente da lixeira antes de anexar documentos");
+
+  const clinicId = requireClinicId();
+  const path = `${clinicId}/${input.patient_id}/${crypto.randomUUID()}.${EXTENSIONS[input.file.type]}`;
+  const fileRef = await uploadFile(PATIENT_DOCUMENTS_BUCKET, path, input.file);
+  try {
+    return await repository.create({
+      clinic_id: clinicId,
+      patient_id: input.patient_id,
+      document_type: input.document_type,
+      description: input.description?.trim() || null,
+      issued_at: input.issued_at || null,
+      expires_at: input.expires_at || null,
+      file_ref: fileRef,
+      file_name: input.file.name,
+      mime_type: input.file.type,
+      size_bytes: input.file.size,
+      uploaded_by: getCurrentActor(),
+    });
+  } catch (e) {
+    await removeFiles([fileRef]).catch(() => undefined);
+    throw e;
+  }
+}
+
+// Exclui o registro e depois o arquivo (falha na remoção do arquivo não restaura o registro)
+export async function deletePatientDocument(id: string): Promise<void> {
+  assertCan("delete", "patient_document");
+  const document = await repository.getById(id);
+  if (!document || clinicOf(document) !== requireClinicId()) throw new Error("Documento não encontrado");
+  await repository.delete(id);
+  try {
+    await removeFiles([document.file_ref]);
+  } catch (e) {
+    console.warn(`Não foi possível remover o arquivo do documento ${id}`, e);
+  }
+}
+
+// Remove os documentos de um paciente excluído definitivamente (registros e arquivos).
+// No Supabase os registros já saem em cascata com o paciente; a exclusão explícita atende os demais backends.
+export async function purgePatientDocuments(documents: PatientDocument[]): Promise<void> {
+  for (const document of documents) await repository.delete(document.id);
+  if (documents.length > 0) await removeFiles(documents.map((d) => d.file_ref));
+}
+
+// Transfere documentos para outro paciente (mesclagem de cadastros); o arquivo permanece no mesmo caminho
+export async function reassignPatientDocuments(ids: string[], patientId: string): Promise<void> {
+  for (const id of ids) await repository.update({ id, patient_id: patientId });
+}
@@ -0,0 +1,231 @@
+// Serviço de mesclagem de cadastros de Pacientes
+// O sobrevivente recebe os valores escolhidos campo a campo, os registros relacionados do paciente
+// absorvido são transferidos e o absorvido vira um tombstone que redireciona para o sobrevivente.
+// Cada mesclagem fica registrada (quem, quando, escolhas, estado anterior) e pode ser desfeita no prazo.
+
+import { addDays } from "date-fns";
+import { DATA_BACKEND, type DataBackend } from "@/lib/dataBackend";
+import { getCurrentActor } from "@/lib/currentActor";
+import { clinicOf, requireClinicId } from "@/lib/currentClinic";
+import { assertCan } from "@/lib/permissions";
+import { isSamePatientFieldValue } from "@/lib/patientFieldFormat";
+import { onlyDigits } from "@/lib/utils";
+import { PATIENT_FIELDS, type Patient, type PatientField, type PatientUpdate } from "@/types/patient";
+import type { MergeFieldChoices, PatientMerge } from "@/types/patientMerge";
+import type {
+  ListPatientMergesParams,
+  ListPatientMergesResult,
+  PatientMergeRepository,
+} from "./merges/PatientMergeRepository";
+import { createMemoryPatientMergeRepository } from "./merges/memoryPatientMergeRepository";
+import { createLocalPatientMergeRepository } from "./merges/localPatientMergeRepository";
+import { createSupabasePatientMergeRepository } from "./merges/supabasePatientMergeRepository";
+import { findPatientsByIdentifiers, getPatientById, updatePatient } from "./patientsService";
+import { listAppointments, reassignAppointments } from "./appointmentsService";
+import { listReminders, reassignReminders } from "./remindersService";
+import { listPatientDocuments, reassignPatientDocuments } from "./patientDocumentsService";
+import { refreshPatientRiskScore } from "./absenteeismRiskService";
+
+export type { ListPatientMergesParams, ListPatientMergesResult, PatientMergeRepository };
+
+// Prazo para desfazer uma mesclagem
+export const MERGE_UNDO_WINDOW_DAYS = 7;
+
+// Registros ligados ao paciente que acompanham o sobrevivente na mesclagem
+export interface MergeRelation {
+  key: string;
+  label: string;
+  listIds(patientId: string): Promise<string[]>;
+  reassign(ids: string[], patientId: string): Promise<void>;
+}
+
+export const MERGE_RELATIONS: MergeRelation[] = [
+  {
+    key: "appointments",
+    label: "Agendamentos",
+    listIds: async (patientId) => (await listAppointments({ patientIds: [patientId] })).data.map((a) => a.id!),
+    reassign: reassignAppointments,
+  },
+  {
+    key: "appointment_reminders",
+    label: "Lembretes",
+    listIds: async (patientId) => (await listReminders({ patientIds: [patientId] })).data.map((r) => r.id!),
+    reassign: reassignReminders,
+  },
+  {
+    key: "patient_documents",
+    label: "Anexos",
+    listIds: async (patientId) => (await listPatientDocuments(patientId)).map((d) => d.id!),
+    reassign: reassignPatientDocuments,
+  },
+];
+
+export function createPatientMergeRepository(backend: DataBackend): PatientMergeRepository {
+  switch (backend) {
+    case "memory":
+      return createMemoryPatientMergeRepository();
+    case "local":
+      return createLocalPatientMergeRepository();
+    default:
+      return createSupabasePatientMergeRepository();
+  }
+}
+
+const repository = createPatientMergeRepository(DATA_BACKEND);
+
+const isEmpty = (v: unknown) => v === null || v === undefined || v === "" || (Array.isArray(v) && v.length === 0);
+
+// Sugestão inicial: mantém o valor do sobrevivente, exceto quando ele está vazio e o outro não
+export function getDefaultMergeChoices(survivor: Patient, merged: Patient): MergeFieldChoices {
+  const choices: MergeFieldChoices = {};
+  for (const field of PATIENT_FIELDS) {
+    choices[field] = isEmpty(survivor[field]) && !isEmpty(merged[field]) ? "merged" : "survivor";
+  }
+  return choices;
+}
+
+// Alterações a aplicar no sobrevivente conforme as escolhas
+export function buildMergeUpdate(survivor: Patient, merged: Patient, choices: MergeFieldChoices): PatientUpdate {
+  const update: PatientUpdate = { id: survivor.id! };
+  for (const field of PATIENT_FIELDS) {
+    if (choices[field] === "merged") (update as Record<PatientField, unknown>)[field] = merged[field] ?? null;
+  }
+  return update;
+}
+
+export function canUndoPatientMerge(merge: PatientMerge, now = new Date()): boolean {
+  return !merge.undone_at && now.getTime() <= new Date(merge.undo_deadline).getTime();
+}
+
+// Paciente ativo (não mesclado) ou erro
+async function getActivePatient(id: string, role: string): Promise<Patient> {
+  const patient = await getPatientById(id);
+  if (!patient || patient.id !== id) throw new Error(`Paciente ${role} não encontrado ou já mesclado`);
+  if (patient.deleted_at) throw new Error(`Paciente ${role} está na lixeira`);
+  return patient;
+}
+
+async function refreshRisk(patientId: string) {
+  try {
+    const { data } = await listAppointments({ patientIds: [patientId] });
+    await refreshPatientRiskScore(patientId, data);
+  } catch (e) {
+    console.warn("Não foi possível atualizar o score de absenteísmo", e);
+  }
+}
+
+export async function listPatientMerges(params: ListPatientMergesParams): Promise<ListPatientMergesResult> {
+  assertCan("merge", "patient");
+  return repository.list({ ...params, clinicId: requireClinicId() });
+}
+
+export async function mergePatients({
+  survivorId,
+  mergedId,
+  choices,
+}: {
+  survivorId: string;
+  mergedId: string;
+  choices: MergeFieldChoices;
+}): Promise<PatientMerge> {
+  assertCan("merge", "patient");
+  if (survivorId === mergedId) throw new Error("Selecione dois cadastros diferentes");
+  const survivor = await getActivePatient(survivorId, "sobrevivente");
+  const merged = await getActivePatient(mergedId, "a ser mesclado");
+
+  const now = new Date();
+  // Registro criado antes das alterações: se algo falhar no meio, o estado anterior fica preservado
+  let merge = await repository.create({
+    clinic_id: requireClinicId(),
+    survivor_id: survivorId,
+    merged_id: mergedId,
+    field_choices: choices,
+    survivor_snapshot: survivor,
+    merged_snapshot: merged,
+    repointed: {},
+    merged_by: getCurrentActor(),
+    merged_at: now.toISOString(),
+    undo_deadline: addDays(now, MERGE_UNDO_WINDOW_DAYS).toISOString(),
+  });
+
+  // Tombstone primeiro: libera CPF/CNS do absorvido caso o sobrevivente passe a usá-los
+  await updatePatient({ id: mergedId, merged_into_id: survivorId, merged_at: now.toISOString() });
+  await updatePatient(buildMergeUpdate(survivor, merged, choices));
+
+  const repointed: Record<string, string[]> = {};
+  for (const relation of MERGE_RELATIONS) {
+    const ids = await relation.listIds(mergedId);
+    await relation.reassign(ids, survivorId);
+    repointed[relation.key] = ids;
+  }
+  merge = await repository.update({ id: merge.id!, repointed });
+
+  await refreshRisk(survivorId);
+  return merge;
+}
+
+export interface UndoPatientMergeResult {
+  merge: PatientMerge;
+  // Campos vindos do absorvido que foram editados no sobrevivente depois da mesclagem e por isso foram mantidos
+  keptFields: PatientField[];
+}
+
+// Campos a reverter no sobrevivente: só os trazidos do absorvido e ainda com o valor da mesclagem
+export function planMergeUndo(merge: PatientMerge, current: Patient): { restore: PatientUpdate; keptFields: PatientField[] } {
+  const restore: PatientUpdate = { id: merge.survivor_id };
+  const keptFields: PatientField[] = [];
+  for (const field of PATIENT_FIELDS) {
+    if (merge.field_choices[field] !== "merged") continue;
+    if (isSamePatientFieldValue(current[field], merge.merged_snapshot[field])) {
+      (restore as Record<PatientField, unknown>)[field] = merge.survivor_snapshot[field] ?? null;
+    } else {
+      keptFields.push(field);
+    }
+  }
+  return { restore, keptFields };
+}
+
+// CPF e CNS do absorvido não podem estar em uso por outro cadastro ativo (inclusive o sobrevivente já revertido)
+async function assertIdentifiersAvailable(merge: PatientMerge, survivorAfterUndo: Patient) {
+  const { cpf, cns } = merge.merged_snapshot;
+  const found = await findPatientsByIdentifiers({ cpfs: [cpf], cnss: cns ? [cns] : [] });
+  const holders = [
+    ...found.filter((p) => p.id !== merge.merged_id && p.id !== merge.survivor_id),
+    survivorAfterUndo,
+  ];
+  for (const holder of holders) {
+    if (onlyDigits(holder.cpf) === onlyDigits(cpf)) {
+      throw new Error(`Não é possível desfazer: o CPF do cadastro incorporado está em uso por ${holder.full_name}`);
+    }
+    if (cns && holder.cns && onlyDigits(holder.cns) === onlyDigits(cns)) {
+      throw new Error(`Não é possível desfazer: o CNS do cadastro incorporado está em uso por ${holder.full_name}`);
+    }
+  }
+}
+
+export async function undoPatientMerge(mergeId: string): Promise<UndoPatientMergeResult> {
+  assertCan("merge", "patient");
+  const merge = await repository.getById(mergeId);
+  if (!merge || clinicOf(merge) !== requireClinicId()) throw new Error("Mesclagem não encontrada");
+  if (merge.undone_at) throw new Error("Esta mesclagem já foi desfeita");
+  if (!canUndoPatientMerge(merge)) throw new Error("O prazo para desfazer esta mesclagem expirou");
+  const survivor = await getActivePatient(merge.survivor_id, "sobrevivente");
+
+  // Edições feitas no sobrevivente durante o prazo de desfazer são preservadas
+  const { restore, keptFields } = planMergeUndo(merge, survivor);
+  await assertIdentifiersAvailable(merge, { ...survivor, ...restore });
+
+  // Sobrevivente revertido antes de reativar o absorvido, por causa da unicidade do CPF
+  await updatePatient(restore);
+  await updatePatient({ id: merge.merged_id, merged_into_id: null, merged_at: null });
+
+  // Devolve apenas os registros transferidos pela mesclagem; os criados depois ficam com o sobrevivente
+  for (const relation of MERGE_RELATIONS) {
+    await relation.reassign(merge.repointed[relation.key] ?? [], merge.merged_id);
+  }
+
+  await refreshRisk(merge.survivor_id);
+  await refreshRisk(merge.merged_id);
+  const undone = await repository.update({ id: mergeId, undone_at: new Date().toISOString(), undone_by: getCurrentActor() });
+  return { merge: undone, keptFields };
+}
@@ -0,0 +1,28 @@
+// Fotos de pacientes: gravação no armazenamento de arquivos, na pasta da clínica ativa
+
+import { requireClinicId } from "@/lib/currentClinic";
+import { can, PermissionDeniedError } from "@/lib/permissions";
+import { parseFileRef, removeFiles, uploadFile } from "./fileStorageService";
+
+export const PATIENT_PHOTOS_BUCKET = "patient-photos";
+
+// Quem cadastra pacientes ou altera a foto de cadastros existentes
+function assertCanChangePhoto(): void {
+  if (!can("create", "patient") && !can("update", "patient", "photo_url")) {
+    throw new PermissionDeniedError("Seu perfil de acesso não permite alterar o campo Foto");
+  }
+}
+
+// Grava a foto (já recortada e comprimida) e devolve a referência para Patient.photo_url
+export async function uploadPatientPhoto(photo: Blob): Promise<string> {
+  assertCanChangePhoto();
+  const extension = photo.type === "image/png" ? "png" : photo.type === "image/webp" ? "webp" : "jpg";
+  return uploadFile(PATIENT_PHOTOS_BUCKET, `${requireClinicId()}/${crypto.randomUUID()}.${extension}`, photo);
+}
+
+// Remove uma foto que deixou de ser usada; fotos externas (URLs de cadastros legados) são mantidas
+export async function removePatientPhoto(ref: string | null | undefined): Promise<void> {
+  if (parseFileRef(ref)?.bucket !== PATIENT_PHOTOS_BUCKET) return;
+  assertCanChangePhoto();
+  await removeFiles([ref!]);
+}
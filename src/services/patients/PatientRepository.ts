@@ -0,0 +1,66 @@
+// Contrato de armazenamento de Pacientes
+// Cada backend (memória, localStorage, Supabase) implementa as mesmas operações.
+
+import type { DuplicateCriteria } from "@/lib/patientDuplicates";
+import type { PatientListFilters } from "@/lib/patientFilters";
+import type { Patient, PatientInsert, PatientUpdate } from "@/types/patient";
+
+export type PatientSortField =
+  | "created_at"
+  | "full_name"
+  | "birth_date"
+  | "absenteeism_risk_score"
+  | "deleted_at"
+  // Relevância da busca (sem busca, equivale a created_at)
+  | "relevance";
+export type SortDirection = "asc" | "desc";
+
+export interface ListPatientsParams {
+  page?: number; // 1-based
+  pageSize?: number;
+  search?: string;
+  // Ordenação (padrão: created_at desc). Valores nulos ficam sempre por último.
+  sortBy?: PatientSortField;
+  sortDirection?: SortDirection;
+  // true: apenas pacientes na lixeira; padrão: apenas pacientes ativos
+  deleted?: boolean;
+  // Filtros avançados (todos precisam ser atendidos)
+  filters?: PatientListFilters;
+  // Restringe à clínica (o serviço sempre informa a clínica ativa)
+  clinicId?: string;
+}
+
+// Identificadores exatos procurados na importação e nas verificações de unicidade
+// (CPF e CNS só com dígitos; código legado sem espaços nas pontas)
+export interface PatientIdentifiers {
+  cpfs?: string[];
+  cnss?: string[];
+  legacyCodes?: string[];
+}
+
+// Campos calculados pelo sistema (não editados no formulário)
+export type PatientDerivedUpdate = Pick<PatientUpdate, "id" | "absenteeism_risk_score">;
+
+export interface ListPatientsResult {
+  data: Patient[];
+  count: number;
+}
+
+export interface PatientRepository {
+  // Não inclui cadastros mesclados (merged_into_id preenchido)
+  list(params: ListPatientsParams): Promise<ListPatientsResult>;
+  // Retorna o registro como está, inclusive tombstones de mesclagem e pacientes na lixeira
+  getById(id: string): Promise<Patient | null>;
+  create(payload: PatientInsert): Promise<Patient>;
+  update(payload: PatientUpdate): Promise<Patient>;
+  // Atualiza somente se o registro ainda estiver na versão informada (updated_at); caso contrário retorna null
+  updateIfUnchanged(payload: PatientUpdate, expectedUpdatedAt: string): Promise<Patient | null>;
+  // Grava campos calculados sem gerar nova versão (updated_at), para não conflitar com edições em andamento
+  updateDerived(payload: PatientDerivedUpdate): Promise<void>;
+  // Remoção definitiva (a exclusão lógica é feita pelo serviço via update)
+  delete(id: string): Promise<void>;
+  // Pré-seleção de possíveis duplicados (CPF, telefone, nascimento ou nome); a classificação fica no serviço
+  findDuplicateCandidates(criteria: DuplicateCriteria, clinicId?: string): Promise<Patient[]>;
+  // Cadastros (inclusive na lixeira, exceto tombstones) com algum dos CPFs, CNSs ou códigos legados informados
+  findByIdentifiers(identifiers: PatientIdentifiers, clinicId?: string): Promise<Patient[]>;
+}
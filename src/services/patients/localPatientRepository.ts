@@ -0,0 +1,13 @@
+// Repositório de Pacientes persistido no localStorage (sobrevive a recarregamentos, para demos)
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { Patient } from "@/types/patient";
+import { createMemoryPatientRepository } from "./memoryPatientRepository";
+import type { PatientRepository } from "./PatientRepository";
+
+export function createLocalPatientRepository(storageKey = "patients"): PatientRepository {
+  return createMemoryPatientRepository({
+    initial: readCollection<Patient>(storageKey),
+    onChange: (items) => writeCollection(storageKey, items),
+  });
+}
@@ -0,0 +1,165 @@
+// Repositório de Pacientes em memória (base também do backend localStorage)
+
+import { clinicOf } from "@/lib/currentClinic";
+import { matchDuplicate, type DuplicateCriteria } from "@/lib/patientDuplicates";
+import { matchesPatientFilters } from "@/lib/patientFilters";
+import { matchPatientSearch, parseSearchQuery } from "@/lib/patientSearch";
+import type { Patient, PatientInsert, PatientUpdate } from "@/types/patient";
+import { onlyDigits } from "@/lib/utils";
+import type {
+  ListPatientsParams,
+  ListPatientsResult,
+  PatientDerivedUpdate,
+  PatientIdentifiers,
+  PatientRepository,
+  PatientSortField,
+} from "./PatientRepository";
+
+export interface MemoryPatientRepositoryOptions {
+  initial?: Patient[];
+  // Chamado após cada alteração (ex.: para persistir em localStorage)
+  onChange?: (items: Patient[]) => void;
+}
+
+// Relevância calculada para a busca (ordenação "relevance")
+type SortScores = Map<string, number>;
+
+function sortValue(p: Patient, field: PatientSortField, scores: SortScores): number | string | null {
+  if (field === "relevance") return scores.get(p.id) ?? null;
+  if (field === "created_at" || field === "deleted_at") return p[field] ? new Date(p[field]).getTime() : null;
+  if (field === "full_name") return p.full_name.toLocaleLowerCase("pt-BR");
+  if (field === "birth_date") return p.birth_date || null;
+  return p[field] ?? null;
+}
+
+// Novo updated_at sempre distinto do anterior (duas gravações no mesmo milissegundo não podem ter a mesma versão)
+function nextVersion(previous?: string): string {
+  const now = Date.now();
+  const last = previous ? new Date(previous).getTime() : 0;
+  return new Date(now > last ? now : last + 1).toISOString();
+}
+
+export function createMemoryPatientRepository(
+  options: MemoryPatientRepositoryOptions = {}
+): PatientRepository {
+  let MOCK_DB: Patient[] = [...(options.initial ?? [])];
+  const commit = (next: Patient[]) => {
+    MOCK_DB = next;
+    options.onChange?.(MOCK_DB);
+  };
+  const update = (payload: PatientUpdate, expectedUpdatedAt?: string): Patient | null => {
+    const idx = MOCK_DB.findIndex((p) => p.id === payload.id);
+    if (idx < 0) throw new Error("Paciente não encontrado");
+    if (expectedUpdatedAt !== undefined && MOCK_DB[idx].updated_at !== expectedUpdatedAt) return null;
+    const updated: Patient = {
+      ...MOCK_DB[idx],
+      ...payload,
+      updated_at: nextVersion(MOCK_DB[idx].updated_at),
+    } as Patient;
+    commit(MOCK_DB.map((p, i) => (i === idx ? updated : p)));
+    return updated;
+  };
+
+  return {
+    async list({
+      page = 1,
+      pageSize = 10,
+      search = "",
+      sortBy = "created_at",
+      sortDirection = "desc",
+      deleted = false,
+      filters,
+      clinicId,
+    }: ListPatientsParams): Promise<ListPatientsResult> {
+      const query = search.trim() ? parseSearchQuery(search) : null;
+      const scores: SortScores = new Map();
+      // Cadastros mesclados (tombstones) não aparecem na listagem
+      const filtered = MOCK_DB.filter((p) => {
+        if (p.merged_into_id || Boolean(p.deleted_at) !== deleted) return false;
+        if (clinicId && clinicOf(p) !== clinicId) return false;
+        if (filters && !matchesPatientFilters(p, filters)) return false;
+        if (!query) return true;
+        const match = matchPatientSearch(p, query);
+        if (match) scores.set(p.id, match.score);
+        return match !== null;
+      });
+
+      // Relevância sem busca cai na ordenação padrão; empates de relevância vão do mais recente ao mais antigo
+      const field: PatientSortField = sortBy === "relevance" && !query ? "created_at" : sortBy;
+      const direction = sortDirection === "asc" ? 1 : -1;
+      const compare = (a: Patient, b: Patient, f: PatientSortField, dir: number) => {
+        const av = sortValue(a, f, scores);
+        const bv = sortValue(b, f, scores);
+        if (av === bv) return 0;
+        if (av === null) return 1;
+        if (bv === null) return -1;
+        return (av < bv ? -1 : 1) * dir;
+      };
+      filtered.sort((a, b) => compare(a, b, field, direction) || (field === "relevance" ? compare(a, b, "created_at", -1) : 0));
+      const count = filtered.length;
+      const from = (page - 1) * pageSize;
+      const to = from + pageSize;
+      const data = filtered.slice(from, to);
+      return { data, count };
+    },
+
+    async getById(id: string): Promise<Patient | null> {
+      return MOCK_DB.find((p) => p.id === id) ?? null;
+    },
+
+    async create(payload: PatientInsert): Promise<Patient> {
+      const now = new Date().toISOString();
+      const entity: Patient = {
+        ...payload,
+        id: crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      commit([...MOCK_DB, entity]);
+      return entity;
+    },
+
+    async update(payload: PatientUpdate): Promise<Patient> {
+      return update(payload);
+    },
+
+    async updateIfUnchanged(payload: PatientUpdate, expectedUpdatedAt: string): Promise<Patient | null> {
+      return update(payload, expectedUpdatedAt);
+    },
+
+    async updateDerived({ id, ...changes }: PatientDerivedUpdate): Promise<void> {
+      const idx = MOCK_DB.findIndex((p) => p.id === id);
+      if (idx < 0) throw new Error("Paciente não encontrado");
+      commit(MOCK_DB.map((p, i) => (i === idx ? { ...p, ...changes } : p)));
+    },
+
+    async delete(id: string): Promise<void> {
+      // Mesma restrição da chave estrangeira merged_into_id no Supabase
+      if (MOCK_DB.some((p) => p.merged_into_id === id)) throw new Error("Paciente referenciado por um cadastro mesclado");
+      commit(MOCK_DB.filter((p) => p.id !== id));
+    },
+
+    async findDuplicateCandidates(criteria: DuplicateCriteria, clinicId?: string): Promise<Patient[]> {
+      return MOCK_DB.filter(
+        (p) => !p.merged_into_id && (!clinicId || clinicOf(p) === clinicId) && matchDuplicate(criteria, p) !== null
+      );
+    },
+
+    async findByIdentifiers(
+      { cpfs = [], cnss = [], legacyCodes = [] }: PatientIdentifiers,
+      clinicId?: string
+    ): Promise<Patient[]> {
+      const cpfSet = new Set(cpfs);
+      const cnsSet = new Set(cnss);
+      const codeSet = new Set(legacyCodes);
+      return MOCK_DB.filter(
+        (p) =>
+          !p.merged_into_id &&
+          (!clinicId || clinicOf(p) === clinicId) &&
+          (cpfSet.has(onlyDigits(p.cpf)) ||
+            (!!p.cns && cnsSet.has(onlyDigits(p.cns))) ||
+            (!!p.legacy_code && codeSet.has(p.legacy_code.trim())))
+      );
+    },
+  };
+}
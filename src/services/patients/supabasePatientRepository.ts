@@ -0,0 +1,242 @@
+// Repositório de Pacientes sobre a tabela public.patients do Supabase
+// Leituras pela view patient_records, que aplica as regras de leitura por campo do perfil
+// (migração 20261020000000); a tabela só é usada para gravar.
+
+import { addDays, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Json } from "@/integrations/supabase/types";
+import { normalizeText, onlyDigits } from "@/lib/utils";
+import { clinicOf } from "@/lib/currentClinic";
+import { nameTokens, type DuplicateCriteria } from "@/lib/patientDuplicates";
+import { ageRangeToBirthDates, normalizeTags } from "@/lib/patientFilters";
+import { PATIENT_FIELDS, type Patient, type PatientInsert, type PatientUpdate } from "@/types/patient";
+import type {
+  ListPatientsParams,
+  ListPatientsResult,
+  PatientDerivedUpdate,
+  PatientIdentifiers,
+  PatientRepository,
+} from "./PatientRepository";
+
+type PatientRow = Database["public"]["Views"]["patient_records"]["Row"];
+type PatientRowInsert = Database["public"]["Tables"]["patients"]["Insert"];
+type PatientRowUpdate = Database["public"]["Tables"]["patients"]["Update"];
+
+// Converte a linha do banco para o tipo de domínio (Json -> Record<string, boolean>)
+// birth_month e address_city_search são colunas geradas, usadas só nos filtros de aniversário e cidade
+export function fromPatientRow({ birth_month, address_city_search, ...row }: PatientRow): Patient {
+  return {
+    ...row,
+    communication_preferences: (row.communication_preferences as Record<string, boolean> | null) ?? null,
+    created_at: row.created_at ?? undefined,
+    updated_at: row.updated_at ?? undefined,
+  };
+}
+
+function toRow<T extends Partial<PatientInsert>>(payload: T) {
+  const { communication_preferences, ...rest } = payload;
+  return {
+    ...rest,
+    ...(communication_preferences !== undefined
+      ? { communication_preferences: communication_preferences as Json }
+      : {}),
+  };
+}
+
+// Campo opcional limpo no formulário chega como undefined, que o supabase-js omite do JSON;
+// na atualização ele vira null para que a remoção seja gravada, como no backend em memória
+function toUpdateRow(changes: Omit<PatientUpdate, "id">): PatientRowUpdate {
+  const cleared = Object.fromEntries(
+    PATIENT_FIELDS.filter((field) => field in changes && changes[field] === undefined).map((field) => [field, null])
+  );
+  return { ...toRow(changes), ...cleared, updated_at: new Date().toISOString() };
+}
+
+// Limite de candidatos trazidos para a classificação de duplicados
+const DUPLICATE_CANDIDATES_LIMIT = 50;
+// Valores por consulta em findByIdentifiers (mantém a URL do PostgREST curta)
+const IDENTIFIERS_CHUNK_SIZE = 200;
+
+// Padrão "contém" para ilike, com os curingas do termo escapados
+export function likePattern(term: string) {
+  return `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+}
+
+// Escapa o termo para uso dentro de um filtro or() do PostgREST com ilike
+export function ilikeValue(term: string) {
+  return `"${likePattern(term).replace(/[\\"]/g, (c) => `\\${c}`)}"`;
+}
+
+// Linha recém-gravada, lida pela view
+async function readOrFail(id: string): Promise<Patient> {
+  const { data, error } = await supabase.from("patient_records").select("*").eq("id", id).maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!data) throw new Error("Paciente não encontrado");
+  return fromPatientRow(data);
+}
+
+export function createSupabasePatientRepository(): PatientRepository {
+  return {
+    async list({
+      page = 1,
+      pageSize = 10,
+      search = "",
+      sortBy = "created_at",
+      sortDirection = "desc",
+      deleted = false,
+      filters = {},
+      clinicId,
+    }: ListPatientsParams): Promise<ListPatientsResult> {
+      const from = (page - 1) * pageSize;
+      const to = from + pageSize - 1;
+
+      // search_patients (migração 20261019210000) já devolve as linhas ordenadas por relevância; termo vazio traz todas
+      let query = supabase
+        .rpc("search_patients", { search_term: search.trim() }, { count: "exact" })
+        .is("merged_into_id", null)
+        .range(from, to);
+      if (sortBy !== "relevance") {
+        query = query.order(sortBy, { ascending: sortDirection === "asc", nullsFirst: false });
+        if (sortBy !== "created_at") query = query.order("created_at", { ascending: false });
+      }
+      query = deleted ? query.not("deleted_at", "is", null) : query.is("deleted_at", null);
+      if (clinicId) query = query.eq("clinic_id", clinicId);
+
+      // Filtros avançados (mesma semântica de matchesPatientFilters)
+      // Cidade sem acento: address_city_search é search_normalize(address_city) (migração 20261020030000)
+      if (filters.city) query = query.ilike("address_city_search", likePattern(normalizeText(filters.city)));
+      if (filters.state) query = query.eq("address_state", filters.state);
+      const births = ageRangeToBirthDates(filters.minAge, filters.maxAge);
+      if (births.from) query = query.gte("birth_date", births.from);
+      if (births.to) query = query.lte("birth_date", births.to);
+      if (filters.genders?.length) query = query.in("gender", filters.genders);
+      if (filters.birthMonth) query = query.eq("birth_month", filters.birthMonth);
+      if (filters.minRisk !== undefined) query = query.gte("absenteeism_risk_score", filters.minRisk);
+      if (filters.maxRisk !== undefined) query = query.lte("absenteeism_risk_score", filters.maxRisk);
+      if (filters.hasEmail === true) query = query.not("email", "is", null).neq("email", "");
+      if (filters.hasEmail === false) query = query.or('email.is.null,email.eq.""');
+      // Dias do filtro no fuso do navegador
+      if (filters.createdFrom) query = query.gte("created_at", parseISO(filters.createdFrom).toISOString());
+      if (filters.createdTo) query = query.lt("created_at", addDays(parseISO(filters.createdTo), 1).toISOString());
+      if (filters.tags?.length) query = query.contains("tags", normalizeTags(filters.tags));
+
+      const { data, count, error } = await query;
+      if (error) throw new Error(error.message);
+      return { data: (data ?? []).map(fromPatientRow), count: count ?? 0 };
+    },
+
+    async getById(id: string): Promise<Patient | null> {
+      const { data, error } = await supabase.from("patient_records").select("*").eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromPatientRow(data) : null;
+    },
+
+    async create(payload: PatientInsert): Promise<Patient> {
+      const now = new Date().toISOString();
+      // Id gerado aqui: a gravação não devolve a linha (sem leitura direta na tabela)
+      const id = crypto.randomUUID();
+      const row: PatientRowInsert = {
+        ...toRow(payload),
+        id,
+        clinic_id: clinicOf(payload),
+        created_at: now,
+        updated_at: now,
+      };
+      const { error } = await supabase.from("patients").insert(row);
+      if (error) throw new Error(error.message);
+      return readOrFail(id);
+    },
+
+    async update({ id, ...changes }: PatientUpdate): Promise<Patient> {
+      const row = toUpdateRow(changes);
+      const { data, error } = await supabase.from("patients").update(row).eq("id", id).select("id").maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) throw new Error("Paciente não encontrado");
+      return readOrFail(id);
+    },
+
+    async updateIfUnchanged({ id, ...changes }: PatientUpdate, expectedUpdatedAt: string): Promise<Patient | null> {
+      const row = toUpdateRow(changes);
+      // Atualização condicional: nenhuma linha afetada significa que outra pessoa salvou antes
+      const { data, error } = await supabase
+        .from("patients")
+        .update(row)
+        .eq("id", id)
+        .eq("updated_at", expectedUpdatedAt)
+        .select("id")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? readOrFail(id) : null;
+    },
+
+    async updateDerived({ id, ...changes }: PatientDerivedUpdate): Promise<void> {
+      const { data, error } = await supabase.from("patients").update(changes).eq("id", id).select("id").maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) throw new Error("Paciente não encontrado");
+    },
+
+    async delete(id: string): Promise<void> {
+      const { error } = await supabase.from("patients").delete().eq("id", id);
+      if (error) throw new Error(error.message);
+    },
+
+    async findDuplicateCandidates(criteria: DuplicateCriteria, clinicId?: string): Promise<Patient[]> {
+      const filters: string[] = [];
+      const cpf = onlyDigits(criteria.cpf ?? "");
+      if (cpf.length === 11) filters.push(`cpf.eq.${cpf}`);
+      const phones = [criteria.phone_primary, criteria.phone_secondary]
+        .map((v) => onlyDigits(v ?? ""))
+        .filter((v) => v.length >= 10);
+      if (phones.length) {
+        filters.push(`phone_primary.in.(${phones.join(",")})`, `phone_secondary.in.(${phones.join(",")})`);
+      }
+      if (criteria.birth_date) filters.push(`birth_date.eq.${criteria.birth_date}`);
+      // Nome: primeiro e último nome em qualquer posição; a similaridade fina é calculada no serviço
+      const tokens = nameTokens(criteria.full_name ?? "");
+      if (tokens.length > 1) {
+        filters.push(
+          `and(full_name.ilike.${ilikeValue(tokens[0])},full_name.ilike.${ilikeValue(tokens[tokens.length - 1])})`
+        );
+      }
+      if (filters.length === 0) return [];
+
+      let query = supabase
+        .from("patient_records")
+        .select("*")
+        .is("merged_into_id", null)
+        .or(filters.join(","))
+        .limit(DUPLICATE_CANDIDATES_LIMIT);
+      if (clinicId) query = query.eq("clinic_id", clinicId);
+
+      const { data, error } = await query;
+      if (error) throw new Error(error.message);
+      return (data ?? []).map(fromPatientRow);
+    },
+
+    async findByIdentifiers(
+      { cpfs = [], cnss = [], legacyCodes = [] }: PatientIdentifiers,
+      clinicId?: string
+    ): Promise<Patient[]> {
+      const found = new Map<string, Patient>();
+      const lookups: ["cpf" | "cns" | "legacy_code", string[]][] = [
+        ["cpf", cpfs],
+        ["cns", cnss],
+        ["legacy_code", legacyCodes],
+      ];
+      for (const [column, values] of lookups) {
+        for (let i = 0; i < values.length; i += IDENTIFIERS_CHUNK_SIZE) {
+          let query = supabase
+            .from("patient_records")
+            .select("*")
+            .is("merged_into_id", null)
+            .in(column, values.slice(i, i + IDENTIFIERS_CHUNK_SIZE));
+          if (clinicId) query = query.eq("clinic_id", clinicId);
+          const { data, error } = await query;
+          if (error) throw new Error(error.message);
+          for (const row of data ?? []) found.set(row.id, fromPatientRow(row));
+        }
+      }
+      return Array.from(found.values());
+    },
+  };
+}
@@ -1,79 +1,442 @@
-// Serviço de acesso aos dados de Pacientes (fallback em memória quando Supabase não está configurado)
-// Quando o projeto for conectado ao Supabase, substituiremos esta implementação por consultas reais.
+// Serviço de acesso aos dados de Pacientes
+// Regras de negócio ficam aqui; o armazenamento é delegado a um PatientRepository
+// (Supabase por padrão, localStorage ou memória conforme VITE_DATA_BACKEND).
 
-import type { Patient, PatientInsert, PatientUpdate } from "@/types/patient";
+import { subDays } from "date-fns";
+import { DATA_BACKEND, type DataBackend } from "@/lib/dataBackend";
+import { getCurrentActor } from "@/lib/currentActor";
+import { clinicOf, requireClinicId } from "@/lib/currentClinic";
+import { assertCan, can, redactPatient } from "@/lib/permissions";
+import { isValidCNS, isValidCPF, isValidRG } from "@/lib/brDocuments";
+import { onlyDigits } from "@/lib/utils";
+import { rankDuplicates, type DuplicateCriteria, type DuplicateMatch } from "@/lib/patientDuplicates";
+import { diffPatients } from "@/lib/patientDiff";
+import { normalizeTags, type PatientListFilters } from "@/lib/patientFilters";
+import { PATIENT_FIELDS, type Patient, type PatientField, type PatientInsert, type PatientUpdate } from "@/types/patient";
+import type { PatientAuditAction, PatientAuditEntry } from "@/types/patientAudit";
+import type {
+  ListPatientsParams,
+  ListPatientsResult,
+  PatientIdentifiers,
+  PatientRepository,
+  PatientSortField,
+  SortDirection,
+} from "./patients/PatientRepository";
+import { createMemoryPatientRepository } from "./patients/memoryPatientRepository";
+import { createLocalPatientRepository } from "./patients/localPatientRepository";
+import { createSupabasePatientRepository } from "./patients/supabasePatientRepository";
+import type {
+  ListPatientAuditParams,
+  ListPatientAuditResult,
+  PatientAuditRepository,
+} from "./audit/PatientAuditRepository";
+import { createMemoryPatientAuditRepository } from "./audit/memoryPatientAuditRepository";
+import { createLocalPatientAuditRepository } from "./audit/localPatientAuditRepository";
+import { createSupabasePatientAuditRepository } from "./audit/supabasePatientAuditRepository";
+import { listPatientDocuments, purgePatientDocuments } from "./patientDocumentsService";
+import { listPatientMerges } from "./patientMergeService";
+import { removePatientPhoto } from "./patientPhotosService";
 
-export interface ListPatientsParams {
-  page?: number; // 1-based
-  pageSize?: number;
-  search?: string;
+export type {
+  ListPatientsParams,
+  ListPatientsResult,
+  PatientIdentifiers,
+  PatientRepository,
+  PatientSortField,
+  SortDirection,
+};
+export type { ListPatientAuditParams, ListPatientAuditResult, PatientAuditRepository };
+export type { DuplicateCriteria, DuplicateMatch, PatientListFilters };
+export { onlyDigits } from "@/lib/utils";
+
+// Cadastro bloqueado por já existir paciente com o mesmo CPF
+export class DuplicatePatientError extends Error {
+  constructor(public readonly matches: DuplicateMatch[]) {
+    super("Já existe um paciente cadastrado com este CPF");
+    this.name = "DuplicatePatientError";
+  }
+}
+
+// Atualização rejeitada porque o cadastro foi salvo por outra pessoa desde que foi carregado
+export class PatientVersionConflictError extends Error {
+  constructor(public readonly current: Patient) {
+    super("Este cadastro foi alterado por outra pessoa desde que foi aberto");
+    this.name = "PatientVersionConflictError";
+  }
+}
+
+export interface UpdatePatientOptions {
+  // updated_at da versão em que a edição se baseou; diferente do atual gera PatientVersionConflictError
+  expectedUpdatedAt?: string;
+}
+
+export interface PatientsService {
+  listPatients(params: ListPatientsParams): Promise<ListPatientsResult>;
+  // Segue o redirecionamento de cadastros mesclados: o id antigo devolve o paciente sobrevivente
+  getPatientById(id: string): Promise<Patient | null>;
+  createPatient(payload: PatientInsert): Promise<Patient>;
+  updatePatient(payload: PatientUpdate, options?: UpdatePatientOptions): Promise<Patient>;
+  // Score de absenteísmo recalculado pelo sistema: sem checagem de perfil, auditoria ou nova versão do cadastro
+  updatePatientRiskScore(id: string, score: number): Promise<void>;
+  // Move para a lixeira (exclusão lógica)
+  deletePatient(id: string): Promise<void>;
+  restorePatient(id: string): Promise<Patient>;
+  // Remoção definitiva de um paciente que está na lixeira
+  purgePatient(id: string): Promise<void>;
+  // Remove definitivamente os pacientes na lixeira há mais que o prazo de retenção; retorna a quantidade
+  purgeExpiredPatients(now?: Date): Promise<number>;
+  // Possíveis duplicados de um cadastro (excludeId ignora o próprio paciente na edição)
+  findDuplicatePatients(criteria: DuplicateCriteria, excludeId?: string): Promise<DuplicateMatch[]>;
+  // Cadastros da clínica (inclusive na lixeira) com algum dos CPFs, CNSs ou códigos legados
+  // (importação e verificação de unicidade ao desfazer mesclagens)
+  findPatientsByIdentifiers(identifiers: PatientIdentifiers): Promise<Patient[]>;
+  // Trilha de auditoria do paciente, mais recentes primeiro
+  listPatientHistory(params: ListPatientAuditParams): Promise<ListPatientAuditResult>;
+  // Reaplica os campos do cadastro como estavam após a entrada de auditoria informada
+  restorePatientVersion(patientId: string, entryId: string): Promise<Patient>;
 }
 
-export interface ListPatientsResult {
-  data: Patient[];
-  count: number;
+export function createPatientRepository(backend: DataBackend): PatientRepository {
+  switch (backend) {
+    case "memory":
+      return createMemoryPatientRepository();
+    case "local":
+      return createLocalPatientRepository();
+    default:
+      return createSupabasePatientRepository();
+  }
 }
 
-// Utilitário: sanitiza string mantendo apenas dígitos
-export const onlyDigits = (v: string) => (v || "").replace(/\D+/g, "");
+export function createPatientAuditRepository(backend: DataBackend): PatientAuditRepository {
+  switch (backend) {
+    case "memory":
+      return createMemoryPatientAuditRepository();
+    case "local":
+      return createLocalPatientAuditRepository();
+    default:
+      return createSupabasePatientAuditRepository();
+  }
+}
+
+// Normaliza e valida os documentos presentes no payload (CPF, CPF do responsável, CNS, RG)
+function withValidDocuments<T extends Partial<PatientInsert>>(payload: T): T {
+  const normalized = { ...payload };
+  if (normalized.cpf !== undefined) {
+    normalized.cpf = onlyDigits(normalized.cpf ?? "");
+    if (!isValidCPF(normalized.cpf)) throw new Error("CPF inválido");
+  }
+  if (normalized.responsible_cpf) {
+    normalized.responsible_cpf = onlyDigits(normalized.responsible_cpf);
+    if (!isValidCPF(normalized.responsible_cpf)) throw new Error("CPF do responsável inválido");
+  }
+  if (normalized.cns) {
+    normalized.cns = onlyDigits(normalized.cns);
+    if (!isValidCNS(normalized.cns)) throw new Error("CNS inválido");
+  }
+  if (normalized.rg && !isValidRG(normalized.rg, normalized.rg_state)) {
+    throw new Error(normalized.rg_state ? `RG inválido para ${normalized.rg_state}` : "RG inválido");
+  }
+  return normalized;
+}
+
+// Etiquetas sempre gravadas normalizadas, para que os filtros encontrem "VIP" e "vip" igualmente
+function withNormalizedTags<T extends Partial<PatientInsert>>(payload: T): T {
+  if (payload.tags === undefined) return payload;
+  return { ...payload, tags: normalizeTags(payload.tags) };
+}
+
+// Dias que um paciente excluído permanece na lixeira antes do expurgo definitivo
+export function resolveTrashRetentionDays(value: string | undefined): number {
+  const days = Number(value);
+  if (!value || !Number.isInteger(days) || days < 1) return 30;
+  return days;
+}
+
+export const PATIENT_TRASH_RETENTION_DAYS = resolveTrashRetentionDays(
+  import.meta.env.VITE_PATIENT_TRASH_RETENTION_DAYS
+);
+// Quantidade máxima de pacientes expurgados por execução
+const PURGE_BATCH_SIZE = 100;
+
+// Limite de saltos ao seguir tombstones (protege contra ciclos)
+const MAX_MERGE_REDIRECTS = 5;
+
+// Registra quando o consentimento de marketing (LGPD) foi dado; revogar limpa a data.
+// Sem mudança no consentimento, mantém a data já registrada.
+function withConsentTimestamp<T extends Partial<PatientInsert>>(payload: T, current?: Patient | null): T {
+  if (payload.marketing_consent === undefined) return payload;
+  if (!payload.marketing_consent) return { ...payload, marketing_consent_at: null };
+  if (current?.marketing_consent) return { ...payload, marketing_consent_at: current.marketing_consent_at ?? null };
+  return { ...payload, marketing_consent_at: new Date().toISOString() };
+}
+
+// Somente os campos do cadastro (sem id, datas de controle, mesclagem ou lixeira)
+function pickPatientFields(patient: Patient): Partial<PatientInsert> {
+  const fields: Partial<PatientInsert> = {};
+  for (const field of PATIENT_FIELDS) {
+    (fields as Record<string, unknown>)[field] = patient[field] ?? null;
+  }
+  return fields;
+}
+
+export function createPatientsService(
+  repository: PatientRepository,
+  audit: PatientAuditRepository = createMemoryPatientAuditRepository()
+): PatientsService {
+  // Registra a operação com a diferença campo a campo. Falhas na auditoria não desfazem a operação.
+  const record = async (action: PatientAuditAction, before: Patient | null, after: Patient) => {
+    const changes = diffPatients(before, after);
+    if (action === "update" && changes.length === 0) return;
+    try {
+      await audit.append({
+        clinic_id: clinicOf(after),
+        patient_id: after.id!,
+        action,
+        changes,
+        snapshot: after,
+        actor: getCurrentActor(),
+        occurred_at: new Date().toISOString(),
+      });
+    } catch (e) {
+      console.warn("Não foi possível registrar a auditoria do paciente", e);
+    }
+  };
+
+  // Só os campos efetivamente alterados precisam ser editáveis pelo perfil (o formulário envia todos)
+  const assertEditableFields = (payload: Partial<PatientInsert>, current: Patient | null) => {
+    for (const field of PATIENT_FIELDS) {
+      if (!(field in payload)) continue;
+      const changed = diffPatients({ [field]: current?.[field] ?? null }, { [field]: payload[field] }).length > 0;
+      if (changed) assertCan(current ? "update" : "create", "patient", field);
+    }
+  };
+
+  // Cadastros de outra clínica são tratados como inexistentes
+  const getInClinic = async (id: string) => {
+    const patient = await repository.getById(id);
+    return patient && clinicOf(patient) === requireClinicId() ? patient : null;
+  };
+
+  const getOrFail = async (id: string) => {
+    const patient = await getInClinic(id);
+    if (!patient) throw new Error("Paciente não encontrado");
+    return patient;
+  };
+
+  const findDuplicatePatients = async (criteria: DuplicateCriteria, excludeId?: string) => {
+    assertCan("read", "patient");
+    const candidates = await repository.findDuplicateCandidates(criteria, requireClinicId());
+    const matches = rankDuplicates(criteria, candidates, excludeId);
+    return matches.map((m) => ({ ...m, patient: redactPatient(m.patient) }));
+  };
+
+  // CPF é único: impede criar ou alterar para um CPF já cadastrado
+  const assertUniqueCpf = async (cpf: string | undefined, excludeId?: string) => {
+    if (!cpf) return;
+    const blocking = (await findDuplicatePatients({ cpf }, excludeId)).filter((m) => m.blocking);
+    if (blocking.length > 0) throw new DuplicatePatientError(blocking);
+  };
+
+  // Exclusão definitiva: documentos são listados antes (o registro sai em cascata com o paciente) e os
+  // arquivos removidos depois. Falhas na limpeza dos arquivos não desfazem o expurgo.
+  const purge = async (patient: Patient) => {
+    // Como as chaves estrangeiras no Supabase: cadastros ligados a uma mesclagem permanecem
+    const { count } = await listPatientMerges({ patientId: patient.id!, pageSize: 1 });
+    if (count > 0) throw new Error("Paciente ligado a uma mesclagem não pode ser excluído definitivamente");
+    const documents = await listPatientDocuments(patient.id!);
+    await repository.delete(patient.id!);
+    await record("purge", patient, patient);
+    try {
+      await purgePatientDocuments(documents);
+      await removePatientPhoto(patient.photo_url);
+    } catch (e) {
+      console.warn(`Não foi possível remover os arquivos do paciente ${patient.id}`, e);
+    }
+  };
 
-// Base em memória para permitir a navegação do app sem Supabase
-let MOCK_DB: Patient[] = [];
+  const applyUpdate = async (payload: PatientUpdate, action: PatientAuditAction, expectedUpdatedAt?: string) => {
+    assertCan("update", "patient");
+    // Campos que o perfil não lê chegam vazios do formulário e não devem sobrescrever o cadastro
+    const valid = withNormalizedTags(withValidDocuments(redactPatient(payload)));
+    await assertUniqueCpf(valid.cpf, valid.id);
+    const current = await getOrFail(payload.id);
+    // Como na mesclagem, cadastros na lixeira só voltam a ser alterados depois de restaurados
+    if (current.deleted_at) throw new Error("Paciente está na lixeira: restaure o cadastro antes de alterá-lo");
+    if (expectedUpdatedAt && current.updated_at !== expectedUpdatedAt) {
+      throw new PatientVersionConflictError(redactPatient(current));
+    }
+    assertEditableFields(valid, current);
+    const changes = withConsentTimestamp(valid, current);
+    const updated = expectedUpdatedAt
+      ? await repository.updateIfUnchanged(changes, expectedUpdatedAt)
+      : await repository.update(changes);
+    // Outra gravação ocorreu entre a leitura e a atualização condicional
+    if (!updated) throw new PatientVersionConflictError(redactPatient(await getOrFail(payload.id)));
+    await record(action, current, updated);
+    return redactPatient(updated);
+  };
 
-function matchesSearch(p: Patient, term: string) {
-  if (!term) return true;
-  const t = term.toLowerCase();
-  const cpf = onlyDigits(p.cpf);
-  return p.full_name.toLowerCase().includes(t) || cpf.includes(onlyDigits(t));
+  return {
+    listPatients: async (params) => {
+      assertCan("read", "patient");
+      const result = await repository.list({ ...params, clinicId: requireClinicId() });
+      return { ...result, data: result.data.map((p) => redactPatient(p)) };
+    },
+    getPatientById: async (id) => {
+      assertCan("read", "patient");
+      let patient = await getInClinic(id);
+      for (let i = 0; patient?.merged_into_id && i < MAX_MERGE_REDIRECTS; i++) {
+        patient = await getInClinic(patient.merged_into_id);
+      }
+      return patient && redactPatient(patient);
+    },
+    createPatient: async (payload) => {
+      assertCan("create", "patient");
+      const valid = withNormalizedTags(withValidDocuments(redactPatient(payload)));
+      assertEditableFields(valid, null);
+      await assertUniqueCpf(valid.cpf);
+      const created = await repository.create({ ...withConsentTimestamp(valid), clinic_id: requireClinicId() });
+      await record("create", null, created);
+      return redactPatient(created);
+    },
+    updatePatient: (payload, options) =>
+      applyUpdate(payload, payload.merged_into_id ? "merge" : "update", options?.expectedUpdatedAt),
+    updatePatientRiskScore: async (id, score) => {
+      await getOrFail(id);
+      await repository.updateDerived({ id, absenteeism_risk_score: score });
+    },
+    deletePatient: async (id) => {
+      assertCan("delete", "patient");
+      const current = await getOrFail(id);
+      const deleted = await repository.update({ id, deleted_at: new Date().toISOString(), deleted_by: getCurrentActor() });
+      await record("delete", current, deleted);
+    },
+    restorePatient: async (id) => {
+      assertCan("restore", "patient");
+      const patient = await getOrFail(id);
+      // CPF pode ter sido reutilizado por outro cadastro enquanto este estava na lixeira
+      await assertUniqueCpf(patient.cpf, id);
+      const restored = await repository.update({ id, deleted_at: null, deleted_by: null });
+      await record("restore", patient, restored);
+      return redactPatient(restored);
+    },
+    purgePatient: async (id) => {
+      assertCan("purge", "patient");
+      const patient = await getOrFail(id);
+      if (!patient.deleted_at) throw new Error("Somente pacientes na lixeira podem ser excluídos definitivamente");
+      await purge(patient);
+    },
+    purgeExpiredPatients: async (now = new Date()) => {
+      assertCan("purge", "patient");
+      const cutoff = subDays(now, PATIENT_TRASH_RETENTION_DAYS).getTime();
+      const { data } = await repository.list({
+        clinicId: requireClinicId(),
+        deleted: true,
+        sortBy: "deleted_at",
+        sortDirection: "asc",
+        page: 1,
+        pageSize: PURGE_BATCH_SIZE,
+      });
+      let purged = 0;
+      for (const patient of data) {
+        if (new Date(patient.deleted_at!).getTime() >= cutoff) break;
+        try {
+          await purge(patient);
+          purged++;
+        } catch (e) {
+          // Ex.: paciente referenciado por uma mesclagem; permanece na lixeira
+          console.warn(`Não foi possível expurgar o paciente ${patient.id}`, e);
+        }
+      }
+      return purged;
+    },
+    findDuplicatePatients,
+    findPatientsByIdentifiers: async ({ cpfs = [], cnss = [], legacyCodes = [] }) => {
+      assertCan("read", "patient");
+      const identifiers = {
+        cpfs: Array.from(new Set(cpfs.map(onlyDigits).filter(Boolean))),
+        cnss: Array.from(new Set(cnss.map(onlyDigits).filter(Boolean))),
+        legacyCodes: Array.from(new Set(legacyCodes.map((c) => c.trim()).filter(Boolean))),
+      };
+      if (identifiers.cpfs.length + identifiers.cnss.length + identifiers.legacyCodes.length === 0) return [];
+      const found = await repository.findByIdentifiers(identifiers, requireClinicId());
+      return found.map((p) => redactPatient(p));
+    },
+    listPatientHistory: async (params) => {
+      assertCan("read", "patient_history");
+      await getOrFail(params.patientId);
+      const result = await audit.list(params);
+      const data = result.data.map((entry) => ({
+        ...entry,
+        changes: entry.changes.filter((c) => can("read", "patient", c.field as PatientField)),
+        snapshot: redactPatient(entry.snapshot),
+      }));
+      return { ...result, data };
+    },
+    restorePatientVersion: async (patientId, entryId) => {
+      const entry: PatientAuditEntry | null = await audit.getById(entryId);
+      if (!entry || entry.patient_id !== patientId) throw new Error("Versão não encontrada no histórico do paciente");
+      const current = await getOrFail(patientId);
+      if (current.merged_into_id) throw new Error("Não é possível restaurar versões de um cadastro mesclado");
+      return applyUpdate({ ...pickPatientFields(entry.snapshot), id: patientId }, "revert");
+    },
+  };
 }
 
-export async function listPatients({
-  page = 1,
-  pageSize = 10,
-  search = "",
-}: ListPatientsParams): Promise<ListPatientsResult> {
-  // Ordena por created_at desc (quando disponível)
-  const sorted = [...MOCK_DB].sort((a, b) => {
-    const ad = a.created_at ? new Date(a.created_at).getTime() : 0;
-    const bd = b.created_at ? new Date(b.created_at).getTime() : 0;
-    return bd - ad;
-  });
-  const filtered = sorted.filter((p) => matchesSearch(p, search));
-  const count = filtered.length;
-  const from = (page - 1) * pageSize;
-  const to = from + pageSize;
-  const data = filtered.slice(from, to);
-  return { data, count };
+// Instância padrão, selecionada pela configuração do ambiente
+export const defaultPatientRepository = createPatientRepository(DATA_BACKEND);
+export const defaultPatientAuditRepository = createPatientAuditRepository(DATA_BACKEND);
+export const defaultPatientsService = createPatientsService(defaultPatientRepository, defaultPatientAuditRepository);
+
+// API em funções livres (usa a instância padrão). Nas páginas, prefira usePatientsService().
+export async function listPatients(params: ListPatientsParams): Promise<ListPatientsResult> {
+  return defaultPatientsService.listPatients(params);
 }
 
 export async function getPatientById(id: string): Promise<Patient | null> {
-  return MOCK_DB.find((p) => p.id === id) ?? null;
+  return defaultPatientsService.getPatientById(id);
 }
 
 export async function createPatient(payload: PatientInsert): Promise<Patient> {
-  const now = new Date().toISOString();
-  const entity: Patient = {
-    ...payload,
-    id: crypto.randomUUID(),
-    created_at: now,
-    updated_at: now,
-  };
-  MOCK_DB.push(entity);
-  return entity;
+  return defaultPatientsService.createPatient(payload);
 }
 
-export async function updatePatient(payload: PatientUpdate): Promise<Patient> {
-  const idx = MOCK_DB.findIndex((p) => p.id === payload.id);
-  if (idx < 0) throw new Error("Paciente não encontrado");
-  const updated: Patient = {
-    ...MOCK_DB[idx],
-    ...payload,
-    updated_at: new Date().toISOString(),
-  } as Patient;
-  MOCK_DB[idx] = updated;
-  return updated;
+export async function updatePatient(payload: PatientUpdate, options?: UpdatePatientOptions): Promise<Patient> {
+  return defaultPatientsService.updatePatient(payload, options);
+}
+
+export async function updatePatientRiskScore(id: string, score: number): Promise<void> {
+  return defaultPatientsService.updatePatientRiskScore(id, score);
 }
 
 export async function deletePatient(id: string): Promise<void> {
-  MOCK_DB = MOCK_DB.filter((p) => p.id !== id);
+  return defaultPatientsService.deletePatient(id);
+}
+
+export async function restorePatient(id: string): Promise<Patient> {
+  return defaultPatientsService.restorePatient(id);
+}
+
+export async function purgePatient(id: string): Promise<void> {
+  return defaultPatientsService.purgePatient(id);
+}
+
+export async function purgeExpiredPatients(now?: Date): Promise<number> {
+  return defaultPatientsService.purgeExpiredPatients(now);
+}
+
+export async function findDuplicatePatients(criteria: DuplicateCriteria, excludeId?: string): Promise<DuplicateMatch[]> {
+  return defaultPatientsService.findDuplicatePatients(criteria, excludeId);
+}
+
+export async function findPatientsByIdentifiers(identifiers: PatientIdentifiers): Promise<Patient[]> {
+  return defaultPatientsService.findPatientsByIdentifiers(identifiers);
+}
+
+export async function listPatientHistory(params: ListPatientAuditParams): Promise<ListPatientAuditResult> {
+  return defaultPatientsService.listPatientHistory(params);
+}
+
+export async function restorePatientVersion(patientId: string, entryId: string): Promise<Patient> {
+  return defaultPatientsService.restorePatientVersion(patientId, entryId);
 }
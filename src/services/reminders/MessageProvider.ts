@@ -0,0 +1,23 @@
+// Interface de envio de mensagens (WhatsApp, SMS, e-mail)
+// Integrações reais (gateway de WhatsApp, SMS, SMTP) implementam este contrato.
+
+import type { ReminderChannel } from "@/types/reminder";
+
+export interface OutgoingMessage {
+  reminderId: string;
+  channel: ReminderChannel;
+  to: string;
+  body: string;
+}
+
+export interface SendResult {
+  providerMessageId: string;
+  // "delivered" quando o provedor já confirma a entrega no envio
+  status: "sent" | "delivered" | "failed";
+  error?: string;
+}
+
+export interface MessageProvider {
+  name: string;
+  send(message: OutgoingMessage): Promise<SendResult>;
+}
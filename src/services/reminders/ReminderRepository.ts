@@ -0,0 +1,31 @@
+// Contrato de armazenamento de lembretes de agendamento
+
+import type {
+  AppointmentReminder,
+  AppointmentReminderInsert,
+  AppointmentReminderUpdate,
+  ReminderStatus,
+} from "@/types/reminder";
+
+export interface ListRemindersParams {
+  clinicId?: string;
+  appointmentIds?: string[];
+  patientIds?: string[];
+  status?: ReminderStatus[];
+  dueBefore?: string; // scheduled_for <= dueBefore (ISO)
+  // Paginação opcional; sem pageSize retorna todos os registros do filtro
+  page?: number; // 1-based
+  pageSize?: number;
+}
+
+export interface ListRemindersResult {
+  data: AppointmentReminder[];
+  count: number;
+}
+
+export interface ReminderRepository {
+  list(params: ListRemindersParams): Promise<ListRemindersResult>;
+  getById(id: string): Promise<AppointmentReminder | null>;
+  create(payload: AppointmentReminderInsert): Promise<AppointmentReminder>;
+  update(payload: AppointmentReminderUpdate): Promise<AppointmentReminder>;
+}
@@ -0,0 +1,13 @@
+// Repositório de lembretes persistido no localStorage (sobrevive a recarregamentos, para demos)
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { AppointmentReminder } from "@/types/reminder";
+import { createMemoryReminderRepository } from "./memoryReminderRepository";
+import type { ReminderRepository } from "./ReminderRepository";
+
+export function createLocalReminderRepository(storageKey = "appointment_reminders"): ReminderRepository {
+  return createMemoryReminderRepository({
+    initial: readCollection<AppointmentReminder>(storageKey),
+    onChange: (items) => writeCollection(storageKey, items),
+  });
+}
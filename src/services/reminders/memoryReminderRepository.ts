@@ -0,0 +1,60 @@
+// Repositório de lembretes em memória (base também do backend localStorage)
+
+import { clinicOf } from "@/lib/currentClinic";
+import type { AppointmentReminder } from "@/types/reminder";
+import type { ListRemindersParams, ListRemindersResult, ReminderRepository } from "./ReminderRepository";
+
+export interface MemoryReminderRepositoryOptions {
+  initial?: AppointmentReminder[];
+  // Chamado após cada alteração (ex.: para persistir em localStorage)
+  onChange?: (items: AppointmentReminder[]) => void;
+}
+
+function matches(r: AppointmentReminder, params: ListRemindersParams) {
+  if (params.clinicId && clinicOf(r) !== params.clinicId) return false;
+  if (params.appointmentIds && !params.appointmentIds.includes(r.appointment_id)) return false;
+  if (params.patientIds && !params.patientIds.includes(r.patient_id)) return false;
+  if (params.status && !params.status.includes(r.status)) return false;
+  if (params.dueBefore && new Date(r.scheduled_for).getTime() > new Date(params.dueBefore).getTime()) return false;
+  return true;
+}
+
+export function createMemoryReminderRepository(options: MemoryReminderRepositoryOptions = {}): ReminderRepository {
+  let items: AppointmentReminder[] = [...(options.initial ?? [])];
+  const commit = (next: AppointmentReminder[]) => {
+    items = next;
+    options.onChange?.(items);
+  };
+
+  return {
+    async list(params: ListRemindersParams): Promise<ListRemindersResult> {
+      // Mais recentes primeiro (scheduled_for desc)
+      const filtered = items
+        .filter((r) => matches(r, params))
+        .sort((a, b) => new Date(b.scheduled_for).getTime() - new Date(a.scheduled_for).getTime());
+      const count = filtered.length;
+      if (!params.pageSize) return { data: filtered, count };
+      const from = ((params.page ?? 1) - 1) * params.pageSize;
+      return { data: filtered.slice(from, from + params.pageSize), count };
+    },
+
+    async getById(id: string): Promise<AppointmentReminder | null> {
+      return items.find((r) => r.id === id) ?? null;
+    },
+
+    async create(payload): Promise<AppointmentReminder> {
+      const now = new Date().toISOString();
+      const entity: AppointmentReminder = { ...payload, id: crypto.randomUUID(), created_at: now, updated_at: now };
+      commit([...items, entity]);
+      return entity;
+    },
+
+    async update(payload): Promise<AppointmentReminder> {
+      const idx = items.findIndex((r) => r.id === payload.id);
+      if (idx < 0) throw new Error("Lembrete não encontrado");
+      const updated: AppointmentReminder = { ...items[idx], ...payload, updated_at: new Date().toISOString() };
+      commit(items.map((r, i) => (i === idx ? updated : r)));
+      return updated;
+    },
+  };
+}
@@ -0,0 +1,31 @@
+// Provedor local (stub): grava as mensagens numa caixa de saída no localStorage em vez de enviá-las.
+// Permite desenvolver e testar o fluxo de lembretes sem gateway externo.
+
+import { readCollection, writeCollection } from "@/lib/localCollection";
+import type { MessageProvider, OutgoingMessage, SendResult } from "./MessageProvider";
+
+const OUTBOX_KEY = "outbox";
+
+export interface OutboxMessage extends OutgoingMessage {
+  id: string;
+  created_at: string;
+}
+
+export function listOutboxMessages(): OutboxMessage[] {
+  return readCollection<OutboxMessage>(OUTBOX_KEY).sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export function clearOutbox(): void {
+  writeCollection(OUTBOX_KEY, []);
+}
+
+export function createOutboxMessageProvider(): MessageProvider {
+  return {
+    name: "outbox",
+    async send(message: OutgoingMessage): Promise<SendResult> {
+      const entry: OutboxMessage = { ...message, id: crypto.randomUUID(), created_at: new Date().toISOString() };
+      writeCollection(OUTBOX_KEY, [...readCollection<OutboxMessage>(OUTBOX_KEY), entry]);
+      return { providerMessageId: entry.id, status: "delivered" };
+    },
+  };
+}
@@ -0,0 +1,74 @@
+// Repositório de lembretes sobre a tabela public.appointment_reminders do Supabase
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { clinicOf } from "@/lib/currentClinic";
+import type { AppointmentReminder, ReminderChannel, ReminderReply, ReminderStatus } from "@/types/reminder";
+import type { ListRemindersParams, ListRemindersResult, ReminderRepository } from "./ReminderRepository";
+
+type ReminderRow = Database["public"]["Tables"]["appointment_reminders"]["Row"];
+
+function fromRow(row: ReminderRow): AppointmentReminder {
+  return {
+    ...row,
+    channel: row.channel as ReminderChannel,
+    status: row.status as ReminderStatus,
+    reply: (row.reply as ReminderReply | null) ?? null,
+    created_at: row.created_at ?? undefined,
+    updated_at: row.updated_at ?? undefined,
+  };
+}
+
+export function createSupabaseReminderRepository(): ReminderRepository {
+  return {
+    async list(params: ListRemindersParams): Promise<ListRemindersResult> {
+      let query = supabase
+        .from("appointment_reminders")
+        .select("*", { count: "exact" })
+        .order("scheduled_for", { ascending: false });
+
+      if (params.clinicId) query = query.eq("clinic_id", params.clinicId);
+      if (params.appointmentIds) query = query.in("appointment_id", params.appointmentIds);
+      if (params.patientIds) query = query.in("patient_id", params.patientIds);
+      if (params.status) query = query.in("status", params.status);
+      if (params.dueBefore) query = query.lte("scheduled_for", params.dueBefore);
+      if (params.pageSize) {
+        const from = ((params.page ?? 1) - 1) * params.pageSize;
+        query = query.range(from, from + params.pageSize - 1);
+      }
+
+      const { data, count, error } = await query;
+      if (error) throw new Error(error.message);
+      return { data: (data ?? []).map(fromRow), count: count ?? 0 };
+    },
+
+    async getById(id: string): Promise<AppointmentReminder | null> {
+      const { data, error } = await supabase.from("appointment_reminders").select("*").eq("id", id).maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data) : null;
+    },
+
+    async create(payload): Promise<AppointmentReminder> {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from("appointment_reminders")
+        .insert({ ...payload, clinic_id: clinicOf(payload), created_at: now, updated_at: now })
+        .select("*")
+        .single();
+      if (error) throw new Error(error.message);
+      return fromRow(data);
+    },
+
+    async update({ id, ...changes }): Promise<AppointmentReminder> {
+      const { data, error } = await supabase
+        .from("appointment_reminders")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select("*")
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      if (!data) throw new Error("Lembrete não encontrado");
+      return fromRow(data);
+    },
+  };
+}
@@ -0,0 +1,239 @@
+// Serviço de lembretes de agendamento
+// Agenda mensagens de confirmação (D-2 e D-1) nos canais permitidos em communication_preferences,
+// envia as que vencerem por um MessageProvider e registra entrega e resposta do paciente.
+
+import { addHours, format, parseISO, set, subDays } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { DATA_BACKEND, type DataBackend } from "@/lib/dataBackend";
+import { clinicOf, requireClinicId } from "@/lib/currentClinic";
+import { ACTIVE_APPOINTMENT_STATUSES, type Appointment } from "@/types/appointment";
+import type { Patient } from "@/types/patient";
+import {
+  REMINDER_CHANNELS,
+  type AppointmentReminder,
+  type ReminderChannel,
+  type ReminderReply,
+} from "@/types/reminder";
+import { getPatientById } from "./patientsService";
+import type { ListRemindersParams, ListRemindersResult, ReminderRepository } from "./reminders/ReminderRepository";
+import { createMemoryReminderRepository } from "./reminders/memoryReminderRepository";
+import { createLocalReminderRepository } from "./reminders/localReminderRepository";
+import { createSupabaseReminderRepository } from "./reminders/supabaseReminderRepository";
+import type { MessageProvider } from "./reminders/MessageProvider";
+import { createOutboxMessageProvider } from "./reminders/outboxMessageProvider";
+
+export type { ListRemindersParams, ListRemindersResult, ReminderRepository, MessageProvider };
+
+// Dias antes do atendimento em que o lembrete é enviado
+export const REMINDER_OFFSETS_DAYS = [2, 1];
+// Horário local de envio dos lembretes
+export const REMINDER_SEND_HOUR = 9;
+// Antecedência mínima para ainda valer a pena lembrar quando os horários padrão já passaram
+const MIN_IMMEDIATE_LEAD_HOURS = 2;
+
+export function createReminderRepository(backend: DataBackend): ReminderRepository {
+  switch (backend) {
+    case "memory":
+      return createMemoryReminderRepository();
+    case "local":
+      return createLocalReminderRepository();
+    default:
+      return createSupabaseReminderRepository();
+  }
+}
+
+const repository = createReminderRepository(DATA_BACKEND);
+let provider: MessageProvider = createOutboxMessageProvider();
+
+// Permite trocar o provedor (ex.: gateway real em produção)
+export function setMessageProvider(next: MessageProvider) {
+  provider = next;
+}
+
+export function getMessageProvider(): MessageProvider {
+  return provider;
+}
+
+// Canais de lembrete permitidos pelo paciente.
+// Sem preferências registradas, usa WhatsApp (telefone principal é cadastrado como WhatsApp).
+export function getReminderChannels(patient: Patient): ReminderChannel[] {
+  const prefs = patient.communication_preferences;
+  if (!prefs || Object.keys(prefs).length === 0) return ["whatsapp"];
+  return REMINDER_CHANNELS.filter((c) => prefs[c] === true);
+}
+
+function recipientFor(patient: Patient, channel: ReminderChannel): string | null {
+  if (channel === "email") return patient.email || null;
+  return patient.phone_primary || null;
+}
+
+export function buildReminderMessage(appointment: Appointment, patient: Patient): string {
+  const start = parseISO(appointment.start_at);
+  const name = (patient.social_name || patient.full_name).split(" ")[0];
+  const when = format(start, "EEEE, dd/MM 'às' HH:mm", { locale: ptBR });
+  return (
+    `Olá, ${name}! Lembramos do seu atendimento com ${appointment.professional_name} ${when}. ` +
+    `Responda 1 para CONFIRMAR ou 2 para CANCELAR.`
+  );
+}
+
+// Horário de envio: início da janela de contato preferida do paciente, ou o padrão da clínica
+export function reminderSendTime(patient: Patient): { hours: number; minutes: number } {
+  const match = /^(\d{2}):(\d{2})$/.exec(patient.preferred_contact_start ?? "");
+  if (!match) return { hours: REMINDER_SEND_HOUR, minutes: 0 };
+  return { hours: Number(match[1]), minutes: Number(match[2]) };
+}
+
+// Horários de envio de cada lembrete. Quando D-2/D-1 já passaram, envia um único lembrete imediato.
+export function planReminderTimes(
+  appointment: Appointment,
+  now = new Date(),
+  sendTime = { hours: REMINDER_SEND_HOUR, minutes: 0 }
+) {
+  const start = parseISO(appointment.start_at);
+  const planned = REMINDER_OFFSETS_DAYS.map((offset) => ({
+    offset_days: offset,
+    scheduled_for: set(subDays(start, offset), { ...sendTime, seconds: 0, milliseconds: 0 }),
+  }));
+  const future = planned.filter((p) => p.scheduled_for > now);
+  const missed = planned.filter((p) => p.scheduled_for <= now);
+  if (missed.length > 0 && addHours(now, MIN_IMMEDIATE_LEAD_HOURS) < start) {
+    const smallest = Math.min(...missed.map((p) => p.offset_days));
+    future.push({ offset_days: smallest, scheduled_for: now });
+  }
+  return future;
+}
+
+export async function listReminders(params: ListRemindersParams): Promise<ListRemindersResult> {
+  return repository.list({ ...params, clinicId: requireClinicId() });
+}
+
+// Cancela os lembretes ainda não enviados de um agendamento
+export async function cancelAppointmentReminders(appointmentId: string): Promise<void> {
+  const { data } = await repository.list({ appointmentIds: [appointmentId], status: ["pending"] });
+  await Promise.all(data.map((r) => repository.update({ id: r.id!, status: "cancelled" })));
+}
+
+// (Re)agenda os lembretes de um agendamento ativo conforme as preferências do paciente
+export async function scheduleAppointmentReminders(
+  appointment: Appointment,
+  now = new Date()
+): Promise<AppointmentReminder[]> {
+  await cancelAppointmentReminders(appointment.id!);
+  if (!ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status)) return [];
+
+  const patient = await getPatientById(appointment.patient_id);
+  if (!patient) return [];
+  const message = buildReminderMessage(appointment, patient);
+  const created: AppointmentReminder[] = [];
+
+  for (const { offset_days, scheduled_for } of planReminderTimes(appointment, now, reminderSendTime(patient))) {
+    for (const channel of getReminderChannels(patient)) {
+      const recipient = recipientFor(patient, channel);
+      created.push(
+        await repository.create({
+          clinic_id: clinicOf(appointment),
+          appointment_id: appointment.id!,
+          patient_id: patient.id!,
+          channel,
+          offset_days,
+          scheduled_for: scheduled_for.toISOString(),
+          // Sem destinatário no canal escolhido: registra como não enviado para a equipe ver
+          status: recipient ? "pending" : "skipped",
+          failure_reason: recipient ? null : "Contato não cadastrado para o canal",
+          recipient,
+          message,
+        })
+      );
+    }
+  }
+  return created;
+}
+
+// Mantém os lembretes coerentes com o estado do agendamento
+export async function syncAppointmentReminders(appointment: Appointment): Promise<void> {
+  if (ACTIVE_APPOINTMENT_STATUSES.includes(appointment.status) && appointment.status !== "confirmed") {
+    await scheduleAppointmentReminders(appointment);
+  } else {
+    // Confirmado, cancelado, realizado ou falta: não há mais o que lembrar
+    await cancelAppointmentReminders(appointment.id!);
+  }
+}
+
+// Transfere lembretes para outro paciente (mesclagem de cadastros e sua reversão)
+export async function reassignReminders(ids: string[], patientId: string): Promise<void> {
+  for (const id of ids) await repository.update({ id, patient_id: patientId });
+}
+
+// Envia os lembretes pendentes cujo horário já chegou (de todas as clínicas acessíveis ao usuário)
+export async function dispatchDueReminders(now = new Date()): Promise<AppointmentReminder[]> {
+  const { data } = await repository.list({ status: ["pending"], dueBefore: now.toISOString() });
+  const results: AppointmentReminder[] = [];
+  for (const reminder of data) {
+    try {
+      const res = await provider.send({
+        reminderId: reminder.id!,
+        channel: reminder.channel,
+        to: reminder.recipient ?? "",
+        body: reminder.message ?? "",
+      });
+      const sentAt = new Date().toISOString();
+      results.push(
+        await repository.update({
+          id: reminder.id!,
+          status: res.status,
+          provider_message_id: res.providerMessageId,
+          sent_at: res.status === "failed" ? null : sentAt,
+          delivered_at: res.status === "delivered" ? sentAt : null,
+          failure_reason: res.error ?? null,
+        })
+      );
+    } catch (e) {
+      results.push(
+        await repository.update({ id: reminder.id!, status: "failed", failure_reason: (e as Error)?.message ?? "Erro no envio" })
+      );
+    }
+  }
+  return results;
+}
+
+// Callback de status do provedor (ex.: webhook de entrega)
+export async function recordReminderDelivery(
+  reminderId: string,
+  status: "delivered" | "failed",
+  failureReason?: string
+): Promise<AppointmentReminder> {
+  return repository.update({
+    id: reminderId,
+    status,
+    delivered_at: status === "delivered" ? new Date().toISOString() : null,
+    failure_reason: status === "failed" ? failureReason ?? "Falha na entrega" : null,
+  });
+}
+
+// Registra a resposta do paciente. O efeito no agendamento é aplicado por applyReminderReply (appointmentsService).
+export async function recordReminderReply(
+  reminderId: string,
+  reply: ReminderReply,
+  text?: string
+): Promise<AppointmentReminder> {
+  const reminder = await repository.getById(reminderId);
+  if (!reminder) throw new Error("Lembrete não encontrado");
+  if (reminder.status !== "sent" && reminder.status !== "delivered") {
+    throw new Error("Só é possível registrar resposta de lembretes enviados");
+  }
+  return repository.update({
+    id: reminderId,
+    reply,
+    reply_text: text?.trim() || null,
+    replied_at: new Date().toISOString(),
+  });
+}
+
+// Interpreta respostas livres no padrão da mensagem (1 = confirmar, 2 = cancelar)
+export function parseReminderReply(text: string): ReminderReply {
+  const t = text.trim().toLowerCase();
+  if (/^(1|sim|confirm)/.test(t)) return "confirmed";
+  if (/^(2|n[aã]o|cancel)/.test(t)) return "cancelled";
+  return "other";
+}
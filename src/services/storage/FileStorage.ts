@@ -0,0 +1,18 @@
+// Contrato do armazenamento de arquivos dos pacientes (fotos, anexos)
+// Cada backend (memória, IndexedDB, Supabase Storage) implementa as mesmas operações.
+
+export interface FileStorage {
+  // Grava o arquivo em bucket/path, substituindo o existente
+  upload(bucket: string, path: string, file: Blob): Promise<void>;
+  // URL para exibir ou baixar o arquivo. Pode expirar (URL assinada no Supabase, object URL da sessão nos demais).
+  getUrl(bucket: string, path: string): Promise<string>;
+  // Ignora caminhos que não existem
+  remove(bucket: string, paths: string[]): Promise<void>;
+}
+
+export class FileNotFoundError extends Error {
+  constructor(public readonly path: string) {
+    super("Arquivo não encontrado");
+    this.name = "FileNotFoundError";
+  }
+}
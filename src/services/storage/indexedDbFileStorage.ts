@@ -0,0 +1,70 @@
+// Armazenamento de arquivos no IndexedDB do navegador (backend "local": desenvolvimento offline e demos).
+// O localStorage não comporta imagens; o IndexedDB guarda os Blobs diretamente.
+
+import { FileNotFoundError, type FileStorage } from "./FileStorage";
+
+const DB_NAME = "mediconnect-files";
+const STORE = "files";
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error("Não foi possível abrir o armazenamento local de arquivos"));
+  });
+}
+
+// Executa uma operação no object store e aguarda o fim da transação
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error ?? new Error("Falha no armazenamento local de arquivos"));
+      tx.onabort = () => reject(tx.error ?? new Error("Falha no armazenamento local de arquivos"));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function createIndexedDbFileStorage(): FileStorage {
+  // Uma object URL por arquivo na sessão, liberada quando o arquivo é substituído ou removido
+  const urls = new Map<string, string>();
+
+  const release = (key: string) => {
+    const url = urls.get(key);
+    if (url) URL.revokeObjectURL(url);
+    urls.delete(key);
+  };
+
+  return {
+    async upload(bucket, path, file) {
+      const key = `${bucket}/${path}`;
+      release(key);
+      await withStore("readwrite", (store) => store.put(file, key));
+    },
+
+    async getUrl(bucket, path) {
+      const key = `${bucket}/${path}`;
+      const cached = urls.get(key);
+      if (cached) return cached;
+      const file = await withStore<Blob>("readonly", (store) => store.get(key) as IDBRequest<Blob>);
+      if (!file) throw new FileNotFoundError(path);
+      const url = URL.createObjectURL(file);
+      urls.set(key, url);
+      return url;
+    },
+
+    async remove(bucket, paths) {
+      const keys = paths.map((path) => `${bucket}/${path}`);
+      keys.forEach(release);
+      await withStore("readwrite", (store) => {
+        keys.forEach((key) => store.delete(key));
+      });
+    },
+  };
+}
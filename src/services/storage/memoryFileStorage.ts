@@ -0,0 +1,39 @@
+// Armazenamento de arquivos em memória (perdido ao recarregar)
+
+import { FileNotFoundError, type FileStorage } from "./FileStorage";
+
+export function createMemoryFileStorage(): FileStorage {
+  const files = new Map<string, Blob>();
+  // Uma object URL por arquivo, liberada quando o arquivo é substituído ou removido
+  const urls = new Map<string, string>();
+
+  const release = (key: string) => {
+    const url = urls.get(key);
+    if (url) URL.revokeObjectURL(url);
+    urls.delete(key);
+  };
+
+  return {
+    async upload(bucket, path, file) {
+      const key = `${bucket}/${path}`;
+      release(key);
+      files.set(key, file);
+    },
+
+    async getUrl(bucket, path) {
+      const key = `${bucket}/${path}`;
+      const file = files.get(key);
+      if (!file) throw new FileNotFoundError(path);
+      if (!urls.has(key)) urls.set(key, URL.createObjectURL(file));
+      return urls.get(key)!;
+    },
+
+    async remove(bucket, paths) {
+      for (const path of paths) {
+        const key = `${bucket}/${path}`;
+        release(key);
+        files.delete(key);
+      }
+    },
+  };
+}
@@ -0,0 +1,30 @@
+// Armazenamento de arquivos no Supabase Storage (buckets privados, ver supabase/migrations)
+
+import { supabase } from "@/integrations/supabase/client";
+import { FileNotFoundError, type FileStorage } from "./FileStorage";
+
+// Validade das URLs assinadas
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export function createSupabaseFileStorage(): FileStorage {
+  return {
+    async upload(bucket, path, file) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(path, file, { contentType: file.type || undefined, upsert: true });
+      if (error) throw new Error(error.message);
+    },
+
+    async getUrl(bucket, path) {
+      const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+      if (error || !data?.signedUrl) throw error ? new Error(error.message) : new FileNotFoundError(path);
+      return data.signedUrl;
+    },
+
+    async remove(bucket, paths) {
+      if (paths.length === 0) return;
+      const { error } = await supabase.storage.from(bucket).remove(paths);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// Tipos para o módulo de Agendamentos (consultas/atendimentos)
+
+export type AppointmentStatus = "scheduled" | "confirmed" | "completed" | "cancelled" | "no_show";
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  scheduled: "Agendado",
+  confirmed: "Confirmado",
+  completed: "Realizado",
+  cancelled: "Cancelado",
+  no_show: "Faltou",
+};
+
+// Status que ainda ocupam o horário na agenda
+export const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ["scheduled", "confirmed"];
+
+// Representa a tabela public.appointments no Supabase
+export interface Appointment {
+  id?: string;
+  // Clínica do atendimento (preenchida pelo serviço com a clínica ativa)
+  clinic_id?: string | null;
+  patient_id: string;
+  professional_name: string;
+  start_at: string; // ISO 8601 (timestamptz)
+  end_at: string; // ISO 8601 (timestamptz)
+  status: AppointmentStatus;
+  reason?: string | null;
+  notes?: string | null;
+  // Histórico de ciclo de vida
+  confirmed_at?: string | null;
+  cancelled_at?: string | null;
+  cancellation_reason?: string | null;
+  completed_at?: string | null;
+  reschedule_count?: number | null;
+  // Metadados
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type AppointmentInsert = Omit<Appointment, "id" | "created_at" | "updated_at" | "status"> & {
+  status?: AppointmentStatus;
+};
+export type AppointmentUpdate = Partial<Omit<Appointment, "id" | "created_at" | "updated_at">> & { id: string };
+
+// Resumo por paciente exibido na listagem (último e próximo atendimento)
+export interface PatientAppointmentSummary {
+  last?: Appointment;
+  next?: Appointment;
+}
@@ -0,0 +1,17 @@
+// Tipos de Clínicas (multi-clínica: cada cadastro pertence a uma clínica)
+
+// Representa a tabela public.clinics no Supabase
+export interface Clinic {
+  id: string;
+  name: string;
+  city?: string | null;
+  state?: string | null; // UF
+  created_at?: string;
+}
+
+// Representa a tabela public.clinic_members: vínculo do usuário com as clínicas em que atua
+export interface ClinicMember {
+  clinic_id: string;
+  user_id: string;
+  created_at?: string;
+}
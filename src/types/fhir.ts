@@ -0,0 +1,98 @@
+// Tipos HL7 FHIR R4 usados na troca de dados com laboratórios parceiros e a rede regional de saúde.
+// Apenas os elementos de Patient e Bundle que o sistema lê ou grava (https://hl7.org/fhir/R4/patient.html).
+
+export interface FhirExtension {
+  url: string;
+  valueString?: string;
+}
+
+// Extensões de um elemento primitivo (no JSON, "_<elemento>" ao lado do valor)
+export interface FhirElement {
+  extension?: FhirExtension[];
+}
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirIdentifier {
+  use?: "usual" | "official" | "temp" | "secondary" | "old";
+  type?: FhirCodeableConcept;
+  system?: string;
+  value?: string;
+}
+
+export interface FhirHumanName {
+  use?: "usual" | "official" | "temp" | "nickname" | "anonymous" | "old" | "maiden";
+  text?: string;
+  family?: string;
+  given?: string[];
+}
+
+export interface FhirContactPoint {
+  system?: "phone" | "fax" | "email" | "pager" | "url" | "sms" | "other";
+  value?: string;
+  use?: "home" | "work" | "temp" | "old" | "mobile";
+  rank?: number;
+}
+
+export interface FhirAddress {
+  use?: "home" | "work" | "temp" | "old" | "billing";
+  type?: "postal" | "physical" | "both";
+  text?: string;
+  line?: string[];
+  _line?: (FhirElement | null)[];
+  city?: string;
+  district?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+}
+
+export interface FhirAttachment {
+  contentType?: string;
+  url?: string;
+}
+
+export interface FhirPatientContact {
+  relationship?: FhirCodeableConcept[];
+  name?: FhirHumanName;
+  telecom?: FhirContactPoint[];
+}
+
+export interface FhirPatient {
+  resourceType: "Patient";
+  id?: string;
+  meta?: { lastUpdated?: string };
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: FhirHumanName[];
+  telecom?: FhirContactPoint[];
+  gender?: "male" | "female" | "other" | "unknown";
+  birthDate?: string; // yyyy-MM-dd
+  address?: FhirAddress[];
+  maritalStatus?: FhirCodeableConcept;
+  photo?: FhirAttachment[];
+  contact?: FhirPatientContact[];
+}
+
+export interface FhirBundleEntry<T = unknown> {
+  fullUrl?: string;
+  resource?: T;
+}
+
+export interface FhirBundle<T = unknown> {
+  resourceType: "Bundle";
+  id?: string;
+  type: "collection" | "searchset" | "transaction" | "batch" | "document" | "message" | "history";
+  timestamp?: string;
+  total?: number;
+  entry?: FhirBundleEntry<T>[];
+}
@@ -2,6 +2,7 @@
 // Obs.: Comentários em português para facilitar manutenção pela equipe local.
 
 export type Gender = "Masculino" | "Feminino" | "Outro" | "Prefiro não informar";
+export const GENDERS: Gender[] = ["Masculino", "Feminino", "Outro", "Prefiro não informar"];
 export type MaritalStatus =
   | "Solteiro(a)"
   | "Casado(a)"
@@ -11,6 +12,26 @@ export type MaritalStatus =
   | "Outro";
 export type Ethnicity = "Branca" | "Preta" | "Parda" | "Amarela" | "Indígena" | "Outra";
 
+// Canais aceitos em communication_preferences (chave -> permitido)
+export type CommunicationChannel = "whatsapp" | "sms" | "email" | "call";
+
+export const COMMUNICATION_CHANNEL_LABELS: Record<CommunicationChannel, string> = {
+  whatsapp: "WhatsApp",
+  sms: "SMS",
+  email: "E-mail",
+  call: "Ligação",
+};
+
+export const COMMUNICATION_CHANNELS = Object.keys(COMMUNICATION_CHANNEL_LABELS) as CommunicationChannel[];
+
+// Padrão para novos cadastros: telefone principal é registrado como WhatsApp
+export const DEFAULT_COMMUNICATION_PREFERENCES: Record<CommunicationChannel, boolean> = {
+  whatsapp: true,
+  sms: false,
+  email: false,
+  call: false,
+};
+
 // Representa a tabela public.patients no Supabase
 export interface Patient {
   id?: string;
@@ -20,6 +41,8 @@ export interface Patient {
   social_name?: string | null;
   cpf: string; // Apenas dígitos (11)
   rg?: string | null;
+  rg_state?: string | null; // UF emissora do RG
+  cns?: string | null; // Cartão Nacional de Saúde (15 dígitos)
   other_document_type?: string | null;
   other_document_number?: string | null;
   gender?: string | null; // Livre para compatibilidade com sistemas legados
@@ -36,6 +59,8 @@ export interface Patient {
   responsible_name?: string | null;
   responsible_cpf?: string | null; // 11 dígitos
   legacy_code?: string | null;
+  // Etiquetas livres para segmentar pacientes (ex.: "vip", "convênio x"), em minúsculas
+  tags?: string[] | null;
   // Contato
   email?: string | null;
   phone_primary: string; // Apenas dígitos
@@ -53,10 +78,78 @@ export interface Patient {
   behavior_score?: number | null;
   absenteeism_risk_score?: number | null;
   communication_preferences?: Record<string, boolean> | null;
+  // Janela preferida para contato ("HH:mm")
+  preferred_contact_start?: string | null;
+  preferred_contact_end?: string | null;
+  // Consentimento LGPD para comunicações de marketing
+  marketing_consent?: boolean;
+  marketing_consent_at?: string | null;
+  // Mesclagem: registro absorvido por outro paciente (tombstone que redireciona para merged_into_id)
+  merged_into_id?: string | null;
+  merged_at?: string | null;
+  // Exclusão lógica (lixeira)
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+  // Clínica dona do cadastro (preenchida pelo serviço com a clínica ativa)
+  clinic_id?: string | null;
   // Metadados
   created_at?: string;
   updated_at?: string;
 }
 
+// Campos editáveis do cadastro (exclui identificador, clínica, metadados e controles de mesclagem e lixeira)
+export type PatientField = Exclude<
+  keyof Patient,
+  "id" | "clinic_id" | "created_at" | "updated_at" | "merged_into_id" | "merged_at" | "deleted_at" | "deleted_by"
+>;
+
+// Rótulos de cada campo, na ordem de exibição (comparação, mesclagem)
+export const PATIENT_FIELD_LABELS: Record<PatientField, string> = {
+  photo_url: "Foto",
+  full_name: "Nome completo",
+  social_name: "Nome social",
+  cpf: "CPF",
+  rg: "RG",
+  rg_state: "UF emissora do RG",
+  cns: "CNS",
+  other_document_type: "Outro documento (tipo)",
+  other_document_number: "Outro documento (número)",
+  gender: "Gênero",
+  birth_date: "Data de nascimento",
+  ethnicity: "Etnia",
+  race: "Raça/cor",
+  nationality: "Nacionalidade",
+  birth_city: "Naturalidade",
+  birth_state: "UF de nascimento",
+  profession: "Profissão",
+  marital_status: "Estado civil",
+  mother_name: "Nome da mãe",
+  father_name: "Nome do pai",
+  responsible_name: "Responsável",
+  responsible_cpf: "CPF do responsável",
+  legacy_code: "Código legado",
+  tags: "Etiquetas",
+  email: "E-mail",
+  phone_primary: "Telefone principal",
+  phone_secondary: "Telefone secundário",
+  address_zip_code: "CEP",
+  address_street: "Logradouro",
+  address_number: "Número",
+  address_complement: "Complemento",
+  address_district: "Bairro",
+  address_city: "Cidade",
+  address_state: "UF",
+  observations: "Observações",
+  behavior_score: "Score comportamental",
+  absenteeism_risk_score: "Score de absenteísmo",
+  communication_preferences: "Canais de comunicação",
+  preferred_contact_start: "Contato a partir de",
+  preferred_contact_end: "Contato até",
+  marketing_consent: "Consentimento de marketing",
+  marketing_consent_at: "Data do consentimento",
+};
+
+export const PATIENT_FIELDS = Object.keys(PATIENT_FIELD_LABELS) as PatientField[];
+
 export type PatientInsert = Omit<Patient, "id" | "created_at" | "updated_at">;
 export type PatientUpdate = Partial<PatientInsert> & { id: string };
@@ -0,0 +1,36 @@
+// Tipos da trilha de auditoria de Pacientes
+
+import type { Patient } from "./patient";
+
+export type PatientAuditAction = "create" | "update" | "delete" | "restore" | "purge" | "merge" | "revert";
+
+export const PATIENT_AUDIT_ACTION_LABELS: Record<PatientAuditAction, string> = {
+  create: "Cadastro criado",
+  update: "Cadastro alterado",
+  delete: "Movido para a lixeira",
+  restore: "Restaurado da lixeira",
+  purge: "Excluído definitivamente",
+  merge: "Mesclado em outro cadastro",
+  revert: "Versão anterior restaurada",
+};
+
+export interface PatientFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Representa a tabela public.patient_audit_log no Supabase
+export interface PatientAuditEntry {
+  id?: string;
+  clinic_id?: string | null;
+  patient_id: string;
+  action: PatientAuditAction;
+  changes: PatientFieldChange[];
+  // Estado completo do cadastro após a operação (antes, no caso de expurgo)
+  snapshot: Patient;
+  actor: string;
+  occurred_at: string;
+}
+
+export type PatientAuditEntryInsert = Omit<PatientAuditEntry, "id">;
@@ -0,0 +1,45 @@
+// Tipos dos documentos anexados ao cadastro do paciente (documentos digitalizados, carteirinhas, exames, termos)
+
+export type PatientDocumentType = "identity" | "insurance_card" | "exam_result" | "consent_form" | "other";
+
+export const PATIENT_DOCUMENT_TYPES: PatientDocumentType[] = [
+  "identity",
+  "insurance_card",
+  "exam_result",
+  "consent_form",
+  "other",
+];
+
+export const PATIENT_DOCUMENT_TYPE_LABELS: Record<PatientDocumentType, string> = {
+  identity: "Documento de identificação",
+  insurance_card: "Carteirinha do convênio",
+  exam_result: "Resultado de exame",
+  consent_form: "Termo de consentimento",
+  other: "Outro",
+};
+
+// Situação da validade: expired (vencido), expiring (vence em breve), valid (dentro da validade)
+export type DocumentExpiryStatus = "expired" | "expiring" | "valid";
+
+// Representa a tabela public.patient_documents no Supabase
+export interface PatientDocument {
+  id?: string;
+  clinic_id?: string | null;
+  patient_id: string;
+  document_type: PatientDocumentType;
+  description?: string | null;
+  issued_at?: string | null; // yyyy-MM-dd
+  expires_at?: string | null; // yyyy-MM-dd
+  // Arquivo no armazenamento ("storage://patient-documents/<caminho>")
+  file_ref: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  uploaded_by?: string | null;
+  // Metadados
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PatientDocumentInsert = Omit<PatientDocument, "id" | "created_at" | "updated_at">;
+export type PatientDocumentUpdate = Partial<PatientDocumentInsert> & { id: string };
@@ -0,0 +1,30 @@
+// Tipos da mesclagem de cadastros de Pacientes
+
+import type { Patient, PatientField } from "./patient";
+
+// De qual registro vem o valor de cada campo no cadastro final
+export type MergeFieldSource = "survivor" | "merged";
+export type MergeFieldChoices = Partial<Record<PatientField, MergeFieldSource>>;
+
+// Representa a tabela public.patient_merges no Supabase
+export interface PatientMerge {
+  id?: string;
+  clinic_id?: string | null;
+  survivor_id: string; // Paciente que permanece
+  merged_id: string; // Paciente absorvido (vira tombstone)
+  field_choices: MergeFieldChoices;
+  // Estado dos dois cadastros antes da mesclagem (permite desfazer)
+  survivor_snapshot: Patient;
+  merged_snapshot: Patient;
+  // Ids dos registros relacionados transferidos, por tipo (ex.: { appointments: [...] })
+  repointed: Record<string, string[]>;
+  merged_by: string;
+  merged_at: string;
+  undo_deadline: string;
+  undone_at?: string | null;
+  undone_by?: string | null;
+  created_at?: string;
+}
+
+export type PatientMergeInsert = Omit<PatientMerge, "id" | "created_at">;
+export type PatientMergeUpdate = Partial<PatientMergeInsert> & { id: string };
@@ -0,0 +1,55 @@
+// Tipos para lembretes de agendamento (confirmação D-2, D-1 etc.)
+
+import type { CommunicationChannel } from "./patient";
+
+// Canais com envio automático (ligação é feita manualmente pela recepção)
+export type ReminderChannel = Exclude<CommunicationChannel, "call">;
+
+export const REMINDER_CHANNELS: ReminderChannel[] = ["whatsapp", "sms", "email"];
+
+export type ReminderStatus = "pending" | "sent" | "delivered" | "failed" | "cancelled" | "skipped";
+
+export const REMINDER_STATUS_LABELS: Record<ReminderStatus, string> = {
+  pending: "Pendente",
+  sent: "Enviado",
+  delivered: "Entregue",
+  failed: "Falhou",
+  cancelled: "Cancelado",
+  skipped: "Não enviado",
+};
+
+export type ReminderReply = "confirmed" | "cancelled" | "other";
+
+export const REMINDER_REPLY_LABELS: Record<ReminderReply, string> = {
+  confirmed: "Confirmou",
+  cancelled: "Cancelou",
+  other: "Outra resposta",
+};
+
+// Representa a tabela public.appointment_reminders no Supabase
+export interface AppointmentReminder {
+  id?: string;
+  clinic_id?: string | null;
+  appointment_id: string;
+  patient_id: string;
+  channel: ReminderChannel;
+  offset_days: number; // dias antes do atendimento (2 = D-2)
+  scheduled_for: string; // ISO 8601
+  status: ReminderStatus;
+  recipient?: string | null; // telefone (dígitos) ou e-mail
+  message?: string | null;
+  provider_message_id?: string | null;
+  sent_at?: string | null;
+  delivered_at?: string | null;
+  failure_reason?: string | null;
+  // Resposta do paciente
+  reply?: ReminderReply | null;
+  reply_text?: string | null;
+  replied_at?: string | null;
+  // Metadados
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type AppointmentReminderInsert = Omit<AppointmentReminder, "id" | "created_at" | "updated_at">;
+export type AppointmentReminderUpdate = Partial<AppointmentReminderInsert> & { id: string };
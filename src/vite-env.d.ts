@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Backend de dados: "supabase" (padrão), "local" (localStorage) ou "memory" (sem persistência)
+  readonly VITE_DATA_BACKEND?: string;
+  // Autenticação: "supabase" ou "mock" (padrão: acompanha VITE_DATA_BACKEND)
+  readonly VITE_AUTH_BACKEND?: string;
+  // Localização da clínica (score de absenteísmo)
+  readonly VITE_CLINIC_CITY?: string;
+  readonly VITE_CLINIC_STATE?: string;
+  readonly VITE_CLINIC_ZIP_CODE?: string;
+  // Dias que pacientes excluídos ficam na lixeira antes do expurgo (padrão: 30)
+  readonly VITE_PATIENT_TRASH_RETENTION_DAYS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,25 @@
+-- Agendamentos de pacientes
+create table if not exists public.appointments (
+  id uuid primary key default gen_random_uuid(),
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  professional_name text not null,
+  start_at timestamptz not null,
+  end_at timestamptz not null,
+  status text not null default 'scheduled'
+    check (status in ('scheduled', 'confirmed', 'completed', 'cancelled', 'no_show')),
+  reason text,
+  notes text,
+  confirmed_at timestamptz,
+  cancelled_at timestamptz,
+  cancellation_reason text,
+  completed_at timestamptz,
+  reschedule_count integer not null default 0,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  constraint appointments_period_check check (end_at > start_at)
+);
+
+create index if not exists appointments_patient_id_start_at_idx
+  on public.appointments (patient_id, start_at);
+create index if not exists appointments_start_at_idx
+  on public.appointments (start_at);
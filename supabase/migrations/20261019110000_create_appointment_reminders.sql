@@ -0,0 +1,28 @@
+-- Lembretes de confirmação de agendamentos (D-2, D-1) e seu status de entrega/resposta
+create table if not exists public.appointment_reminders (
+  id uuid primary key default gen_random_uuid(),
+  appointment_id uuid not null references public.appointments (id) on delete cascade,
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  channel text not null check (channel in ('whatsapp', 'sms', 'email')),
+  offset_days integer not null,
+  scheduled_for timestamptz not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'sent', 'delivered', 'failed', 'cancelled', 'skipped')),
+  recipient text,
+  message text,
+  provider_message_id text,
+  sent_at timestamptz,
+  delivered_at timestamptz,
+  failure_reason text,
+  reply text check (reply in ('confirmed', 'cancelled', 'other')),
+  reply_text text,
+  replied_at timestamptz,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create index if not exists appointment_reminders_appointment_id_idx
+  on public.appointment_reminders (appointment_id);
+create index if not exists appointment_reminders_pending_idx
+  on public.appointment_reminders (scheduled_for)
+  where status = 'pending';
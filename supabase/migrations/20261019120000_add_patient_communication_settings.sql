@@ -0,0 +1,13 @@
+-- Preferências de comunicação do paciente: janela de contato e consentimento de marketing (LGPD)
+alter table public.patients
+  add column if not exists preferred_contact_start text
+    check (preferred_contact_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  add column if not exists preferred_contact_end text
+    check (preferred_contact_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  add column if not exists marketing_consent boolean not null default false,
+  add column if not exists marketing_consent_at timestamptz;
+
+alter table public.patients
+  add constraint patients_preferred_contact_window_check
+    check (preferred_contact_start is null or preferred_contact_end is null
+      or preferred_contact_start < preferred_contact_end);
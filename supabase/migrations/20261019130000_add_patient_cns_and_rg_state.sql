@@ -0,0 +1,6 @@
+-- Cartão Nacional de Saúde e UF emissora do RG (define o formato esperado do RG)
+alter table public.patients
+  add column if not exists cns text check (cns ~ '^\d{15}$'),
+  add column if not exists rg_state text check (rg_state ~ '^[A-Z]{2}$');
+
+create unique index if not exists patients_cns_key on public.patients (cns) where cns is not null;
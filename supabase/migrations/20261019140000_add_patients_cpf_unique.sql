@@ -0,0 +1,5 @@
+-- CPF identifica o paciente: impede cadastros duplicados também no banco
+create unique index if not exists patients_cpf_key on public.patients (cpf);
+
+create index if not exists patients_birth_date_idx on public.patients (birth_date);
+create index if not exists patients_phone_primary_idx on public.patients (phone_primary);
@@ -0,0 +1,33 @@
+-- Mesclagem de cadastros: o paciente absorvido vira tombstone apontando para o sobrevivente
+alter table public.patients
+  add column if not exists merged_into_id uuid references public.patients (id),
+  add column if not exists merged_at timestamptz;
+
+create index if not exists patients_merged_into_id_idx on public.patients (merged_into_id);
+
+-- Unicidade de CPF/CNS apenas entre cadastros ativos (o tombstone mantém os dados originais)
+drop index if exists public.patients_cpf_key;
+create unique index patients_cpf_key on public.patients (cpf) where merged_into_id is null;
+drop index if exists public.patients_cns_key;
+create unique index patients_cns_key on public.patients (cns) where cns is not null and merged_into_id is null;
+
+-- Histórico auditável das mesclagens (permite desfazer dentro do prazo)
+create table if not exists public.patient_merges (
+  id uuid primary key default gen_random_uuid(),
+  survivor_id uuid not null references public.patients (id),
+  merged_id uuid not null references public.patients (id),
+  field_choices jsonb not null default '{}'::jsonb,
+  survivor_snapshot jsonb not null,
+  merged_snapshot jsonb not null,
+  repointed jsonb not null default '{}'::jsonb,
+  merged_by text not null,
+  merged_at timestamptz not null default now(),
+  undo_deadline timestamptz not null,
+  undone_at timestamptz,
+  undone_by text,
+  created_at timestamptz default now(),
+  check (survivor_id <> merged_id)
+);
+
+create index if not exists patient_merges_survivor_id_idx on public.patient_merges (survivor_id);
+create index if not exists patient_merges_merged_id_idx on public.patient_merges (merged_id);
@@ -0,0 +1,26 @@
+-- Exclusão lógica de pacientes (lixeira) com expurgo após o prazo de retenção
+alter table public.patients
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+create index if not exists patients_deleted_at_idx on public.patients (deleted_at) where deleted_at is not null;
+
+-- Remove definitivamente os pacientes na lixeira há mais de `retention_days` dias.
+-- Tombstones de mesclagem e pacientes referenciados por mesclagens são mantidos (histórico auditável).
+-- Agendar com pg_cron, ex.: select cron.schedule('purge-patients', '0 3 * * *', 'select public.purge_deleted_patients(30)');
+create or replace function public.purge_deleted_patients(retention_days integer default 30)
+returns integer
+language plpgsql
+as $$
+declare
+  purged integer;
+begin
+  delete from public.patients p
+  where p.deleted_at < now() - make_interval(days => retention_days)
+    and p.merged_into_id is null
+    and not exists (select 1 from public.patients t where t.merged_into_id = p.id)
+    and not exists (select 1 from public.patient_merges m where m.survivor_id = p.id or m.merged_id = p.id);
+  get diagnostics purged = row_count;
+  return purged;
+end;
+$$;
@@ -0,0 +1,30 @@
+-- Trilha de auditoria de Pacientes: quem alterou o quê e quando, com o estado resultante
+-- Sem chave estrangeira para patients: o histórico permanece após o expurgo do cadastro.
+create table if not exists public.patient_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  patient_id uuid not null,
+  action text not null
+    check (action in ('create', 'update', 'delete', 'restore', 'purge', 'merge', 'revert')),
+  changes jsonb not null default '[]'::jsonb,
+  snapshot jsonb not null,
+  actor text not null,
+  occurred_at timestamptz not null default now()
+);
+
+create index if not exists patient_audit_log_patient_id_idx
+  on public.patient_audit_log (patient_id, occurred_at desc);
+
+-- Registros de auditoria não podem ser alterados nem removidos
+create or replace function public.prevent_audit_log_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'patient_audit_log é somente inclusão';
+end;
+$$;
+
+drop trigger if exists patient_audit_log_immutable on public.patient_audit_log;
+create trigger patient_audit_log_immutable
+  before update or delete on public.patient_audit_log
+  for each row execute function public.prevent_audit_log_changes();
@@ -0,0 +1,106 @@
+-- Controle de acesso por perfil (espelha src/lib/permissions.ts)
+-- O perfil vem de auth.users.raw_app_meta_data ->> 'role', definido pelo administrador:
+--   update auth.users set raw_app_meta_data = raw_app_meta_data || '{"role":"reception"}' where email = '...';
+-- Perfis: reception, doctor, nurse, billing, admin. Usuário sem perfil não acessa dados de pacientes.
+
+create or replace function public.current_app_role()
+returns text
+language sql
+stable
+as $$
+  select coalesce(auth.jwt() -> 'app_metadata' ->> 'role', '')
+$$;
+
+-- Pacientes ---------------------------------------------------------------
+alter table public.patients enable row level security;
+
+drop policy if exists patients_select on public.patients;
+create policy patients_select on public.patients
+  for select to authenticated
+  using (public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin'));
+
+drop policy if exists patients_insert on public.patients;
+create policy patients_insert on public.patients
+  for insert to authenticated
+  with check (public.current_app_role() in ('reception', 'admin'));
+
+drop policy if exists patients_update on public.patients;
+create policy patients_update on public.patients
+  for update to authenticated
+  using (public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin'))
+  with check (public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin'));
+
+-- Remoção definitiva: somente administradores (a exclusão comum é lógica, via deleted_at)
+drop policy if exists patients_delete on public.patients;
+create policy patients_delete on public.patients
+  for delete to authenticated
+  using (public.current_app_role() = 'admin');
+
+-- RLS atua por linha; as restrições por campo na gravação ficam neste gatilho.
+-- A ocultação de observations e behavior_score para o faturamento na leitura é feita pela aplicação.
+create or replace function public.enforce_patient_field_permissions()
+returns trigger
+language plpgsql
+as $$
+declare
+  role text := public.current_app_role();
+begin
+  -- Chamadas sem usuário (service role, pg_cron) não passam pelas regras de perfil
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if (new.deleted_at is distinct from old.deleted_at or new.merged_into_id is distinct from old.merged_into_id)
+     and role not in ('reception', 'admin') then
+    raise exception 'Perfil % não pode excluir, restaurar ou mesclar pacientes', role using errcode = '42501';
+  end if;
+
+  if role = 'reception' and new.observations is distinct from old.observations then
+    raise exception 'Perfil % não pode alterar observações', role using errcode = '42501';
+  end if;
+
+  -- Faturamento altera apenas contato e endereço (e o que o próprio sistema recalcula)
+  if role = 'billing' and (
+    to_jsonb(new) - array[
+      'email', 'phone_primary', 'phone_secondary', 'address_zip_code', 'address_street', 'address_number',
+      'address_complement', 'address_district', 'address_city', 'address_state', 'updated_at'
+    ]
+  ) is distinct from (
+    to_jsonb(old) - array[
+      'email', 'phone_primary', 'phone_secondary', 'address_zip_code', 'address_street', 'address_number',
+      'address_complement', 'address_district', 'address_city', 'address_state', 'updated_at'
+    ]
+  ) then
+    raise exception 'Perfil % só pode alterar contato e endereço', role using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists patients_field_permissions on public.patients;
+create trigger patients_field_permissions
+  before update on public.patients
+  for each row execute function public.enforce_patient_field_permissions();
+
+-- Trilha de auditoria -----------------------------------------------------
+alter table public.patient_audit_log enable row level security;
+
+drop policy if exists patient_audit_log_select on public.patient_audit_log;
+create policy patient_audit_log_select on public.patient_audit_log
+  for select to authenticated
+  using (public.current_app_role() in ('reception', 'doctor', 'nurse', 'admin'));
+
+drop policy if exists patient_audit_log_insert on public.patient_audit_log;
+create policy patient_audit_log_insert on public.patient_audit_log
+  for insert to authenticated
+  with check (public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin'));
+
+-- Mesclagens --------------------------------------------------------------
+alter table public.patient_merges enable row level security;
+
+drop policy if exists patient_merges_all on public.patient_merges;
+create policy patient_merges_all on public.patient_merges
+  for all to authenticated
+  using (public.current_app_role() in ('reception', 'admin'))
+  with check (public.current_app_role() in ('reception', 'admin'));
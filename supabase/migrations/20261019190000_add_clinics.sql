@@ -0,0 +1,164 @@
+-- Multi-clínica: cada cadastro pertence a uma clínica e o usuário só acessa as clínicas em que atua.
+-- Vínculo de usuários (feito pelo administrador):
+--   insert into public.clinic_members (clinic_id, user_id) select '<clinic_id>', id from auth.users where email = '...';
+
+create table if not exists public.clinics (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  city text,
+  state text,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.clinic_members (
+  clinic_id uuid not null references public.clinics (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (clinic_id, user_id)
+);
+
+create index if not exists clinic_members_user_id_idx on public.clinic_members (user_id);
+
+-- Clínica que recebe os registros existentes (mesmo id de DEFAULT_CLINIC_ID em src/lib/currentClinic.ts)
+insert into public.clinics (id, name)
+values ('00000000-0000-0000-0000-000000000001', 'Clínica principal')
+on conflict (id) do nothing;
+
+-- clinic_id nas entidades ------------------------------------------------
+-- O default só preenche as linhas existentes (sem disparar gatilhos de update, como o da auditoria imutável);
+-- depois é removido para que todo novo registro informe a clínica.
+alter table public.patients
+  add column if not exists clinic_id uuid not null default '00000000-0000-0000-0000-000000000001'
+  references public.clinics (id);
+alter table public.patients alter column clinic_id drop default;
+
+alter table public.appointments
+  add column if not exists clinic_id uuid not null default '00000000-0000-0000-0000-000000000001'
+  references public.clinics (id);
+alter table public.appointments alter column clinic_id drop default;
+
+alter table public.appointment_reminders
+  add column if not exists clinic_id uuid not null default '00000000-0000-0000-0000-000000000001'
+  references public.clinics (id);
+alter table public.appointment_reminders alter column clinic_id drop default;
+
+alter table public.patient_merges
+  add column if not exists clinic_id uuid not null default '00000000-0000-0000-0000-000000000001'
+  references public.clinics (id);
+alter table public.patient_merges alter column clinic_id drop default;
+
+alter table public.patient_audit_log
+  add column if not exists clinic_id uuid not null default '00000000-0000-0000-0000-000000000001'
+  references public.clinics (id);
+alter table public.patient_audit_log alter column clinic_id drop default;
+
+create index if not exists patients_clinic_id_idx on public.patients (clinic_id);
+create index if not exists appointments_clinic_id_start_at_idx on public.appointments (clinic_id, start_at);
+create index if not exists appointment_reminders_clinic_id_idx on public.appointment_reminders (clinic_id);
+create index if not exists patient_merges_clinic_id_idx on public.patient_merges (clinic_id);
+create index if not exists patient_audit_log_clinic_id_idx on public.patient_audit_log (clinic_id);
+
+-- CPF e CNS passam a ser únicos por clínica (o mesmo paciente pode ser atendido em mais de uma)
+drop index if exists public.patients_cpf_key;
+create unique index patients_cpf_key on public.patients (clinic_id, cpf) where merged_into_id is null;
+drop index if exists public.patients_cns_key;
+create unique index patients_cns_key on public.patients (clinic_id, cns) where cns is not null and merged_into_id is null;
+
+-- Acesso ------------------------------------------------------------------
+-- security definer: a consulta a clinic_members não depende das políticas da própria tabela
+create or replace function public.is_clinic_member(target_clinic_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.clinic_members
+    where clinic_id = target_clinic_id and user_id = auth.uid()
+  )
+$$;
+
+alter table public.clinics enable row level security;
+
+drop policy if exists clinics_select on public.clinics;
+create policy clinics_select on public.clinics
+  for select to authenticated
+  using (public.is_clinic_member(id));
+
+alter table public.clinic_members enable row level security;
+
+drop policy if exists clinic_members_select on public.clinic_members;
+create policy clinic_members_select on public.clinic_members
+  for select to authenticated
+  using (user_id = auth.uid());
+
+-- Pacientes: regras por perfil de 20261019180000 mais o vínculo com a clínica do registro
+drop policy if exists patients_select on public.patients;
+create policy patients_select on public.patients
+  for select to authenticated
+  using (
+    public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+    and public.is_clinic_member(clinic_id)
+  );
+
+drop policy if exists patients_insert on public.patients;
+create policy patients_insert on public.patients
+  for insert to authenticated
+  with check (public.current_app_role() in ('reception', 'admin') and public.is_clinic_member(clinic_id));
+
+drop policy if exists patients_update on public.patients;
+create policy patients_update on public.patients
+  for update to authenticated
+  using (
+    public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+    and public.is_clinic_member(clinic_id)
+  )
+  with check (
+    public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+    and public.is_clinic_member(clinic_id)
+  );
+
+drop policy if exists patients_delete on public.patients;
+create policy patients_delete on public.patients
+  for delete to authenticated
+  using (public.current_app_role() = 'admin' and public.is_clinic_member(clinic_id));
+
+drop policy if exists patient_audit_log_select on public.patient_audit_log;
+create policy patient_audit_log_select on public.patient_audit_log
+  for select to authenticated
+  using (
+    public.current_app_role() in ('reception', 'doctor', 'nurse', 'admin')
+    and public.is_clinic_member(clinic_id)
+  );
+
+drop policy if exists patient_audit_log_insert on public.patient_audit_log;
+create policy patient_audit_log_insert on public.patient_audit_log
+  for insert to authenticated
+  with check (
+    public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+    and public.is_clinic_member(clinic_id)
+  );
+
+drop policy if exists patient_merges_all on public.patient_merges;
+create policy patient_merges_all on public.patient_merges
+  for all to authenticated
+  using (public.current_app_role() in ('reception', 'admin') and public.is_clinic_member(clinic_id))
+  with check (public.current_app_role() in ('reception', 'admin') and public.is_clinic_member(clinic_id));
+
+-- Agenda e lembretes: qualquer perfil da clínica (o envio agendado usa service role e ignora RLS)
+alter table public.appointments enable row level security;
+
+drop policy if exists appointments_all on public.appointments;
+create policy appointments_all on public.appointments
+  for all to authenticated
+  using (public.current_app_role() <> '' and public.is_clinic_member(clinic_id))
+  with check (public.current_app_role() <> '' and public.is_clinic_member(clinic_id));
+
+alter table public.appointment_reminders enable row level security;
+
+drop policy if exists appointment_reminders_all on public.appointment_reminders;
+create policy appointment_reminders_all on public.appointment_reminders
+  for all to authenticated
+  using (public.current_app_role() <> '' and public.is_clinic_member(clinic_id))
+  with check (public.current_app_role() <> '' and public.is_clinic_member(clinic_id));
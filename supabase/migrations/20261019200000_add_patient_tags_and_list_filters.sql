@@ -0,0 +1,13 @@
+-- Etiquetas e apoio aos filtros avançados da listagem de pacientes
+
+alter table public.patients add column if not exists tags text[] not null default '{}';
+create index if not exists patients_tags_idx on public.patients using gin (tags);
+
+-- Mês de nascimento materializado para o filtro de aniversariantes (o PostgREST não filtra por expressão)
+alter table public.patients
+  add column if not exists birth_month smallint generated always as (extract(month from birth_date)::smallint) stored;
+create index if not exists patients_clinic_birth_month_idx on public.patients (clinic_id, birth_month);
+
+create index if not exists patients_clinic_address_state_idx on public.patients (clinic_id, address_state);
+create index if not exists patients_clinic_created_at_idx on public.patients (clinic_id, created_at);
+create index if not exists patients_clinic_risk_idx on public.patients (clinic_id, absenteeism_risk_score);
@@ -0,0 +1,118 @@
+-- Busca de pacientes sem acentos, por palavras, com tolerância a erros de digitação e ordem por relevância.
+-- Mesmas regras e pesos de src/lib/patientSearch.ts (backends em memória e localStorage), exceto a comparação
+-- aproximada de palavras, que aqui usa a similaridade de trigramas do pg_trgm (substituída pela mesma distância
+-- de edição do front-end em 20261020010000).
+
+create extension if not exists unaccent with schema extensions;
+create extension if not exists pg_trgm with schema extensions;
+
+-- unaccent() não é immutable (depende do dicionário em uso); com o dicionário explícito o wrapper pode ser immutable
+create or replace function public.search_normalize(value text)
+returns text
+language sql
+immutable
+parallel safe
+as $$
+  select trim(regexp_replace(lower(extensions.unaccent('extensions.unaccent'::regdictionary, coalesce(value, ''))), '\s+', ' ', 'g'))
+$$;
+
+-- Igual, começa com ou contém o trecho
+create or replace function public.search_fragment_score(value text, fragment text, equal int, prefix int, contains int)
+returns int
+language sql
+immutable
+parallel safe
+as $$
+  select case
+    when coalesce(value, '') = '' or coalesce(fragment, '') = '' then 0
+    when value = fragment then equal
+    when strpos(value, fragment) = 1 then prefix
+    when strpos(value, fragment) > 0 then contains
+    else 0
+  end
+$$;
+
+-- Todas as palavras da busca precisam aparecer no texto; retorna a média das notas (0 se alguma faltar).
+-- Palavra igual 1, prefixo 0.9, trecho 0.8; palavras com 4+ letras aceitam similaridade de trigramas >= 0.5 (nota * 0.7).
+create or replace function public.search_words_score(tokens text[], value text)
+returns real
+language sql
+immutable
+parallel safe
+as $$
+  with words as (
+    select w
+    from unnest(string_to_array(regexp_replace(public.search_normalize(value), '[^a-z ]', '', 'g'), ' ')) as w
+    where w <> ''
+  ),
+  scores as (
+    select greatest(
+      coalesce((
+        select max(case when w = t then 1 when strpos(w, t) = 1 then 0.9 when strpos(w, t) > 0 then 0.8 else 0 end)
+        from words
+      ), 0),
+      case
+        when length(t) >= 4 and extensions.word_similarity(t, public.search_normalize(value)) >= 0.5
+          then extensions.word_similarity(t, public.search_normalize(value)) * 0.7
+        else 0
+      end
+    ) as score
+    from unnest(tokens) as t
+  )
+  select case when count(*) = 0 or coalesce(bool_or(score = 0), true) then 0 else avg(score) end::real
+  from scores
+$$;
+
+-- Pacientes que correspondem ao termo, do mais relevante ao menos relevante (empate: mais recentes primeiro).
+-- Termo vazio retorna todos. Clínica, lixeira, filtros e paginação são aplicados pelo PostgREST sobre o resultado;
+-- security invoker: as políticas de RLS de patients continuam valendo.
+create or replace function public.search_patients(search_term text default '')
+returns setof public.patients
+language sql
+stable
+as $$
+  with q as (
+    select
+      public.search_normalize(search_term) as text,
+      array(
+        select w
+        from unnest(string_to_array(regexp_replace(public.search_normalize(search_term), '[^a-z ]', '', 'g'), ' ')) as w
+        where w <> '' and w not in ('de', 'da', 'do', 'das', 'dos', 'e')
+      ) as tokens,
+      case
+        when public.search_normalize(search_term) ~ '[a-z]' then ''
+        else regexp_replace(coalesce(search_term, ''), '\D', '', 'g')
+      end as digits,
+      regexp_replace(public.search_normalize(search_term), '[^a-z0-9]', '', 'g') as compact
+  ),
+  ranked as (
+    select p, greatest(
+      -- Nome completo ou nome social: frase inteira, depois palavras em qualquer ordem
+      public.search_fragment_score(public.search_normalize(p.full_name), q.text, 100, 90, 80),
+      public.search_fragment_score(public.search_normalize(p.social_name), q.text, 100, 90, 80),
+      coalesce(nullif(40 + 30 * public.search_words_score(q.tokens, concat_ws(' ', p.full_name, p.social_name)), 40), 0),
+      -- Nome da mãe e e-mail pesam menos
+      coalesce(nullif(20 + 10 * public.search_words_score(q.tokens, p.mother_name), 20), 0),
+      public.search_fragment_score(public.search_normalize(p.email), q.text, 30, 28, 25),
+      -- Código legado e RG por trecho alfanumérico ("AB-12" encontra "ab12")
+      case when length(q.compact) >= 2 then greatest(
+        public.search_fragment_score(regexp_replace(public.search_normalize(p.legacy_code), '[^a-z0-9]', '', 'g'), q.compact, 95, 75, 70),
+        public.search_fragment_score(regexp_replace(public.search_normalize(p.rg), '[^a-z0-9]', '', 'g'), q.compact, 95, 75, 70)
+      ) else 0 end,
+      -- CPF, telefones e RG por trecho de dígitos, ignorando a máscara
+      case when length(q.digits) >= 3 then greatest(
+        public.search_fragment_score(regexp_replace(p.cpf, '\D', '', 'g'), q.digits, 100, 85, 70),
+        public.search_fragment_score(regexp_replace(coalesce(p.phone_primary, ''), '\D', '', 'g'), q.digits, 100, 85, 70),
+        public.search_fragment_score(regexp_replace(coalesce(p.phone_secondary, ''), '\D', '', 'g'), q.digits, 100, 85, 70),
+        public.search_fragment_score(regexp_replace(coalesce(p.rg, ''), '\D', '', 'g'), q.digits, 95, 75, 65)
+      ) else 0 end
+    ) as rank
+    from public.patients p, q
+  )
+  select (r.p).*
+  from ranked r, q
+  where q.text = '' or r.rank > 0
+  order by r.rank desc, (r.p).created_at desc
+$$;
+
+grant execute on function public.search_patients(text) to authenticated;
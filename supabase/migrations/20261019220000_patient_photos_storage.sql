@@ -0,0 +1,51 @@
+-- Fotos de pacientes no Supabase Storage
+-- Bucket privado: a aplicação exibe as fotos por URLs assinadas de curta duração.
+-- Caminho dos arquivos: <clinic_id>/<arquivo>.jpg; patients.photo_url guarda a referência "storage://patient-photos/<caminho>".
+
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('patient-photos', 'patient-photos', false, 1048576, array['image/jpeg', 'image/png', 'image/webp'])
+on conflict (id) do update
+  set public = excluded.public,
+      file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+-- Primeira pasta do caminho como clínica (null quando não é um uuid)
+create or replace function public.storage_clinic_id(object_name text)
+returns uuid
+language sql
+immutable
+as $$
+  select case
+    when (storage.foldername(object_name))[1] ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      then ((storage.foldername(object_name))[1])::uuid
+  end
+$$;
+
+-- Leitura: quem lê pacientes da clínica; gravação e remoção: perfis que podem alterar a foto
+-- (o faturamento não altera photo_url, ver src/lib/permissions.ts)
+drop policy if exists patient_photos_select on storage.objects;
+create policy patient_photos_select on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'patient-photos'
+    and public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+    and public.is_clinic_member(public.storage_clinic_id(name))
+  );
+
+drop policy if exists patient_photos_insert on storage.objects;
+create policy patient_photos_insert on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'patient-photos'
+    and public.current_app_role() in ('reception', 'doctor', 'nurse', 'admin')
+    and public.is_clinic_member(public.storage_clinic_id(name))
+  );
+
+drop policy if exists patient_photos_delete on storage.objects;
+create policy patient_photos_delete on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'patient-photos'
+    and public.current_app_role() in ('reception', 'doctor', 'nurse', 'admin')
+    and public.is_clinic_member(public.storage_clinic_id(name))
+  );
@@ -0,0 +1,106 @@
+-- Documentos anexados ao cadastro do paciente (identificação, carteirinha do convênio, exames, termos de consentimento)
+-- Os arquivos ficam no bucket privado patient-documents, em <clinic_id>/<patient_id>/<arquivo>;
+-- file_ref guarda a referência "storage://patient-documents/<caminho>" (ver src/services/fileStorageService.ts).
+
+create table if not exists public.patient_documents (
+  id uuid primary key default gen_random_uuid(),
+  clinic_id uuid not null references public.clinics (id),
+  patient_id uuid not null references public.patients (id) on delete cascade,
+  document_type text not null
+    check (document_type in ('identity', 'insurance_card', 'exam_result', 'consent_form', 'other')),
+  description text,
+  issued_at date,
+  expires_at date,
+  file_ref text not null,
+  file_name text not null,
+  mime_type text not null,
+  size_bytes integer not null check (size_bytes >= 0),
+  uploaded_by text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  constraint patient_documents_dates_check check (issued_at is null or expires_at is null or expires_at >= issued_at)
+);
+
+create index if not exists patient_documents_patient_id_idx on public.patient_documents (patient_id);
+create index if not exists patient_documents_clinic_id_expires_at_idx
+  on public.patient_documents (clinic_id, expires_at)
+  where expires_at is not null;
+
+-- Acesso (mesmas regras de src/lib/permissions.ts): todos os perfis leem e anexam (o faturamento anexa
+-- carteirinhas); recepção, médicos, enfermagem e administradores alteram; só recepção e administradores excluem
+alter table public.patient_documents enable row level security;
+
+drop policy if exists patient_documents_select on public.patient_documents;
+create policy patient_documents_select on public.patient_documents
+  for select to authenticated
+  using (
+    public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+    and public.is_clinic_member(clinic_id)
+  );
+
+drop policy if exists patient_documents_insert on public.patient_documents;
+create policy patient_documents_insert on public.patient_documents
+  for insert to authenticated
+  with check (
+    public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+    and public.is_clinic_member(clinic_id)
+  );
+
+drop policy if exists patient_documents_update on public.patient_documents;
+create policy patient_documents_update on public.patient_documents
+  for update to authenticated
+  using (
+    public.current_app_role() in ('reception', 'doctor', 'nurse', 'admin')
+    and public.is_clinic_member(clinic_id)
+  )
+  with check (
+    public.current_app_role() in ('reception', 'doctor', 'nurse', 'admin')
+    and public.is_clinic_member(clinic_id)
+  );
+
+drop policy if exists patient_documents_delete on public.patient_documents;
+create policy patient_documents_delete on public.patient_documents
+  for delete to authenticated
+  using (public.current_app_role() in ('reception', 'admin') and public.is_clinic_member(clinic_id));
+
+-- Arquivos --------------------------------------------------------------------
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'patient-documents',
+  'patient-documents',
+  false,
+  10485760,
+  array['application/pdf', 'image/jpeg', 'image/png', 'image/webp']
+)
+on conflict (id) do update
+  set public = excluded.public,
+      file_size_limit = excluded.file_size_limit,
+      allowed_mime_types = excluded.allowed_mime_types;
+
+-- Pasta da clínica como em patient-photos (public.storage_clinic_id, 20261019220000)
+drop policy if exists patient_documents_files_select on storage.objects;
+create policy patient_documents_files_select on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'patient-documents'
+    and public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+    and public.is_clinic_member(public.storage_clinic_id(name))
+  );
+
+drop policy if exists patient_documents_files_insert on storage.objects;
+create policy patient_documents_files_insert on storage.objects
+  for insert to authenticated
+  with check (
+    bucket_id = 'patient-documents'
+    and public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+    and public.is_clinic_member(public.storage_clinic_id(name))
+  );
+
+drop policy if exists patient_documents_files_delete on storage.objects;
+create policy patient_documents_files_delete on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'patient-documents'
+    and public.current_app_role() in ('reception', 'admin')
+    and public.is_clinic_member(public.storage_clinic_id(name))
+  );
@@ -0,0 +1,172 @@
+-- Leitura por campo no banco (espelha FIELD_RULES de src/lib/permissions.ts)
+-- RLS atua por linha: com select direto em patients, o faturamento receberia observations e behavior_score
+-- por uma chamada ao PostgREST. A leitura passa a ser feita pela view patient_records, que aplica as mesmas
+-- regras de linha de patients_select e devolve esses campos vazios para o faturamento.
+-- Novas colunas de patients precisam ser incluídas na view.
+
+create or replace view public.patient_records
+with (security_barrier = true)
+as
+select
+  p.id,
+  p.clinic_id,
+  p.full_name,
+  p.social_name,
+  p.cpf,
+  p.rg,
+  p.rg_state,
+  p.cns,
+  p.other_document_type,
+  p.other_document_number,
+  p.gender,
+  p.birth_date,
+  p.birth_month,
+  p.ethnicity,
+  p.race,
+  p.nationality,
+  p.birth_city,
+  p.birth_state,
+  p.profession,
+  p.marital_status,
+  p.mother_name,
+  p.father_name,
+  p.responsible_name,
+  p.responsible_cpf,
+  p.legacy_code,
+  p.tags,
+  p.photo_url,
+  p.email,
+  p.phone_primary,
+  p.phone_secondary,
+  p.address_zip_code,
+  p.address_street,
+  p.address_number,
+  p.address_complement,
+  p.address_district,
+  p.address_city,
+  p.address_state,
+  p.communication_preferences,
+  p.preferred_contact_start,
+  p.preferred_contact_end,
+  p.marketing_consent,
+  p.marketing_consent_at,
+  p.absenteeism_risk_score,
+  p.merged_into_id,
+  p.merged_at,
+  p.deleted_at,
+  p.deleted_by,
+  p.created_at,
+  p.updated_at,
+  case when public.current_app_role() <> 'billing' then p.observations end as observations,
+  case when public.current_app_role() <> 'billing' then p.behavior_score end as behavior_score
+from public.patients p
+-- A view roda com os privilégios do dono (ignora o RLS de patients): as regras de linha ficam aqui
+where public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+  and public.is_clinic_member(p.clinic_id);
+
+grant select on public.patient_records to authenticated;
+
+-- Sem select direto na tabela; id e updated_at continuam legíveis para os filtros de update/delete
+-- (atualização condicional da edição simultânea) e para o retorno do id atualizado.
+revoke select on public.patients from anon, authenticated;
+grant select (id, updated_at) on public.patients to authenticated;
+
+-- Busca ---------------------------------------------------------------------
+drop function if exists public.search_patients(text);
+
+-- Pacientes que correspondem ao termo, do mais relevante ao menos relevante (empate: mais recentes primeiro).
+-- Termo vazio retorna todos. Clínica, lixeira, filtros e paginação são aplicados pelo PostgREST sobre o resultado;
+-- security invoker sobre patient_records: valem as mesmas regras de leitura da view.
+create or replace function public.search_patients(search_term text default '')
+returns setof public.patient_records
+language sql
+stable
+as $$
+  with q as (
+    select
+      public.search_normalize(search_term) as text,
+      array(
+        select w
+        from unnest(string_to_array(regexp_replace(public.search_normalize(search_term), '[^a-z ]', '', 'g'), ' ')) as w
+        where w <> '' and w not in ('de', 'da', 'do', 'das', 'dos', 'e')
+      ) as tokens,
+      case
+        when public.search_normalize(search_term) ~ '[a-z]' then ''
+        else regexp_replace(coalesce(search_term, ''), '\D', '', 'g')
+      end as digits,
+      regexp_replace(public.search_normalize(search_term), '[^a-z0-9]', '', 'g') as compact
+  ),
+  ranked as (
+    select p, greatest(
+      -- Nome completo ou nome social: frase inteira, depois palavras em qualquer ordem
+      public.search_fragment_score(public.search_normalize(p.full_name), q.text, 100, 90, 80),
+      public.search_fragment_score(public.search_normalize(p.social_name), q.text, 100, 90, 80),
+      coalesce(nullif(40 + 30 * public.search_words_score(q.tokens, concat_ws(' ', p.full_name, p.social_name)), 40), 0),
+      -- Nome da mãe e e-mail pesam menos
+      coalesce(nullif(20 + 10 * public.search_words_score(q.tokens, p.mother_name), 20), 0),
+      public.search_fragment_score(public.search_normalize(p.email), q.text, 30, 28, 25),
+      -- Código legado e RG por trecho alfanumérico ("AB-12" encontra "ab12")
+      case when length(q.compact) >= 2 then greatest(
+        public.search_fragment_score(regexp_replace(public.search_normalize(p.legacy_code), '[^a-z0-9]', '', 'g'), q.compact, 95, 75, 70),
+        public.search_fragment_score(regexp_replace(public.search_normalize(p.rg), '[^a-z0-9]', '', 'g'), q.compact, 95, 75, 70)
+      ) else 0 end,
+      -- CPF, telefones e RG por trecho de dígitos, ignorando a máscara
+      case when length(q.digits) >= 3 then greatest(
+        public.search_fragment_score(regexp_replace(p.cpf, '\D', '', 'g'), q.digits, 100, 85, 70),
+        public.search_fragment_score(regexp_replace(coalesce(p.phone_primary, ''), '\D', '', 'g'), q.digits, 100, 85, 70),
+        public.search_fragment_score(regexp_replace(coalesce(p.phone_secondary, ''), '\D', '', 'g'), q.digits, 100, 85, 70),
+        public.search_fragment_score(regexp_replace(coalesce(p.rg, ''), '\D', '', 'g'), q.digits, 95, 75, 65)
+      ) else 0 end
+    ) as rank
+    from public.patient_records p, q
+  )
+  select (r.p).*
+  from ranked r, q
+  where q.text = '' or r.rank > 0
+  order by r.rank desc, (r.p).created_at desc
+$$;
+
+grant execute on function public.search_patients(text) to authenticated;
+
+-- Gravação por campo ---------------------------------------------------------
+-- Igual a 20261019180000, com absenteeism_risk_score entre os campos que o faturamento pode alterar:
+-- o score é recalculado pelo sistema a cada mudança na agenda, feita por qualquer perfil.
+create or replace function public.enforce_patient_field_permissions()
+returns trigger
+language plpgsql
+as $$
+declare
+  role text := public.current_app_role();
+begin
+  -- Chamadas sem usuário (service role, pg_cron) não passam pelas regras de perfil
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  if (new.deleted_at is distinct from old.deleted_at or new.merged_into_id is distinct from old.merged_into_id)
+     and role not in ('reception', 'admin') then
+    raise exception 'Perfil % não pode excluir, restaurar ou mesclar pacientes', role using errcode = '42501';
+  end if;
+
+  if role = 'reception' and new.observations is distinct from old.observations then
+    raise exception 'Perfil % não pode alterar observações', role using errcode = '42501';
+  end if;
+
+  -- Faturamento altera apenas contato e endereço (e o que o próprio sistema recalcula)
+  if role = 'billing' and (
+    to_jsonb(new) - array[
+      'email', 'phone_primary', 'phone_secondary', 'address_zip_code', 'address_street', 'address_number',
+      'address_complement', 'address_district', 'address_city', 'address_state', 'absenteeism_risk_score', 'updated_at'
+    ]
+  ) is distinct from (
+    to_jsonb(old) - array[
+      'email', 'phone_primary', 'phone_secondary', 'address_zip_code', 'address_street', 'address_number',
+      'address_complement', 'address_district', 'address_city', 'address_state', 'absenteeism_risk_score', 'updated_at'
+    ]
+  ) then
+    raise exception 'Perfil % só pode alterar contato e endereço', role using errcode = '42501';
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,38 @@
+-- Comparação aproximada da busca igual à de src/lib/patientSearch.ts: distância de edição (Levenshtein)
+-- relativa à maior palavra, como stringSimilarity de src/lib/patientDuplicates.ts, no lugar da similaridade
+-- de trigramas. Partículas (de, da, do, das, dos, e) também deixam de contar como palavras do texto.
+-- search_patients (20261020000000) não muda: usa esta função.
+
+create extension if not exists fuzzystrmatch with schema extensions;
+
+-- Todas as palavras da busca precisam aparecer no texto; retorna a média das notas (0 se alguma faltar).
+-- Por palavra do texto: igual 1, prefixo 0.9, trecho 0.8; palavras da busca com 4+ letras aceitam
+-- similaridade >= 0.75 (nota = similaridade * 0.7). Vale a melhor nota entre as palavras do texto.
+create or replace function public.search_words_score(tokens text[], value text)
+returns real
+language sql
+immutable
+parallel safe
+as $$
+  with words as (
+    select w
+    from unnest(string_to_array(regexp_replace(public.search_normalize(value), '[^a-z ]', '', 'g'), ' ')) as w
+    where w <> '' and w not in ('de', 'da', 'do', 'das', 'dos', 'e')
+  ),
+  scores as (
+    select coalesce((
+      select max(case
+        when w = t then 1
+        when strpos(w, t) = 1 then 0.9
+        when strpos(w, t) > 0 then 0.8
+        when length(t) >= 4 and s.similarity >= 0.75 then s.similarity * 0.7
+        else 0
+      end)
+      from words,
+        lateral (select 1 - extensions.levenshtein(t, w)::real / greatest(length(t), length(w)) as similarity) s
+    ), 0) as score
+    from unnest(tokens) as t
+  )
+  select case when count(*) = 0 or coalesce(bool_or(score = 0), true) then 0 else avg(score) end::real
+  from scores
+$$;
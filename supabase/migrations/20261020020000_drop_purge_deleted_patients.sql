@@ -0,0 +1,6 @@
+-- O expurgo da lixeira passa a ser feito apenas pela aplicação (purgePatient e purgeExpiredPatients em
+-- src/services/patientsService.ts), que registra a auditoria "purge" e remove a foto e os documentos do
+-- armazenamento. A função de 20261019160000 apagava só a linha, sem auditoria e deixando os arquivos.
+-- Remova também o agendamento no pg_cron, se houver: select cron.unschedule('purge-patients');
+
+drop function if exists public.purge_deleted_patients(integer);
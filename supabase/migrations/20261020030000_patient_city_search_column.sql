@@ -0,0 +1,69 @@
+-- Filtro de cidade sem acento, como matchesPatientFilters (normalizeText) em src/lib/patientFilters.ts:
+-- ilike em address_city diferencia "Sao Paulo" de "São Paulo". A cidade normalizada fica materializada
+-- (o PostgREST não filtra por expressão) e a listagem compara o termo normalizado no cliente.
+
+alter table public.patients
+  add column if not exists address_city_search text generated always as (public.search_normalize(address_city)) stored;
+create index if not exists patients_clinic_address_city_search_idx on public.patients (clinic_id, address_city_search);
+
+-- Mesma view de 20261020000000, com a nova coluna no fim (create or replace view só acrescenta colunas)
+create or replace view public.patient_records
+with (security_barrier = true)
+as
+select
+  p.id,
+  p.clinic_id,
+  p.full_name,
+  p.social_name,
+  p.cpf,
+  p.rg,
+  p.rg_state,
+  p.cns,
+  p.other_document_type,
+  p.other_document_number,
+  p.gender,
+  p.birth_date,
+  p.birth_month,
+  p.ethnicity,
+  p.race,
+  p.nationality,
+  p.birth_city,
+  p.birth_state,
+  p.profession,
+  p.marital_status,
+  p.mother_name,
+  p.father_name,
+  p.responsible_name,
+  p.responsible_cpf,
+  p.legacy_code,
+  p.tags,
+  p.photo_url,
+  p.email,
+  p.phone_primary,
+  p.phone_secondary,
+  p.address_zip_code,
+  p.address_street,
+  p.address_number,
+  p.address_complement,
+  p.address_district,
+  p.address_city,
+  p.address_state,
+  p.communication_preferences,
+  p.preferred_contact_start,
+  p.preferred_contact_end,
+  p.marketing_consent,
+  p.marketing_consent_at,
+  p.absenteeism_risk_score,
+  p.merged_into_id,
+  p.merged_at,
+  p.deleted_at,
+  p.deleted_by,
+  p.created_at,
+  p.updated_at,
+  case when public.current_app_role() <> 'billing' then p.observations end as observations,
+  case when public.current_app_role() <> 'billing' then p.behavior_score end as behavior_score,
+  p.address_city_search
+from public.patients p
+-- A view roda com os privilégios do dono (ignora o RLS de patients): as regras de linha ficam aqui
+where public.current_app_role() in ('reception', 'doctor', 'nurse', 'billing', 'admin')
+  and public.is_clinic_member(p.clinic_id);